@@ -0,0 +1,30 @@
+import {
+  AsyncBatchProcessor,
+  EventType,
+  asyncProcessPartialResponse,
+} from '@aws-lambda-powertools/batch';
+import { Logger } from '@aws-lambda-powertools/logger';
+import type {
+  SQSEvent,
+  SQSRecord,
+  Context,
+  SQSBatchResponse,
+} from 'aws-lambda';
+
+const processor = new AsyncBatchProcessor(EventType.SQS);
+const logger = new Logger();
+
+const recordHandler = async (record: SQSRecord): Promise<void> => {
+  // This log item includes the `messageId` of the record
+  logger.info('Processing record', { body: record.body });
+};
+
+export const handler = async (
+  event: SQSEvent,
+  context: Context
+): Promise<SQSBatchResponse> => {
+  return asyncProcessPartialResponse(event, recordHandler, processor, {
+    context,
+    logger,
+  });
+};
@@ -0,0 +1,30 @@
+import {
+  AsyncBatchProcessor,
+  EventType,
+  asyncProcessPartialResponse,
+} from '@aws-lambda-powertools/batch';
+import { Tracer } from '@aws-lambda-powertools/tracer';
+import type {
+  SQSEvent,
+  SQSRecord,
+  Context,
+  SQSBatchResponse,
+} from 'aws-lambda';
+
+const processor = new AsyncBatchProcessor(EventType.SQS);
+const tracer = new Tracer({ serviceName: 'serverlessAirline' });
+
+const recordHandler = async (record: SQSRecord): Promise<void> => {
+  // This annotation is added to the subsegment of the record
+  tracer.putAnnotation('bookingId', JSON.parse(record.body).bookingId);
+};
+
+export const handler = async (
+  event: SQSEvent,
+  context: Context
+): Promise<SQSBatchResponse> => {
+  return asyncProcessPartialResponse(event, recordHandler, processor, {
+    context,
+    tracer,
+  });
+};
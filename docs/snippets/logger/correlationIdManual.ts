@@ -0,0 +1,12 @@
+import { Logger } from '@aws-lambda-powertools/logger';
+
+const logger = new Logger();
+
+export const handler = async (
+  event: { detail: { orderId: string } },
+  _context: unknown
+): Promise<void> => {
+  logger.setCorrelationId(event.detail.orderId);
+
+  logger.info('This is an INFO log with the order ID as correlation ID');
+};
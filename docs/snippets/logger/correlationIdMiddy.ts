@@ -0,0 +1,21 @@
+import {
+  Logger,
+  injectLambdaContext,
+  correlationPaths,
+} from '@aws-lambda-powertools/logger';
+import middy from '@middy/core';
+
+const logger = new Logger();
+
+const lambdaHandler = async (
+  _event: unknown,
+  _context: unknown
+): Promise<void> => {
+  logger.info('This is an INFO log with the correlation ID of the request');
+};
+
+export const handler = middy(lambdaHandler).use(
+  injectLambdaContext(logger, {
+    correlationIdPath: correlationPaths.API_GATEWAY_REST,
+  })
+);
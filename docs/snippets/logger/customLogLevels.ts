@@ -0,0 +1,21 @@
+import { Logger } from '@aws-lambda-powertools/logger';
+import type { LoggerWithCustomLogLevels } from '@aws-lambda-powertools/logger/lib/types';
+
+const customLogLevels = {
+  TRACE: { value: 4 },
+  NOTICE: { value: 14, consoleMethod: 'log' as const },
+  AUDIT: { value: 30, bypassThreshold: true },
+};
+
+const logger = new Logger({
+  logLevel: 'WARN',
+  customLogLevels,
+}) as LoggerWithCustomLogLevels<typeof customLogLevels>;
+
+export const handler = async (
+  _event: unknown,
+  _context: unknown
+): Promise<void> => {
+  logger.trace('This is not printed, TRACE is below WARN');
+  logger.audit('This is always printed', { userId: '123' });
+};
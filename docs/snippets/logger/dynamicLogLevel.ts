@@ -0,0 +1,22 @@
+import { Logger, injectLambdaContext } from '@aws-lambda-powertools/logger';
+import { getParameter } from '@aws-lambda-powertools/parameters/ssm';
+import middy from '@middy/core';
+
+const logger = new Logger({
+  logLevelSource: {
+    // i.e. {"logLevel": "WARN", "services": {"orders-service": "DEBUG"}}
+    source: () => getParameter('/my-app/log-level'),
+    maxAge: 300,
+  },
+});
+const childLogger = logger.createChild({ serviceName: 'orders-service' });
+
+const lambdaHandler = async (
+  _event: unknown,
+  _context: unknown
+): Promise<void> => {
+  logger.debug('This is printed only if the log level is DEBUG');
+  childLogger.debug('This is printed for the orders-service');
+};
+
+export const handler = middy(lambdaHandler).use(injectLambdaContext(logger));
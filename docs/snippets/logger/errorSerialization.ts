@@ -0,0 +1,34 @@
+import { Logger, PowertoolLogFormatter } from '@aws-lambda-powertools/logger';
+
+class HttpError extends Error {
+  public constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly response: unknown
+  ) {
+    super(message);
+  }
+}
+
+const logFormatter = new PowertoolLogFormatter({
+  maxErrorDepth: 3,
+  maxStackFrames: 10,
+});
+// Keep the status code, but drop the response, of all the HttpError errors
+logFormatter.registerErrorSerializer(HttpError, (error) => ({
+  statusCode: error.statusCode,
+  response: undefined,
+}));
+
+const logger = new Logger({ logFormatter });
+
+export const handler = async (
+  _event: unknown,
+  _context: unknown
+): Promise<void> => {
+  try {
+    throw new HttpError('Payment service unavailable', 503, { body: '...' });
+  } catch (error) {
+    logger.error('Unable to process the payment', error as Error);
+  }
+};
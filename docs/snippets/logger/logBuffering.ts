@@ -0,0 +1,26 @@
+import { Logger, injectLambdaContext } from '@aws-lambda-powertools/logger';
+import middy from '@middy/core';
+
+const logger = new Logger({
+  logLevel: 'INFO',
+  logBufferOptions: {
+    enabled: true,
+    maxBytes: 10240,
+  },
+});
+
+const lambdaHandler = async (
+  event: { orderId: string },
+  _context: unknown
+): Promise<void> => {
+  // This log is buffered, it's printed only if an error occurs
+  logger.debug('Processing order', { orderId: event.orderId });
+
+  if (event.orderId === '') {
+    // The buffered DEBUG log is printed before this one
+    logger.error('Missing order id');
+  }
+};
+
+// The buffer is flushed if the handler throws, and discarded otherwise
+export const handler = middy(lambdaHandler).use(injectLambdaContext(logger));
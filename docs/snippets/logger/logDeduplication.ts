@@ -0,0 +1,22 @@
+import { Logger, injectLambdaContext } from '@aws-lambda-powertools/logger';
+import middy from '@middy/core';
+
+const logger = new Logger({
+  logDeduplicationOptions: {
+    enabled: true,
+    maxEntries: 5,
+  },
+});
+
+const lambdaHandler = async (
+  event: { orderIds: string[] },
+  _context: unknown
+): Promise<void> => {
+  for (const orderId of event.orderIds) {
+    // Only the first 5 of these logs are printed in each invocation
+    logger.warn('Order not found, skipping', { orderId });
+  }
+};
+
+// A single WARN log with the number of suppressed logs is printed at the end of the invocation
+export const handler = middy(lambdaHandler).use(injectLambdaContext(logger));
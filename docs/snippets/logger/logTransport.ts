@@ -0,0 +1,25 @@
+import {
+  Logger,
+  BatchHttpTransport,
+  ConsoleTransport,
+  FanOutTransport,
+} from '@aws-lambda-powertools/logger';
+
+const logger = new Logger({
+  logTransport: new FanOutTransport([
+    // Keep printing the logs to CloudWatch Logs
+    new ConsoleTransport(),
+    // And also send them in batches to a Lambda extension
+    new BatchHttpTransport({ url: 'http://localhost:4243/logs' }),
+  ]),
+});
+
+export const handler = async (
+  _event: unknown,
+  _context: unknown
+): Promise<void> => {
+  logger.info('This is an INFO log');
+
+  // Deliver the logs before the invocation ends
+  await logger.flushTransport();
+};
@@ -0,0 +1,23 @@
+import { Logger } from '@aws-lambda-powertools/logger';
+
+const logger = new Logger({
+  redactionRules: [
+    // Mask any value stored under these keys, at any depth
+    { keys: ['password', 'authorization'] },
+    // Leave visible only the last 4 digits of the card number
+    { paths: ['event.body.card.number'], strategy: 'keepLast', keepLast: 4 },
+    // Hash email addresses found in any string value
+    { patterns: [/[\w.+-]+@[\w-]+\.[\w.]+/], strategy: 'hash' },
+  ],
+});
+
+export const handler = async (
+  event: { body: { card: { number: string } } },
+  _context: unknown
+): Promise<void> => {
+  logger.logEventIfEnabled(event, true);
+
+  logger.info('Sending receipt to john@example.com', {
+    password: 'this is never printed',
+  });
+};
@@ -0,0 +1,31 @@
+import {
+  Logger,
+  ColdStartSamplingStrategy,
+  TraceIdSamplingStrategy,
+  injectLambdaContext,
+} from '@aws-lambda-powertools/logger';
+import middy from '@middy/core';
+
+// Sample the first 3 invocations after a cold start, and then 10% of the requests
+const logger = new Logger({
+  logLevel: 'ERROR',
+  sampleRateValue: 0.1,
+  samplingStrategy: new ColdStartSamplingStrategy({
+    invocations: 3,
+    strategy: new TraceIdSamplingStrategy(),
+  }),
+});
+
+const lambdaHandler = async (
+  _event: unknown,
+  _context: unknown
+): Promise<void> => {
+  logger.debug('This is a DEBUG log, printed only when the logs are sampled');
+};
+
+// The sampling decision is taken again at the start of each invocation
+export const handler = middy(lambdaHandler).use(
+  injectLambdaContext(logger, {
+    correlationIdPath: 'headers."x-correlation-id"',
+  })
+);
@@ -0,0 +1,33 @@
+import { Logger, injectLambdaContext } from '@aws-lambda-powertools/logger';
+import middy from '@middy/core';
+
+const logger = new Logger({
+  timingOptions: {
+    logLevel: 'INFO',
+    remainingTimeThresholdMs: 3000,
+  },
+});
+
+const fetchOrders = async (userId: string): Promise<string[]> => [userId];
+const saveReport = async (_orders: string[]): Promise<void> => undefined;
+
+const lambdaHandler = async (
+  event: { userId: string },
+  _context: unknown
+): Promise<void> => {
+  // Emits a log with `duration_ms`, `outcome` and the `userId` attribute
+  const orders = await logger.measure(
+    'Fetch orders',
+    () => fetchOrders(event.userId),
+    { userId: event.userId }
+  );
+
+  logger.time('Save report');
+  await saveReport(orders);
+  // Emits a log with `duration_ms` and the `ordersCount` attribute
+  logger.timeEnd('Save report', { ordersCount: orders.length });
+};
+
+// Emits a log with `handler_duration_ms` at the end of each invocation, and
+// a warning if the remaining time of the invocation drops below 3 seconds
+export const handler = middy(lambdaHandler).use(injectLambdaContext(logger));
@@ -0,0 +1,17 @@
+import { Logger, InMemoryTransport } from '@aws-lambda-powertools/logger';
+
+describe('Your test suite', () => {
+  test('it logs the order ID', () => {
+    // Prepare
+    const transport = new InMemoryTransport();
+    const logger = new Logger({ logTransport: transport });
+
+    // Act
+    logger.info('Processing order', { orderId: '123' });
+
+    // Assess
+    expect(transport.getLogs()).toEqual([
+      expect.objectContaining({ message: 'Processing order', orderId: '123' }),
+    ]);
+  });
+});
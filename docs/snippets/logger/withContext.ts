@@ -0,0 +1,22 @@
+import { Logger } from '@aws-lambda-powertools/logger';
+import type { SQSEvent, SQSRecord } from 'aws-lambda';
+
+const logger = new Logger();
+
+const processRecord = async (record: SQSRecord): Promise<void> => {
+  // This log item includes the `messageId` of the record being processed
+  logger.info('Processing record', { body: record.body });
+};
+
+export const handler = async (event: SQSEvent): Promise<void> => {
+  await Promise.all(
+    event.Records.map((record) =>
+      logger.withContext({ messageId: record.messageId }, () =>
+        processRecord(record)
+      )
+    )
+  );
+
+  // This log item doesn't include any `messageId`
+  logger.info('All records processed');
+};
@@ -0,0 +1,16 @@
+import { Metrics, MetricUnits } from '@aws-lambda-powertools/metrics';
+
+const metrics = new Metrics({
+  namespace: 'serverlessAirline',
+  serviceName: 'orders',
+  multipleDimensionSets: true,
+});
+
+export const handler = async (
+  _event: unknown,
+  _context: unknown
+): Promise<void> => {
+  metrics.addDimensions({ operation: 'createBooking' });
+  metrics.addMetric('successfulBooking', MetricUnits.Count, 1);
+  metrics.publishStoredMetrics();
+};
@@ -0,0 +1,25 @@
+import {
+  Tracer,
+  captureLambdaHandler,
+  annotationPresets,
+} from '@aws-lambda-powertools/tracer';
+import middy from '@middy/core';
+
+const tracer = new Tracer({ serviceName: 'serverlessAirline' });
+
+const lambdaHandler = async (
+  _event: unknown,
+  _context: unknown
+): Promise<void> => {
+  /* ... */
+};
+
+export const handler = middy(lambdaHandler).use(
+  captureLambdaHandler(tracer, {
+    annotations: {
+      ...annotationPresets.API_GATEWAY_HTTP,
+      tenant: 'requestContext.authorizer.lambda.tenantId',
+      customerId: 'pathParameters.customerId',
+    },
+  })
+);
@@ -0,0 +1,25 @@
+import { Tracer, traced } from '@aws-lambda-powertools/tracer';
+
+const tracer = new Tracer({ serviceName: 'serverlessAirline' });
+
+const getChargeId = async (bookingId: string): Promise<string> => {
+  /* ... */
+  return `charge-${bookingId}`;
+};
+const tracedGetChargeId = tracer.wrap(getChargeId);
+
+const listBookings = traced(tracer, { subSegmentName: '### listBookings' })(
+  async function* (): AsyncGenerator<string> {
+    /* ... */
+    yield 'booking-1';
+  }
+);
+
+export const handler = async (
+  _event: unknown,
+  _context: unknown
+): Promise<void> => {
+  for await (const bookingId of listBookings()) {
+    await tracedGetChargeId(bookingId);
+  }
+};
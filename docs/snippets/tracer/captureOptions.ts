@@ -0,0 +1,39 @@
+import { LambdaInterface } from '@aws-lambda-powertools/commons';
+import { Tracer } from '@aws-lambda-powertools/tracer';
+
+const tracer = new Tracer({
+  serviceName: 'serverlessAirline',
+  captureOptions: {
+    maxSize: 16384,
+    denylist: ['$.headers.Authorization', '$.body.payment.cardNumber'],
+  },
+});
+
+type Booking = { id: string; passengers: { name: string }[] };
+
+class Lambda implements LambdaInterface {
+  @tracer.captureMethod({
+    serializer: (response) => ({
+      id: (response as Booking).id,
+      passengers: (response as Booking).passengers.length,
+    }),
+  })
+  public async getBooking(): Promise<Booking> {
+    /* ... */
+    return { id: '1', passengers: [{ name: 'Jane' }] };
+  }
+
+  @tracer.captureLambdaHandler({ allowlist: ['$.statusCode', '$.headers'] })
+  public async handler(_event: unknown, _context: unknown): Promise<unknown> {
+    const booking = await this.getBooking();
+
+    return {
+      statusCode: 200,
+      headers: { Authorization: 'Bearer token' },
+      body: JSON.stringify(booking),
+    };
+  }
+}
+
+const handlerClass = new Lambda();
+export const handler = handlerClass.handler.bind(handlerClass);
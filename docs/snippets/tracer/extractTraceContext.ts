@@ -0,0 +1,17 @@
+import { Tracer } from '@aws-lambda-powertools/tracer';
+import type { SQSEvent } from 'aws-lambda';
+
+const tracer = new Tracer({ serviceName: 'serverlessAirline' });
+
+export const handler = async (
+  event: SQSEvent,
+  _context: unknown
+): Promise<void> => {
+  for (const record of event.Records) {
+    const traceContext = tracer.extractTraceContext(record);
+    if (traceContext) {
+      // Link the processing of the record to the trace of the producer
+      tracer.putAnnotation('producerTraceId', traceContext.traceId);
+    }
+  }
+};
@@ -0,0 +1,41 @@
+import { Tracer, captureLambdaHandler } from '@aws-lambda-powertools/tracer';
+import { OtelProviderService } from '@aws-lambda-powertools/tracer/lib/otel';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { BatchSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { DynamoDBClient, GetItemCommand } from '@aws-sdk/client-dynamodb';
+import middy from '@middy/core';
+
+// Register the OpenTelemetry SDK, i.e. exporting to a local collector
+const tracerProvider = new NodeTracerProvider();
+tracerProvider.addSpanProcessor(
+  new BatchSpanProcessor(
+    new OTLPTraceExporter({ url: 'http://localhost:4318/v1/traces' })
+  )
+);
+tracerProvider.register();
+
+const tracer = new Tracer({
+  serviceName: 'serverlessAirline',
+  provider: new OtelProviderService(),
+});
+// Each command is traced as a span of kind CLIENT, i.e. `DynamoDB.GetItem`
+const client = tracer.captureAWSv3Client(new DynamoDBClient({}));
+
+const lambdaHandler = async (
+  _event: unknown,
+  _context: unknown
+): Promise<void> => {
+  await client.send(
+    new GetItemCommand({ TableName: 'bookings', Key: { id: { S: '1' } } })
+  );
+  // Set as attribute of the span of the handler
+  tracer.putAnnotation('successfulBooking', true);
+};
+
+export const handler = middy(lambdaHandler)
+  .use(captureLambdaHandler(tracer))
+  .use({
+    // Export the spans before the execution environment is frozen
+    after: async () => tracerProvider.forceFlush(),
+  });
@@ -0,0 +1,20 @@
+import { Tracer } from '@aws-lambda-powertools/tracer';
+import axios from 'axios';
+
+const tracer = new Tracer({ serviceName: 'serverlessAirline' });
+
+export const handler = async (
+  _event: unknown,
+  _context: unknown
+): Promise<void> => {
+  await axios.post(
+    'https://api.example.com/bookings',
+    { id: 1 },
+    {
+      // Adds the `traceparent` and `X-Amzn-Trace-Id` headers
+      headers: tracer.injectTraceContext({
+        'Content-Type': 'application/json',
+      }),
+    }
+  );
+};
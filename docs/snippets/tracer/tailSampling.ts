@@ -0,0 +1,16 @@
+import { Tracer, captureLambdaHandler } from '@aws-lambda-powertools/tracer';
+import middy from '@middy/core';
+
+const tracer = new Tracer({
+  serviceName: 'serverlessAirline',
+  tailSampling: { output: 'xray', timeoutMargin: 1000 },
+});
+
+const lambdaHandler = async (
+  _event: unknown,
+  _context: unknown
+): Promise<void> => {
+  /* ... */
+};
+
+export const handler = middy(lambdaHandler).use(captureLambdaHandler(tracer));
@@ -0,0 +1,27 @@
+import {
+  Tracer,
+  RecordingProviderService,
+  captureLambdaHandler,
+} from '@aws-lambda-powertools/tracer';
+import { ContextExamples as dummyContext } from '@aws-lambda-powertools/commons';
+import middy from '@middy/core';
+
+describe('Your test suite', () => {
+  test('it annotates the successful bookings', async () => {
+    // Prepare
+    const provider = new RecordingProviderService();
+    const tracer = new Tracer({ serviceName: 'serverlessAirline', provider });
+    const handler = middy(async (): Promise<void> => {
+      tracer.putAnnotation('successfulBooking', true);
+    }).use(captureLambdaHandler(tracer));
+
+    // Act
+    await handler({}, dummyContext.helloworldContext);
+
+    // Assess
+    provider
+      .expectSubsegment('## index.handler')
+      .toHaveAnnotation('successfulBooking', true)
+      .toBeClosed();
+  });
+});
@@ -0,0 +1,22 @@
+import { LambdaInterface } from '@aws-lambda-powertools/commons';
+import { Tracer } from '@aws-lambda-powertools/tracer';
+
+const tracer = new Tracer({
+  serviceName: 'serverlessAirline',
+  timeoutWatchdog: { timeoutMargin: 1000 },
+});
+
+class Lambda implements LambdaInterface {
+  @tracer.captureMethod()
+  public async getBooking(): Promise<void> {
+    /* ... */
+  }
+
+  @tracer.captureLambdaHandler()
+  public async handler(_event: unknown, _context: unknown): Promise<void> {
+    await this.getBooking();
+  }
+}
+
+const handlerClass = new Lambda();
+export const handler = handlerClass.handler.bind(handlerClass);
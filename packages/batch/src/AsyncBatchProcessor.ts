@@ -8,14 +8,18 @@ class AsyncBatchProcessor extends BasePartialBatchProcessor {
   public async asyncProcessRecord(
     record: BaseRecord
   ): Promise<SuccessResponse | FailureResponse> {
-    try {
-      const data = this.toBatchType(record, this.eventType);
-      const result = await this.handler(data, this.options);
+    return this.withRecordSubsegment(record, async () => {
+      try {
+        const data = this.toBatchType(record, this.eventType);
+        const result = await this.withRecordContext(record, () =>
+          this.handler(data, this.options)
+        );
 
-      return this.successHandler(record, result);
-    } catch (error) {
-      return this.failureHandler(record, error as Error);
-    }
+        return this.successHandler(record, result);
+      } catch (error) {
+        return this.failureHandler(record, error as Error);
+      }
+    });
   }
 
   /**
@@ -7,9 +7,13 @@ import { BasePartialProcessor } from './BasePartialProcessor';
 import { DATA_CLASS_MAPPING, DEFAULT_RESPONSE, EventType } from './constants';
 import { BatchProcessingError } from './errors';
 import type {
+  BaseRecord,
+  BatchProcessingSubsegment,
   EventSourceDataClassTypes,
+  FailureResponse,
   PartialItemFailureResponse,
   PartialItemFailures,
+  SuccessResponse,
 } from './types';
 
 /**
@@ -152,6 +156,98 @@ abstract class BasePartialBatchProcessor extends BasePartialProcessor {
   ): SQSRecord | KinesisStreamRecord | DynamoDBRecord {
     return DATA_CLASS_MAPPING[eventType](record);
   }
+
+  /**
+   * Runs a function with the identifier of the record added to the logs, when a logger is passed in the options:
+   * `messageId` for SQS, and `sequenceNumber` for Kinesis data streams and DynamoDB streams
+   * @param record Batch record being processed
+   * @param fn Function processing the record
+   * @returns value returned by the function
+   */
+  public withRecordContext<T>(record: BaseRecord, fn: () => T): T {
+    if (!this.options?.logger) {
+      return fn();
+    }
+
+    const attributes =
+      this.eventType === EventType.SQS
+        ? { messageId: (record as SQSRecord).messageId }
+        : this.eventType === EventType.KinesisDataStreams
+        ? {
+            sequenceNumber: (record as KinesisStreamRecord).kinesis
+              .sequenceNumber,
+          }
+        : {
+            sequenceNumber: (record as DynamoDBRecord).dynamodb?.SequenceNumber,
+          };
+
+    return this.options.logger.withContext(attributes, fn);
+  }
+
+  /**
+   * Runs a function processing a record in a new subsegment, when a tracer is passed in the options and tracing is enabled.
+   *
+   * The subsegment is annotated with the identifier of the record, `messageId` for SQS and `eventID` for Kinesis data streams
+   * and DynamoDB streams, and with the `producerTraceId` propagated with the record, if any, i.e. via the `AWSTraceHeader` attribute
+   * of SQS messages. It's closed with the outcome returned by `successHandler` or `failureHandler`, an error for failed records.
+   * @param record Batch record being processed
+   * @param fn Function processing the record and returning its outcome
+   * @returns value returned by the function
+   */
+  public withRecordSubsegment<
+    T extends
+      | SuccessResponse
+      | FailureResponse
+      | Promise<SuccessResponse | FailureResponse>
+  >(record: BaseRecord, fn: () => T): T {
+    const tracer = this.options?.tracer;
+    if (!tracer?.isTracingEnabled()) {
+      return fn();
+    }
+
+    const [key, recordId] =
+      this.eventType === EventType.SQS
+        ? ['messageId', (record as SQSRecord).messageId]
+        : ['eventID', (record as KinesisStreamRecord | DynamoDBRecord).eventID];
+
+    return tracer.provider.captureAsyncFunc(
+      '### processRecord',
+      (subsegment) => {
+        subsegment?.addAnnotation(key, String(recordId));
+        const traceContext = tracer.extractTraceContext(record);
+        if (traceContext) {
+          subsegment?.addAnnotation('producerTraceId', traceContext.traceId);
+        }
+
+        const entry = fn();
+        if (entry instanceof Promise) {
+          return entry.then((settledEntry) => {
+            this.closeRecordSubsegment(settledEntry, subsegment);
+
+            return settledEntry;
+          });
+        }
+        this.closeRecordSubsegment(entry, subsegment);
+
+        return entry;
+      }
+    ) as T;
+  }
+
+  /**
+   * Closes the subsegment of a record, adding the error message when the record failed processing
+   * @param entry Outcome of the record
+   * @param subsegment Subsegment of the record
+   */
+  private closeRecordSubsegment(
+    entry: SuccessResponse | FailureResponse,
+    subsegment?: BatchProcessingSubsegment
+  ): void {
+    if (entry[0] === 'fail') {
+      subsegment?.addError(entry[1]);
+    }
+    subsegment?.close();
+  }
 }
 
 export { BasePartialBatchProcessor };
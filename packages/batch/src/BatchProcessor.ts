@@ -17,14 +17,18 @@ class BatchProcessor extends BasePartialBatchProcessor {
    * @returns response of success or failure
    */
   public processRecord(record: BaseRecord): SuccessResponse | FailureResponse {
-    try {
-      const data = this.toBatchType(record, this.eventType);
-      const result = this.handler(data, this.options);
+    return this.withRecordSubsegment(record, () => {
+      try {
+        const data = this.toBatchType(record, this.eventType);
+        const result = this.withRecordContext(record, () =>
+          this.handler(data, this.options)
+        );
 
-      return this.successHandler(record, result);
-    } catch (error) {
-      return this.failureHandler(record, error as Error);
-    }
+        return this.successHandler(record, result);
+      } catch (error) {
+        return this.failureHandler(record, error as Error);
+      }
+    });
   }
 }
 
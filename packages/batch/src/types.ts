@@ -5,8 +5,46 @@ import {
   SQSRecord,
 } from 'aws-lambda';
 
+/**
+ * Logger that can add attributes to the logs emitted while a function runs, like the Logger of Powertools
+ */
+type BatchProcessingLogger = {
+  withContext<T>(attributes: { [key: string]: unknown }, fn: () => T): T;
+};
+
+/**
+ * Subsegment created for each record by the `BatchProcessingTracer`
+ */
+type BatchProcessingSubsegment = {
+  addAnnotation(key: string, value: string | number | boolean): void;
+  addError(error: Error | string): void;
+  close(): void;
+};
+
+/**
+ * Tracer that can run a function in a new subsegment and extract the trace context of a record, like the Tracer of Powertools
+ */
+type BatchProcessingTracer = {
+  extractTraceContext(carrier: object): { traceId: string } | undefined;
+  isTracingEnabled(): boolean;
+  provider: {
+    captureAsyncFunc(
+      name: string,
+      fcn: (subsegment?: BatchProcessingSubsegment) => unknown
+    ): unknown;
+  };
+};
+
 type BatchProcessingOptions = {
   context: Context;
+  /**
+   * Logger used to add the identifier of each record to the logs emitted while processing it
+   */
+  logger?: BatchProcessingLogger;
+  /**
+   * Tracer used to create a subsegment for each record, annotated with its identifier and outcome
+   */
+  tracer?: BatchProcessingTracer;
 };
 
 type EventSourceDataClassTypes =
@@ -26,7 +64,10 @@ type PartialItemFailures = { itemIdentifier: string };
 type PartialItemFailureResponse = { batchItemFailures: PartialItemFailures[] };
 
 export type {
+  BatchProcessingLogger,
   BatchProcessingOptions,
+  BatchProcessingSubsegment,
+  BatchProcessingTracer,
   BaseRecord,
   EventSourceDataClassTypes,
   ResultType,
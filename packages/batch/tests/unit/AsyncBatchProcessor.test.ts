@@ -3,8 +3,13 @@
  *
  * @group unit/batch/class/asyncBatchProcessor
  */
-import type { Context } from 'aws-lambda';
+import type { Context, SQSRecord } from 'aws-lambda';
 import { helloworldContext as dummyContext } from '../../../commons/src/samples/resources/contexts';
+import {
+  RecordingProviderService,
+  SubsegmentAssertion,
+  Tracer,
+} from '../../../tracer/src';
 import { AsyncBatchProcessor } from '../../src/AsyncBatchProcessor';
 import { EventType } from '../../src/constants';
 import { BatchProcessingError } from '../../src/errors';
@@ -284,6 +289,78 @@ describe('Class: AsyncBatchProcessor', () => {
     });
   });
 
+  describe('Batch processing with a logger', () => {
+    test('Batch processing SQS records runs each record handler in the logging context of the record', async () => {
+      // Prepare
+      const firstRecord = sqsRecordFactory('success');
+      const secondRecord = sqsRecordFactory('fail');
+      const logger = {
+        withContext: jest.fn((_attributes, fn) => fn()),
+      };
+      const processor = new AsyncBatchProcessor(EventType.SQS);
+
+      // Act
+      processor.register([firstRecord, secondRecord], asyncSqsRecordHandler, {
+        ...options,
+        logger,
+      });
+      const processedMessages = await processor.asyncProcess();
+
+      // Assess
+      expect(processedMessages[1][0]).toBe('fail');
+      expect(logger.withContext).toHaveBeenNthCalledWith(
+        1,
+        { messageId: firstRecord.messageId },
+        expect.any(Function)
+      );
+      expect(logger.withContext).toHaveBeenNthCalledWith(
+        2,
+        { messageId: secondRecord.messageId },
+        expect.any(Function)
+      );
+    });
+  });
+
+  describe('Batch processing with a tracer', () => {
+    test('Batch processing SQS records runs each record handler in the subsegment of the record', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer = new Tracer({ provider });
+      const firstRecord = sqsRecordFactory('success');
+      const secondRecord = sqsRecordFactory('fail');
+      const recordHandler = async (record: SQSRecord): Promise<string> => {
+        await new Promise((resolve) =>
+          setTimeout(resolve, record.body === 'success' ? 10 : 0)
+        );
+        tracer.putAnnotation('body', record.body);
+
+        return asyncSqsRecordHandler(record);
+      };
+      const processor = new AsyncBatchProcessor(EventType.SQS);
+
+      // Act
+      processor.register([firstRecord, secondRecord], recordHandler, {
+        ...options,
+        tracer,
+      });
+      const processedMessages = await processor.asyncProcess();
+
+      // Assess
+      expect(processedMessages[1][0]).toBe('fail');
+      const [firstSubsegment, secondSubsegment] =
+        provider.getSubsegments('### processRecord');
+      new SubsegmentAssertion(firstSubsegment)
+        .toHaveAnnotation('messageId', firstRecord.messageId)
+        .toHaveAnnotation('body', 'success')
+        .toBeClosed();
+      new SubsegmentAssertion(secondSubsegment)
+        .toHaveAnnotation('messageId', secondRecord.messageId)
+        .toHaveAnnotation('body', 'fail')
+        .toHaveError('Failed to process record.')
+        .toBeClosed();
+    });
+  });
+
   test('When calling the sync process method, it should throw an error', () => {
     // Prepare
     const processor = new AsyncBatchProcessor(EventType.SQS);
@@ -3,8 +3,18 @@
  *
  * @group unit/batch/class/batchprocessor
  */
-import type { Context } from 'aws-lambda';
+import type {
+  Context,
+  DynamoDBRecord,
+  KinesisStreamRecord,
+  SQSRecord,
+} from 'aws-lambda';
 import { helloworldContext as dummyContext } from '../../../commons/src/samples/resources/contexts';
+import {
+  RecordingProviderService,
+  SubsegmentAssertion,
+  Tracer,
+} from '../../../tracer/src';
 import { BatchProcessor } from '../../src/BatchProcessor';
 import { EventType } from '../../src/constants';
 import { BatchProcessingError } from '../../src/errors';
@@ -273,6 +283,184 @@ describe('Class: BatchProcessor', () => {
     });
   });
 
+  describe('Batch processing with a logger', () => {
+    test.each([
+      [
+        EventType.SQS,
+        sqsRecordFactory('success'),
+        sqsRecordHandler,
+        (record: SQSRecord) => ({ messageId: record.messageId }),
+      ],
+      [
+        EventType.KinesisDataStreams,
+        kinesisRecordFactory('success'),
+        kinesisRecordHandler,
+        (record: KinesisStreamRecord) => ({
+          sequenceNumber: record.kinesis.sequenceNumber,
+        }),
+      ],
+      [
+        EventType.DynamoDBStreams,
+        dynamodbRecordFactory('success'),
+        dynamodbRecordHandler,
+        (record: DynamoDBRecord) => ({
+          sequenceNumber: record.dynamodb?.SequenceNumber,
+        }),
+      ],
+    ])(
+      'Batch processing %s records adds the identifier of each record to the logs',
+      (eventType, record, recordHandler, getAttributes) => {
+        // Prepare
+        const logger = {
+          withContext: jest.fn((_attributes, fn) => fn()),
+        };
+        const processor = new BatchProcessor(eventType);
+
+        // Act
+        processor.register([record], recordHandler, {
+          ...options,
+          logger,
+        });
+        const processedMessages = processor.process();
+
+        // Assess
+        expect(processedMessages[0][0]).toBe('success');
+        expect(logger.withContext).toHaveBeenCalledWith(
+          getAttributes(record as never),
+          expect.any(Function)
+        );
+      }
+    );
+  });
+
+  describe('Batch processing with a tracer', () => {
+    test.each([
+      [
+        EventType.SQS,
+        sqsRecordFactory('success'),
+        sqsRecordHandler,
+        (record: SQSRecord) => ['messageId', record.messageId],
+      ],
+      [
+        EventType.KinesisDataStreams,
+        kinesisRecordFactory('success'),
+        kinesisRecordHandler,
+        (record: KinesisStreamRecord) => ['eventID', record.eventID],
+      ],
+      [
+        EventType.DynamoDBStreams,
+        dynamodbRecordFactory('success'),
+        dynamodbRecordHandler,
+        (record: DynamoDBRecord) => ['eventID', record.eventID],
+      ],
+    ])(
+      'Batch processing %s records creates a subsegment for each record, annotated with its identifier',
+      (eventType, record, recordHandler, getAnnotation) => {
+        // Prepare
+        const provider = new RecordingProviderService();
+        const tracer = new Tracer({ provider });
+        const processor = new BatchProcessor(eventType);
+        const [key, recordId] = getAnnotation(record as never) as [
+          string,
+          string
+        ];
+
+        // Act
+        processor.register([record], recordHandler, { ...options, tracer });
+        processor.process();
+
+        // Assess
+        provider
+          .expectSubsegment('### processRecord')
+          .toHaveAnnotation(key, recordId)
+          .toBeClosed();
+        expect(() =>
+          provider.expectSubsegment('### processRecord').toHaveError()
+        ).toThrow();
+      }
+    );
+
+    test('Batch processing SQS records adds the error and the trace id of the producer to the subsegments of failed records', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer = new Tracer({ provider });
+      const firstRecord = sqsRecordFactory('success');
+      const secondRecord = sqsRecordFactory('fail');
+      secondRecord.attributes.AWSTraceHeader =
+        'Root=1-5759e988-bd862e3fe1be46a994272793;Parent=53995c3f42cd8ad8;Sampled=1';
+      const processor = new BatchProcessor(EventType.SQS);
+
+      // Act
+      processor.register([firstRecord, secondRecord], sqsRecordHandler, {
+        ...options,
+        tracer,
+      });
+      processor.process();
+
+      // Assess
+      expect(provider.getSubsegments()).toHaveLength(2);
+      const [firstSubsegment, secondSubsegment] =
+        provider.getSubsegments('### processRecord');
+      new SubsegmentAssertion(secondSubsegment)
+        .toHaveAnnotation('messageId', secondRecord.messageId)
+        .toHaveAnnotation(
+          'producerTraceId',
+          '1-5759e988-bd862e3fe1be46a994272793'
+        )
+        .toHaveError('Failed to process record.')
+        .toBeClosed();
+      expect(() =>
+        new SubsegmentAssertion(firstSubsegment).toHaveAnnotation(
+          'producerTraceId'
+        )
+      ).toThrow();
+    });
+
+    test('Batch processing SQS records with tracing disabled does not create subsegments', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer = new Tracer({ provider, enabled: false });
+      const record = sqsRecordFactory('success');
+      const processor = new BatchProcessor(EventType.SQS);
+
+      // Act
+      processor.register([record], sqsRecordHandler, { ...options, tracer });
+      const processedMessages = processor.process();
+
+      // Assess
+      expect(processedMessages).toStrictEqual([
+        ['success', record.body, record],
+      ]);
+      expect(provider.getSubsegments()).toEqual([]);
+    });
+
+    test('Batch processing SQS records with a provider that does not pass the subsegment processes the records', () => {
+      // Prepare
+      const tracer = {
+        extractTraceContext: () => ({ traceId: 'foo' }),
+        isTracingEnabled: () => true,
+        provider: {
+          captureAsyncFunc: jest.fn((_name, fcn) => fcn()),
+        },
+      };
+      const firstRecord = sqsRecordFactory('success');
+      const secondRecord = sqsRecordFactory('fail');
+      const processor = new BatchProcessor(EventType.SQS);
+
+      // Act
+      processor.register([firstRecord, secondRecord], sqsRecordHandler, {
+        ...options,
+        tracer,
+      });
+      const processedMessages = processor.process();
+
+      // Assess
+      expect(processedMessages[0][0]).toBe('success');
+      expect(processedMessages[1][0]).toBe('fail');
+      expect(tracer.provider.captureAsyncFunc).toHaveBeenCalledTimes(2);
+    });
+  });
+
   test('When calling the async process method, it should throw an error', async () => {
     // Prepare
     const processor = new BatchProcessor(EventType.SQS);
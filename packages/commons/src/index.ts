@@ -1,4 +1,5 @@
 export * from './utils/lambda';
+export * from './utils/path';
 export * from './Utility';
 export * from './config';
 export * as ContextExamples from './samples/resources/contexts';
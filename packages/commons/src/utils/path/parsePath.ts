@@ -0,0 +1,18 @@
+/**
+ * It transforms a path like `$.body.Items[*].token` into its segments,
+ * i.e. `['body', 'Items', '*', 'token']`.
+ *
+ * The path can start with `$` or `$.`, its segments are separated by dots,
+ * and array indexes and wildcards can be written between square brackets.
+ *
+ * @param {string} path
+ * @returns {string[]}
+ */
+const parsePath = (path: string): string[] =>
+  path
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\*|\d+)\]/g, '.$1')
+    .split('.')
+    .filter((segment) => segment !== '');
+
+export { parsePath };
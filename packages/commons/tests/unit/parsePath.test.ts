@@ -0,0 +1,29 @@
+/**
+ * Test parsePath function
+ *
+ * @group unit/commons/utils
+ */
+import { parsePath } from '../../src';
+
+describe('Function: parsePath', () => {
+  it('returns the segments of a path with dots, indexes and wildcards', () => {
+    // Prepare
+    const path = '$.body.Items[*].token';
+
+    // Act
+    const segments = parsePath(path);
+
+    // Assert
+    expect(segments).toEqual(['body', 'Items', '*', 'token']);
+  });
+
+  it('returns the segments of a path without the root, or with an index at the root', () => {
+    // Act & Assert
+    expect(parsePath('headers.Authorization')).toEqual([
+      'headers',
+      'Authorization',
+    ]);
+    expect(parsePath('$[0].name')).toEqual(['0', 'name']);
+    expect(parsePath('$')).toEqual([]);
+  });
+});
@@ -1,11 +1,28 @@
-import { randomInt } from 'node:crypto';
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { Console } from 'node:console';
+import { performance } from 'node:perf_hooks';
 import type { Context, Handler } from 'aws-lambda';
 import { Utility } from '@aws-lambda-powertools/commons';
-import { LogFormatterInterface, PowertoolLogFormatter } from './formatter';
-import { LogItem } from './log';
+import { PT_VERSION } from '@aws-lambda-powertools/commons/lib/version';
+import {
+  DevLogFormatter,
+  EcsLogFormatter,
+  FlattenedLogFormatter,
+  LogFormatterInterface,
+  OpenTelemetryLogFormatter,
+  PowertoolLogFormatter,
+} from './formatter';
+import { LogBuffer, LogDeduplicator, LogItem } from './log';
 import merge from 'lodash.merge';
-import { ConfigServiceInterface, EnvironmentVariablesService } from './config';
+import { search } from 'jmespath';
+import {
+  ConfigServiceInterface,
+  EnvironmentVariablesService,
+  LogLevelSource,
+} from './config';
+import { LogRedactor } from './redaction';
+import { RandomSamplingStrategy, SamplingStrategyInterface } from './sampling';
+import { ConsoleTransport, LogTransportInterface } from './transport';
 import { LogJsonIndent } from './types';
 import type {
   ClassThatLogs,
@@ -13,15 +30,32 @@ import type {
   HandlerMethodDecorator,
   LambdaFunctionContext,
   LogAttributes,
+  LogBufferOptions,
+  LogDeduplicationOptions,
   ConstructorOptions,
+  ConstructorOptionsWithCustomLogLevels,
   LogItemExtraInput,
   LogItemMessage,
   LogLevel,
+  ConsoleMethod,
+  CustomLogLevels,
+  CustomLogLevelName,
+  NoCustomLogLevels,
+  LogLevelSourceOptions,
   LogLevelThresholds,
+  LogRecord,
   PowertoolLogData,
   HandlerOptions,
+  RedactionRule,
+  SamplingDecision,
+  TimingOptions,
 } from './types';
 
+/**
+ * Milliseconds elapsed from the start of the process until this module was loaded, i.e. during the initialization.
+ */
+const moduleLoadedAt = performance.now();
+
 /**
  * ## Intro
  * The Logger utility provides an opinionated logger with output structured as JSON.
@@ -29,8 +63,20 @@ import type {
  * ## Key features
  *  * Capture key fields from Lambda context, cold start and structures logging output as JSON
  *  * Log Lambda context when instructed (disabled by default)
- *  * Log sampling prints all logs for a percentage of invocations (disabled by default)
+ *  * Log sampling prints all logs for a percentage of invocations (disabled by default), with pluggable sampling strategies
  *  * Append additional keys to structured log at any point in time
+ *  * Add keys to the logs emitted in the scope of a function, and remove them automatically when it completes
+ *  * Buffer logs below the log level and print them only when an error occurs (disabled by default)
+ *  * Redact sensitive values from log items before printing them (disabled by default)
+ *  * Add a correlation ID, extracted from the incoming event, to all log items (disabled by default)
+ *  * Send log items to destinations other than the console via pluggable transports
+ *  * Print human-friendly, colored log items when developing locally
+ *  * Change the log level at runtime, reading it from a parameter or any other async source (disabled by default)
+ *  * Register custom log levels, each with its own method (disabled by default)
+ *  * Print log items in the ECS, OpenTelemetry or flattened formats, selected with an env variable
+ *  * Limit the number of similar log items printed in an invocation, and report how many were suppressed (disabled by default)
+ *  * Log the duration of code blocks and of the handler, and warn when the invocation is about to time out
+ *  * Log the platform and runtime metadata of the execution environment on cold start (disabled by default)
  *
  * ## Usage
  *
@@ -111,7 +157,10 @@ import type {
  * @implements {ClassThatLogs}
  * @see https://docs.powertools.aws.dev/lambda-typescript/latest/core/logger/
  */
-class Logger extends Utility implements ClassThatLogs {
+class Logger<T extends CustomLogLevels = NoCustomLogLevels>
+  extends Utility
+  implements ClassThatLogs
+{
   /**
    * Console instance used to print logs.
    *
@@ -125,15 +174,75 @@ class Logger extends Utility implements ClassThatLogs {
    */
   private console!: Console;
 
+  /**
+   * Storage of the attributes added with {@link withContext()} to the logs emitted in its scope.
+   *
+   * It's shared by all the Logger instances, so that child loggers and other loggers
+   * used in the same scope add the same attributes.
+   *
+   * @private
+   */
+  private static readonly contextStorage =
+    new AsyncLocalStorage<LogAttributes>();
+
   private customConfigService?: ConfigServiceInterface;
 
+  /**
+   * Custom log levels registered in addition to the built-in ones.
+   *
+   * This property is initialized in the constructor only when custom log levels are provided.
+   */
+  private customLogLevels?: CustomLogLevels;
+
   // envVarsService is always initialized in the constructor in setOptions()
   private envVarsService!: EnvironmentVariablesService;
 
+  /**
+   * Time at which the current invocation started, used to log the duration of the handler.
+   */
+  private invocationStartedAt?: number;
+
+  /**
+   * Buffer that holds the log items below the current log level during an invocation.
+   *
+   * This property is initialized in the constructor only when log buffering is enabled.
+   */
+  private logBuffer?: LogBuffer;
+
+  private logBufferOptions?: LogBufferOptions;
+
+  /**
+   * Whether the metadata of the execution environment is logged on cold start.
+   *
+   * This property is set only when the feature is enabled, and it's not inherited by child loggers.
+   */
+  private logColdStartMetadata?: boolean;
+
+  private logDeduplicationOptions?: LogDeduplicationOptions;
+
+  /**
+   * Counters of the similar log items printed and suppressed during an invocation.
+   *
+   * This property is initialized in the constructor only when log deduplication is enabled.
+   */
+  private logDeduplicator?: LogDeduplicator;
+
   private logEvent = false;
 
   private logFormatter?: LogFormatterInterface;
 
+  /**
+   * Built-in log formatters that can be selected with the `POWERTOOLS_LOGGER_FORMAT` env variable.
+   */
+  private static readonly logFormatters: {
+    [key: string]: new () => LogFormatterInterface;
+  } = {
+    POWERTOOLS: PowertoolLogFormatter,
+    ECS: EcsLogFormatter,
+    OPENTELEMETRY: OpenTelemetryLogFormatter,
+    FLATTENED: FlattenedLogFormatter,
+  };
+
   private logIndentation: number = LogJsonIndent.COMPACT;
 
   /**
@@ -141,12 +250,27 @@ class Logger extends Utility implements ClassThatLogs {
    */
   private logLevel = 12;
 
+  /**
+   * Source of the log level, shared with the child loggers.
+   *
+   * This property is initialized in the constructor only when a log level source is provided.
+   */
+  private logLevelSource?: LogLevelSource;
+
+  /**
+   * Version of the log level source value last applied to the current instance of Logger.
+   */
+  private logLevelSourceVersion?: number;
+
   /**
    * Log level thresholds used internally by the current instance of Logger.
    *
    * The levels are in ascending order from the most verbose to the least verbose (no logs).
+   * Custom log levels are added to them when the Logger is initialized.
    */
-  private readonly logLevelThresholds: LogLevelThresholds = {
+  private readonly logLevelThresholds: LogLevelThresholds & {
+    [key: string]: number;
+  } = {
     DEBUG: 8,
     INFO: 12,
     WARN: 16,
@@ -155,12 +279,55 @@ class Logger extends Utility implements ClassThatLogs {
     SILENT: 28,
   };
 
+  /**
+   * Transport used to send the log items to their destination.
+   *
+   * This property is initialized in the constructor with the transport provided, if any,
+   * otherwise with a `ConsoleTransport` printing the log items with the `console` of the Logger.
+   */
+  private logTransport?: LogTransportInterface;
+
   private logsSampled = false;
 
+  /**
+   * Parent of each child Logger instance created with {@link createChild()}.
+   *
+   * It's used to share the correlation ID of a parent with its children, without
+   * having the parent hold a reference to each one of them.
+   *
+   * @private
+   */
+  private static readonly parentLoggers = new WeakMap<Logger, Logger>();
+
   private persistentLogAttributes?: LogAttributes = {};
 
   private powertoolLogData: PowertoolLogData = <PowertoolLogData>{};
 
+  /**
+   * Redactor used to remove sensitive values from log items before printing them.
+   *
+   * This property is initialized in the constructor only when redaction rules are provided.
+   */
+  private redactor?: LogRedactor;
+
+  private remainingTimeTimeout?: NodeJS.Timeout;
+
+  /**
+   * Decision taken by the sampling strategy for the current invocation, printed in all log items.
+   *
+   * This property is set only when a sampling strategy is configured.
+   */
+  private samplingDecision?: SamplingDecision;
+
+  private samplingStrategy?: SamplingStrategyInterface;
+
+  /**
+   * Start times of the timers started with `time()`, by label.
+   */
+  private timers?: Map<string, number>;
+
+  private timingOptions?: TimingOptions;
+
   /**
    * Log level used by the current instance of Logger.
    *
@@ -173,12 +340,15 @@ class Logger extends Utility implements ClassThatLogs {
 
   /**
    * It initializes the Logger class with an optional set of options (settings).
-   * *
+   *
+   * The names of the custom log levels passed in the options are typed after the `customLogLevels` option,
+   * and they're checked again against the registered log levels when the options are set.
+   *
    * @param {ConstructorOptions} options
    */
-  public constructor(options: ConstructorOptions = {}) {
+  public constructor(options: ConstructorOptionsWithCustomLogLevels<T> = {}) {
     super();
-    this.setOptions(options);
+    this.setOptions(options as ConstructorOptions<CustomLogLevels>);
   }
 
   /**
@@ -201,6 +371,9 @@ class Logger extends Utility implements ClassThatLogs {
     this.addToPowertoolLogData({
       lambdaContext,
     });
+    if (lambdaContext.coldStart && this.logColdStartMetadata) {
+      this.printColdStartMetadata(context);
+    }
   }
 
   /**
@@ -223,23 +396,55 @@ class Logger extends Utility implements ClassThatLogs {
     this.addPersistentLogAttributes(attributes);
   }
 
+  /**
+   * It discards all the log items held in the buffer, if log buffering is enabled.
+   *
+   * When using the `injectLambdaContext` decorator or middleware, the buffer
+   * is cleared automatically at the start and at the end of each invocation.
+   *
+   * @returns {void}
+   */
+  public clearBuffer(): void {
+    this.logBuffer?.clear();
+  }
+
   /**
    * It creates a separate Logger instance, identical to the current one
    * It's possible to overwrite the new instance options by passing them.
    *
+   * Redaction rules and custom log levels passed to the child logger are added to the ones of the parent.
+   * Unless a different log level source is passed, the child logger shares the one of the parent.
+   *
    * @param {ConstructorOptions} options
    * @returns {Logger}
    */
-  public createChild(options: ConstructorOptions = {}): Logger {
+  public createChild<C extends CustomLogLevels = NoCustomLogLevels>(
+    options: ConstructorOptionsWithCustomLogLevels<C> = {}
+  ): Logger<T & C> {
+    const {
+      redactionRules = [],
+      customLogLevels = {},
+      ...childOptions
+    } = options;
     const parentsOptions = {
       logLevel: this.getLevelName(),
       customConfigService: this.getCustomConfigService(),
       logFormatter: this.getLogFormatter(),
+      logBufferOptions: { ...this.logBufferOptions },
+      logDeduplicationOptions: { ...this.logDeduplicationOptions },
+      samplingStrategy: this.samplingStrategy,
+      timingOptions: this.timingOptions,
+      logTransport: this.logTransport,
+      customLogLevels: { ...this.customLogLevels, ...customLogLevels },
+      redactionRules: [
+        ...(this.redactor ? this.redactor.getRules() : []),
+        ...redactionRules,
+      ],
     };
     const parentsPowertoolsLogData = this.getPowertoolLogData();
     const childLogger = new Logger(
-      merge(parentsOptions, parentsPowertoolsLogData, options)
-    );
+      merge(parentsOptions, parentsPowertoolsLogData, childOptions)
+    ) as Logger<T & C>;
 
     const parentsPersistentLogAttributes = this.getPersistentLogAttributes();
     childLogger.addPersistentLogAttributes(parentsPersistentLogAttributes);
@@ -247,6 +452,8 @@ class Logger extends Utility implements ClassThatLogs {
     if (parentsPowertoolsLogData.lambdaContext) {
       childLogger.addContext(parentsPowertoolsLogData.lambdaContext as Context);
     }
+    Logger.parentLoggers.set(childLogger, this);
+    childLogger.logLevelSource ??= this.logLevelSource;
 
     return childLogger;
   }
@@ -286,6 +493,99 @@ class Logger extends Utility implements ClassThatLogs {
     this.processLogItem(20, input, extraInput);
   }
 
+  /**
+   * It prints all the log items held in the buffer, in the order in which they were
+   * emitted, and then clears the buffer.
+   *
+   * If some log items were evicted from the buffer because it exceeded its maximum size,
+   * a warning with the number of evicted items is printed before the buffered ones.
+   *
+   * @returns {void}
+   */
+  public flushBuffer(): void {
+    if (!this.logBuffer) {
+      return;
+    }
+
+    const { items, evictedItemsCount } = this.logBuffer.drain();
+    if (evictedItemsCount > 0) {
+      this.printLog(
+        16,
+        this.createAndPopulateLogItem(
+          16,
+          'Some logs are not displayed because they were evicted from the buffer. Increase the buffer size to store more logs in the buffer',
+          [{ evicted_items_count: evictedItemsCount }]
+        )
+      );
+    }
+    items.forEach(({ logLevel, logItem }) => {
+      this.printLog(logLevel, logItem);
+    });
+  }
+
+  /**
+   * If log deduplication is enabled and some log items were suppressed, it prints a single
+   * warning with the number of suppressed items, grouped by key, and then resets the counters.
+   *
+   * When using the `injectLambdaContext` decorator or middleware, this method is called
+   * automatically at the end of each invocation.
+   *
+   * @returns {void}
+   */
+  public flushSuppressedLogs(): void {
+    if (!this.logDeduplicator) {
+      return;
+    }
+
+    const suppressedCounts = this.logDeduplicator.drain();
+    if (suppressedCounts.size === 0) {
+      return;
+    }
+    let suppressedCount = 0;
+    suppressedCounts.forEach((count) => (suppressedCount += count));
+    this.printLog(
+      16,
+      this.createAndPopulateLogItem(
+        16,
+        `Suppressed ${suppressedCount} similar log items`,
+        [
+          {
+            suppressed_count: suppressedCount,
+            suppressed_keys: Object.fromEntries(suppressedCounts),
+          },
+        ]
+      )
+    );
+  }
+
+  /**
+   * It flushes the transport, if it supports flushing, and resolves once
+   * all the log items held by the transport have been delivered.
+   *
+   * When using the `injectLambdaContext` decorator or middleware, the transport
+   * is flushed automatically at the end of each invocation.
+   *
+   * @returns {Promise<void>}
+   */
+  public async flushTransport(): Promise<void> {
+    await this.logTransport?.flush?.();
+  }
+
+  /**
+   * It returns the correlation ID added to all log items.
+   *
+   * Child loggers that don't have a correlation ID of their own return
+   * the one of their parent.
+   *
+   * @returns {unknown}
+   */
+  public getCorrelationId(): unknown {
+    return (
+      this.powertoolLogData.correlationId ??
+      Logger.parentLoggers.get(this)?.getCorrelationId()
+    );
+  }
+
   /**
    * Get the log level name of the current instance of Logger.
    *
@@ -396,12 +696,15 @@ class Logger extends Utility implements ClassThatLogs {
           };
         }
 
+        await loggerRef.refreshLogLevel();
         Logger.injectLambdaContextBefore(loggerRef, event, context, options);
 
         let result: unknown;
         try {
           result = await originalMethod.apply(this, [event, context, callback]);
         } catch (error) {
+          loggerRef.flushBuffer();
+
           throw error;
         } finally {
           Logger.injectLambdaContextAfterOrOnError(
@@ -409,6 +712,7 @@ class Logger extends Utility implements ClassThatLogs {
             initialPersistentAttributes,
             options
           );
+          await loggerRef.flushTransport();
         }
 
         return result;
@@ -421,9 +725,12 @@ class Logger extends Utility implements ClassThatLogs {
     initialPersistentAttributes: LogAttributes,
     options?: HandlerOptions
   ): void {
+    logger.stopInvocationTiming();
     if (options && options.clearState === true) {
       logger.setPersistentLogAttributes(initialPersistentAttributes);
     }
+    logger.clearBuffer();
+    logger.flushSuppressedLogs();
   }
 
   public static injectLambdaContextBefore(
@@ -432,7 +739,17 @@ class Logger extends Utility implements ClassThatLogs {
     context: Context,
     options?: HandlerOptions
   ): void {
+    logger.clearBuffer();
     logger.addContext(context);
+    logger.startInvocationTiming(context);
+    if (options?.correlationIdSearchFn) {
+      logger.setCorrelationId(options.correlationIdSearchFn(event));
+    } else if (options?.correlationIdPath) {
+      logger.setCorrelationId(event, options.correlationIdPath);
+    }
+    if (logger.samplingStrategy) {
+      logger.refreshSampleRateCalculation();
+    }
 
     let shouldLogEvent = undefined;
     if (options && options.hasOwnProperty('logEvent')) {
@@ -455,12 +772,78 @@ class Logger extends Utility implements ClassThatLogs {
     this.info('Lambda invocation event', { event });
   }
 
+  /**
+   * It runs the given function and emits a log item with its duration in `duration_ms`,
+   * its outcome (`success` or `failure`), the error it threw, if any, and the given attributes.
+   *
+   * The log item has the label as message, and the log level set in the timing options (default: `INFO`).
+   * The value returned by the function is returned, and the error it throws is rethrown.
+   *
+   * @example
+   * ```typescript
+   * const orders = await logger.measure('Fetch orders', () => fetchOrders(userId), { userId });
+   * ```
+   *
+   * @param {string} label
+   * @param {Function} fn
+   * @param {LogAttributes} [attributes]
+   * @returns {Promise<T>}
+   */
+  public async measure<T>(
+    label: string,
+    fn: () => T | Promise<T>,
+    attributes?: LogAttributes
+  ): Promise<T> {
+    const startedAt = performance.now();
+    try {
+      const result = await fn();
+      this.logDuration(label, startedAt, { outcome: 'success', ...attributes });
+
+      return result;
+    } catch (error) {
+      this.logDuration(label, startedAt, {
+        outcome: 'failure',
+        error: error as Error,
+        ...attributes,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * If a log level source is configured and its cached value has expired, it fetches
+   * the desired log level from the source and, if it changed, it sets it.
+   *
+   * If the source fails, the current log level is kept and a warning is logged.
+   * When using the `injectLambdaContext` middleware or decorator, this method is called at the start of each invocation.
+   *
+   * @returns {Promise<void>}
+   */
+  public async refreshLogLevel(): Promise<void> {
+    if (!this.logLevelSource) {
+      return;
+    }
+    try {
+      await this.logLevelSource.refresh();
+    } catch (error) {
+      this.warn(
+        'Unable to fetch the log level from its source, the current log level is kept',
+        error as Error
+      );
+    }
+    this.applyLogLevelSource();
+  }
+
   /**
    * If the sample rate feature is enabled, the calculation that determines whether the logs
    * will actually be printed or not for this invocation is done when the Logger class is
    * initialized.
    * This method will repeat that calculation (with possible different outcome).
    *
+   * When a sampling strategy is configured and the `injectLambdaContext` middleware or decorator is used,
+   * this method is called at the start of each invocation, after the correlation ID is set.
+   *
    * @returns {void}
    */
   public refreshSampleRateCalculation(): void {
@@ -491,12 +874,54 @@ class Logger extends Utility implements ClassThatLogs {
     });
   }
 
+  /**
+   * It sets the correlation ID added to all log items, as `correlation_id`
+   * with the default log formatter.
+   *
+   * If a JMESPath expression is passed, the correlation ID is extracted from the given value,
+   * i.e. the incoming event. You can use one of the expressions in {@link correlationPaths}
+   * for the most common event types.
+   *
+   * @example
+   * ```typescript
+   * import { Logger, correlationPaths } from '@aws-lambda-powertools/logger';
+   *
+   * const logger = new Logger();
+   *
+   * export const handler = async (event: unknown): Promise<void> => {
+   *   logger.setCorrelationId(event, correlationPaths.API_GATEWAY_REST);
+   * };
+   * ```
+   *
+   * @param {unknown} value - The correlation ID, or the value to extract it from
+   * @param {string} [correlationIdPath] - JMESPath expression used to extract the correlation ID
+   * @returns {void}
+   */
+  public setCorrelationId(value: unknown, correlationIdPath?: string): void {
+    let correlationId = value;
+    if (correlationIdPath) {
+      try {
+        correlationId = search(value, correlationIdPath);
+      } catch (error) {
+        this.powertoolLogData.correlationId = undefined;
+        this.warn(
+          `Unable to extract the correlation ID: the expression '${correlationIdPath}' is not valid`,
+          error as Error
+        );
+
+        return;
+      }
+    }
+
+    this.powertoolLogData.correlationId = correlationId ?? undefined;
+  }
+
   /**
    * Set the log level for this Logger instance.
    *
    * @param logLevel The log level to set, i.e. `error`, `warn`, `info`, `debug`, etc.
    */
-  public setLogLevel(logLevel: LogLevel): void {
+  public setLogLevel(logLevel: LogLevel | CustomLogLevelName<T>): void {
     if (this.isValidLogLevel(logLevel)) {
       this.logLevel = this.logLevelThresholds[logLevel];
     } else {
@@ -543,6 +968,40 @@ class Logger extends Utility implements ClassThatLogs {
     return this.getLogEvent();
   }
 
+  /**
+   * It starts a timer with the given label, to measure the duration of a code block
+   * that ends with a call to `timeEnd()` with the same label.
+   *
+   * @param {string} label
+   * @returns {void}
+   */
+  public time(label: string): void {
+    this.timers ??= new Map();
+    this.timers.set(label, performance.now());
+  }
+
+  /**
+   * It stops the timer with the given label and emits a log item with the label as message,
+   * the time elapsed since the timer was started in `duration_ms`, and the given attributes.
+   *
+   * The log item has the log level set in the timing options (default: `INFO`).
+   * If no timer was started with the given label, a warning is emitted instead.
+   *
+   * @param {string} label
+   * @param {LogAttributes} [attributes]
+   * @returns {void}
+   */
+  public timeEnd(label: string, attributes?: LogAttributes): void {
+    const startedAt = this.timers?.get(label);
+    if (startedAt === undefined) {
+      this.warn('No timer was started with this label', { label });
+
+      return;
+    }
+    this.timers?.delete(label);
+    this.logDuration(label, startedAt, attributes);
+  }
+
   /**
    * It prints a log item with level WARN.
    *
@@ -554,13 +1013,42 @@ class Logger extends Utility implements ClassThatLogs {
     this.processLogItem(16, input, extraInput);
   }
 
+  /**
+   * It runs the given function, adding the given attributes to all the log items emitted while it runs,
+   * including the ones emitted in nested async calls and by child loggers.
+   *
+   * Unlike {@link appendKeys()}, the attributes are removed automatically when the function completes,
+   * and don't leak into concurrent work, i.e. other records processed with `Promise.all`.
+   * Nested calls add their attributes to the ones of the outer scope.
+   *
+   * @example
+   * ```typescript
+   * await Promise.all(
+   *   event.Records.map((record) =>
+   *     logger.withContext({ messageId: record.messageId }, () => processRecord(record))
+   *   )
+   * );
+   * ```
+   *
+   * @param {LogAttributes} attributes
+   * @param {() => T} fn
+   * @returns {T} the value returned by the function
+   */
+  public withContext<T>(attributes: LogAttributes, fn: () => T): T {
+    return Logger.contextStorage.run(
+      { ...Logger.contextStorage.getStore(), ...attributes },
+      fn
+    );
+  }
+
   /**
    * Decides whether the current log item should be printed or not.
    *
    * The decision is based on the log level and the sample rate value.
    * A log item will be printed if:
    * 1. The log level is greater than or equal to the Logger's log level.
-   * 2. The log level is less than the Logger's log level, but the
+   * 2. The log level is a custom log level that bypasses the threshold.
+   * 3. The log level is less than the Logger's log level, but the
    * current sampling value is set to `true`.
    *
    * @param {number} logLevel
@@ -571,6 +1059,12 @@ class Logger extends Utility implements ClassThatLogs {
     if (logLevel >= this.logLevel) {
       return true;
     }
+    if (
+      this.customLogLevels?.[this.getLogLevelNameFromNumber(logLevel)]
+        ?.bypassThreshold
+    ) {
+      return true;
+    }
 
     return this.getLogsSampled();
   }
@@ -590,6 +1084,66 @@ class Logger extends Utility implements ClassThatLogs {
     });
   }
 
+  /**
+   * It sets the log level returned by the log level source, if the source value changed
+   * since it was last applied, and logs the change once.
+   *
+   * Child loggers sharing the source of their parent change their log level silently,
+   * so that the change is logged only by the logger that owns the source.
+   *
+   * @private
+   * @returns {void}
+   */
+  private applyLogLevelSource(): void {
+    const version = this.logLevelSource?.getVersion();
+    if (!this.logLevelSource || version === this.logLevelSourceVersion) {
+      return;
+    }
+    this.logLevelSourceVersion = version;
+
+    const logLevel = this.logLevelSource.getLogLevel(
+      this.powertoolLogData.serviceName
+    );
+    if (
+      !this.isValidLogLevel(logLevel) ||
+      this.logLevelThresholds[logLevel] === this.logLevel
+    ) {
+      return;
+    }
+    const previousLogLevel = this.getLevelName();
+    this.setLogLevel(logLevel);
+    if (
+      Logger.parentLoggers.get(this)?.logLevelSource === this.logLevelSource
+    ) {
+      return;
+    }
+    this.printLog(
+      this.logLevelThresholds.INFO,
+      this.createAndPopulateLogItem(
+        this.logLevelThresholds.INFO,
+        'Log level changed',
+        [{ previous_log_level: previousLogLevel, log_level: logLevel }]
+      )
+    );
+  }
+
+  /**
+   * It adds a log item to the buffer, together with its size in bytes once serialized.
+   *
+   * @private
+   * @param {number} logLevel
+   * @param {LogItem} log
+   * @returns {void}
+   */
+  private bufferLogItem(logLevel: number, log: LogItem): void {
+    log.prepareForPrint();
+    const size = Buffer.byteLength(
+      JSON.stringify(log.getAttributes(), this.getReplacer())
+    );
+
+    (this.logBuffer as LogBuffer).add(logLevel, log, size);
+  }
+
   /**
    * It processes a particular log item so that it can be printed to stdout:
    * - Merges ephemeral log attributes with persistent log attributes (printed for all logs) and additional info;
@@ -613,6 +1167,8 @@ class Logger extends Utility implements ClassThatLogs {
         timestamp: new Date(),
         message: typeof input === 'string' ? input : input.message,
         xRayTraceId: this.envVarsService.getXrayTraceId(),
+        correlationId: this.getCorrelationId(),
+        samplingDecision: this.samplingDecision,
       },
       this.getPowertoolLogData()
     );
@@ -624,6 +1180,9 @@ class Logger extends Utility implements ClassThatLogs {
       persistentAttributes: this.getPersistentLogAttributes(),
     });
 
+    // Add the attributes of the current scope
+    logItem.addAttributes(Logger.contextStorage.getStore() ?? {});
+
     // Add ephemeral attributes
     if (typeof input !== 'string') {
       logItem.addAttributes(input);
@@ -642,6 +1201,31 @@ class Logger extends Utility implements ClassThatLogs {
     return logItem;
   }
 
+  /**
+   * It returns the console method used to print the log items with the given log level:
+   * the one of the custom log level, if set, otherwise the one of the closest built-in log level below it.
+   *
+   * @private
+   * @param {number} logLevel
+   * @returns {ConsoleMethod}
+   */
+  private getConsoleMethod(logLevel: number): ConsoleMethod {
+    const customLogLevel =
+      this.customLogLevels?.[this.getLogLevelNameFromNumber(logLevel)];
+    if (customLogLevel?.consoleMethod) {
+      return customLogLevel.consoleMethod;
+    }
+    if (logLevel >= this.logLevelThresholds.ERROR) {
+      return 'error';
+    } else if (logLevel >= this.logLevelThresholds.WARN) {
+      return 'warn';
+    } else if (logLevel >= this.logLevelThresholds.INFO) {
+      return 'info';
+    }
+
+    return 'debug';
+  }
+
   /**
    * It returns the custom config service, an abstraction used to fetch environment variables.
    *
@@ -713,10 +1297,7 @@ class Logger extends Utility implements ClassThatLogs {
    * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/JSON/stringify#exceptions
    * @private
    */
-  private getReplacer(): (
-    key: string,
-    value: LogAttributes | Error | bigint
-  ) => void {
+  private getReplacer(): (key: string, value: unknown) => unknown {
     const references = new WeakSet();
 
     return (key, value) => {
@@ -727,7 +1308,7 @@ class Logger extends Utility implements ClassThatLogs {
       if (typeof item === 'bigint') {
         return item.toString();
       }
-      if (typeof item === 'object' && value !== null) {
+      if (typeof item === 'object' && item !== null) {
         if (references.has(item)) {
           return;
         }
@@ -752,6 +1333,18 @@ class Logger extends Utility implements ClassThatLogs {
     return this.powertoolLogData.sampleRateValue as number;
   }
 
+  /**
+   * It returns the numeric log level of the log items with a duration.
+   *
+   * @private
+   * @returns {number}
+   */
+  private getTimingLogLevel(): number {
+    return this.logLevelThresholds[
+      (this.timingOptions?.logLevel ?? 'INFO').toUpperCase()
+    ];
+  }
+
   /**
    * It returns true and type guards the log level if a given log level is valid.
    *
@@ -765,6 +1358,70 @@ class Logger extends Utility implements ClassThatLogs {
     return typeof logLevel === 'string' && logLevel in this.logLevelThresholds;
   }
 
+  /**
+   * It emits a log item with the given message and the time elapsed since the given start time.
+   *
+   * @private
+   * @param {string} message
+   * @param {number} startedAt
+   * @param {LogAttributes} [attributes]
+   * @param {string} [durationKey]
+   * @returns {void}
+   */
+  private logDuration(
+    message: string,
+    startedAt: number,
+    attributes?: LogAttributes,
+    durationKey = 'duration_ms'
+  ): void {
+    this.processLogItem(this.getTimingLogLevel(), message, [
+      {
+        [durationKey]: Math.round(performance.now() - startedAt),
+        ...attributes,
+      },
+    ]);
+  }
+
+  /**
+   * It prints a log item with the platform and runtime metadata of the execution environment,
+   * regardless of the log level unless the Logger is silent, so that each execution environment can be identified.
+   *
+   * The init duration is the time elapsed between the start of the process and the loading of the Logger,
+   * so it's included only for on-demand execution environments.
+   *
+   * @private
+   * @param {Context} context
+   * @returns {void}
+   */
+  private printColdStartMetadata(context: Context): void {
+    if (this.logLevel === this.logLevelThresholds.SILENT) {
+      return;
+    }
+    const initializationType = this.getEnvVarsService().getInitializationType();
+    this.printLog(
+      this.logLevelThresholds.INFO,
+      this.createAndPopulateLogItem(
+        this.logLevelThresholds.INFO,
+        'Execution environment metadata',
+        [
+          {
+            node_version: process.version,
+            architecture: process.arch,
+            execution_env: this.getEnvVarsService().getExecutionEnvironment(),
+            init_type: initializationType,
+            init_duration_ms:
+              initializationType === 'on-demand'
+                ? Math.round(moduleLoadedAt)
+                : undefined,
+            log_group: context.logGroupName,
+            log_stream: context.logStreamName,
+            powertools_version: PT_VERSION,
+          },
+        ]
+      )
+    );
+  }
+
   /**
    * It prints a given log with given log level.
    *
@@ -775,21 +1432,22 @@ class Logger extends Utility implements ClassThatLogs {
   private printLog(logLevel: number, log: LogItem): void {
     log.prepareForPrint();
 
-    const consoleMethod =
-      logLevel === 24
-        ? 'error'
-        : (this.getLogLevelNameFromNumber(logLevel).toLowerCase() as keyof Omit<
-            ClassThatLogs,
-            'critical'
-          >);
-
-    this.console[consoleMethod](
-      JSON.stringify(
-        log.getAttributes(),
-        this.getReplacer(),
-        this.logIndentation
-      )
-    );
+    const logFormatter = this.getLogFormatter();
+    const redactedAttributes = this.redactor
+      ? this.redactor.redact(log.getAttributes(), logFormatter)
+      : log.getAttributes();
+    const attributes = logFormatter.formatLogItem
+      ? logFormatter.formatLogItem(redactedAttributes)
+      : redactedAttributes;
+    const record: LogRecord = {
+      logLevel: this.getLogLevelNameFromNumber(logLevel),
+      consoleMethod: this.getConsoleMethod(logLevel),
+      attributes,
+      serialize: () => this.serializeAttributes(attributes),
+      getReplacer: () => this.getReplacer(),
+    };
+
+    (this.logTransport as LogTransportInterface).send(record);
   }
 
   /**
@@ -805,13 +1463,44 @@ class Logger extends Utility implements ClassThatLogs {
     input: LogItemMessage,
     extraInput: LogItemExtraInput
   ): void {
+    this.applyLogLevelSource();
     if (!this.shouldPrint(logLevel)) {
+      if (this.logBuffer) {
+        this.bufferLogItem(
+          logLevel,
+          this.createAndPopulateLogItem(logLevel, input, extraInput)
+        );
+      }
+
       return;
     }
-    this.printLog(
-      logLevel,
-      this.createAndPopulateLogItem(logLevel, input, extraInput)
-    );
+    const logItem = this.createAndPopulateLogItem(logLevel, input, extraInput);
+    if (this.shouldSuppress(logLevel, input, logItem)) {
+      return;
+    }
+    if (logLevel >= 20 && this.logBufferOptions?.flushOnErrorLog !== false) {
+      this.flushBuffer();
+    }
+    this.printLog(logLevel, logItem);
+  }
+
+  /**
+   * It returns the string printed for the given log attributes: JSON by default,
+   * or the output of the log formatter, if it implements `serialize()`.
+   *
+   * @param {LogAttributes} attributes
+   * @private
+   * @returns {string}
+   */
+  private serializeAttributes(attributes: LogAttributes): string {
+    const logFormatter = this.getLogFormatter();
+    if (logFormatter.serialize) {
+      return logFormatter.serialize(
+        JSON.parse(JSON.stringify(attributes, this.getReplacer()))
+      );
+    }
+
+    return JSON.stringify(attributes, this.getReplacer(), this.logIndentation);
   }
 
   /**
@@ -848,6 +1537,42 @@ class Logger extends Utility implements ClassThatLogs {
       : undefined;
   }
 
+  /**
+   * It registers the custom log levels, adding them to the log level thresholds
+   * and generating a method to log with each one of them, i.e. `trace()` for `TRACE`.
+   *
+   * @private
+   * @param {CustomLogLevels} customLogLevels
+   * @returns {void}
+   */
+  private setCustomLogLevels(customLogLevels?: CustomLogLevels): void {
+    if (!customLogLevels || Object.keys(customLogLevels).length === 0) {
+      return;
+    }
+    this.customLogLevels = {};
+    for (const [name, customLogLevel] of Object.entries(customLogLevels)) {
+      const logLevelName = name.toUpperCase();
+      const methodName = name.toLowerCase();
+      if (
+        logLevelName in this.logLevelThresholds ||
+        methodName in this ||
+        Object.values(this.logLevelThresholds).includes(customLogLevel.value)
+      ) {
+        throw new Error(`Invalid custom log level: ${name}`);
+      }
+      this.customLogLevels[logLevelName] = customLogLevel;
+      this.logLevelThresholds[logLevelName] = customLogLevel.value;
+      Object.defineProperty(this, methodName, {
+        value: (
+          input: LogItemMessage,
+          ...extraInput: LogItemExtraInput
+        ): void => {
+          this.processLogItem(customLogLevel.value, input, extraInput);
+        },
+      });
+    }
+  }
+
   /**
    * Sets the Logger's custom config service instance, which will be used
    * to fetch environment variables.
@@ -870,7 +1595,9 @@ class Logger extends Utility implements ClassThatLogs {
    * @private
    * @param {LogLevel} [logLevel] - Log level passed to the constructor
    */
-  private setInitialLogLevel(logLevel?: LogLevel): void {
+  private setInitialLogLevel(
+    logLevel?: LogLevel | CustomLogLevelName<CustomLogLevels>
+  ): void {
     const constructorLogLevel = logLevel?.toUpperCase();
     if (this.isValidLogLevel(constructorLogLevel)) {
       this.logLevel = this.logLevelThresholds[constructorLogLevel];
@@ -893,6 +1620,47 @@ class Logger extends Utility implements ClassThatLogs {
     }
   }
 
+  /**
+   * If log buffering is enabled, it initializes the buffer that holds the log items
+   * below the current log level.
+   *
+   * @private
+   * @param {LogBufferOptions} [logBufferOptions]
+   * @returns {void}
+   */
+  private setLogBuffer(logBufferOptions?: LogBufferOptions): void {
+    if (!logBufferOptions?.enabled) {
+      return;
+    }
+
+    this.logBufferOptions = logBufferOptions;
+    this.logBuffer = new LogBuffer({
+      maxBytes: logBufferOptions.maxBytes ?? 20480,
+      maxSize: logBufferOptions.maxSize,
+    });
+  }
+
+  /**
+   * If log deduplication is enabled, it initializes the counters of the similar log items.
+   *
+   * @private
+   * @param {LogDeduplicationOptions} [logDeduplicationOptions]
+   * @returns {void}
+   */
+  private setLogDeduplicator(
+    logDeduplicationOptions?: LogDeduplicationOptions
+  ): void {
+    if (!logDeduplicationOptions?.enabled) {
+      return;
+    }
+
+    this.logDeduplicationOptions = logDeduplicationOptions;
+    this.logDeduplicator = new LogDeduplicator({
+      maxEntries: logDeduplicationOptions.maxEntries ?? 10,
+      windowSeconds: logDeduplicationOptions.windowSeconds,
+    });
+  }
+
   /**
    * If the log event feature is enabled via env variable, it sets a property that tracks whether
    * the event passed to the Lambda function handler should be logged or not.
@@ -908,14 +1676,35 @@ class Logger extends Utility implements ClassThatLogs {
 
   /**
    * It sets the log formatter instance, in charge of giving a custom format
-   * to the structured logs
+   * to the structured logs.
+   *
+   * When no log formatter is passed, the one selected by the `POWERTOOLS_LOGGER_FORMAT` env variable is used, if any.
+   * Otherwise, the `DevLogFormatter` is used if the `POWERTOOLS_DEV` env variable is set,
+   * stdout is a TTY and logs are printed to the console, and the `PowertoolLogFormatter` in all other cases.
    *
    * @private
    * @param {LogFormatterInterface} logFormatter
+   * @param {LogTransportInterface} logTransport
    * @returns {void}
    */
-  private setLogFormatter(logFormatter?: LogFormatterInterface): void {
-    this.logFormatter = logFormatter || new PowertoolLogFormatter();
+  private setLogFormatter(
+    logFormatter?: LogFormatterInterface,
+    logTransport?: LogTransportInterface
+  ): void {
+    const logFormat = this.getEnvVarsService().getLogFormat().toUpperCase();
+    if (logFormatter) {
+      this.logFormatter = logFormatter;
+    } else if (logFormat in Logger.logFormatters) {
+      this.logFormatter = new Logger.logFormatters[logFormat]();
+    } else if (
+      this.getEnvVarsService().isDevMode() &&
+      process.stdout.isTTY &&
+      !logTransport
+    ) {
+      this.logFormatter = new DevLogFormatter();
+    } else {
+      this.logFormatter = new PowertoolLogFormatter();
+    }
   }
 
   /**
@@ -931,18 +1720,46 @@ class Logger extends Utility implements ClassThatLogs {
     }
   }
 
+  /**
+   * It sets the source of the log level, if provided.
+   *
+   * @private
+   * @param {LogLevelSourceOptions} logLevelSourceOptions
+   * @returns {void}
+   */
+  private setLogLevelSource(
+    logLevelSourceOptions?: LogLevelSourceOptions
+  ): void {
+    if (logLevelSourceOptions) {
+      this.logLevelSource = new LogLevelSource(logLevelSourceOptions);
+    }
+  }
+
   /**
    * If the sample rate feature is enabled, it sets a property that tracks whether this Lambda function invocation
    * will print logs or not.
    *
+   * The decision is taken by the sampling strategy, if configured, otherwise it's random.
+   *
    * @private
    * @returns {void}
    */
   private setLogsSampled(): void {
-    const sampleRateValue = this.getSampleRateValue();
-    this.logsSampled =
-      sampleRateValue !== undefined &&
-      (sampleRateValue === 1 || randomInt(0, 100) / 100 <= sampleRateValue);
+    const samplingDecision = (
+      this.samplingStrategy ?? new RandomSamplingStrategy()
+    ).decide({
+      sampleRateValue: this.getSampleRateValue(),
+      serviceName: this.powertoolLogData.serviceName,
+      correlationId: this.getCorrelationId(),
+      xRayTraceId: this.getEnvVarsService().getXrayTraceId(),
+      invocationId: (
+        this.powertoolLogData.lambdaContext as LambdaFunctionContext | undefined
+      )?.awsRequestId,
+    });
+    this.logsSampled = samplingDecision.sampled;
+    if (this.samplingStrategy) {
+      this.samplingDecision = samplingDecision;
+    }
   }
 
   /**
@@ -953,7 +1770,7 @@ class Logger extends Utility implements ClassThatLogs {
    * @param {ConstructorOptions} options
    * @returns {Logger}
    */
-  private setOptions(options: ConstructorOptions): Logger {
+  private setOptions(options: ConstructorOptions<CustomLogLevels>): Logger<T> {
     const {
       logLevel,
       serviceName,
@@ -962,19 +1779,40 @@ class Logger extends Utility implements ClassThatLogs {
       customConfigService,
       persistentLogAttributes,
       environment,
+      logBufferOptions,
+      redactionRules,
+      logTransport,
+      logLevelSource,
+      customLogLevels,
+      logDeduplicationOptions,
+      samplingStrategy,
+      timingOptions,
+      logColdStartMetadata,
     } = options;
 
     this.setEnvVarsService();
     // order is important, it uses EnvVarsService()
     this.setConsole();
     this.setCustomConfigService(customConfigService);
+    this.setCustomLogLevels(customLogLevels);
     this.setInitialLogLevel(logLevel);
     this.setSampleRateValue(sampleRateValue);
-    this.setLogsSampled();
-    this.setLogFormatter(logFormatter);
+    this.setLogFormatter(logFormatter, logTransport);
     this.setPowertoolLogData(serviceName, environment);
+    // order is important, the sampling strategy uses the service name
+    this.samplingStrategy = samplingStrategy;
+    this.setLogsSampled();
     this.setLogEvent();
     this.setLogIndentation();
+    this.setLogBuffer(logBufferOptions);
+    this.setLogDeduplicator(logDeduplicationOptions);
+    this.setTimingOptions(timingOptions);
+    if (logColdStartMetadata) {
+      this.logColdStartMetadata = true;
+    }
+    this.setRedactor(redactionRules);
+    this.logTransport = logTransport ?? new ConsoleTransport(this.console);
+    this.setLogLevelSource(logLevelSource);
 
     this.addPersistentLogAttributes(persistentLogAttributes);
 
@@ -1012,6 +1850,134 @@ class Logger extends Utility implements ClassThatLogs {
       persistentLogAttributes
     );
   }
+
+  /**
+   * If redaction rules are provided, it initializes the redactor that removes
+   * sensitive values from the log items before printing them.
+   *
+   * @private
+   * @param {RedactionRule[]} [redactionRules]
+   * @returns {void}
+   */
+  private setRedactor(redactionRules?: RedactionRule[]): void {
+    if (!redactionRules || redactionRules.length === 0) {
+      return;
+    }
+
+    this.redactor = new LogRedactor(redactionRules);
+  }
+
+  /**
+   * It sets the timing options, after checking that their log level exists.
+   *
+   * @private
+   * @param {TimingOptions} [timingOptions]
+   * @returns {void}
+   */
+  private setTimingOptions(
+    timingOptions?: TimingOptions<CustomLogLevels>
+  ): void {
+    if (!timingOptions) {
+      return;
+    }
+    const logLevel = timingOptions.logLevel?.toUpperCase();
+    if (logLevel !== undefined && !this.isValidLogLevel(logLevel)) {
+      throw new Error(`Invalid log level: ${logLevel}`);
+    }
+
+    this.timingOptions = { ...timingOptions, logLevel };
+  }
+
+  /**
+   * If log deduplication is enabled, it decides whether a log item must be suppressed because
+   * too many similar log items were printed in the current invocation or window.
+   *
+   * Log items with an exempt log level, by default `ERROR` and `CRITICAL`, are never suppressed.
+   * When the window elapses, the suppressed log items of the previous window are reported first.
+   *
+   * @private
+   * @param {number} logLevel
+   * @param {LogItemMessage} input
+   * @param {LogItem} logItem
+   * @returns {boolean}
+   */
+  private shouldSuppress(
+    logLevel: number,
+    input: LogItemMessage,
+    logItem: LogItem
+  ): boolean {
+    if (!this.logDeduplicator || !this.logDeduplicationOptions) {
+      return false;
+    }
+    const { key, exemptLogLevels = ['ERROR', 'CRITICAL'] } =
+      this.logDeduplicationOptions;
+    const logLevelName = this.getLogLevelNameFromNumber(logLevel);
+    if (exemptLogLevels.includes(logLevelName)) {
+      return false;
+    }
+    if (this.logDeduplicator.isWindowElapsed()) {
+      this.flushSuppressedLogs();
+    }
+    const message = typeof input === 'string' ? input : input.message;
+
+    return this.logDeduplicator.shouldSuppress(
+      key ? key(message, logItem.getAttributes()) : `${logLevelName}:${message}`
+    );
+  }
+
+  /**
+   * If the timing options are set, it records the start of the invocation and schedules
+   * a warning for when its remaining time drops below the threshold, if any.
+   *
+   * @private
+   * @param {Context} context
+   * @returns {void}
+   */
+  private startInvocationTiming(context: Context): void {
+    if (!this.timingOptions) {
+      return;
+    }
+    const { logHandlerDuration = true, remainingTimeThresholdMs } =
+      this.timingOptions;
+    if (logHandlerDuration) {
+      this.invocationStartedAt = performance.now();
+    }
+    if (remainingTimeThresholdMs === undefined) {
+      return;
+    }
+
+    clearTimeout(this.remainingTimeTimeout);
+    this.remainingTimeTimeout = setTimeout(() => {
+      this.warn('The remaining time of the invocation is below the threshold', {
+        remaining_time_ms: context.getRemainingTimeInMillis(),
+        threshold_ms: remainingTimeThresholdMs,
+      });
+    }, Math.max(context.getRemainingTimeInMillis() - remainingTimeThresholdMs, 0));
+    this.remainingTimeTimeout.unref();
+  }
+
+  /**
+   * It cancels the warning about the remaining time and, if the start of the invocation
+   * was recorded, it emits a log item with the duration of the handler.
+   *
+   * @private
+   * @returns {void}
+   */
+  private stopInvocationTiming(): void {
+    clearTimeout(this.remainingTimeTimeout);
+    this.remainingTimeTimeout = undefined;
+    if (this.invocationStartedAt === undefined) {
+      return;
+    }
+
+    this.logDuration(
+      'Handler duration',
+      this.invocationStartedAt,
+      {},
+      'handler_duration_ms'
+    );
+    this.invocationStartedAt = undefined;
+  }
 }
 
 export { Logger };
@@ -23,9 +23,12 @@ class EnvironmentVariablesService
   private awsRegionVariable = 'AWS_REGION';
   private currentEnvironmentVariable = 'ENVIRONMENT';
   private devModeVariable = 'POWERTOOLS_DEV';
+  private executionEnvironmentVariable = 'AWS_EXECUTION_ENV';
   private functionNameVariable = 'AWS_LAMBDA_FUNCTION_NAME';
   private functionVersionVariable = 'AWS_LAMBDA_FUNCTION_VERSION';
+  private initializationTypeVariable = 'AWS_LAMBDA_INITIALIZATION_TYPE';
   private logEventVariable = 'POWERTOOLS_LOGGER_LOG_EVENT';
+  private logFormatVariable = 'POWERTOOLS_LOGGER_FORMAT';
   private logLevelVariable = 'LOG_LEVEL';
   private memoryLimitInMBVariable = 'AWS_LAMBDA_FUNCTION_MEMORY_SIZE';
   private sampleRateValueVariable = 'POWERTOOLS_LOGGER_SAMPLE_RATE';
@@ -48,6 +51,15 @@ class EnvironmentVariablesService
     return this.get(this.currentEnvironmentVariable);
   }
 
+  /**
+   * It returns the value of the AWS_EXECUTION_ENV environment variable, i.e. `AWS_Lambda_nodejs18.x`.
+   *
+   * @returns {string}
+   */
+  public getExecutionEnvironment(): string {
+    return this.get(this.executionEnvironmentVariable);
+  }
+
   /**
    * It returns the value of the AWS_LAMBDA_FUNCTION_MEMORY_SIZE environment variable.
    *
@@ -77,6 +89,16 @@ class EnvironmentVariablesService
     return this.get(this.functionVersionVariable);
   }
 
+  /**
+   * It returns the value of the AWS_LAMBDA_INITIALIZATION_TYPE environment variable,
+   * i.e. `on-demand`, `provisioned-concurrency` or `snap-start`.
+   *
+   * @returns {string}
+   */
+  public getInitializationType(): string {
+    return this.get(this.initializationTypeVariable);
+  }
+
   /**
    * It returns the value of the POWERTOOLS_LOGGER_LOG_EVENT environment variable.
    *
@@ -88,6 +110,15 @@ class EnvironmentVariablesService
     return this.isValueTrue(value);
   }
 
+  /**
+   * It returns the value of the POWERTOOLS_LOGGER_FORMAT environment variable.
+   *
+   * @returns {string}
+   */
+  public getLogFormat(): string {
+    return this.get(this.logFormatVariable);
+  }
+
   /**
    * It returns the value of the LOG_LEVEL environment variable.
    *
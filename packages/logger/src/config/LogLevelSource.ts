@@ -0,0 +1,106 @@
+import { LogLevelSourceOptions, LogLevelSourceValue } from '../types';
+
+/**
+ * Class LogLevelSource
+ *
+ * This class fetches the desired log levels from an async source, i.e. an SSM parameter
+ * or an AppConfig configuration profile, and caches them for a given number of seconds.
+ *
+ * The same instance is shared by a Logger and its child loggers, which compare the version
+ * of the cached value with the one they applied last to know when their log level needs to change.
+ *
+ * @class
+ */
+class LogLevelSource {
+  private fetchedAt?: number;
+  private readonly maxAge: number;
+  private pendingRefresh?: Promise<void>;
+  private readonly source: () => Promise<LogLevelSourceValue | undefined>;
+  private value: Exclude<LogLevelSourceValue, string> = {};
+  private version = 0;
+
+  public constructor(options: LogLevelSourceOptions) {
+    this.source = options.source;
+    this.maxAge = options.maxAge ?? 60;
+  }
+
+  /**
+   * It returns the log level of the loggers with the given service name,
+   * or `undefined` if the source didn't return one.
+   *
+   * @param {string} serviceName
+   * @returns {string|undefined}
+   */
+  public getLogLevel(serviceName: string): string | undefined {
+    return (
+      this.value.services?.[serviceName] ?? this.value.logLevel
+    )?.toUpperCase();
+  }
+
+  /**
+   * It returns a number that changes every time the value returned by the source changes.
+   *
+   * @returns {number}
+   */
+  public getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * It fetches the log levels from the source, if the cached value has expired.
+   * Concurrent calls share the same request to the source.
+   *
+   * If the source throws, the cached value is kept until it expires again and the error is rethrown.
+   *
+   * @returns {Promise<void>}
+   */
+  public async refresh(): Promise<void> {
+    if (
+      this.fetchedAt !== undefined &&
+      new Date().getTime() - this.fetchedAt < this.maxAge * 1000
+    ) {
+      return;
+    }
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.fetch().finally(() => {
+        this.pendingRefresh = undefined;
+      });
+    }
+
+    await this.pendingRefresh;
+  }
+
+  /**
+   * It fetches the log levels from the source and updates the version when they changed.
+   *
+   * @returns {Promise<void>}
+   */
+  private async fetch(): Promise<void> {
+    this.fetchedAt = new Date().getTime();
+    const value = this.parse(await this.source());
+    if (JSON.stringify(value) !== JSON.stringify(this.value)) {
+      this.value = value;
+      this.version++;
+    }
+  }
+
+  /**
+   * It normalizes the value returned by the source into an object.
+   *
+   * @param {LogLevelSourceValue|undefined} value
+   * @returns {Exclude<LogLevelSourceValue, string>}
+   */
+  private parse(
+    value?: LogLevelSourceValue
+  ): Exclude<LogLevelSourceValue, string> {
+    if (typeof value !== 'string') {
+      return value ?? {};
+    }
+
+    return value.trim().startsWith('{')
+      ? JSON.parse(value)
+      : { logLevel: value.trim() };
+  }
+}
+
+export { LogLevelSource };
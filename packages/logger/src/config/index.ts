@@ -1,2 +1,3 @@
 export * from './ConfigServiceInterface';
 export * from './EnvironmentVariablesService';
+export * from './LogLevelSource';
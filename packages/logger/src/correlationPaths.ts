@@ -0,0 +1,35 @@
+/**
+ * JMESPath expressions to extract the correlation ID from the events
+ * of the most common AWS services that invoke Lambda functions.
+ *
+ * @example
+ * ```typescript
+ * import { Logger, correlationPaths } from '@aws-lambda-powertools/logger';
+ * import middy from '@middy/core';
+ *
+ * const logger = new Logger();
+ *
+ * export const handler = middy(async () => {
+ *   logger.info('This log has the correlation ID of the request');
+ * }).use(
+ *   injectLambdaContext(logger, {
+ *     correlationIdPath: correlationPaths.API_GATEWAY_REST,
+ *   })
+ * );
+ * ```
+ */
+const correlationPaths = {
+  API_GATEWAY_REST: 'requestContext.requestId',
+  API_GATEWAY_HTTP: 'requestContext.requestId',
+  APPLICATION_LOAD_BALANCER: 'headers."x-amzn-trace-id"',
+  APPSYNC_AUTHORIZER: 'requestContext.requestId',
+  APPSYNC_RESOLVER: 'request.headers."x-amzn-trace-id"',
+  EVENT_BRIDGE: 'id',
+  LAMBDA_FUNCTION_URL: 'requestContext.requestId',
+  /**
+   * The message ID of the first record of the batch
+   */
+  SQS: 'Records[0].messageId',
+} as const;
+
+export { correlationPaths };
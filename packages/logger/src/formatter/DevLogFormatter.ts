@@ -0,0 +1,152 @@
+import { LogFormatterOptions, PowertoolLogFormatter } from '.';
+import { LogAttributes } from '../types';
+
+const RESET = '\x1b[0m';
+const DIM = '\x1b[2m';
+const BOLD = '\x1b[1m';
+
+const levelColors: { [key: string]: string } = {
+  DEBUG: '\x1b[34m',
+  INFO: '\x1b[32m',
+  WARN: '\x1b[33m',
+  ERROR: '\x1b[31m',
+  CRITICAL: '\x1b[35m',
+};
+
+type DevLogFormatterOptions = LogFormatterOptions & {
+  /**
+   * Whether to add ANSI colors to the output (default: `true`)
+   */
+  colors?: boolean;
+};
+
+/**
+ * This class formats the log items in a human-friendly way, to make them easier
+ * to read in a terminal while developing or testing functions locally.
+ *
+ * Each log item is printed as a single line with the log level, a short timestamp,
+ * the service name and the message, followed by the other attributes as dimmed
+ * `key=value` pairs and by the stack of the errors, if any.
+ *
+ * It's used by default when the `POWERTOOLS_DEV` environment variable is set and stdout is a TTY.
+ *
+ * @class
+ * @extends {PowertoolLogFormatter}
+ */
+class DevLogFormatter extends PowertoolLogFormatter {
+  private readonly colors: boolean;
+
+  public constructor(options: DevLogFormatterOptions = {}) {
+    super(options);
+    this.colors = options.colors ?? true;
+  }
+
+  /**
+   * It returns the human-friendly representation of a formatted log item.
+   *
+   * @param {LogAttributes} attributes
+   * @returns {string}
+   */
+  public serialize(attributes: LogAttributes): string {
+    const {
+      level,
+      message,
+      service,
+      timestamp,
+      ...otherAttributes
+    }: LogAttributes = attributes;
+    const levelName = String(level);
+    const lines = [
+      [
+        this.paint(
+          levelName.padEnd(8),
+          `${BOLD}${levelColors[levelName] ?? ''}`
+        ),
+        this.paint(this.formatShortTimestamp(timestamp), DIM),
+        this.paint(`[${service}]`, BOLD),
+        message,
+      ].join(' '),
+    ];
+
+    for (const [key, value] of Object.entries(otherAttributes)) {
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+      lines.push(...this.formatAttribute(key, value));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * It returns the lines of a single attribute, with the stack of errors on separate lines.
+   *
+   * @param {string} key
+   * @param {unknown} value
+   * @returns {string[]}
+   */
+  private formatAttribute(key: string, value: unknown): string[] {
+    if (this.isFormattedError(value)) {
+      const { stack, ...error } = value;
+
+      return [
+        this.paint(`    ${key}=${JSON.stringify(error)}`, DIM),
+        ...stack
+          .split('\n')
+          .slice(1)
+          .map((line) => this.paint(`        ${line.trim()}`, DIM)),
+      ];
+    }
+
+    return [
+      this.paint(
+        `    ${key}=${
+          typeof value === 'string' ? value : JSON.stringify(value)
+        }`,
+        DIM
+      ),
+    ];
+  }
+
+  /**
+   * It returns the time part of an ISO 8601 timestamp, i.e. `12:34:56.789`.
+   *
+   * @param {unknown} timestamp
+   * @returns {string}
+   */
+  private formatShortTimestamp(timestamp: unknown): string {
+    const match = /T(\d{2}:\d{2}:\d{2}\.\d{3})/.exec(String(timestamp));
+
+    return match ? match[1] : String(timestamp);
+  }
+
+  /**
+   * Typeguard for the attributes that contain an error formatted by `formatError()`.
+   *
+   * @param {unknown} value
+   * @returns {boolean}
+   */
+  private isFormattedError(
+    value: unknown
+  ): value is LogAttributes & { stack: string } {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      typeof (value as LogAttributes).stack === 'string' &&
+      'location' in value
+    );
+  }
+
+  /**
+   * It wraps the text in the given ANSI escape code, if colors are enabled.
+   *
+   * @param {string} text
+   * @param {string} code
+   * @returns {string}
+   */
+  private paint(text: string, code: string): string {
+    return this.colors ? `${code}${text}${RESET}` : text;
+  }
+}
+
+export { DevLogFormatter, DevLogFormatterOptions };
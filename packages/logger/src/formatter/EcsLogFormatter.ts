@@ -0,0 +1,67 @@
+import { LogFormatter } from '.';
+import { LogAttributes, UnformattedAttributes } from '../types';
+import { EcsLog } from '../types/formats';
+
+/**
+ * This class is used to transform a set of log key-value pairs
+ * in the Elastic Common Schema (ECS) format.
+ *
+ * Errors are formatted with the ECS `error` fields, i.e. `error.type` and `error.stack_trace`.
+ *
+ * @class
+ * @extends {LogFormatter}
+ * @see https://www.elastic.co/guide/en/ecs-logging/overview/current/intro.html
+ */
+class EcsLogFormatter extends LogFormatter {
+  /**
+   * It formats key-value pairs of log attributes.
+   *
+   * @param {UnformattedAttributes} attributes
+   * @returns {EcsLog}
+   */
+  public formatAttributes(attributes: UnformattedAttributes): EcsLog {
+    return {
+      '@timestamp': this.formatTimestamp(attributes.timestamp),
+      'log.level': attributes.logLevel.toLowerCase(),
+      message: attributes.message,
+      'ecs.version': '8.10.0',
+      'service.name': attributes.serviceName,
+      'service.environment': attributes.environment,
+      'cloud.provider': 'aws',
+      'cloud.region': attributes.awsRegion,
+      'faas.coldstart': attributes.lambdaContext?.coldStart,
+      'faas.execution': attributes.lambdaContext?.awsRequestId,
+      'faas.id': attributes.lambdaContext?.invokedFunctionArn,
+      'faas.name': attributes.lambdaContext?.functionName,
+      'faas.version': attributes.lambdaContext?.functionVersion,
+      'trace.id': attributes.xRayTraceId,
+      'labels.correlation_id': attributes.correlationId,
+      'labels.sampling_rate': attributes.sampleRateValue,
+      'labels.sampling_strategy': attributes.samplingDecision?.strategy,
+      'labels.sampled': attributes.samplingDecision?.sampled,
+    };
+  }
+
+  /**
+   * It formats a given Error parameter with the ECS `error` fields.
+   *
+   * @param {Error} error
+   * @param {number} [depth] - Depth of the error relative to the outermost one (default: `0`)
+   * @returns {LogAttributes}
+   */
+  public formatError(error: Error, depth?: number): LogAttributes {
+    const { name, location, message, stack, cause, ...otherAttributes } =
+      super.formatError(error, depth);
+
+    return {
+      type: name,
+      message,
+      stack_trace: stack,
+      location,
+      cause,
+      ...otherAttributes,
+    };
+  }
+}
+
+export { EcsLogFormatter };
@@ -0,0 +1,78 @@
+import { PowertoolLogFormatter } from '.';
+import { LogAttributes } from '../types';
+
+/**
+ * This class is used to transform a set of log key-value pairs in the AWS Lambda Powertools'
+ * default structure log format, with nested objects and arrays flattened into top-level keys,
+ * i.e. `{ "order": { "items": [{ "id": 1 }] } }` becomes `{ "order.items.0.id": 1 }`.
+ *
+ * Flat log items make all the keys, at any depth, discoverable as fields by CloudWatch Logs Insights.
+ *
+ * @class
+ * @extends {PowertoolLogFormatter}
+ */
+class FlattenedLogFormatter extends PowertoolLogFormatter {
+  /**
+   * It flattens the nested objects, arrays and errors of a log item into top-level keys.
+   *
+   * @param {LogAttributes} attributes
+   * @returns {LogAttributes}
+   */
+  public formatLogItem(attributes: LogAttributes): LogAttributes {
+    const logItem: LogAttributes = {};
+    this.flatten(attributes, '', logItem, new WeakSet());
+
+    return logItem;
+  }
+
+  /**
+   * It adds the values of the given object or array to the log item, prefixing their keys with the given prefix.
+   * Repeated references are skipped to avoid infinite recursion.
+   *
+   * @param {LogAttributes | unknown[]} value
+   * @param {string} prefix
+   * @param {LogAttributes} logItem
+   * @param {WeakSet<object>} seen
+   * @returns {void}
+   */
+  private flatten(
+    value: LogAttributes | unknown[],
+    prefix: string,
+    logItem: LogAttributes,
+    seen: WeakSet<object>
+  ): void {
+    seen.add(value);
+    for (const [key, item] of Object.entries(value)) {
+      const flatKey = `${prefix}${key}`;
+      const nested = item instanceof Error ? this.formatError(item) : item;
+      if (!this.isFlattenable(nested)) {
+        logItem[flatKey] = nested;
+      } else if (!seen.has(nested)) {
+        this.flatten(nested, `${flatKey}.`, logItem, seen);
+      }
+    }
+  }
+
+  /**
+   * Typeguard for the non-empty arrays and plain objects, which are flattened.
+   *
+   * @param {unknown} value
+   * @returns {boolean}
+   */
+  private isFlattenable(value: unknown): value is LogAttributes | unknown[] {
+    if (Array.isArray(value)) {
+      return value.length > 0;
+    }
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+
+    return (
+      (prototype === Object.prototype || prototype === null) &&
+      Object.keys(value).length > 0
+    );
+  }
+}
+
+export { FlattenedLogFormatter };
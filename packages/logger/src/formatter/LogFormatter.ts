@@ -1,5 +1,10 @@
 import { LogFormatterInterface } from '.';
-import { LogAttributes, UnformattedAttributes } from '../types';
+import {
+  ErrorClass,
+  ErrorSerializer,
+  LogAttributes,
+  UnformattedAttributes,
+} from '../types';
 
 /**
  * Typeguard to monkey patch Error to add a cause property.
@@ -18,14 +23,62 @@ const isErrorWithCause = (
   return 'cause' in error;
 };
 
+type LogFormatterOptions = {
+  /**
+   * Maximum depth of the nested errors, i.e. causes of causes, that are formatted (default: `5`)
+   */
+  maxErrorDepth?: number;
+  /**
+   * Maximum number of frames kept in the stack of each error (default: no limit)
+   */
+  maxStackFrames?: number;
+};
+
+/**
+ * Own properties of errors that are not copied to the formatted error,
+ * either because they're formatted separately or because they're too large,
+ * i.e. the raw HTTP response attached to AWS SDK v3 errors.
+ */
+const excludedErrorProperties = [
+  'name',
+  'message',
+  'stack',
+  'cause',
+  'errors',
+  '$response',
+];
+
+/**
+ * Own properties of Axios errors that are not copied to the formatted error, because they hold
+ * the request configuration, including its headers, i.e. `Authorization`, and the raw request and response.
+ */
+const excludedAxiosErrorProperties = ['config', 'request', 'response'];
+
 /**
  * This class defines and implements common methods for the formatting of log attributes.
  *
+ * Errors are formatted with their name, location, message, stack and cause, together with:
+ * - the errors wrapped by an `AggregateError`, in `errors`;
+ * - their own properties, i.e. `code`, the `childErrors` of a `BatchProcessingError`,
+ * or the `$fault` and `$metadata` of an AWS SDK v3 error, except the request and the response of Axios errors;
+ * - the attributes returned by the serializer registered for their class, if any.
+ *
+ * Nested errors are formatted recursively, up to the maximum error depth.
+ *
  * @class
  * @abstract
  * @implements {LogFormatterInterface}
  */
 abstract class LogFormatter implements LogFormatterInterface {
+  private errorSerializers?: Map<ErrorClass, ErrorSerializer>;
+  private readonly maxErrorDepth?: number;
+  private readonly maxStackFrames?: number;
+
+  public constructor(options: LogFormatterOptions = {}) {
+    this.maxErrorDepth = options.maxErrorDepth;
+    this.maxStackFrames = options.maxStackFrames;
+  }
+
   /**
    * It formats key-value pairs of log attributes.
    *
@@ -40,20 +93,42 @@ abstract class LogFormatter implements LogFormatterInterface {
    * It formats a given Error parameter.
    *
    * @param {Error} error
+   * @param {number} [depth] - Depth of the error relative to the outermost one, used to stop at the maximum error depth (default: `0`)
    * @returns {LogAttributes}
    */
-  public formatError(error: Error): LogAttributes {
-    return {
+  public formatError(error: Error, depth = 0): LogAttributes {
+    const formattedError: LogAttributes = {
       name: error.name,
       location: this.getCodeLocation(error.stack),
       message: error.message,
-      stack: error.stack,
+      stack: this.trimStack(error.stack),
       cause: isErrorWithCause(error)
-        ? error.cause instanceof Error
-          ? this.formatError(error.cause)
-          : error.cause
+        ? this.formatNestedError(error.cause, depth)
         : undefined,
     };
+    if ('errors' in error && Array.isArray(error.errors)) {
+      formattedError.errors = error.errors.map((item) =>
+        this.formatNestedError(item, depth)
+      );
+    }
+    const isAxiosError =
+      (error as { isAxiosError?: unknown }).isAxiosError === true;
+    for (const [key, value] of Object.entries(error)) {
+      if (
+        !excludedErrorProperties.includes(key) &&
+        !(isAxiosError && excludedAxiosErrorProperties.includes(key))
+      ) {
+        formattedError[key] = Array.isArray(value)
+          ? value.map((item) => this.formatNestedError(item, depth))
+          : this.formatNestedError(value, depth);
+      }
+    }
+
+    const serializer = this.getErrorSerializer(error);
+
+    return serializer
+      ? { ...formattedError, ...serializer(error) }
+      : formattedError;
   }
 
   /**
@@ -91,6 +166,104 @@ abstract class LogFormatter implements LogFormatterInterface {
 
     return '';
   }
+
+  /**
+   * It registers a function that returns the attributes added to the formatted errors
+   * of the given class, and of its subclasses. The attributes returned by the function
+   * take precedence over the default ones.
+   *
+   * When serializers are registered for several classes in the hierarchy of an error,
+   * the one of the closest class is used.
+   *
+   * @example
+   * ```typescript
+   * const logFormatter = new PowertoolLogFormatter();
+   * logFormatter.registerErrorSerializer(HttpError, (error) => ({
+   *   statusCode: error.statusCode,
+   *   response: undefined,
+   * }));
+   * ```
+   *
+   * @param {ErrorClass} errorClass
+   * @param {ErrorSerializer} serializer
+   * @returns {void}
+   */
+  public registerErrorSerializer<T extends Error>(
+    errorClass: ErrorClass<T>,
+    serializer: ErrorSerializer<T>
+  ): void {
+    this.errorSerializers ??= new Map();
+    this.errorSerializers.set(errorClass, serializer as ErrorSerializer);
+  }
+
+  /**
+   * It formats the value if it's an error, unless the maximum error depth was reached,
+   * in which case only its name and message are kept.
+   *
+   * @param {unknown} value
+   * @param {number} depth - Depth of the error holding the value
+   * @returns {unknown}
+   */
+  private formatNestedError(value: unknown, depth: number): unknown {
+    if (!(value instanceof Error)) {
+      return value;
+    }
+    if (depth >= (this.maxErrorDepth ?? 5)) {
+      return { name: value.name, message: value.message };
+    }
+
+    return this.formatError(value, depth + 1);
+  }
+
+  /**
+   * It returns the serializer registered for the closest class of the error, if any.
+   *
+   * @param {Error} error
+   * @returns {ErrorSerializer|undefined}
+   */
+  private getErrorSerializer(error: Error): ErrorSerializer | undefined {
+    let prototype = this.errorSerializers && Object.getPrototypeOf(error);
+    while (prototype) {
+      const serializer = this.errorSerializers?.get(prototype.constructor);
+      if (serializer) {
+        return serializer;
+      }
+      prototype = Object.getPrototypeOf(prototype);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * It removes the frames beyond the maximum number of stack frames, and replaces them
+   * with a line containing the number of removed frames.
+   *
+   * @param {string} [stack]
+   * @returns {string|undefined}
+   */
+  private trimStack(stack?: string): string | undefined {
+    if (!stack || this.maxStackFrames === undefined) {
+      return stack;
+    }
+
+    const lines = stack.split('\n');
+    const firstFrameIndex = lines.findIndex((line) =>
+      line.trimStart().startsWith('at ')
+    );
+    if (firstFrameIndex === -1) {
+      return stack;
+    }
+    const lastFrameIndex = firstFrameIndex + this.maxStackFrames;
+    const omittedFramesCount = lines.length - lastFrameIndex;
+    if (omittedFramesCount <= 0) {
+      return stack;
+    }
+
+    return [
+      ...lines.slice(0, lastFrameIndex),
+      `    ... ${omittedFramesCount} more`,
+    ].join('\n');
+  }
 }
 
-export { LogFormatter };
+export { LogFormatter, LogFormatterOptions };
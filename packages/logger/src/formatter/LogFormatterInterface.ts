@@ -16,9 +16,28 @@ interface LogFormatterInterface {
    * It formats a given Error parameter.
    *
    * @param {Error} error
+   * @param {number} [depth] - Depth of the error relative to the outermost one (default: `0`)
    * @returns {LogAttributes}
    */
-  formatError(error: Error): LogAttributes;
+  formatError(error: Error, depth?: number): LogAttributes;
+
+  /**
+   * It rearranges the attributes of a log item, including the ones added with the Logger,
+   * right before it's printed. When not implemented, the attributes are printed as they are.
+   *
+   * @param {LogAttributes} attributes
+   * @returns {LogAttributes}
+   */
+  formatLogItem?(attributes: LogAttributes): LogAttributes;
+
+  /**
+   * It returns the string printed for a formatted log item.
+   * When not implemented, the log item is printed as JSON.
+   *
+   * @param {LogAttributes} attributes
+   * @returns {string}
+   */
+  serialize?(attributes: LogAttributes): string;
 }
 
 export { LogFormatterInterface };
@@ -0,0 +1,125 @@
+import { LogFormatter } from '.';
+import { LogAttributes, UnformattedAttributes } from '../types';
+import { OpenTelemetryLog } from '../types/formats';
+
+/**
+ * Severity numbers of the log levels, as defined in the OpenTelemetry Logs Data Model.
+ * Log levels that are not listed, i.e. custom ones, have severity number `0` (unspecified).
+ */
+const severityNumbers: { [key: string]: number } = {
+  TRACE: 1,
+  DEBUG: 5,
+  INFO: 9,
+  NOTICE: 10,
+  WARN: 13,
+  ERROR: 17,
+  CRITICAL: 21,
+};
+
+const topLevelKeys = [
+  'timeUnixNano',
+  'severityNumber',
+  'severityText',
+  'body',
+  'resource',
+  'attributes',
+  'traceId',
+  'spanId',
+  'traceFlags',
+];
+
+/**
+ * This class is used to transform a set of log key-value pairs
+ * in the OpenTelemetry Logs Data Model format.
+ *
+ * The trace and span IDs are taken from the AWS X-Ray trace header in the `_X_AMZN_TRACE_ID`
+ * environment variable, and converted to the W3C format used by OpenTelemetry.
+ * All the keys added with the Logger, i.e. persistent attributes and errors, are moved into `attributes`.
+ *
+ * @class
+ * @extends {LogFormatter}
+ * @see https://opentelemetry.io/docs/specs/otel/logs/data-model/
+ */
+class OpenTelemetryLogFormatter extends LogFormatter {
+  /**
+   * It formats key-value pairs of log attributes.
+   *
+   * @param {UnformattedAttributes} attributes
+   * @returns {OpenTelemetryLog}
+   */
+  public formatAttributes(attributes: UnformattedAttributes): OpenTelemetryLog {
+    const traceHeader = process.env._X_AMZN_TRACE_ID || '';
+    const spanId = /Parent=([0-9a-f]{16})/.exec(traceHeader)?.[1];
+
+    return {
+      timeUnixNano: `${attributes.timestamp.getTime()}000000`,
+      severityNumber: severityNumbers[attributes.logLevel] ?? 0,
+      severityText: attributes.logLevel,
+      body: attributes.message,
+      resource: {
+        'service.name': attributes.serviceName,
+        'deployment.environment': attributes.environment,
+        'cloud.provider': 'aws',
+        'cloud.platform': 'aws_lambda',
+        'cloud.region': attributes.awsRegion,
+        'cloud.resource_id': attributes.lambdaContext?.invokedFunctionArn,
+        'faas.name': attributes.lambdaContext?.functionName,
+        'faas.version': attributes.lambdaContext?.functionVersion,
+        'faas.max_memory': attributes.lambdaContext?.memoryLimitInMB,
+      },
+      attributes: {
+        'faas.coldstart': attributes.lambdaContext?.coldStart,
+        'faas.invocation_id': attributes.lambdaContext?.awsRequestId,
+        correlation_id: attributes.correlationId,
+        sampling_rate: attributes.sampleRateValue,
+        sampling_strategy: attributes.samplingDecision?.strategy,
+        sampled: attributes.samplingDecision?.sampled,
+      },
+      traceId: attributes.xRayTraceId?.replace(/^1-|-/g, ''),
+      spanId,
+      traceFlags: spanId ? Number(/Sampled=1/.test(traceHeader)) : undefined,
+    };
+  }
+
+  /**
+   * It moves the keys added with the Logger into `attributes`, and removes the empty values
+   * from `resource` and `attributes`.
+   *
+   * @param {LogAttributes} attributes
+   * @returns {LogAttributes}
+   */
+  public formatLogItem(attributes: LogAttributes): LogAttributes {
+    const logItem: LogAttributes = {};
+    const logAttributes: LogAttributes = {};
+    for (const [key, value] of Object.entries(attributes)) {
+      if (topLevelKeys.includes(key)) {
+        logItem[key] = value;
+      } else {
+        logAttributes[key] = value;
+      }
+    }
+    logItem.resource = this.removeEmptyValues(logItem.resource);
+    logItem.attributes = this.removeEmptyValues({
+      ...(logItem.attributes as LogAttributes),
+      ...logAttributes,
+    });
+
+    return logItem;
+  }
+
+  /**
+   * It returns a copy of the given attributes without the `undefined`, `null` and empty string values.
+   *
+   * @param {unknown} attributes
+   * @returns {LogAttributes}
+   */
+  private removeEmptyValues(attributes: unknown): LogAttributes {
+    return Object.fromEntries(
+      Object.entries(attributes as LogAttributes).filter(
+        ([, value]) => value !== undefined && value !== null && value !== ''
+      )
+    );
+  }
+}
+
+export { OpenTelemetryLogFormatter };
@@ -19,6 +19,7 @@ class PowertoolLogFormatter extends LogFormatter {
   public formatAttributes(attributes: UnformattedAttributes): PowertoolLog {
     return {
       cold_start: attributes.lambdaContext?.coldStart,
+      correlation_id: attributes.correlationId,
       function_arn: attributes.lambdaContext?.invokedFunctionArn,
       function_memory_size: attributes.lambdaContext?.memoryLimitInMB,
       function_name: attributes.lambdaContext?.functionName,
@@ -26,6 +27,8 @@ class PowertoolLogFormatter extends LogFormatter {
       level: attributes.logLevel,
       message: attributes.message,
       sampling_rate: attributes.sampleRateValue,
+      sampling_strategy: attributes.samplingDecision?.strategy,
+      sampled: attributes.samplingDecision?.sampled,
       service: attributes.serviceName,
       timestamp: this.formatTimestamp(attributes.timestamp),
       xray_trace_id: attributes.xRayTraceId,
@@ -1,3 +1,7 @@
 export * from './LogFormatter';
 export * from './LogFormatterInterface';
 export * from './PowertoolLogFormatter';
+export * from './DevLogFormatter';
+export * from './EcsLogFormatter';
+export * from './FlattenedLogFormatter';
+export * from './OpenTelemetryLogFormatter';
@@ -2,3 +2,6 @@ export * from './helpers';
 export * from './Logger';
 export * from './middleware';
 export * from './formatter';
+export * from './transport';
+export * from './sampling';
+export * from './correlationPaths';
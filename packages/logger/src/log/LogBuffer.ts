@@ -0,0 +1,91 @@
+import { LogItem } from './LogItem';
+
+type BufferedLogItem = {
+  logLevel: number;
+  logItem: LogItem;
+  size: number;
+};
+
+/**
+ * This class holds the log items that were not printed because their log level
+ * was below the one of the Logger, so that they can be printed later on
+ * if an error occurs during the invocation.
+ *
+ * When adding an item would exceed the maximum number of items or the maximum
+ * size in bytes, the oldest items are evicted first.
+ *
+ * @class
+ */
+class LogBuffer {
+  private bufferedItems: BufferedLogItem[] = [];
+  private currentSize = 0;
+  private evictedItemsCount = 0;
+  private readonly maxBytes: number;
+  private readonly maxSize?: number;
+
+  public constructor(params: { maxBytes: number; maxSize?: number }) {
+    this.maxBytes = params.maxBytes;
+    this.maxSize = params.maxSize;
+  }
+
+  /**
+   * It adds a log item to the buffer, evicting the oldest items if needed.
+   *
+   * Items that alone are bigger than the maximum size of the buffer are
+   * counted as evicted and never stored.
+   *
+   * @param {number} logLevel
+   * @param {LogItem} logItem
+   * @param {number} size - size in bytes of the serialized log item
+   */
+  public add(logLevel: number, logItem: LogItem, size: number): void {
+    if (size > this.maxBytes) {
+      this.evictedItemsCount++;
+
+      return;
+    }
+
+    this.bufferedItems.push({ logLevel, logItem, size });
+    this.currentSize += size;
+
+    while (this.isOverCapacity()) {
+      const evictedItem = this.bufferedItems.shift() as BufferedLogItem;
+      this.currentSize -= evictedItem.size;
+      this.evictedItemsCount++;
+    }
+  }
+
+  /**
+   * It removes all the items from the buffer and resets the eviction count.
+   */
+  public clear(): void {
+    this.bufferedItems = [];
+    this.currentSize = 0;
+    this.evictedItemsCount = 0;
+  }
+
+  /**
+   * It returns the buffered items and the number of items evicted so far,
+   * then clears the buffer.
+   *
+   * @returns {{ items: BufferedLogItem[], evictedItemsCount: number }}
+   */
+  public drain(): { items: BufferedLogItem[]; evictedItemsCount: number } {
+    const drained = {
+      items: this.bufferedItems,
+      evictedItemsCount: this.evictedItemsCount,
+    };
+    this.clear();
+
+    return drained;
+  }
+
+  private isOverCapacity(): boolean {
+    return (
+      this.currentSize > this.maxBytes ||
+      (this.maxSize !== undefined && this.bufferedItems.length > this.maxSize)
+    );
+  }
+}
+
+export { LogBuffer, BufferedLogItem };
@@ -0,0 +1,73 @@
+/**
+ * This class counts the log items printed for each key, i.e. for each message,
+ * so that the Logger can suppress the ones that exceed the maximum number of entries
+ * allowed for the same key, and report how many were suppressed.
+ *
+ * When a window is set, the counters are reset once it elapses, otherwise they
+ * are reset only when the suppressed items are drained, i.e. at the end of each invocation.
+ *
+ * @class
+ */
+class LogDeduplicator {
+  private readonly maxEntries: number;
+  private printedCounts = new Map<string, number>();
+  private suppressedCounts = new Map<string, number>();
+  private readonly windowMs?: number;
+  private windowStartedAt: number;
+
+  public constructor(params: { maxEntries: number; windowSeconds?: number }) {
+    this.maxEntries = params.maxEntries;
+    this.windowMs =
+      params.windowSeconds !== undefined
+        ? params.windowSeconds * 1000
+        : undefined;
+    this.windowStartedAt = new Date().getTime();
+  }
+
+  /**
+   * It returns the number of suppressed items for each key and resets the counters.
+   *
+   * @returns {Map<string, number>}
+   */
+  public drain(): Map<string, number> {
+    const suppressedCounts = this.suppressedCounts;
+    this.printedCounts = new Map();
+    this.suppressedCounts = new Map();
+    this.windowStartedAt = new Date().getTime();
+
+    return suppressedCounts;
+  }
+
+  /**
+   * It returns `true` if a window is set and it has elapsed since the counters were last reset.
+   *
+   * @returns {boolean}
+   */
+  public isWindowElapsed(): boolean {
+    return (
+      this.windowMs !== undefined &&
+      new Date().getTime() - this.windowStartedAt >= this.windowMs
+    );
+  }
+
+  /**
+   * It counts a log item with the given key, and returns `true` if the item
+   * must be suppressed because the maximum number of entries for the key was reached.
+   *
+   * @param {string} key
+   * @returns {boolean}
+   */
+  public shouldSuppress(key: string): boolean {
+    const printedCount = this.printedCounts.get(key) ?? 0;
+    if (printedCount < this.maxEntries) {
+      this.printedCounts.set(key, printedCount + 1);
+
+      return false;
+    }
+    this.suppressedCounts.set(key, (this.suppressedCounts.get(key) ?? 0) + 1);
+
+    return true;
+  }
+}
+
+export { LogDeduplicator };
@@ -1,2 +1,4 @@
 export * from './LogItem';
 export * from './LogItemInterface';
+export * from './LogBuffer';
+export * from './LogDeduplicator';
@@ -11,6 +11,10 @@ import type {
  *
  * Using this middleware on your handler function will automatically add context information to logs, as well as optionally log the event and clear attributes set during the invocation.
  *
+ * When log buffering is enabled, the buffer is cleared at the start and at the end of each invocation, and flushed if the handler throws an error.
+ * At the end of each invocation, the transport of each logger is flushed as well.
+ * When a log level source is configured, the log level is refreshed at the start of each invocation.
+ *
  * @example
  * ```typescript
  * import { Logger, injectLambdaContext } from '@aws-lambda-powertools/logger';
@@ -53,6 +57,7 @@ const injectLambdaContext = (
   const injectLambdaContextBefore = async (
     request: MiddyLikeRequest
   ): Promise<void> => {
+    await Promise.all(loggers.map((logger) => logger.refreshLogLevel()));
     loggers.forEach((logger: Logger, index: number) => {
       if (isClearState) {
         persistentAttributes[index] = {
@@ -71,21 +76,27 @@ const injectLambdaContext = (
   };
 
   const injectLambdaContextAfterOrOnError = async (): Promise<void> => {
-    if (isClearState) {
-      loggers.forEach((logger: Logger, index: number) => {
-        Logger.injectLambdaContextAfterOrOnError(
-          logger,
-          persistentAttributes[index],
-          options
-        );
-      });
-    }
+    loggers.forEach((logger: Logger, index: number) => {
+      Logger.injectLambdaContextAfterOrOnError(
+        logger,
+        persistentAttributes[index],
+        options
+      );
+    });
+    await Promise.all(loggers.map((logger) => logger.flushTransport()));
+  };
+
+  const injectLambdaContextOnError = async (): Promise<void> => {
+    loggers.forEach((logger: Logger) => {
+      logger.flushBuffer();
+    });
+    await injectLambdaContextAfterOrOnError();
   };
 
   return {
     before: injectLambdaContextBefore,
     after: injectLambdaContextAfterOrOnError,
-    onError: injectLambdaContextAfterOrOnError,
+    onError: injectLambdaContextOnError,
   };
 };
 
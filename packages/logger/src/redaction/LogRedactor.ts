@@ -0,0 +1,268 @@
+import { parsePath } from '@aws-lambda-powertools/commons';
+import { createHash } from 'node:crypto';
+import { LogFormatterInterface } from '../formatter';
+import type { LogAttributes, RedactionRule } from '../types';
+
+/**
+ * Marker returned when a value has to be removed from the log item.
+ */
+const DROPPED = Symbol('dropped');
+
+const MASK = '***';
+
+/**
+ * This class redacts sensitive values from the attributes of a log item
+ * before they are printed, according to a list of redaction rules.
+ *
+ * A value is redacted when its key matches one of the `keys` of a rule, when its
+ * path matches one of the `paths` of a rule, or, for string values only,
+ * when a portion of it matches one of the `patterns` of a rule.
+ *
+ * The attributes are never mutated: a redacted copy is returned instead.
+ * Errors are formatted with the given log formatter before being redacted, so
+ * that the rules apply to the whole `cause` chain as well. As with the
+ * `JSON.stringify()` replacer used by the Logger, repeated references are removed.
+ *
+ * @class
+ */
+class LogRedactor {
+  private readonly paths: Array<{ rule: RedactionRule; segments: string[] }>;
+  private readonly patterns: Array<{ rule: RedactionRule; pattern: RegExp }>;
+  private readonly rules: RedactionRule[];
+
+  public constructor(rules: RedactionRule[]) {
+    this.rules = rules;
+    this.paths = rules.flatMap((rule) =>
+      (rule.paths || []).map((path) => ({
+        rule,
+        segments: parsePath(path),
+      }))
+    );
+    this.patterns = rules.flatMap((rule) =>
+      (rule.patterns || []).map((pattern) => ({
+        rule,
+        pattern: new RegExp(
+          pattern.source,
+          pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`
+        ),
+      }))
+    );
+  }
+
+  /**
+   * It returns the redaction rules used by this instance.
+   *
+   * @returns {RedactionRule[]}
+   */
+  public getRules(): RedactionRule[] {
+    return this.rules;
+  }
+
+  /**
+   * It returns a copy of the given log attributes, with all the values
+   * matching the redaction rules redacted.
+   *
+   * @param {LogAttributes} attributes
+   * @param {LogFormatterInterface} logFormatter - used to format errors before redacting them
+   * @returns {LogAttributes}
+   */
+  public redact(
+    attributes: LogAttributes,
+    logFormatter: LogFormatterInterface
+  ): LogAttributes {
+    return this.redactValue(
+      attributes,
+      [],
+      new WeakSet(),
+      logFormatter
+    ) as LogAttributes;
+  }
+
+  /**
+   * It applies the strategy of a rule to a whole value.
+   *
+   * @param {RedactionRule} rule
+   * @param {unknown} value
+   * @returns {unknown}
+   */
+  private applyStrategy(rule: RedactionRule, value: unknown): unknown {
+    const isPrimitive =
+      typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'bigint' ||
+      typeof value === 'boolean';
+
+    switch (rule.strategy) {
+      case 'drop':
+        return DROPPED;
+      case 'keepLast':
+        return isPrimitive
+          ? this.keepLast(String(value), rule.keepLast ?? 4)
+          : MASK;
+      case 'hash':
+        return isPrimitive ? this.hash(String(value)) : MASK;
+      default:
+        return MASK;
+    }
+  }
+
+  /**
+   * It returns the first rule that applies to the value at the given path.
+   *
+   * @param {string[]} path
+   * @returns {RedactionRule | undefined}
+   */
+  private findRule(path: string[]): RedactionRule | undefined {
+    const key = path[path.length - 1].toLowerCase();
+    const keyRule = this.rules.find((rule) =>
+      rule.keys?.some((ruleKey) => ruleKey.toLowerCase() === key)
+    );
+    if (keyRule) {
+      return keyRule;
+    }
+
+    return this.paths.find(
+      ({ segments }) =>
+        segments.length === path.length &&
+        segments.every(
+          (segment, index) => segment === '*' || segment === path[index]
+        )
+    )?.rule;
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+
+  private keepLast(value: string, count: number): string {
+    return value.length > count ? `${MASK}${value.slice(-count)}` : MASK;
+  }
+
+  /**
+   * It redacts the entry at the given path, either as a whole if a rule applies
+   * to it, or by redacting its content.
+   *
+   * @param {unknown} value
+   * @param {string[]} path
+   * @param {WeakSet<object>} references
+   * @param {LogFormatterInterface} logFormatter
+   * @returns {unknown}
+   */
+  private redactEntry(
+    value: unknown,
+    path: string[],
+    references: WeakSet<object>,
+    logFormatter: LogFormatterInterface
+  ): unknown {
+    const rule = this.findRule(path);
+    if (rule) {
+      return this.applyStrategy(rule, value);
+    }
+
+    return this.redactValue(value, path, references, logFormatter);
+  }
+
+  /**
+   * It redacts the entries of an array or an object, removing the repeated references.
+   *
+   * @param {object} item
+   * @param {string[]} path
+   * @param {WeakSet<object>} references
+   * @param {LogFormatterInterface} logFormatter
+   * @returns {unknown}
+   */
+  private redactObject(
+    item: object,
+    path: string[],
+    references: WeakSet<object>,
+    logFormatter: LogFormatterInterface
+  ): unknown {
+    if (references.has(item)) {
+      return DROPPED;
+    }
+    references.add(item);
+
+    const entries = Object.entries(item)
+      .map(([key, entry]): [string, unknown] => [
+        key,
+        this.redactEntry(entry, [...path, key], references, logFormatter),
+      ])
+      .filter(([, entry]) => entry !== DROPPED);
+
+    return Array.isArray(item)
+      ? entries.map(([, entry]) => entry)
+      : Object.fromEntries(entries);
+  }
+
+  /**
+   * It redacts the portions of a string matching the patterns of the rules.
+   *
+   * @param {string} value
+   * @returns {string | typeof DROPPED}
+   */
+  private redactString(value: string): string | typeof DROPPED {
+    let redacted = value;
+    for (const { rule, pattern } of this.patterns) {
+      pattern.lastIndex = 0;
+      if (!pattern.test(redacted)) {
+        continue;
+      }
+      if (rule.strategy === 'drop') {
+        return DROPPED;
+      }
+      redacted = redacted.replace(
+        pattern,
+        (match) => this.applyStrategy(rule, match) as string
+      );
+    }
+
+    return redacted;
+  }
+
+  /**
+   * It redacts the content of a value, recursing into errors, arrays and objects.
+   *
+   * Objects that define a `toJSON()` method are redacted as the value it returns, like `JSON.stringify()` would
+   * serialize them. When that value is a primitive that is not redacted, like the string of a date, the object
+   * is returned as it is.
+   *
+   * @param {unknown} value
+   * @param {string[]} path
+   * @param {WeakSet<object>} references
+   * @param {LogFormatterInterface} logFormatter
+   * @returns {unknown}
+   */
+  private redactValue(
+    value: unknown,
+    path: string[],
+    references: WeakSet<object>,
+    logFormatter: LogFormatterInterface
+  ): unknown {
+    const item =
+      value instanceof Error ? logFormatter.formatError(value) : value;
+    if (typeof item === 'string') {
+      return this.redactString(item);
+    }
+    if (typeof item !== 'object' || item === null) {
+      return item;
+    }
+    if (typeof (item as { toJSON?: unknown }).toJSON === 'function') {
+      const serialized = (item as { toJSON: (key: string) => unknown }).toJSON(
+        path.length > 0 ? path[path.length - 1] : ''
+      );
+      if (typeof serialized === 'object' && serialized !== null) {
+        return this.redactObject(serialized, path, references, logFormatter);
+      }
+      const redacted =
+        typeof serialized === 'string'
+          ? this.redactString(serialized)
+          : serialized;
+
+      return redacted === serialized ? item : redacted;
+    }
+
+    return this.redactObject(item, path, references, logFormatter);
+  }
+}
+
+export { LogRedactor };
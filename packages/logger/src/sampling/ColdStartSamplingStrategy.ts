@@ -0,0 +1,65 @@
+import { SamplingStrategyInterface, RandomSamplingStrategy } from '.';
+import { SamplingContext, SamplingDecision } from '../types';
+
+type ColdStartSamplingStrategyOptions = {
+  /**
+   * Number of invocations, starting from the cold start, for which the logs are always sampled (default: `1`)
+   */
+  invocations?: number;
+  /**
+   * Strategy that takes the decision for the following invocations (default: `RandomSamplingStrategy`)
+   */
+  strategy?: SamplingStrategyInterface;
+};
+
+/**
+ * This strategy samples the logs of the first invocations handled by an execution environment
+ * after its cold start, and delegates the decision to another strategy for the following ones.
+ *
+ * The invocations are told apart by their request ID, so the strategy can be shared by
+ * several loggers, i.e. a Logger and its child loggers.
+ *
+ * @example
+ * ```typescript
+ * import { Logger, ColdStartSamplingStrategy } from '@aws-lambda-powertools/logger';
+ *
+ * const logger = new Logger({
+ *   samplingStrategy: new ColdStartSamplingStrategy({ invocations: 5 }),
+ * });
+ * ```
+ *
+ * @class
+ * @implements {SamplingStrategyInterface}
+ */
+class ColdStartSamplingStrategy implements SamplingStrategyInterface {
+  private invocationsCount = 0;
+  private lastInvocationId?: string;
+  private readonly maxInvocations: number;
+  private readonly strategy: SamplingStrategyInterface;
+
+  public constructor(options: ColdStartSamplingStrategyOptions = {}) {
+    this.maxInvocations = options.invocations ?? 1;
+    this.strategy = options.strategy ?? new RandomSamplingStrategy();
+  }
+
+  /**
+   * It samples the logs if the invocation is one of the first ones after the cold start.
+   *
+   * @param {SamplingContext} context
+   * @returns {SamplingDecision}
+   */
+  public decide(context: SamplingContext): SamplingDecision {
+    const { invocationId } = context;
+    if (invocationId !== undefined && invocationId !== this.lastInvocationId) {
+      this.lastInvocationId = invocationId;
+      this.invocationsCount++;
+    }
+    if (this.invocationsCount <= this.maxInvocations) {
+      return { strategy: 'cold_start', sampled: true };
+    }
+
+    return this.strategy.decide(context);
+  }
+}
+
+export { ColdStartSamplingStrategy, ColdStartSamplingStrategyOptions };
@@ -0,0 +1,33 @@
+import { randomInt } from 'node:crypto';
+import { SamplingStrategyInterface } from '.';
+import { SamplingContext, SamplingDecision } from '../types';
+
+/**
+ * This strategy samples the logs with a probability equal to the sample rate,
+ * i.e. `0.1` for 10% of the decisions.
+ *
+ * It's the strategy used by the Logger when no other strategy is configured.
+ *
+ * @class
+ * @implements {SamplingStrategyInterface}
+ */
+class RandomSamplingStrategy implements SamplingStrategyInterface {
+  /**
+   * It flips a coin weighted by the sample rate of the Logger.
+   *
+   * @param {SamplingContext} context
+   * @returns {SamplingDecision}
+   */
+  public decide(context: SamplingContext): SamplingDecision {
+    const { sampleRateValue } = context;
+
+    return {
+      strategy: 'random',
+      sampled:
+        sampleRateValue !== undefined &&
+        (sampleRateValue === 1 || randomInt(0, 100) / 100 <= sampleRateValue),
+    };
+  }
+}
+
+export { RandomSamplingStrategy };
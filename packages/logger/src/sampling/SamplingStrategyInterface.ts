@@ -0,0 +1,16 @@
+import { SamplingContext, SamplingDecision } from '../types';
+
+/**
+ * @interface
+ */
+interface SamplingStrategyInterface {
+  /**
+   * It decides whether all the log items of an invocation are printed, regardless of the log level.
+   *
+   * @param {SamplingContext} context
+   * @returns {SamplingDecision}
+   */
+  decide(context: SamplingContext): SamplingDecision;
+}
+
+export { SamplingStrategyInterface };
@@ -0,0 +1,64 @@
+import { SamplingStrategyInterface, TraceIdSamplingStrategy } from '.';
+import { SamplingContext, SamplingDecision } from '../types';
+
+type ServiceRateSamplingStrategyOptions = {
+  /**
+   * Sample rates of the loggers with the given service names, i.e. `{ payment: 0.5 }`
+   */
+  rates: { [serviceName: string]: number };
+  /**
+   * Strategy that takes the decision using the sample rate of the service (default: `TraceIdSamplingStrategy`)
+   */
+  strategy?: SamplingStrategyInterface;
+};
+
+/**
+ * This strategy uses a different sample rate for each service, so that the loggers of
+ * a noisy service can be sampled less often than the others.
+ *
+ * The loggers whose service is not listed use the sample rate they were configured with.
+ *
+ * @example
+ * ```typescript
+ * import { Logger, ServiceRateSamplingStrategy } from '@aws-lambda-powertools/logger';
+ *
+ * const logger = new Logger({
+ *   samplingStrategy: new ServiceRateSamplingStrategy({
+ *     rates: { payment: 0.5, inventory: 0.01 },
+ *   }),
+ * });
+ * ```
+ *
+ * @class
+ * @implements {SamplingStrategyInterface}
+ */
+class ServiceRateSamplingStrategy implements SamplingStrategyInterface {
+  private readonly rates: { [serviceName: string]: number };
+  private readonly strategy: SamplingStrategyInterface;
+
+  public constructor(options: ServiceRateSamplingStrategyOptions) {
+    this.rates = options.rates;
+    this.strategy = options.strategy ?? new TraceIdSamplingStrategy();
+  }
+
+  /**
+   * It decides with the sample rate of the service of the Logger.
+   *
+   * @param {SamplingContext} context
+   * @returns {SamplingDecision}
+   */
+  public decide(context: SamplingContext): SamplingDecision {
+    const rate = this.rates[context.serviceName];
+    if (rate === undefined) {
+      return this.strategy.decide(context);
+    }
+    const { sampled } = this.strategy.decide({
+      ...context,
+      sampleRateValue: rate,
+    });
+
+    return { strategy: 'service_rate', sampled };
+  }
+}
+
+export { ServiceRateSamplingStrategy, ServiceRateSamplingStrategyOptions };
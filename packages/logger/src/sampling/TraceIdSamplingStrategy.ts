@@ -0,0 +1,55 @@
+import { createHash } from 'node:crypto';
+import { RandomSamplingStrategy, SamplingStrategyInterface } from '.';
+import { SamplingContext, SamplingDecision } from '../types';
+
+/**
+ * This strategy samples the logs deterministically, based on the hash of the correlation ID
+ * or, if not set, of the X-Ray trace ID of the invocation.
+ *
+ * All the functions that handle the same request, and use the same sample rate, take the same
+ * decision, so that the logs of a request are either all sampled or not sampled at all.
+ *
+ * When neither ID is available, the decision is random.
+ *
+ * @class
+ * @implements {SamplingStrategyInterface}
+ */
+class TraceIdSamplingStrategy implements SamplingStrategyInterface {
+  private readonly fallbackStrategy = new RandomSamplingStrategy();
+
+  /**
+   * It compares the hash of the ID of the request with the sample rate of the Logger.
+   *
+   * @param {SamplingContext} context
+   * @returns {SamplingDecision}
+   */
+  public decide(context: SamplingContext): SamplingDecision {
+    const { correlationId, xRayTraceId, sampleRateValue } = context;
+    const id =
+      typeof correlationId === 'string' || typeof correlationId === 'number'
+        ? String(correlationId)
+        : xRayTraceId;
+    if (!id) {
+      return this.fallbackStrategy.decide(context);
+    }
+
+    return {
+      strategy: 'trace_id',
+      sampled: sampleRateValue !== undefined && this.hash(id) < sampleRateValue,
+    };
+  }
+
+  /**
+   * It returns a number between 0 (inclusive) and 1 (exclusive) derived from the given ID.
+   *
+   * @param {string} id
+   * @returns {number}
+   */
+  private hash(id: string): number {
+    const digest = createHash('sha256').update(id).digest();
+
+    return digest.readUInt32BE(0) / 0x100000000;
+  }
+}
+
+export { TraceIdSamplingStrategy };
@@ -0,0 +1,5 @@
+export * from './SamplingStrategyInterface';
+export * from './RandomSamplingStrategy';
+export * from './TraceIdSamplingStrategy';
+export * from './ServiceRateSamplingStrategy';
+export * from './ColdStartSamplingStrategy';
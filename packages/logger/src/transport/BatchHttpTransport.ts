@@ -0,0 +1,153 @@
+import { request } from 'node:http';
+import { LogTransportInterface } from '.';
+import { LogRecord } from '../types';
+
+type BatchHttpTransportOptions = {
+  /**
+   * URL of the HTTP endpoint to which the batches are sent with a `POST` request, i.e. `http://localhost:4243/logs`
+   */
+  url: string;
+  /**
+   * Maximum number of log items in a batch (default: `100`)
+   */
+  maxBatchSize?: number;
+  /**
+   * Maximum size in bytes of a batch (default: `262144`)
+   */
+  maxBatchBytes?: number;
+  /**
+   * Timeout in milliseconds of each request (default: `1000`)
+   */
+  timeout?: number;
+};
+
+/**
+ * This transport groups the log items in batches and sends each batch as a JSON array
+ * to a local HTTP endpoint, like the one exposed by a Lambda extension.
+ *
+ * A batch is sent as soon as it reaches its maximum size, and when the transport is flushed.
+ * When using the `injectLambdaContext` middleware or decorator, the transport is flushed
+ * at the end of each invocation.
+ *
+ * The log items are serialized as JSON, regardless of the output of the log formatter.
+ *
+ * If a batch can't be delivered, its log items are written to stdout so that they are not lost.
+ *
+ * @class
+ * @implements {LogTransportInterface}
+ */
+class BatchHttpTransport implements LogTransportInterface {
+  private batch: string[] = [];
+  private batchBytes = 0;
+  private readonly maxBatchBytes: number;
+  private readonly maxBatchSize: number;
+  private readonly pendingRequests = new Set<Promise<void>>();
+  private readonly timeout: number;
+  private readonly url: string;
+
+  public constructor(options: BatchHttpTransportOptions) {
+    this.url = options.url;
+    this.maxBatchSize = options.maxBatchSize ?? 100;
+    this.maxBatchBytes = options.maxBatchBytes ?? 262144;
+    this.timeout = options.timeout ?? 1000;
+  }
+
+  /**
+   * It sends the current batch, and resolves once all the batches sent so far have been delivered.
+   *
+   * @returns {Promise<void>}
+   */
+  public async flush(): Promise<void> {
+    this.sendBatch();
+    await Promise.all(this.pendingRequests);
+  }
+
+  /**
+   * It adds the log item to the current batch, and sends the batch if it's full.
+   *
+   * @param {LogRecord} record
+   * @returns {void}
+   */
+  public send(record: LogRecord): void {
+    const serialized = JSON.stringify(record.attributes, record.getReplacer());
+    const size = Buffer.byteLength(serialized);
+    if (this.batch.length > 0 && this.batchBytes + size > this.maxBatchBytes) {
+      this.sendBatch();
+    }
+
+    this.batch.push(serialized);
+    this.batchBytes += size;
+
+    if (
+      this.batch.length >= this.maxBatchSize ||
+      this.batchBytes >= this.maxBatchBytes
+    ) {
+      this.sendBatch();
+    }
+  }
+
+  /**
+   * It sends a `POST` request with the given body, and resolves once
+   * the endpoint responded with a successful status code.
+   *
+   * @param {string} body
+   * @returns {Promise<void>}
+   */
+  private post(body: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const req = request(
+        this.url,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(body),
+          },
+          timeout: this.timeout,
+        },
+        (res) => {
+          res.resume();
+          res.on('end', () => {
+            const statusCode = res.statusCode as number;
+            if (statusCode >= 200 && statusCode < 300) {
+              resolve();
+            } else {
+              reject(new Error(`Unexpected status code: ${statusCode}`));
+            }
+          });
+        }
+      );
+      req.on('timeout', () => {
+        req.destroy(new Error('Request timed out'));
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+
+  /**
+   * It sends the current batch, if not empty, and starts a new one.
+   *
+   * @returns {void}
+   */
+  private sendBatch(): void {
+    if (this.batch.length === 0) {
+      return;
+    }
+
+    const batch = this.batch;
+    this.batch = [];
+    this.batchBytes = 0;
+
+    const pendingRequest = this.post(`[${batch.join(',')}]`)
+      .catch(() => {
+        batch.forEach((serialized) => process.stdout.write(`${serialized}\n`));
+      })
+      .finally(() => {
+        this.pendingRequests.delete(pendingRequest);
+      });
+    this.pendingRequests.add(pendingRequest);
+  }
+}
+
+export { BatchHttpTransport, BatchHttpTransportOptions };
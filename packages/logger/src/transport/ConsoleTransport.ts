@@ -0,0 +1,50 @@
+import { Console } from 'node:console';
+import { LogTransportInterface } from '.';
+import { ClassThatLogs, LogRecord } from '../types';
+
+/**
+ * This transport prints the log items as JSON to stdout and stderr, using the
+ * console method that matches their log level (`CRITICAL` uses `console.error`),
+ * unless the log item specifies a different one.
+ *
+ * It's the transport used by the Logger when no other transport is configured.
+ *
+ * @class
+ * @implements {LogTransportInterface}
+ */
+class ConsoleTransport implements LogTransportInterface {
+  private readonly console: Console;
+
+  /**
+   * @param {Console} [console] - Console instance used to print, by default one writing to `process.stdout` and `process.stderr`
+   */
+  public constructor(console?: Console) {
+    this.console =
+      console ||
+      new Console({
+        stdout: process.stdout,
+        stderr: process.stderr,
+      });
+  }
+
+  /**
+   * It prints the serialized log item.
+   *
+   * @param {LogRecord} record
+   * @returns {void}
+   */
+  public send(record: LogRecord): void {
+    const consoleMethod =
+      record.consoleMethod ??
+      (record.logLevel === 'CRITICAL'
+        ? 'error'
+        : (record.logLevel.toLowerCase() as keyof Omit<
+            ClassThatLogs,
+            'critical'
+          >));
+
+    this.console[consoleMethod](record.serialize());
+  }
+}
+
+export { ConsoleTransport };
@@ -0,0 +1,55 @@
+import { LogTransportInterface } from '.';
+import { LogRecord } from '../types';
+
+/**
+ * This transport sends each log item to all the given transports,
+ * i.e. to print logs to the console while also sending them elsewhere.
+ *
+ * @example
+ * ```typescript
+ * import {
+ *   Logger,
+ *   ConsoleTransport,
+ *   BatchHttpTransport,
+ *   FanOutTransport,
+ * } from '@aws-lambda-powertools/logger';
+ *
+ * const logger = new Logger({
+ *   logTransport: new FanOutTransport([
+ *     new ConsoleTransport(),
+ *     new BatchHttpTransport({ url: 'http://sandbox.localdomain:8080/logs' }),
+ *   ]),
+ * });
+ * ```
+ *
+ * @class
+ * @implements {LogTransportInterface}
+ */
+class FanOutTransport implements LogTransportInterface {
+  private readonly transports: LogTransportInterface[];
+
+  public constructor(transports: LogTransportInterface[]) {
+    this.transports = transports;
+  }
+
+  /**
+   * It flushes all the transports that support flushing.
+   *
+   * @returns {Promise<void>}
+   */
+  public async flush(): Promise<void> {
+    await Promise.all(this.transports.map((transport) => transport.flush?.()));
+  }
+
+  /**
+   * It sends the log item to all the transports.
+   *
+   * @param {LogRecord} record
+   * @returns {void}
+   */
+  public send(record: LogRecord): void {
+    this.transports.forEach((transport) => transport.send(record));
+  }
+}
+
+export { FanOutTransport };
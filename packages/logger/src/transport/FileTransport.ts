@@ -0,0 +1,39 @@
+import { appendFileSync } from 'node:fs';
+import { LogTransportInterface } from '.';
+import { LogRecord } from '../types';
+
+/**
+ * This transport appends the log items as JSON lines to a file,
+ * which is useful when running functions locally.
+ *
+ * Log items are written synchronously, so that they are in the file
+ * in the same order in which they were emitted.
+ *
+ * @class
+ * @implements {LogTransportInterface}
+ */
+class FileTransport implements LogTransportInterface {
+  private readonly path: string;
+
+  /**
+   * @param {{ path: string }} options - `path` is the file to which log items are appended, created if it doesn't exist
+   */
+  public constructor(options: { path: string }) {
+    this.path = options.path;
+  }
+
+  /**
+   * It appends the log item to the file, serialized as JSON regardless of the output of the log formatter.
+   *
+   * @param {LogRecord} record
+   * @returns {void}
+   */
+  public send(record: LogRecord): void {
+    appendFileSync(
+      this.path,
+      `${JSON.stringify(record.attributes, record.getReplacer())}\n`
+    );
+  }
+}
+
+export { FileTransport };
@@ -0,0 +1,62 @@
+import { LogTransportInterface } from '.';
+import { LogAttributes, LogRecord } from '../types';
+
+/**
+ * This transport keeps the log items in memory instead of printing them,
+ * which is useful to make assertions on the logs emitted in unit tests.
+ *
+ * The log items are stored as they would be printed as JSON, after being serialized and parsed back,
+ * regardless of the log formatter output.
+ *
+ * @example
+ * ```typescript
+ * import { Logger, InMemoryTransport } from '@aws-lambda-powertools/logger';
+ *
+ * const transport = new InMemoryTransport();
+ * const logger = new Logger({ logTransport: transport });
+ *
+ * logger.info('This is an INFO log');
+ *
+ * expect(transport.getLogs()).toEqual([
+ *   expect.objectContaining({ level: 'INFO', message: 'This is an INFO log' }),
+ * ]);
+ * ```
+ *
+ * @class
+ * @implements {LogTransportInterface}
+ */
+class InMemoryTransport implements LogTransportInterface {
+  private logs: LogAttributes[] = [];
+
+  /**
+   * It removes all the log items stored so far.
+   *
+   * @returns {void}
+   */
+  public clear(): void {
+    this.logs = [];
+  }
+
+  /**
+   * It returns the log items stored so far, in the order in which they were emitted.
+   *
+   * @returns {LogAttributes[]}
+   */
+  public getLogs(): LogAttributes[] {
+    return this.logs;
+  }
+
+  /**
+   * It stores the log item.
+   *
+   * @param {LogRecord} record
+   * @returns {void}
+   */
+  public send(record: LogRecord): void {
+    this.logs.push(
+      JSON.parse(JSON.stringify(record.attributes, record.getReplacer()))
+    );
+  }
+}
+
+export { InMemoryTransport };
@@ -0,0 +1,23 @@
+import { LogRecord } from '../types';
+
+/**
+ * @interface
+ */
+interface LogTransportInterface {
+  /**
+   * It sends a log item to the destination of the transport.
+   *
+   * @param {LogRecord} record
+   * @returns {void}
+   */
+  send(record: LogRecord): void;
+
+  /**
+   * It sends any log item held by the transport, and resolves once they have been delivered.
+   *
+   * @returns {Promise<void>}
+   */
+  flush?(): Promise<void>;
+}
+
+export { LogTransportInterface };
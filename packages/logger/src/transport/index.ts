@@ -0,0 +1,6 @@
+export * from './LogTransportInterface';
+export * from './ConsoleTransport';
+export * from './InMemoryTransport';
+export * from './FileTransport';
+export * from './BatchHttpTransport';
+export * from './FanOutTransport';
@@ -4,8 +4,11 @@ import {
   SyncHandler,
 } from '@aws-lambda-powertools/commons';
 import { Handler } from 'aws-lambda';
+import type { Logger } from '../Logger';
 import { ConfigServiceInterface } from '../config';
 import { LogFormatterInterface } from '../formatter';
+import { SamplingStrategyInterface } from '../sampling';
+import { LogTransportInterface } from '../transport';
 import {
   Environment,
   LogAttributes,
@@ -20,21 +23,257 @@ type ClassThatLogs = {
   ) => void;
 };
 
+type ConsoleMethod = 'debug' | 'info' | 'warn' | 'error' | 'log';
+
+type CustomLogLevel = {
+  /**
+   * Numeric value of the log level, the higher the value the less verbose the level, i.e. `4` for a level below `DEBUG` (`8`)
+   */
+  value: number;
+  /**
+   * Console method used to print the log items with this level (default: the one of the closest built-in level below this one)
+   */
+  consoleMethod?: ConsoleMethod;
+  /**
+   * Whether the log items with this level are printed regardless of the current log level (default: `false`)
+   */
+  bypassThreshold?: boolean;
+};
+
+type CustomLogLevels = { [level: string]: CustomLogLevel };
+
+/**
+ * Type of the custom log levels of a Logger instance created without custom log levels.
+ */
+type NoCustomLogLevels = Record<never, CustomLogLevel>;
+
+/**
+ * Names of the given custom log levels, in upper or lower case, i.e. `TRACE` or `trace` for a `TRACE` level.
+ */
+type CustomLogLevelName<T extends CustomLogLevels> =
+  | (string & keyof T)
+  | Lowercase<string & keyof T>;
+
+/**
+ * Methods generated for the given custom log levels, i.e. `trace()` for a `TRACE` level.
+ */
+type CustomLogLevelMethods<T extends CustomLogLevels> = {
+  [key in keyof T as Lowercase<string & key>]: (
+    input: LogItemMessage,
+    ...extraInput: LogItemExtraInput
+  ) => void;
+};
+
+/**
+ * Type of a Logger instance created with the given custom log levels.
+ *
+ * @example
+ * ```typescript
+ * const customLogLevels = { TRACE: { value: 4 } };
+ * const logger = new Logger({ customLogLevels }) as LoggerWithCustomLogLevels<typeof customLogLevels>;
+ *
+ * logger.trace('This is a TRACE log');
+ * ```
+ */
+type LoggerWithCustomLogLevels<T extends CustomLogLevels> = Logger<T> &
+  CustomLogLevelMethods<T>;
+
 type HandlerOptions = {
   logEvent?: boolean;
   clearState?: boolean;
+  /**
+   * JMESPath expression used to extract the correlation ID from the event, i.e. `requestContext.requestId`
+   */
+  correlationIdPath?: string;
+  /**
+   * Function used to extract the correlation ID from the event, alternative to `correlationIdPath`
+   */
+  correlationIdSearchFn?: (event: unknown) => unknown;
+};
+
+type LogBufferOptions = {
+  /**
+   * Whether log items below the current log level are buffered (default: `false`)
+   */
+  enabled?: boolean;
+  /**
+   * Maximum size in bytes of the buffered log items (default: `20480`)
+   */
+  maxBytes?: number;
+  /**
+   * Maximum number of buffered log items (default: no limit)
+   */
+  maxSize?: number;
+  /**
+   * Whether the buffer is flushed when an `ERROR` or `CRITICAL` log is emitted (default: `true`)
+   */
+  flushOnErrorLog?: boolean;
+};
+
+/**
+ * Constructor of an error class, whatever the arguments it takes.
+ */
+type ErrorClass<T extends Error = Error> = new (...args: never[]) => T;
+
+/**
+ * Function returning the attributes added to the formatted errors of a given class.
+ */
+type ErrorSerializer<T extends Error = Error> = (error: T) => LogAttributes;
+
+type LogDeduplicationOptions = {
+  /**
+   * Whether similar log items are deduplicated (default: `false`)
+   */
+  enabled?: boolean;
+  /**
+   * Maximum number of log items with the same key printed in an invocation or window (default: `10`)
+   */
+  maxEntries?: number;
+  /**
+   * Function returning the key of a log item, log items with the same key are considered similar
+   * (default: the log level and the message, i.e. `WARN:Retrying request`)
+   */
+  key?: (message: string, attributes: LogAttributes) => string;
+  /**
+   * Number of seconds after which the counters are reset (default: the counters are reset at the end of each invocation)
+   */
+  windowSeconds?: number;
+  /**
+   * Names of the log levels that are never deduplicated (default: `['ERROR', 'CRITICAL']`)
+   */
+  exemptLogLevels?: string[];
 };
 
-type ConstructorOptions = {
-  logLevel?: LogLevel;
+type RedactionStrategy = 'drop' | 'mask' | 'keepLast' | 'hash';
+
+type RedactionRule = {
+  /**
+   * Names of the keys whose values are redacted, at any depth (case insensitive)
+   */
+  keys?: string[];
+  /**
+   * Paths of the values to redact, relative to the log item, i.e. `event.body.password`,
+   * `$.event.Records[*].body` or `error.cause.message`. The `*` wildcard matches any key or array index.
+   */
+  paths?: string[];
+  /**
+   * Patterns matched against string values, only the matching portion of the value is redacted
+   */
+  patterns?: RegExp[];
+  /**
+   * How matching values are redacted (default: `mask`)
+   */
+  strategy?: RedactionStrategy;
+  /**
+   * Number of trailing characters left visible when using the `keepLast` strategy (default: `4`)
+   */
+  keepLast?: number;
+};
+
+type LogLevelSourceValue =
+  | string
+  | {
+      /**
+       * Log level of all the loggers, i.e. `DEBUG`
+       */
+      logLevel?: string;
+      /**
+       * Log levels of the loggers with the given service names, taking precedence over `logLevel`
+       */
+      services?: { [serviceName: string]: string };
+    };
+
+type LogLevelSourceOptions = {
+  /**
+   * Function returning the desired log level, either as a log level name, as an object,
+   * or as the JSON representation of an object, i.e. the value of an SSM parameter
+   */
+  source: () => Promise<LogLevelSourceValue | undefined>;
+  /**
+   * Number of seconds for which the value returned by the source is cached (default: `60`)
+   */
+  maxAge?: number;
+};
+
+type TimingOptions<T extends CustomLogLevels = NoCustomLogLevels> = {
+  /**
+   * Log level of the log items with a duration (default: `INFO`)
+   */
+  logLevel?: LogLevel | CustomLogLevelName<T>;
+  /**
+   * Whether a log item with the duration of the handler is emitted at the end of each invocation,
+   * when using the `injectLambdaContext` middleware or decorator (default: `true`)
+   */
+  logHandlerDuration?: boolean;
+  /**
+   * Number of milliseconds of remaining time below which a warning is emitted during each invocation,
+   * when using the `injectLambdaContext` middleware or decorator (default: no warning)
+   */
+  remainingTimeThresholdMs?: number;
+};
+
+type SamplingContext = {
+  /**
+   * Sample rate of the Logger, between `0` and `1`
+   */
+  sampleRateValue?: number;
+  /**
+   * Service name of the Logger
+   */
+  serviceName: string;
+  /**
+   * Correlation ID of the current request, if set
+   */
+  correlationId?: unknown;
+  /**
+   * X-Ray trace ID of the current invocation, if tracing is enabled
+   */
+  xRayTraceId?: string;
+  /**
+   * Request ID of the current invocation, if the Lambda context was added to the Logger
+   */
+  invocationId?: string;
+};
+
+type SamplingDecision = {
+  /**
+   * Name of the strategy that took the decision, i.e. `trace_id`
+   */
+  strategy: string;
+  /**
+   * Whether all the log items of the invocation are printed, regardless of the log level
+   */
+  sampled: boolean;
+};
+
+type ConstructorOptions<T extends CustomLogLevels = NoCustomLogLevels> = {
+  logLevel?: LogLevel | CustomLogLevelName<T>;
   serviceName?: string;
   sampleRateValue?: number;
   logFormatter?: LogFormatterInterface;
   customConfigService?: ConfigServiceInterface;
   persistentLogAttributes?: LogAttributes;
   environment?: Environment;
+  logBufferOptions?: LogBufferOptions;
+  redactionRules?: RedactionRule[];
+  logTransport?: LogTransportInterface;
+  logLevelSource?: LogLevelSourceOptions;
+  customLogLevels?: T;
+  logDeduplicationOptions?: LogDeduplicationOptions;
+  samplingStrategy?: SamplingStrategyInterface;
+  timingOptions?: TimingOptions<T>;
+  logColdStartMetadata?: boolean;
 };
 
+/**
+ * Options of the Logger constructor: the custom log levels are inferred from the `customLogLevels` option only,
+ * so that the names of the log levels passed in the other options are checked against them.
+ */
+type ConstructorOptionsWithCustomLogLevels<T extends CustomLogLevels> =
+  ConstructorOptions<[T][T extends unknown ? 0 : never]> & {
+    customLogLevels?: T;
+  };
+
 type LambdaFunctionContext = {
   functionName: string;
   memoryLimitInMB: number;
@@ -45,6 +284,7 @@ type LambdaFunctionContext = {
 };
 
 type PowertoolLogData = LogAttributes & {
+  correlationId?: unknown;
   environment?: Environment;
   serviceName: string;
   sampleRateValue?: number;
@@ -54,10 +294,12 @@ type PowertoolLogData = LogAttributes & {
 };
 
 type UnformattedAttributes = {
+  correlationId?: unknown;
   environment?: Environment;
   error?: Error;
   serviceName: string;
   sampleRateValue?: number;
+  samplingDecision?: SamplingDecision;
   lambdaContext?: LambdaFunctionContext;
   xRayTraceId?: string;
   awsRegion: string;
@@ -66,6 +308,31 @@ type UnformattedAttributes = {
   message: string;
 };
 
+type LogRecord = {
+  /**
+   * Name of the log level of the log item, i.e. `INFO`
+   */
+  logLevel: Uppercase<LogLevel> | string;
+  /**
+   * Console method matching the log level of the log item, i.e. `error` for `CRITICAL`
+   */
+  consoleMethod?: ConsoleMethod;
+  /**
+   * Formatted attributes of the log item
+   */
+  attributes: LogAttributes;
+  /**
+   * It serializes the attributes the same way the Logger does when printing to the console,
+   * i.e. as JSON or with the `serialize()` method of the log formatter, if it implements it
+   */
+  serialize: () => string;
+  /**
+   * It returns the replacer used by the Logger to serialize the attributes as JSON with `JSON.stringify()`,
+   * which formats the errors, converts the BigInt values to strings and removes the circular references
+   */
+  getReplacer: () => (key: string, value: unknown) => unknown;
+};
+
 type LogItemMessage = string | LogAttributesWithMessage;
 type LogItemExtraInput = [Error | string] | LogAttributes[];
 
@@ -86,7 +353,27 @@ export {
   UnformattedAttributes,
   PowertoolLogData,
   ConstructorOptions,
+  ConstructorOptionsWithCustomLogLevels,
   HandlerOptions,
+  ConsoleMethod,
+  CustomLogLevel,
+  CustomLogLevels,
+  CustomLogLevelName,
+  NoCustomLogLevels,
+  CustomLogLevelMethods,
+  ErrorClass,
+  ErrorSerializer,
+  LoggerWithCustomLogLevels,
+  LogBufferOptions,
+  LogDeduplicationOptions,
+  LogLevelSourceOptions,
+  LogLevelSourceValue,
+  RedactionRule,
+  RedactionStrategy,
+  SamplingContext,
+  SamplingDecision,
+  TimingOptions,
+  LogRecord,
 };
 
 export const enum LogJsonIndent {
@@ -0,0 +1,29 @@
+import type { LogAttributes } from '..';
+
+/**
+ * Log item in the Elastic Common Schema (ECS) format.
+ *
+ * @see https://www.elastic.co/guide/en/ecs/current/index.html
+ */
+type EcsLog = LogAttributes & {
+  '@timestamp': string;
+  'log.level': string;
+  message: string;
+  'ecs.version': string;
+  'service.name': string;
+  'service.environment'?: string;
+  'cloud.provider': string;
+  'cloud.region'?: string;
+  'faas.coldstart'?: boolean;
+  'faas.execution'?: string;
+  'faas.id'?: string;
+  'faas.name'?: string;
+  'faas.version'?: string;
+  'trace.id'?: string;
+  'labels.correlation_id'?: unknown;
+  'labels.sampling_rate'?: number;
+  'labels.sampling_strategy'?: string;
+  'labels.sampled'?: boolean;
+};
+
+export type { EcsLog };
@@ -0,0 +1,29 @@
+import type { LogAttributes } from '..';
+
+/**
+ * Log item in the OpenTelemetry Logs Data Model format.
+ *
+ * @see https://opentelemetry.io/docs/specs/otel/logs/data-model/
+ */
+type OpenTelemetryLog = LogAttributes & {
+  /**
+   * Time when the event occurred, in nanoseconds since the Unix epoch
+   */
+  timeUnixNano: string;
+  severityNumber: number;
+  severityText: string;
+  body: string;
+  /**
+   * Attributes describing the source of the log, i.e. the service and the Lambda function
+   */
+  resource: LogAttributes;
+  /**
+   * Attributes of the log item, including the ones added with the Logger
+   */
+  attributes: LogAttributes;
+  traceId?: string;
+  spanId?: string;
+  traceFlags?: number;
+};
+
+export type { OpenTelemetryLog };
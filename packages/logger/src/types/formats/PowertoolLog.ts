@@ -33,6 +33,22 @@ type PowertoolLog = LogAttributes & {
    */
   sampling_rate?: number;
 
+  /**
+   * sampling_strategy
+   *
+   * Description: Name of the sampling strategy that decided whether the logs of the invocation are sampled, if configured.
+   * Example: "trace_id"
+   */
+  sampling_strategy?: string;
+
+  /**
+   * sampled
+   *
+   * Description: Whether all the logs of the invocation are printed regardless of the log level, if a sampling strategy is configured.
+   * Example: true
+   */
+  sampled?: boolean;
+
   /**
    * message
    *
@@ -49,6 +65,14 @@ type PowertoolLog = LogAttributes & {
    */
   xray_trace_id?: string;
 
+  /**
+   * correlation_id
+   *
+   * Description: Correlation ID of the request, extracted from the incoming event or set manually.
+   * Example: "c6af9ac6-7b61-11e6-9a41-93e812345678"
+   */
+  correlation_id?: unknown;
+
   /**
    * cold_start
    *
@@ -1 +1,3 @@
 export * from './PowertoolLog';
+export * from './EcsLog';
+export * from './OpenTelemetryLog';
@@ -8,18 +8,36 @@ import {
   Events as dummyEvent,
   LambdaInterface,
 } from '@aws-lambda-powertools/commons';
-import { createLogger, Logger } from '../../src';
+import { correlationPaths, createLogger, Logger } from '../../src';
 import { EnvironmentVariablesService } from '../../src/config';
-import { PowertoolLogFormatter } from '../../src/formatter';
+import {
+  DevLogFormatter,
+  EcsLogFormatter,
+  FlattenedLogFormatter,
+  OpenTelemetryLogFormatter,
+  PowertoolLogFormatter,
+} from '../../src/formatter';
+import { LogDeduplicator } from '../../src/log';
+import {
+  ColdStartSamplingStrategy,
+  TraceIdSamplingStrategy,
+} from '../../src/sampling';
+import {
+  ConsoleTransport,
+  InMemoryTransport,
+  LogTransportInterface,
+} from '../../src/transport';
 import {
   ClassThatLogs,
   LogJsonIndent,
   ConstructorOptions,
   LogLevelThresholds,
   LogLevel,
+  LoggerWithCustomLogLevels,
 } from '../../src/types';
 import { Context } from 'aws-lambda';
 import { Console } from 'console';
+import { performance } from 'node:perf_hooks';
 
 const mockDate = new Date(1466424490000);
 const dateSpy = jest.spyOn(global, 'Date').mockImplementation(() => mockDate);
@@ -792,6 +810,7 @@ describe('Class: Logger', () => {
       // Assess
       expect(logger).toEqual({
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
         coldStart: false, // This is now false because the `coldStart` attribute has been already accessed once by the `addContext` method
         customConfigService: undefined,
         defaultServiceName: 'service_undefined',
@@ -1615,6 +1634,7 @@ describe('Class: Logger', () => {
 
       expect(parentLogger).toEqual({
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
         coldStart: true,
         customConfigService: undefined,
         defaultServiceName: 'service_undefined',
@@ -1638,6 +1658,7 @@ describe('Class: Logger', () => {
 
       expect(childLogger).toEqual({
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
         coldStart: true,
         customConfigService: undefined,
         defaultServiceName: 'service_undefined',
@@ -1661,6 +1682,7 @@ describe('Class: Logger', () => {
 
       expect(grandchildLogger).toEqual({
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
         coldStart: true,
         customConfigService: undefined,
         defaultServiceName: 'service_undefined',
@@ -1720,6 +1742,7 @@ describe('Class: Logger', () => {
       expect(childLogger).toEqual({
         ...parentLogger,
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
       });
       expect(parentLogger === childLoggerWithPermanentAttributes).toBe(false);
       expect(parentLogger === childLoggerWithSampleRateEnabled).toBe(false);
@@ -1727,6 +1750,7 @@ describe('Class: Logger', () => {
 
       expect(parentLogger).toEqual({
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
         coldStart: true,
         customConfigService: undefined,
         defaultServiceName: 'service_undefined',
@@ -1750,6 +1774,7 @@ describe('Class: Logger', () => {
 
       expect(childLoggerWithPermanentAttributes).toEqual({
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
         coldStart: true,
         customConfigService: undefined,
         defaultServiceName: 'service_undefined',
@@ -1776,6 +1801,7 @@ describe('Class: Logger', () => {
 
       expect(childLoggerWithSampleRateEnabled).toEqual({
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
         coldStart: true,
         customConfigService: undefined,
         defaultServiceName: 'service_undefined',
@@ -1799,6 +1825,7 @@ describe('Class: Logger', () => {
 
       expect(childLoggerWithErrorLogLevel).toEqual({
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
         coldStart: true,
         customConfigService: undefined,
         defaultServiceName: 'service_undefined',
@@ -1843,6 +1870,7 @@ describe('Class: Logger', () => {
       // Assess
       expect(childLogger).toEqual({
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
         coldStart: true,
         customConfigService: undefined,
         defaultServiceName: 'service_undefined',
@@ -1866,6 +1894,7 @@ describe('Class: Logger', () => {
 
       expect(childLoggerWithKeys).toEqual({
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
         coldStart: true,
         customConfigService: undefined,
         defaultServiceName: 'service_undefined',
@@ -1896,6 +1925,7 @@ describe('Class: Logger', () => {
 
       expect(parentLogger).toEqual({
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
         coldStart: true,
         customConfigService: undefined,
         defaultServiceName: 'service_undefined',
@@ -1937,6 +1967,7 @@ describe('Class: Logger', () => {
       // Assess
       expect(childLoggerWithContext).toEqual({
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
         coldStart: false, // This is now false because the `coldStart` attribute has been already accessed once by the `addContext` method
         customConfigService: undefined,
         defaultServiceName: 'service_undefined',
@@ -2036,6 +2067,7 @@ describe('Class: Logger', () => {
       expect(childLogger).toEqual({
         ...parentLogger,
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
         logsSampled: expect.any(Boolean),
       });
 
@@ -2199,4 +2231,1926 @@ describe('Class: Logger', () => {
       );
     });
   });
+
+  describe('Feature: log buffering', () => {
+    test('when enabled, log items below the log level are buffered instead of printed', () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logBufferOptions: { enabled: true },
+      });
+      const debugSpy = jest
+        .spyOn(logger['console'], 'debug')
+        .mockImplementation();
+
+      // Act
+      logger.debug('This is a DEBUG log');
+
+      // Assess
+      expect(debugSpy).toBeCalledTimes(0);
+    });
+
+    test('when disabled, log items below the log level are neither buffered nor printed', () => {
+      // Prepare
+      const logger = new Logger({ logLevel: 'INFO' });
+      const debugSpy = jest
+        .spyOn(logger['console'], 'debug')
+        .mockImplementation();
+
+      // Act
+      logger.debug('This is a DEBUG log');
+      logger.flushBuffer();
+      logger.error('This is an ERROR log');
+
+      // Assess
+      expect(logger['logBuffer']).toBeUndefined();
+      expect(debugSpy).toBeCalledTimes(0);
+    });
+
+    test('when an ERROR log is emitted, it prints the buffered log items before it, in order', () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'WARN',
+        logBufferOptions: { enabled: true },
+      });
+      const debugSpy = jest
+        .spyOn(logger['console'], 'debug')
+        .mockImplementation();
+      const infoSpy = jest
+        .spyOn(logger['console'], 'info')
+        .mockImplementation();
+      const errorSpy = jest
+        .spyOn(logger['console'], 'error')
+        .mockImplementation();
+
+      // Act
+      logger.debug('This is a DEBUG log', { foo: 'bar' });
+      logger.info('This is an INFO log');
+      logger.error('This is an ERROR log');
+
+      // Assess
+      expect(debugSpy).toHaveBeenNthCalledWith(
+        1,
+        JSON.stringify({
+          level: 'DEBUG',
+          message: 'This is a DEBUG log',
+          service: 'hello-world',
+          timestamp: '2016-06-20T12:08:10.000Z',
+          xray_trace_id: '1-5759e988-bd862e3fe1be46a994272793',
+          foo: 'bar',
+        })
+      );
+      expect(infoSpy).toBeCalledTimes(1);
+      expect(errorSpy).toBeCalledTimes(1);
+      expect(debugSpy.mock.invocationCallOrder[0]).toBeLessThan(
+        infoSpy.mock.invocationCallOrder[0]
+      );
+      expect(infoSpy.mock.invocationCallOrder[0]).toBeLessThan(
+        errorSpy.mock.invocationCallOrder[0]
+      );
+    });
+
+    test('when a CRITICAL log is emitted, it prints the buffered log items and empties the buffer', () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'ERROR',
+        logBufferOptions: { enabled: true },
+      });
+      const warnSpy = jest
+        .spyOn(logger['console'], 'warn')
+        .mockImplementation();
+      jest.spyOn(logger['console'], 'error').mockImplementation();
+
+      // Act
+      logger.warn('This is a WARN log');
+      logger.critical('This is a CRITICAL log');
+      logger.critical('This is another CRITICAL log');
+
+      // Assess
+      expect(warnSpy).toBeCalledTimes(1);
+    });
+
+    test('when flushOnErrorLog is disabled, emitting an ERROR log does not print the buffered log items', () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logBufferOptions: { enabled: true, flushOnErrorLog: false },
+      });
+      const debugSpy = jest
+        .spyOn(logger['console'], 'debug')
+        .mockImplementation();
+      jest.spyOn(logger['console'], 'error').mockImplementation();
+
+      // Act
+      logger.debug('This is a DEBUG log');
+      logger.error('This is an ERROR log');
+
+      // Assess
+      expect(debugSpy).toBeCalledTimes(0);
+
+      // Act
+      logger.flushBuffer();
+
+      // Assess
+      expect(debugSpy).toBeCalledTimes(1);
+    });
+
+    test('when the buffer is cleared, the buffered log items are discarded', () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logBufferOptions: { enabled: true },
+      });
+      const debugSpy = jest
+        .spyOn(logger['console'], 'debug')
+        .mockImplementation();
+
+      // Act
+      logger.debug('This is a DEBUG log');
+      logger.clearBuffer();
+      logger.flushBuffer();
+
+      // Assess
+      expect(debugSpy).toBeCalledTimes(0);
+    });
+
+    test('when the maximum number of items is exceeded, it evicts the oldest items and warns about them when flushing', () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logBufferOptions: { enabled: true, maxSize: 2 },
+      });
+      const debugSpy = jest
+        .spyOn(logger['console'], 'debug')
+        .mockImplementation();
+      const warnSpy = jest
+        .spyOn(logger['console'], 'warn')
+        .mockImplementation();
+
+      // Act
+      logger.debug('This is the first DEBUG log');
+      logger.debug('This is the second DEBUG log');
+      logger.debug('This is the third DEBUG log');
+      logger.flushBuffer();
+
+      // Assess
+      expect(warnSpy).toHaveBeenNthCalledWith(
+        1,
+        JSON.stringify({
+          level: 'WARN',
+          message:
+            'Some logs are not displayed because they were evicted from the buffer. Increase the buffer size to store more logs in the buffer',
+          service: 'hello-world',
+          timestamp: '2016-06-20T12:08:10.000Z',
+          xray_trace_id: '1-5759e988-bd862e3fe1be46a994272793',
+          evicted_items_count: 1,
+        })
+      );
+      expect(debugSpy).toBeCalledTimes(2);
+      expect(JSON.parse(debugSpy.mock.calls[0][0]).message).toBe(
+        'This is the second DEBUG log'
+      );
+      expect(JSON.parse(debugSpy.mock.calls[1][0]).message).toBe(
+        'This is the third DEBUG log'
+      );
+    });
+
+    test('when the maximum size in bytes is exceeded, it evicts the oldest items and never stores items bigger than the buffer', () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logBufferOptions: { enabled: true, maxBytes: 400 },
+      });
+      const debugSpy = jest
+        .spyOn(logger['console'], 'debug')
+        .mockImplementation();
+      const warnSpy = jest
+        .spyOn(logger['console'], 'warn')
+        .mockImplementation();
+
+      // Act
+      logger.debug('This is a DEBUG log that is too big', {
+        payload: 'a'.repeat(500),
+      });
+      logger.debug('This is the first DEBUG log');
+      logger.debug('This is the second DEBUG log');
+      logger.debug('This is the third DEBUG log');
+      logger.flushBuffer();
+
+      // Assess
+      expect(JSON.parse(warnSpy.mock.calls[0][0]).evicted_items_count).toBe(2);
+      expect(debugSpy).toBeCalledTimes(2);
+      expect(JSON.parse(debugSpy.mock.calls[0][0]).message).toBe(
+        'This is the second DEBUG log'
+      );
+    });
+
+    test('when the handler decorated with injectLambdaContext throws, it prints the buffered log items', async () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logBufferOptions: { enabled: true },
+      });
+      const debugSpy = jest
+        .spyOn(logger['console'], 'debug')
+        .mockImplementation();
+      class LambdaFunction implements LambdaInterface {
+        @logger.injectLambdaContext()
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        public async handler<TEvent>(
+          _event: TEvent,
+          _context: Context
+        ): Promise<void> {
+          logger.debug('This is a DEBUG log');
+          throw new Error('Unexpected error occurred!');
+        }
+      }
+      const handlerClass = new LambdaFunction();
+      const handler = handlerClass.handler.bind(handlerClass);
+
+      // Act & Assess
+      await expect(handler(event, context)).rejects.toThrow();
+      expect(debugSpy).toBeCalledTimes(1);
+      expect(JSON.parse(debugSpy.mock.calls[0][0])).toEqual(
+        expect.objectContaining({
+          message: 'This is a DEBUG log',
+          function_request_id: 'c6af9ac6-7b61-11e6-9a41-93e812345678',
+        })
+      );
+    });
+
+    test('when the handler decorated with injectLambdaContext succeeds, it discards the buffered log items', async () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logBufferOptions: { enabled: true },
+      });
+      const debugSpy = jest
+        .spyOn(logger['console'], 'debug')
+        .mockImplementation();
+      class LambdaFunction implements LambdaInterface {
+        @logger.injectLambdaContext()
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        public async handler<TEvent>(
+          _event: TEvent,
+          _context: Context
+        ): Promise<void> {
+          logger.debug('This is a DEBUG log');
+        }
+      }
+      const handlerClass = new LambdaFunction();
+      const handler = handlerClass.handler.bind(handlerClass);
+
+      // Act
+      logger.debug('This is a DEBUG log emitted before the invocation');
+      await handler(event, context);
+      logger.flushBuffer();
+
+      // Assess
+      expect(debugSpy).toBeCalledTimes(0);
+    });
+
+    test('child loggers inherit the log buffering options, but not the buffered log items', () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logBufferOptions: { enabled: true, maxSize: 10 },
+      });
+      logger.debug('This is a DEBUG log from the parent logger');
+
+      // Act
+      const childLogger = logger.createChild();
+      const debugSpy = jest
+        .spyOn(logger['console'], 'debug')
+        .mockImplementation();
+      childLogger.flushBuffer();
+
+      // Assess
+      expect(childLogger['logBufferOptions']).toEqual({
+        enabled: true,
+        maxSize: 10,
+      });
+      expect(childLogger['logBuffer']).not.toBe(logger['logBuffer']);
+      expect(debugSpy).toBeCalledTimes(0);
+    });
+  });
+
+  describe('Feature: redaction', () => {
+    test('when redaction rules are provided, it redacts persistent and ephemeral attributes before printing them', () => {
+      // Prepare
+      const logger = new Logger({
+        persistentLogAttributes: { apiKey: 'abcdef123456' },
+        redactionRules: [
+          { keys: ['apiKey'], strategy: 'keepLast' },
+          { paths: ['event.body.password'] },
+        ],
+      });
+      const consoleSpy = jest
+        .spyOn(logger['console'], 'info')
+        .mockImplementation();
+
+      // Act
+      logger.logEventIfEnabled(
+        { body: { username: 'john', password: 'secret' } },
+        true
+      );
+
+      // Assess
+      expect(consoleSpy).toHaveBeenNthCalledWith(
+        1,
+        JSON.stringify({
+          level: 'INFO',
+          message: 'Lambda invocation event',
+          service: 'hello-world',
+          timestamp: '2016-06-20T12:08:10.000Z',
+          xray_trace_id: '1-5759e988-bd862e3fe1be46a994272793',
+          apiKey: '***3456',
+          event: { body: { username: 'john', password: '***' } },
+        })
+      );
+      expect(logger.getPersistentLogAttributes()).toEqual({
+        apiKey: 'abcdef123456',
+      });
+    });
+
+    test('when no redaction rules are provided, it does not create a redactor', () => {
+      // Prepare & Act
+      const logger = new Logger({ redactionRules: [] });
+
+      // Assess
+      expect(logger['redactor']).toBeUndefined();
+    });
+
+    test('child loggers inherit the redaction rules of the parent, and add their own ones', () => {
+      // Prepare
+      const logger = new Logger({
+        redactionRules: [{ keys: ['password'] }],
+      });
+
+      // Act
+      const childLogger = logger.createChild({
+        redactionRules: [{ keys: ['token'], strategy: 'drop' }],
+      });
+      const consoleSpy = jest
+        .spyOn(logger['console'], 'info')
+        .mockImplementation();
+      logger.info('This is an INFO log', { password: 'secret', token: 'abc' });
+      childLogger.info('This is an INFO log', {
+        password: 'secret',
+        token: 'abc',
+      });
+
+      // Assess
+      expect(consoleSpy).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('"password":"***","token":"abc"')
+      );
+      expect(consoleSpy).toHaveBeenNthCalledWith(
+        2,
+        expect.not.stringContaining('token')
+      );
+      expect(consoleSpy).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining('"password":"***"')
+      );
+      expect(logger['redactor']?.getRules()).toEqual([{ keys: ['password'] }]);
+    });
+
+    test('child loggers created with different options do not change the options of the parent', () => {
+      // Prepare
+      const logger = new Logger({
+        logBufferOptions: { enabled: true },
+      });
+
+      // Act
+      logger.createChild({
+        logBufferOptions: { enabled: true, flushOnErrorLog: false },
+      });
+
+      // Assess
+      expect(logger['logBufferOptions']).toEqual({ enabled: true });
+    });
+  });
+
+  describe('Feature: correlation ID', () => {
+    test('when a correlation ID is set, it adds it to all the printed log items', () => {
+      // Prepare
+      const logger = new Logger();
+      const consoleSpy = jest
+        .spyOn(logger['console'], 'info')
+        .mockImplementation();
+
+      // Act
+      logger.setCorrelationId('my-correlation-id');
+      logger.info('This is an INFO log');
+
+      // Assess
+      expect(logger.getCorrelationId()).toBe('my-correlation-id');
+      expect(consoleSpy).toHaveBeenNthCalledWith(
+        1,
+        JSON.stringify({
+          correlation_id: 'my-correlation-id',
+          level: 'INFO',
+          message: 'This is an INFO log',
+          service: 'hello-world',
+          timestamp: '2016-06-20T12:08:10.000Z',
+          xray_trace_id: '1-5759e988-bd862e3fe1be46a994272793',
+        })
+      );
+    });
+
+    test('when a JMESPath expression is passed, it extracts the correlation ID from the value', () => {
+      // Prepare
+      const logger = new Logger();
+
+      // Act
+      logger.setCorrelationId(
+        { headers: { 'x-amzn-trace-id': 'Root=1-abc' } },
+        correlationPaths.APPLICATION_LOAD_BALANCER
+      );
+
+      // Assess
+      expect(logger.getCorrelationId()).toBe('Root=1-abc');
+    });
+
+    test('when the JMESPath expression does not match, it removes the correlation ID', () => {
+      // Prepare
+      const logger = new Logger();
+      logger.setCorrelationId('my-correlation-id');
+
+      // Act
+      logger.setCorrelationId({ foo: 'bar' }, correlationPaths.EVENT_BRIDGE);
+
+      // Assess
+      expect(logger.getCorrelationId()).toBeUndefined();
+    });
+
+    test('when the JMESPath expression is not valid, it logs a warning and leaves the correlation ID unset', () => {
+      // Prepare
+      const logger = new Logger();
+      logger.setCorrelationId('my-correlation-id');
+      const warnSpy = jest.spyOn(logger, 'warn').mockImplementation();
+
+      // Act
+      logger.setCorrelationId({ foo: 'bar' }, 'foo[');
+
+      // Assess
+      expect(logger.getCorrelationId()).toBeUndefined();
+      expect(warnSpy).toHaveBeenCalledWith(
+        `Unable to extract the correlation ID: the expression 'foo[' is not valid`,
+        expect.any(Error)
+      );
+    });
+
+    test('child loggers share the correlation ID of their parent, unless they set their own', () => {
+      // Prepare
+      const logger = new Logger();
+      const childLogger = logger.createChild();
+      const grandchildLogger = childLogger.createChild();
+
+      // Act
+      logger.setCorrelationId('parent-correlation-id');
+
+      // Assess
+      expect(childLogger.getCorrelationId()).toBe('parent-correlation-id');
+      expect(grandchildLogger.getCorrelationId()).toBe('parent-correlation-id');
+
+      // Act
+      childLogger.setCorrelationId('child-correlation-id');
+
+      // Assess
+      expect(logger.getCorrelationId()).toBe('parent-correlation-id');
+      expect(grandchildLogger.getCorrelationId()).toBe('child-correlation-id');
+    });
+
+    test('when the handler is decorated with a correlation ID path, it extracts the correlation ID from each event', async () => {
+      // Prepare
+      const logger = new Logger();
+      const consoleSpy = jest
+        .spyOn(logger['console'], 'info')
+        .mockImplementation();
+      class LambdaFunction implements LambdaInterface {
+        @logger.injectLambdaContext({
+          correlationIdPath: correlationPaths.API_GATEWAY_REST,
+        })
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        public async handler<TEvent>(
+          _event: TEvent,
+          _context: Context
+        ): Promise<void> {
+          logger.info('This is an INFO log');
+        }
+      }
+      const handlerClass = new LambdaFunction();
+      const handler = handlerClass.handler.bind(handlerClass);
+
+      // Act
+      await handler({ requestContext: { requestId: 'request-1' } }, context);
+      await handler({}, context);
+
+      // Assess
+      expect(consoleSpy).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('"correlation_id":"request-1"')
+      );
+      expect(consoleSpy).toHaveBeenNthCalledWith(
+        2,
+        expect.not.stringContaining('correlation_id')
+      );
+    });
+  });
+
+  describe('Feature: log transport', () => {
+    test('when a transport is provided, it sends the structured log items to it instead of the console', () => {
+      // Prepare
+      const transport: LogTransportInterface = { send: jest.fn() };
+      const logger = new Logger({ logTransport: transport });
+      const consoleSpy = jest
+        .spyOn(logger['console'], 'warn')
+        .mockImplementation();
+
+      // Act
+      logger.warn('This is a WARN log', { foo: 'bar' });
+
+      // Assess
+      expect(consoleSpy).toBeCalledTimes(0);
+      expect(transport.send).toHaveBeenCalledWith({
+        logLevel: 'WARN',
+        consoleMethod: 'warn',
+        attributes: {
+          level: 'WARN',
+          message: 'This is a WARN log',
+          service: 'hello-world',
+          timestamp: '2016-06-20T12:08:10.000Z',
+          xray_trace_id: '1-5759e988-bd862e3fe1be46a994272793',
+          foo: 'bar',
+        },
+        serialize: expect.any(Function),
+        getReplacer: expect.any(Function),
+      });
+    });
+
+    test('child loggers inherit the transport of their parent', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({ logTransport: transport });
+
+      // Act
+      const childLogger = logger.createChild({ serviceName: 'child' });
+      logger.info('This is an INFO log from the parent logger');
+      childLogger.info('This is an INFO log from the child logger');
+
+      // Assess
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({ service: 'hello-world' }),
+        expect.objectContaining({ service: 'child' }),
+      ]);
+    });
+
+    test('when the transport does not support flushing, flushing it does nothing', async () => {
+      // Prepare
+      const logger = new Logger({ logTransport: new InMemoryTransport() });
+
+      // Act & Assess
+      await expect(logger.flushTransport()).resolves.toBeUndefined();
+    });
+
+    test('when the handler decorated with injectLambdaContext ends, it flushes the transport', async () => {
+      // Prepare
+      const transport: LogTransportInterface = {
+        send: jest.fn(),
+        flush: jest.fn().mockResolvedValue(undefined),
+      };
+      const logger = new Logger({ logTransport: transport });
+      class LambdaFunction implements LambdaInterface {
+        @logger.injectLambdaContext()
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        public async handler<TEvent>(
+          _event: TEvent,
+          _context: Context
+        ): Promise<void> {
+          logger.info('This is an INFO log');
+        }
+      }
+      const handlerClass = new LambdaFunction();
+      const handler = handlerClass.handler.bind(handlerClass);
+
+      // Act
+      await handler(event, context);
+
+      // Assess
+      expect(transport.flush).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Feature: human-friendly output for local development', () => {
+    const isTTY = process.stdout.isTTY;
+
+    afterEach(() => {
+      process.stdout.isTTY = isTTY;
+    });
+
+    test('when the `POWERTOOLS_DEV` env var is SET and stdout is a TTY, it prints human-friendly log items', () => {
+      // Prepare
+      process.env.POWERTOOLS_DEV = 'true';
+      process.stdout.isTTY = true;
+      const logger = new Logger();
+      const consoleSpy = jest
+        .spyOn(logger['console'], 'info')
+        .mockImplementation();
+
+      // Act
+      logger.info('This is an INFO log', { orderId: 123 });
+
+      // Assess
+      expect(logger['logFormatter']).toBeInstanceOf(DevLogFormatter);
+      expect(consoleSpy).toHaveBeenLastCalledWith(
+        expect.stringMatching(/\[hello-world\].*This is an INFO log/)
+      );
+      expect(consoleSpy).toHaveBeenLastCalledWith(
+        expect.stringContaining('orderId=123')
+      );
+    });
+
+    test('when the `POWERTOOLS_DEV` env var is SET but stdout is NOT a TTY, it prints JSON log items', () => {
+      // Prepare
+      process.env.POWERTOOLS_DEV = 'true';
+      process.stdout.isTTY = false;
+
+      // Act
+      const logger = new Logger();
+
+      // Assess
+      expect(logger['logFormatter']).not.toBeInstanceOf(DevLogFormatter);
+    });
+
+    test('when a log transport is configured, it does not select the human-friendly formatter', () => {
+      // Prepare
+      process.env.POWERTOOLS_DEV = 'true';
+      process.stdout.isTTY = true;
+
+      // Act
+      const logger = new Logger({ logTransport: new InMemoryTransport() });
+
+      // Assess
+      expect(logger['logFormatter']).not.toBeInstanceOf(DevLogFormatter);
+    });
+
+    test('when a log formatter is passed, it uses it also when the `POWERTOOLS_DEV` env var is SET', () => {
+      // Prepare
+      process.env.POWERTOOLS_DEV = 'true';
+      process.stdout.isTTY = true;
+      const logFormatter = new PowertoolLogFormatter();
+
+      // Act
+      const logger = new Logger({ logFormatter });
+
+      // Assess
+      expect(logger['logFormatter']).toBe(logFormatter);
+    });
+
+    test('when the log formatter implements serialize, it uses it to print the log items', () => {
+      // Prepare
+      const logFormatter = new DevLogFormatter({ colors: false });
+      const logger = new Logger({ logFormatter });
+      const consoleSpy = jest
+        .spyOn(logger['console'], 'info')
+        .mockImplementation();
+      const circular: { [key: string]: unknown } = { id: 1 };
+      circular.self = circular;
+
+      // Act
+      logger.info('This is an INFO log', { circular });
+
+      // Assess
+      expect(consoleSpy).toHaveBeenCalledWith(
+        [
+          'INFO     12:08:10.000 [hello-world] This is an INFO log',
+          '    xray_trace_id=1-5759e988-bd862e3fe1be46a994272793',
+          '    circular={"id":1}',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('Feature: dynamic log level', () => {
+    test('when the log level source returns a different log level, it sets it and logs the change once', async () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logTransport: transport,
+        logLevelSource: { source: async () => 'DEBUG', maxAge: 0 },
+      });
+
+      // Act
+      await logger.refreshLogLevel();
+      await logger.refreshLogLevel();
+      logger.debug('This is a DEBUG log');
+
+      // Assess
+      expect(logger.getLevelName()).toBe('DEBUG');
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({
+          level: 'INFO',
+          message: 'Log level changed',
+          previous_log_level: 'INFO',
+          log_level: 'DEBUG',
+        }),
+        expect.objectContaining({ message: 'This is a DEBUG log' }),
+      ]);
+    });
+
+    test('when the new log level is higher than INFO, it still logs the change', async () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logTransport: transport,
+        logLevelSource: { source: async () => 'ERROR' },
+      });
+
+      // Act
+      await logger.refreshLogLevel();
+
+      // Assess
+      expect(logger.getLevelName()).toBe('ERROR');
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({ message: 'Log level changed' }),
+      ]);
+    });
+
+    test('when the log level source returns the current or an invalid log level, it keeps it without logging', async () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const source = jest
+        .fn()
+        .mockResolvedValueOnce('INFO')
+        .mockResolvedValueOnce('VERBOSE');
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logTransport: transport,
+        logLevelSource: { source, maxAge: 0 },
+      });
+
+      // Act
+      await logger.refreshLogLevel();
+      await logger.refreshLogLevel();
+
+      // Assess
+      expect(source).toHaveBeenCalledTimes(2);
+      expect(logger.getLevelName()).toBe('INFO');
+      expect(transport.getLogs()).toEqual([]);
+    });
+
+    test('when the log level source fails, it keeps the last known log level and logs a warning', async () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logTransport: transport,
+        logLevelSource: {
+          source: jest
+            .fn()
+            .mockResolvedValueOnce('WARN')
+            .mockRejectedValueOnce(new Error('Parameter not found')),
+          maxAge: 0,
+        },
+      });
+      await logger.refreshLogLevel();
+
+      // Act
+      await logger.refreshLogLevel();
+
+      // Assess
+      expect(logger.getLevelName()).toBe('WARN');
+      expect(transport.getLogs()[1]).toEqual(
+        expect.objectContaining({
+          level: 'WARN',
+          message:
+            'Unable to fetch the log level from its source, the current log level is kept',
+          error: expect.objectContaining({ message: 'Parameter not found' }),
+        })
+      );
+    });
+
+    test('when no log level source is configured, refreshing the log level does nothing', async () => {
+      // Prepare
+      const logger = new Logger({ logLevel: 'WARN' });
+
+      // Act
+      await logger.refreshLogLevel();
+
+      // Assess
+      expect(logger.getLevelName()).toBe('WARN');
+    });
+
+    test('child loggers share the log level source of the parent and apply the override of their service', async () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logTransport: transport,
+        logLevelSource: {
+          source: async () => ({
+            logLevel: 'WARN',
+            services: { 'orders-service': 'DEBUG' },
+          }),
+        },
+      });
+      const childLogger = logger.createChild({ serviceName: 'orders-service' });
+      const otherChildLogger = logger.createChild();
+
+      // Act
+      await logger.refreshLogLevel();
+      childLogger.debug('This is a DEBUG log');
+      otherChildLogger.info('This is an INFO log');
+
+      // Assess
+      expect(logger.getLevelName()).toBe('WARN');
+      expect(childLogger.getLevelName()).toBe('DEBUG');
+      expect(otherChildLogger.getLevelName()).toBe('WARN');
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({
+          service: 'hello-world',
+          message: 'Log level changed',
+        }),
+        expect.objectContaining({ message: 'This is a DEBUG log' }),
+      ]);
+    });
+
+    test('when the log level changes, only the logger that owns the log level source logs the change', async () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logTransport: transport,
+        logLevelSource: { source: async () => 'WARN' },
+      });
+      const childLogger = logger.createChild();
+      const childLoggerWithSource = logger.createChild({
+        serviceName: 'orders-service',
+        logLevelSource: { source: async () => 'ERROR' },
+      });
+
+      // Act
+      childLogger.warn('This is a WARN log');
+      await logger.refreshLogLevel();
+      await childLoggerWithSource.refreshLogLevel();
+      childLogger.warn('This is a WARN log');
+
+      // Assess
+      expect(childLogger.getLevelName()).toBe('WARN');
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({ message: 'This is a WARN log' }),
+        expect.objectContaining({
+          service: 'hello-world',
+          message: 'Log level changed',
+          log_level: 'WARN',
+        }),
+        expect.objectContaining({
+          service: 'orders-service',
+          message: 'Log level changed',
+          log_level: 'ERROR',
+        }),
+        expect.objectContaining({ message: 'This is a WARN log' }),
+      ]);
+    });
+
+    test('when the handler decorated with injectLambdaContext is invoked, it refreshes the log level', async () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logTransport: new InMemoryTransport(),
+        logLevelSource: { source: async () => 'DEBUG' },
+      });
+      class LambdaFunction implements LambdaInterface {
+        @logger.injectLambdaContext()
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        public async handler<TEvent>(
+          _event: TEvent,
+          _context: Context
+        ): Promise<string> {
+          return logger.getLevelName();
+        }
+      }
+      const handlerClass = new LambdaFunction();
+      const handler = handlerClass.handler.bind(handlerClass);
+
+      // Act
+      const result = await handler(event, context);
+
+      // Assess
+      expect(result).toBe('DEBUG');
+    });
+  });
+
+  describe('Feature: custom log levels', () => {
+    const customLogLevels = {
+      TRACE: { value: 4 },
+      NOTICE: { value: 14, consoleMethod: 'log' as const },
+      AUDIT: { value: 30, bypassThreshold: true },
+    };
+
+    test('it generates a method for each custom log level, printing with the matching console method', () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'TRACE',
+        customLogLevels,
+      }) as LoggerWithCustomLogLevels<typeof customLogLevels>;
+      const debugSpy = jest
+        .spyOn(logger['console'], 'debug')
+        .mockImplementation();
+      const logSpy = jest.spyOn(logger['console'], 'log').mockImplementation();
+
+      // Act
+      logger.trace('This is a TRACE log');
+      logger.notice('This is a NOTICE log', { orderId: 123 });
+
+      // Assess
+      expect(logger.level).toBe(4);
+      expect(logger.getLevelName()).toBe('TRACE');
+      expect(debugSpy).toHaveBeenNthCalledWith(
+        1,
+        JSON.stringify({
+          level: 'TRACE',
+          message: 'This is a TRACE log',
+          service: 'hello-world',
+          timestamp: '2016-06-20T12:08:10.000Z',
+          xray_trace_id: '1-5759e988-bd862e3fe1be46a994272793',
+        })
+      );
+      expect(logSpy).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('"level":"NOTICE"')
+      );
+    });
+
+    test('when the custom log level is below the current log level, it does not print the log item', () => {
+      // Prepare
+      const logger = new Logger({
+        customLogLevels,
+      }) as LoggerWithCustomLogLevels<typeof customLogLevels>;
+      const debugSpy = jest
+        .spyOn(logger['console'], 'debug')
+        .mockImplementation();
+
+      // Act
+      logger.trace('This is a TRACE log');
+
+      // Assess
+      expect(debugSpy).toHaveBeenCalledTimes(0);
+    });
+
+    test('when the custom log level bypasses the threshold, it prints the log item regardless of the log level', () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'SILENT',
+        customLogLevels: {
+          ...customLogLevels,
+          SECURITY: { value: 2, bypassThreshold: true },
+        },
+      }) as LoggerWithCustomLogLevels<
+        typeof customLogLevels & { SECURITY: { value: number } }
+      >;
+      const errorSpy = jest
+        .spyOn(logger['console'], 'error')
+        .mockImplementation();
+      const debugSpy = jest
+        .spyOn(logger['console'], 'debug')
+        .mockImplementation();
+
+      // Act
+      logger.audit('User logged in');
+      logger.security('Password changed');
+      logger.error('This is an ERROR log');
+
+      // Assess
+      expect(errorSpy).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('"level":"AUDIT"')
+      );
+      expect(debugSpy).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('"level":"SECURITY"')
+      );
+      expect(errorSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('the custom log levels can be set with setLogLevel and the LOG_LEVEL env var', () => {
+      // Prepare
+      process.env.LOG_LEVEL = 'notice';
+      const logger = new Logger({ customLogLevels });
+
+      // Act & Assess
+      expect(logger.getLevelName()).toBe('NOTICE');
+      logger.setLogLevel('TRACE');
+      expect(logger.level).toBe(4);
+    });
+
+    test('when the logs are sampled, it prints the log items of the custom log levels below the log level', () => {
+      // Prepare
+      const logger = new Logger({
+        sampleRateValue: 1,
+        customLogLevels,
+      }) as LoggerWithCustomLogLevels<typeof customLogLevels>;
+      const debugSpy = jest
+        .spyOn(logger['console'], 'debug')
+        .mockImplementation();
+
+      // Act
+      logger.trace('This is a TRACE log');
+
+      // Assess
+      expect(debugSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('child loggers inherit the custom log levels of the parent, and can add their own', () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'TRACE',
+        customLogLevels: { TRACE: customLogLevels.TRACE },
+      });
+
+      // Act
+      const childLogger = logger.createChild({
+        customLogLevels: { NOTICE: customLogLevels.NOTICE },
+      }) as LoggerWithCustomLogLevels<typeof customLogLevels>;
+
+      // Assess
+      expect(childLogger.getLevelName()).toBe('TRACE');
+      expect(childLogger.trace).toBeInstanceOf(Function);
+      expect(childLogger.notice).toBeInstanceOf(Function);
+      expect(logger).not.toHaveProperty('notice');
+    });
+
+    test.each([
+      ['it has the name of a built-in log level', { info: { value: 13 } }],
+      ['it has the name of an existing property', { LEVEL: { value: 13 } }],
+      ['it has the value of another log level', { NOTICE: { value: 12 } }],
+    ])(
+      'when a custom log level is invalid because %s, it throws',
+      (_description, invalidLogLevels) => {
+        // Act & Assess
+        expect(() => new Logger({ customLogLevels: invalidLogLevels })).toThrow(
+          'Invalid custom log level'
+        );
+      }
+    );
+  });
+
+  describe('Feature: log formats', () => {
+    test.each([
+      ['ecs', EcsLogFormatter],
+      ['OpenTelemetry', OpenTelemetryLogFormatter],
+      ['FLATTENED', FlattenedLogFormatter],
+      ['powertools', PowertoolLogFormatter],
+    ])(
+      'when the `POWERTOOLS_LOGGER_FORMAT` env var is %s, it uses the matching log formatter',
+      (logFormat, logFormatterClass) => {
+        // Prepare
+        process.env.POWERTOOLS_LOGGER_FORMAT = logFormat;
+
+        // Act
+        const logger = new Logger();
+
+        // Assess
+        expect(logger['logFormatter']).toBeInstanceOf(logFormatterClass);
+      }
+    );
+
+    test('when a log formatter is passed, it takes precedence over the `POWERTOOLS_LOGGER_FORMAT` env var', () => {
+      // Prepare
+      process.env.POWERTOOLS_LOGGER_FORMAT = 'ECS';
+      const logFormatter = new PowertoolLogFormatter();
+
+      // Act
+      const logger = new Logger({ logFormatter });
+
+      // Assess
+      expect(logger['logFormatter']).toBe(logFormatter);
+    });
+
+    test('when the log formatter implements formatLogItem, it prints the rearranged log items', () => {
+      // Prepare
+      process.env.POWERTOOLS_LOGGER_FORMAT = 'OPENTELEMETRY';
+      const transport = new InMemoryTransport();
+      const logger = new Logger({ logTransport: transport });
+
+      // Act
+      logger.info('This is an INFO log', { orderId: 123 });
+
+      // Assess
+      expect(transport.getLogs()).toEqual([
+        {
+          timeUnixNano: '1466424490000000000',
+          severityNumber: 9,
+          severityText: 'INFO',
+          body: 'This is an INFO log',
+          resource: {
+            'service.name': 'hello-world',
+            'cloud.provider': 'aws',
+            'cloud.platform': 'aws_lambda',
+            'cloud.region': 'eu-west-1',
+          },
+          attributes: { orderId: 123 },
+          traceId: '5759e988bd862e3fe1be46a994272793',
+          spanId: '557abcec3ee5a047',
+          traceFlags: 1,
+        },
+      ]);
+    });
+  });
+
+  describe('Method: withContext', () => {
+    test('it adds the attributes to the log items emitted while the function runs, also in nested async calls', async () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({ logTransport: transport });
+      const processRecord = async (id: number): Promise<number> => {
+        await new Promise((resolve) => setTimeout(resolve, 10 - id));
+        logger.info('Processing record');
+
+        return id;
+      };
+
+      // Act
+      const results = await Promise.all(
+        [1, 2].map((id) =>
+          logger.withContext({ recordId: id }, () => processRecord(id))
+        )
+      );
+      logger.info('All records processed');
+
+      // Assess
+      expect(results).toEqual([1, 2]);
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({ message: 'Processing record', recordId: 2 }),
+        expect.objectContaining({ message: 'Processing record', recordId: 1 }),
+        expect.not.objectContaining({ recordId: expect.anything() }),
+      ]);
+    });
+
+    test('child loggers add the attributes of the scope, and nested scopes add theirs to the outer ones', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({ logTransport: transport });
+      const childLogger = logger.createChild({ serviceName: 'child' });
+
+      // Act
+      logger.withContext({ batchId: 'abc', step: 1 }, () => {
+        logger.withContext({ step: 2 }, () => {
+          childLogger.info('This is an INFO log', { orderId: 123 });
+        });
+      });
+
+      // Assess
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({
+          service: 'child',
+          batchId: 'abc',
+          step: 2,
+          orderId: 123,
+        }),
+      ]);
+      expect(logger.getPersistentLogAttributes()).toEqual({});
+    });
+
+    test('when the function throws, it removes the attributes and rethrows the error', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({ logTransport: transport });
+
+      // Act
+      expect(() =>
+        logger.withContext({ recordId: 1 }, () => {
+          throw new Error('Something went wrong');
+        })
+      ).toThrow('Something went wrong');
+      logger.info('This is an INFO log');
+
+      // Assess
+      expect(transport.getLogs()[0]).not.toHaveProperty('recordId');
+    });
+  });
+
+  describe('Feature: log deduplication', () => {
+    test('when enabled, it suppresses the similar log items beyond the maximum number of entries and reports them once', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logTransport: transport,
+        logDeduplicationOptions: { enabled: true, maxEntries: 2 },
+      });
+
+      // Act
+      for (let i = 0; i < 5; i++) {
+        logger.warn('Retrying request', { attempt: i });
+      }
+      logger.info('Retrying request');
+      logger.flushSuppressedLogs();
+
+      // Assess
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({ message: 'Retrying request', attempt: 0 }),
+        expect.objectContaining({ message: 'Retrying request', attempt: 1 }),
+        expect.objectContaining({ level: 'INFO', message: 'Retrying request' }),
+        expect.objectContaining({
+          level: 'WARN',
+          message: 'Suppressed 3 similar log items',
+          suppressed_count: 3,
+          suppressed_keys: { 'WARN:Retrying request': 3 },
+        }),
+      ]);
+    });
+
+    test('when disabled, it prints all the log items', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({ logTransport: transport });
+
+      // Act
+      for (let i = 0; i < 20; i++) {
+        logger.warn('Retrying request');
+      }
+      logger.flushSuppressedLogs();
+
+      // Assess
+      expect(logger['logDeduplicator']).toBeUndefined();
+      expect(transport.getLogs()).toHaveLength(20);
+    });
+
+    test('when no log items were suppressed, it does not print a summary', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logTransport: transport,
+        logDeduplicationOptions: { enabled: true },
+      });
+
+      // Act
+      logger.warn('Retrying request');
+      logger.flushSuppressedLogs();
+
+      // Assess
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({ message: 'Retrying request' }),
+      ]);
+    });
+
+    test('by default, ERROR and CRITICAL log items are never suppressed', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logTransport: transport,
+        logDeduplicationOptions: { enabled: true, maxEntries: 1 },
+      });
+
+      // Act
+      logger.error('Request failed');
+      logger.error('Request failed');
+      logger.critical('Request failed');
+      logger.critical('Request failed');
+
+      // Assess
+      expect(transport.getLogs()).toHaveLength(4);
+    });
+
+    test('it suppresses the log items with the exempt log levels, when configured', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logTransport: transport,
+        logDeduplicationOptions: {
+          enabled: true,
+          maxEntries: 1,
+          exemptLogLevels: ['CRITICAL'],
+        },
+      });
+
+      // Act
+      logger.error('Request failed');
+      logger.error('Request failed');
+      logger.critical('Request failed');
+      logger.critical('Request failed');
+
+      // Assess
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({ level: 'ERROR' }),
+        expect.objectContaining({ level: 'CRITICAL' }),
+        expect.objectContaining({ level: 'CRITICAL' }),
+      ]);
+    });
+
+    test('it groups the log items by the key returned by the given function', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const key = jest.fn(
+        (_message: string, attributes: { [key: string]: unknown }) =>
+          String(attributes.tenant)
+      );
+      const logger = new Logger({
+        logTransport: transport,
+        logDeduplicationOptions: { enabled: true, maxEntries: 1, key },
+      });
+
+      // Act
+      logger.info('Processing order 1', { tenant: 'a' });
+      logger.info('Processing order 2', { tenant: 'a' });
+      logger.info('Processing order 3', { tenant: 'b' });
+      logger.flushSuppressedLogs();
+
+      // Assess
+      expect(key).toHaveBeenCalledWith(
+        'Processing order 1',
+        expect.objectContaining({ tenant: 'a' })
+      );
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({ message: 'Processing order 1' }),
+        expect.objectContaining({ message: 'Processing order 3' }),
+        expect.objectContaining({ suppressed_keys: { a: 1 } }),
+      ]);
+    });
+
+    test('when the window elapses, it reports the suppressed log items and resets the counters', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logTransport: transport,
+        logDeduplicationOptions: {
+          enabled: true,
+          maxEntries: 1,
+          windowSeconds: 60,
+        },
+      });
+      logger.warn({ message: 'Retrying request' });
+      logger.warn({ message: 'Retrying request' });
+      jest
+        .spyOn(logger['logDeduplicator'] as LogDeduplicator, 'isWindowElapsed')
+        .mockReturnValueOnce(true);
+
+      // Act
+      logger.warn({ message: 'Retrying request' });
+
+      // Assess
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({ message: 'Retrying request' }),
+        expect.objectContaining({ suppressed_count: 1 }),
+        expect.objectContaining({ message: 'Retrying request' }),
+      ]);
+    });
+
+    test('child loggers inherit the deduplication options, with counters of their own', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logTransport: transport,
+        logDeduplicationOptions: { enabled: true, maxEntries: 1 },
+      });
+
+      // Act
+      const childLogger = logger.createChild();
+      logger.warn('Retrying request');
+      childLogger.warn('Retrying request');
+      childLogger.warn('Retrying request');
+
+      // Assess
+      expect(childLogger['logDeduplicationOptions']).toEqual({
+        enabled: true,
+        maxEntries: 1,
+      });
+      expect(transport.getLogs()).toHaveLength(2);
+    });
+
+    test('when using the decorator, it reports the suppressed log items at the end of the invocation', async () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logTransport: transport,
+        logDeduplicationOptions: { enabled: true, maxEntries: 1 },
+      });
+      class LambdaFunction implements LambdaInterface {
+        @logger.injectLambdaContext()
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        public async handler<TResult>(
+          _event: unknown,
+          _context: unknown
+        ): Promise<TResult> {
+          logger.warn('Retrying request');
+          logger.warn('Retrying request');
+
+          return 'Lambda invoked!' as TResult;
+        }
+      }
+      const handlerClass = new LambdaFunction();
+      const handler = handlerClass.handler.bind(handlerClass);
+
+      // Act
+      await handler(event, context);
+      await handler(event, context);
+
+      // Assess
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({ message: 'Retrying request' }),
+        expect.objectContaining({ suppressed_count: 1 }),
+        expect.objectContaining({ message: 'Retrying request' }),
+        expect.objectContaining({ suppressed_count: 1 }),
+      ]);
+    });
+  });
+
+  describe('Feature: sampling strategies', () => {
+    test('when a sampling strategy is configured, it prints its decision in all log items', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logTransport: transport,
+        samplingStrategy: new ColdStartSamplingStrategy(),
+      });
+
+      // Act
+      logger.debug('This is a DEBUG log');
+
+      // Assess
+      expect(logger.getLogsSampled()).toBe(true);
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({
+          message: 'This is a DEBUG log',
+          sampling_strategy: 'cold_start',
+          sampled: true,
+        }),
+      ]);
+    });
+
+    test('when no sampling strategy is configured, it does not print any decision', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({ logTransport: transport });
+
+      // Act
+      logger.info('This is an INFO log');
+
+      // Assess
+      expect(logger['samplingDecision']).toBeUndefined();
+      expect(transport.getLogs()[0]).not.toHaveProperty('sampling_strategy');
+    });
+
+    test('it passes the sample rate, the service name and the IDs of the request to the strategy', () => {
+      // Prepare
+      const samplingStrategy = {
+        decide: jest
+          .fn()
+          .mockReturnValue({ strategy: 'custom', sampled: false }),
+      };
+      const logger = new Logger({ sampleRateValue: 0.1, samplingStrategy });
+
+      // Act
+      logger.addContext(context);
+      logger.setCorrelationId('order-1');
+      logger.refreshSampleRateCalculation();
+
+      // Assess
+      expect(samplingStrategy.decide).toHaveBeenLastCalledWith({
+        sampleRateValue: 0.1,
+        serviceName: 'hello-world',
+        correlationId: 'order-1',
+        xRayTraceId: '1-5759e988-bd862e3fe1be46a994272793',
+        invocationId: 'c6af9ac6-7b61-11e6-9a41-93e812345678',
+      });
+    });
+
+    test('when using the decorator, it decides again at the start of each invocation, after setting the correlation ID', async () => {
+      // Prepare
+      const samplingStrategy = {
+        decide: jest
+          .fn()
+          .mockReturnValueOnce({ strategy: 'custom', sampled: false })
+          .mockReturnValueOnce({ strategy: 'custom', sampled: true }),
+      };
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logTransport: transport,
+        samplingStrategy,
+      });
+      class LambdaFunction implements LambdaInterface {
+        @logger.injectLambdaContext({
+          correlationIdSearchFn: () => 'order-1',
+        })
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        public async handler<TResult>(
+          _event: unknown,
+          _context: unknown
+        ): Promise<TResult> {
+          logger.debug('This is a DEBUG log');
+
+          return 'Lambda invoked!' as TResult;
+        }
+      }
+      const handlerClass = new LambdaFunction();
+      const handler = handlerClass.handler.bind(handlerClass);
+
+      // Act
+      await handler(event, context);
+
+      // Assess
+      expect(samplingStrategy.decide).toHaveBeenCalledTimes(2);
+      expect(samplingStrategy.decide).toHaveBeenLastCalledWith(
+        expect.objectContaining({ correlationId: 'order-1' })
+      );
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({
+          message: 'This is a DEBUG log',
+          sampling_strategy: 'custom',
+          sampled: true,
+        }),
+      ]);
+    });
+
+    test('child loggers share the sampling strategy of their parent', () => {
+      // Prepare
+      const samplingStrategy = new TraceIdSamplingStrategy();
+      const logger = new Logger({ samplingStrategy });
+
+      // Act
+      const childLogger = logger.createChild();
+
+      // Assess
+      expect(childLogger['samplingStrategy']).toBe(samplingStrategy);
+    });
+  });
+
+  describe('Feature: timing helpers', () => {
+    const performanceSpy = jest.spyOn(performance, 'now');
+
+    afterEach(() => {
+      performanceSpy.mockReset();
+    });
+
+    afterAll(() => {
+      performanceSpy.mockRestore();
+    });
+
+    test('it emits a log item with the time elapsed between time() and timeEnd() with the same label', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({ logTransport: transport });
+      performanceSpy.mockReturnValueOnce(1000).mockReturnValueOnce(1250.4);
+
+      // Act
+      logger.time('Fetch orders');
+      logger.timeEnd('Fetch orders', { userId: 42 });
+
+      // Assess
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({
+          level: 'INFO',
+          message: 'Fetch orders',
+          duration_ms: 250,
+          userId: 42,
+        }),
+      ]);
+      expect(logger['timers']?.size).toBe(0);
+    });
+
+    test('when no timer was started with the label, timeEnd() emits a warning', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({ logTransport: transport });
+
+      // Act
+      logger.timeEnd('Fetch orders');
+
+      // Assess
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({
+          level: 'WARN',
+          message: 'No timer was started with this label',
+          label: 'Fetch orders',
+        }),
+      ]);
+    });
+
+    test('it measures the duration of a function, with the log level set in the timing options', async () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logTransport: transport,
+        timingOptions: { logLevel: 'debug' },
+      });
+      performanceSpy.mockReturnValueOnce(1000).mockReturnValueOnce(1100);
+
+      // Act
+      const result = await logger.measure(
+        'Fetch orders',
+        async () => ['order-1'],
+        { userId: 42 }
+      );
+
+      // Assess
+      expect(result).toEqual(['order-1']);
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({
+          level: 'DEBUG',
+          message: 'Fetch orders',
+          duration_ms: 100,
+          outcome: 'success',
+          userId: 42,
+        }),
+      ]);
+    });
+
+    test('when the measured function throws, it emits the error and rethrows it', async () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({ logTransport: transport });
+      performanceSpy.mockReturnValueOnce(1000).mockReturnValueOnce(1010);
+
+      // Act & Assess
+      await expect(
+        logger.measure('Fetch orders', () => {
+          throw new Error('Connection refused');
+        })
+      ).rejects.toThrow('Connection refused');
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({
+          message: 'Fetch orders',
+          duration_ms: 10,
+          outcome: 'failure',
+          error: expect.objectContaining({ message: 'Connection refused' }),
+        }),
+      ]);
+    });
+
+    test('when the log level of the timing options is invalid, it throws', () => {
+      // Act & Assess
+      expect(
+        () => new Logger({ timingOptions: { logLevel: 'VERBOSE' as LogLevel } })
+      ).toThrow('Invalid log level: VERBOSE');
+    });
+
+    test('child loggers inherit the timing options of their parent', () => {
+      // Prepare
+      const logger = new Logger({ timingOptions: { logLevel: 'DEBUG' } });
+
+      // Act
+      const childLogger = logger.createChild();
+
+      // Assess
+      expect(childLogger['timingOptions']).toEqual({ logLevel: 'DEBUG' });
+    });
+
+    test('when using the decorator, it emits the duration of the handler at the end of each invocation', async () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({ logTransport: transport, timingOptions: {} });
+      class LambdaFunction implements LambdaInterface {
+        @logger.injectLambdaContext()
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        public async handler<TResult>(
+          _event: unknown,
+          _context: unknown
+        ): Promise<TResult> {
+          return 'Lambda invoked!' as TResult;
+        }
+      }
+      const handlerClass = new LambdaFunction();
+      const handler = handlerClass.handler.bind(handlerClass);
+      performanceSpy.mockReturnValueOnce(1000).mockReturnValueOnce(1500);
+
+      // Act
+      await handler(event, context);
+
+      // Assess
+      expect(transport.getLogs()).toEqual([
+        expect.objectContaining({
+          message: 'Handler duration',
+          handler_duration_ms: 500,
+        }),
+      ]);
+      expect(logger['invocationStartedAt']).toBeUndefined();
+    });
+
+    test('when the duration of the handler is disabled, it does not emit it', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logTransport: transport,
+        timingOptions: { logHandlerDuration: false },
+      });
+
+      // Act
+      Logger.injectLambdaContextBefore(logger, event, context);
+      Logger.injectLambdaContextAfterOrOnError(logger, {});
+
+      // Assess
+      expect(transport.getLogs()).toEqual([]);
+    });
+
+    describe('remaining time warning', () => {
+      beforeEach(() => {
+        jest.useFakeTimers({ doNotFake: ['Date', 'performance'] });
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      test('it emits a warning when the remaining time drops below the threshold', () => {
+        // Prepare
+        const transport = new InMemoryTransport();
+        const logger = new Logger({
+          logTransport: transport,
+          timingOptions: {
+            logHandlerDuration: false,
+            remainingTimeThresholdMs: 1000,
+          },
+        });
+
+        // Act
+        Logger.injectLambdaContextBefore(logger, event, context);
+        jest.advanceTimersByTime(233);
+        const logsBeforeThreshold = [...transport.getLogs()];
+        jest.advanceTimersByTime(1);
+        Logger.injectLambdaContextAfterOrOnError(logger, {});
+
+        // Assess
+        expect(logsBeforeThreshold).toEqual([]);
+        expect(transport.getLogs()).toEqual([
+          expect.objectContaining({
+            level: 'WARN',
+            message:
+              'The remaining time of the invocation is below the threshold',
+            remaining_time_ms: 1234,
+            threshold_ms: 1000,
+          }),
+        ]);
+      });
+
+      test('when the invocation ends before the threshold, it does not emit the warning', () => {
+        // Prepare
+        const transport = new InMemoryTransport();
+        const logger = new Logger({
+          logTransport: transport,
+          timingOptions: {
+            logHandlerDuration: false,
+            remainingTimeThresholdMs: 2000,
+          },
+        });
+
+        // Act
+        Logger.injectLambdaContextBefore(logger, event, context);
+        Logger.injectLambdaContextAfterOrOnError(logger, {});
+        jest.runAllTimers();
+
+        // Assess
+        expect(transport.getLogs()).toEqual([]);
+      });
+    });
+  });
+
+  describe('Feature: cold start metadata', () => {
+    test('when enabled, it logs the metadata of the execution environment on cold start only', () => {
+      // Prepare
+      process.env.AWS_EXECUTION_ENV = 'AWS_Lambda_nodejs18.x';
+      process.env.AWS_LAMBDA_INITIALIZATION_TYPE = 'on-demand';
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logLevel: 'ERROR',
+        logTransport: transport,
+        logColdStartMetadata: true,
+      });
+
+      // Act
+      logger.addContext(context);
+      logger.addContext(context);
+
+      // Assess
+      expect(transport.getLogs()).toEqual([
+        {
+          level: 'INFO',
+          message: 'Execution environment metadata',
+          service: 'hello-world',
+          timestamp: '2016-06-20T12:08:10.000Z',
+          xray_trace_id: '1-5759e988-bd862e3fe1be46a994272793',
+          cold_start: true,
+          function_arn:
+            'arn:aws:lambda:eu-west-1:123456789012:function:foo-bar-function',
+          function_memory_size: 128,
+          function_name: 'foo-bar-function',
+          function_request_id: 'c6af9ac6-7b61-11e6-9a41-93e812345678',
+          node_version: process.version,
+          architecture: process.arch,
+          execution_env: 'AWS_Lambda_nodejs18.x',
+          init_type: 'on-demand',
+          init_duration_ms: expect.any(Number),
+          log_group: '/aws/lambda/foo-bar-function-123456abcdef',
+          log_stream:
+            '2021/03/09/[$LATEST]abcdef123456abcdef123456abcdef123456',
+          powertools_version: expect.stringMatching(/^\d+\.\d+\.\d+/),
+        },
+      ]);
+    });
+
+    test('when disabled, it does not log the metadata of the execution environment', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({ logTransport: transport });
+
+      // Act
+      logger.addContext(context);
+
+      // Assess
+      expect(logger['logColdStartMetadata']).toBeUndefined();
+      expect(transport.getLogs()).toEqual([]);
+    });
+
+    test('when the execution environment is not on-demand, it does not log the init duration', () => {
+      // Prepare
+      process.env.AWS_LAMBDA_INITIALIZATION_TYPE = 'provisioned-concurrency';
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logTransport: transport,
+        logColdStartMetadata: true,
+      });
+
+      // Act
+      logger.addContext(context);
+
+      // Assess
+      expect(transport.getLogs()[0]).toEqual(
+        expect.objectContaining({ init_type: 'provisioned-concurrency' })
+      );
+      expect(transport.getLogs()[0]).not.toHaveProperty('init_duration_ms');
+    });
+
+    test('when the execution environment is on-demand, it logs the time elapsed until the Logger was loaded as init duration', () => {
+      // Prepare
+      process.env.AWS_LAMBDA_INITIALIZATION_TYPE = 'on-demand';
+      const performanceSpy = jest
+        .spyOn(performance, 'now')
+        .mockReturnValueOnce(412.3);
+      let IsolatedLogger: typeof Logger = Logger;
+      // The dependencies read Date.now when they are loaded, so the mocked Date is restored meanwhile
+      dateSpy.mockRestore();
+      jest.isolateModules(() => {
+        IsolatedLogger = jest.requireActual('../../src').Logger;
+      });
+      jest.spyOn(global, 'Date').mockImplementation(() => mockDate);
+      performanceSpy.mockRestore();
+      const transport = new InMemoryTransport();
+      const logger = new IsolatedLogger({
+        logTransport: transport,
+        logColdStartMetadata: true,
+      });
+
+      // Act
+      logger.addContext(context);
+
+      // Assess
+      expect(transport.getLogs()[0]).toEqual(
+        expect.objectContaining({ init_duration_ms: 412 })
+      );
+    });
+
+    test('when the log level is SILENT, it does not log the metadata of the execution environment', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logLevel: 'SILENT',
+        logTransport: transport,
+        logColdStartMetadata: true,
+      });
+
+      // Act
+      logger.addContext(context);
+
+      // Assess
+      expect(transport.getLogs()).toEqual([]);
+    });
+
+    test('child loggers do not log the metadata of the execution environment again', () => {
+      // Prepare
+      const transport = new InMemoryTransport();
+      const logger = new Logger({
+        logTransport: transport,
+        logColdStartMetadata: true,
+      });
+      logger.addContext(context);
+
+      // Act
+      logger.createChild({ serviceName: 'child' });
+
+      // Assess
+      expect(transport.getLogs()).toHaveLength(1);
+    });
+  });
 });
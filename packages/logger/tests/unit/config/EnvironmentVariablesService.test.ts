@@ -87,6 +87,48 @@ describe('Class: EnvironmentVariablesService', () => {
     });
   });
 
+  describe('Method: getExecutionEnvironment', () => {
+    test('it returns the value of the environment variable AWS_EXECUTION_ENV', () => {
+      // Prepare
+      process.env.AWS_EXECUTION_ENV = 'AWS_Lambda_nodejs18.x';
+      const service = new EnvironmentVariablesService();
+
+      // Act
+      const value = service.getExecutionEnvironment();
+
+      // Assess
+      expect(value).toEqual('AWS_Lambda_nodejs18.x');
+    });
+  });
+
+  describe('Method: getInitializationType', () => {
+    test('it returns the value of the environment variable AWS_LAMBDA_INITIALIZATION_TYPE', () => {
+      // Prepare
+      process.env.AWS_LAMBDA_INITIALIZATION_TYPE = 'snap-start';
+      const service = new EnvironmentVariablesService();
+
+      // Act
+      const value = service.getInitializationType();
+
+      // Assess
+      expect(value).toEqual('snap-start');
+    });
+  });
+
+  describe('Method: getLogFormat', () => {
+    test('it returns the value of the environment variable POWERTOOLS_LOGGER_FORMAT', () => {
+      // Prepare
+      process.env.POWERTOOLS_LOGGER_FORMAT = 'ECS';
+      const service = new EnvironmentVariablesService();
+
+      // Act
+      const value = service.getLogFormat();
+
+      // Assess
+      expect(value).toEqual('ECS');
+    });
+  });
+
   describe('Method: getLogEvent', () => {
     test('it returns true if the environment variable POWERTOOLS_LOGGER_LOG_EVENT is "true"', () => {
       // Prepare
@@ -0,0 +1,126 @@
+/**
+ * Test Logger LogLevelSource class
+ *
+ * @group unit/logger/all
+ */
+import { LogLevelSource } from '../../../src/config';
+
+describe('Class: LogLevelSource', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(1466424490000);
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Method: refresh', () => {
+    test('it fetches the log level from the source and changes the version', async () => {
+      // Prepare
+      const logLevelSource = new LogLevelSource({
+        source: async () => 'debug',
+      });
+
+      // Act
+      await logLevelSource.refresh();
+
+      // Assess
+      expect(logLevelSource.getLogLevel('hello-world')).toBe('DEBUG');
+      expect(logLevelSource.getVersion()).toBe(1);
+    });
+
+    test('it does not fetch the log level again until the cached value expires', async () => {
+      // Prepare
+      const source = jest.fn().mockResolvedValue('DEBUG');
+      const logLevelSource = new LogLevelSource({ source, maxAge: 10 });
+
+      // Act
+      await logLevelSource.refresh();
+      jest.setSystemTime(1466424490000 + 9999);
+      await logLevelSource.refresh();
+      jest.setSystemTime(1466424490000 + 10000);
+      await logLevelSource.refresh();
+
+      // Assess
+      expect(source).toHaveBeenCalledTimes(2);
+    });
+
+    test('when called concurrently, it fetches the log level only once', async () => {
+      // Prepare
+      const source = jest.fn().mockResolvedValue('DEBUG');
+      const logLevelSource = new LogLevelSource({ source, maxAge: 0 });
+
+      // Act
+      await Promise.all([logLevelSource.refresh(), logLevelSource.refresh()]);
+
+      // Assess
+      expect(source).toHaveBeenCalledTimes(1);
+    });
+
+    test('when the source returns the same value, it does not change the version', async () => {
+      // Prepare
+      const logLevelSource = new LogLevelSource({
+        source: async () => ({ logLevel: 'WARN' }),
+        maxAge: 0,
+      });
+
+      // Act
+      await logLevelSource.refresh();
+      await logLevelSource.refresh();
+
+      // Assess
+      expect(logLevelSource.getVersion()).toBe(1);
+    });
+
+    test('when the source throws, it rethrows the error and keeps the last known value', async () => {
+      // Prepare
+      const source = jest
+        .fn()
+        .mockResolvedValueOnce('ERROR')
+        .mockRejectedValueOnce(new Error('Parameter not found'));
+      const logLevelSource = new LogLevelSource({ source, maxAge: 0 });
+      await logLevelSource.refresh();
+
+      // Act & Assess
+      await expect(logLevelSource.refresh()).rejects.toThrow(
+        'Parameter not found'
+      );
+      expect(logLevelSource.getLogLevel('hello-world')).toBe('ERROR');
+      expect(logLevelSource.getVersion()).toBe(1);
+    });
+  });
+
+  describe('Method: getLogLevel', () => {
+    test('it returns the log level of the given service, if any, otherwise the default one', async () => {
+      // Prepare
+      const logLevelSource = new LogLevelSource({
+        source: async () =>
+          JSON.stringify({
+            logLevel: 'WARN',
+            services: { 'orders-service': 'debug' },
+          }),
+      });
+
+      // Act
+      await logLevelSource.refresh();
+
+      // Assess
+      expect(logLevelSource.getLogLevel('orders-service')).toBe('DEBUG');
+      expect(logLevelSource.getLogLevel('hello-world')).toBe('WARN');
+    });
+
+    test('when the source returned no value, it returns undefined', async () => {
+      // Prepare
+      const logLevelSource = new LogLevelSource({
+        source: async () => undefined,
+      });
+
+      // Act
+      await logLevelSource.refresh();
+
+      // Assess
+      expect(logLevelSource.getLogLevel('hello-world')).toBeUndefined();
+      expect(logLevelSource.getVersion()).toBe(0);
+    });
+  });
+});
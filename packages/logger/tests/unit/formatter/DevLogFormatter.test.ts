@@ -0,0 +1,116 @@
+/**
+ * Test DevLogFormatter class
+ *
+ * @group unit/logger/all
+ */
+import { DevLogFormatter } from '../../../src/formatter';
+
+describe('Class: DevLogFormatter', () => {
+  const attributes = {
+    level: 'WARN',
+    message: 'This is a WARN log',
+    service: 'hello-world',
+    timestamp: '2016-06-20T12:08:10.000Z',
+  };
+
+  describe('Method: serialize', () => {
+    test('it returns a single line with the level, the short timestamp, the service and the message', () => {
+      // Prepare
+      const formatter = new DevLogFormatter({ colors: false });
+
+      // Act
+      const value = formatter.serialize(attributes);
+
+      // Assess
+      expect(value).toBe(
+        'WARN     12:08:10.000 [hello-world] This is a WARN log'
+      );
+    });
+
+    test('it adds the other attributes as key=value pairs on separate lines, skipping the empty ones', () => {
+      // Prepare
+      const formatter = new DevLogFormatter({ colors: false });
+
+      // Act
+      const value = formatter.serialize({
+        ...attributes,
+        cold_start: true,
+        function_name: 'foo-bar-function',
+        sampling_rate: undefined,
+        environment: '',
+        correlation_id: null,
+        details: { orderId: 123 },
+      });
+
+      // Assess
+      expect(value).toBe(
+        [
+          'WARN     12:08:10.000 [hello-world] This is a WARN log',
+          '    cold_start=true',
+          '    function_name=foo-bar-function',
+          '    details={"orderId":123}',
+        ].join('\n')
+      );
+    });
+
+    test('it prints the stack of formatted errors on separate lines', () => {
+      // Prepare
+      const formatter = new DevLogFormatter({ colors: false });
+      const error = new Error('Something went wrong');
+      error.stack = [
+        'Error: Something went wrong',
+        '    at handler (/var/task/index.js:10:11)',
+        '    at run (/var/task/index.js:20:5)',
+      ].join('\n');
+
+      // Act
+      const value = formatter.serialize({
+        ...attributes,
+        error: formatter.formatError(error),
+      });
+
+      // Assess
+      expect(value).toBe(
+        [
+          'WARN     12:08:10.000 [hello-world] This is a WARN log',
+          '    error={"name":"Error","location":"/var/task/index.js:10","message":"Something went wrong"}',
+          '        at handler (/var/task/index.js:10:11)',
+          '        at run (/var/task/index.js:20:5)',
+        ].join('\n')
+      );
+    });
+
+    test('it colors the level and dims the timestamp and the attributes by default', () => {
+      // Prepare
+      const formatter = new DevLogFormatter();
+
+      // Act
+      const value = formatter.serialize({ ...attributes, cold_start: true });
+
+      // Assess
+      expect(value).toBe(
+        [
+          '\x1b[1m\x1b[33mWARN    \x1b[0m \x1b[2m12:08:10.000\x1b[0m \x1b[1m[hello-world]\x1b[0m This is a WARN log',
+          '\x1b[2m    cold_start=true\x1b[0m',
+        ].join('\n')
+      );
+    });
+
+    test('when the level has no color or the timestamp is not in ISO format, it prints them as they are', () => {
+      // Prepare
+      const formatter = new DevLogFormatter();
+
+      // Act
+      const value = formatter.serialize({
+        ...attributes,
+        level: 'AUDIT',
+        timestamp: 1466424490000,
+      });
+
+      // Assess
+      expect(value).toBe(
+        '\x1b[1mAUDIT   \x1b[0m \x1b[2m1466424490000\x1b[0m \x1b[1m[hello-world]\x1b[0m This is a WARN log'
+      );
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Test EcsLogFormatter class
+ *
+ * @group unit/logger/all
+ */
+import { EcsLogFormatter } from '../../../src/formatter';
+import { UnformattedAttributes } from '../../../src/types';
+
+describe('Class: EcsLogFormatter', () => {
+  describe('Method: formatAttributes', () => {
+    test('it returns an object with the ECS fields', () => {
+      // Prepare
+      const formatter = new EcsLogFormatter();
+      const unformattedAttributes: UnformattedAttributes = {
+        sampleRateValue: 0.25,
+        awsRegion: 'eu-west-1',
+        environment: 'prod',
+        serviceName: 'hello-world',
+        xRayTraceId: '1-5759e988-bd862e3fe1be46a994272793',
+        correlationId: 'my-id',
+        logLevel: 'WARN',
+        timestamp: new Date(1466424490000),
+        message: 'This is a WARN log',
+        lambdaContext: {
+          functionName: 'my-lambda-function',
+          memoryLimitInMB: 123,
+          functionVersion: '1.23.3',
+          coldStart: true,
+          invokedFunctionArn:
+            'arn:aws:lambda:eu-west-1:123456789012:function:Example',
+          awsRequestId: 'abcdefg123456789',
+        },
+      };
+
+      // Act
+      const value = formatter.formatAttributes(unformattedAttributes);
+
+      // Assess
+      expect(value).toEqual({
+        '@timestamp': '2016-06-20T12:08:10.000Z',
+        'log.level': 'warn',
+        message: 'This is a WARN log',
+        'ecs.version': '8.10.0',
+        'service.name': 'hello-world',
+        'service.environment': 'prod',
+        'cloud.provider': 'aws',
+        'cloud.region': 'eu-west-1',
+        'faas.coldstart': true,
+        'faas.execution': 'abcdefg123456789',
+        'faas.id': 'arn:aws:lambda:eu-west-1:123456789012:function:Example',
+        'faas.name': 'my-lambda-function',
+        'faas.version': '1.23.3',
+        'trace.id': '1-5759e988-bd862e3fe1be46a994272793',
+        'labels.correlation_id': 'my-id',
+        'labels.sampling_rate': 0.25,
+      });
+    });
+  });
+
+  describe('Method: formatError', () => {
+    test('it returns an object with the ECS error fields, including the cause', () => {
+      // Prepare
+      const formatter = new EcsLogFormatter();
+      const error = new Error('Something went wrong');
+      Object.assign(error, { cause: new TypeError('Invalid input') });
+
+      // Act
+      const value = formatter.formatError(error);
+
+      // Assess
+      expect(value).toEqual({
+        type: 'Error',
+        message: 'Something went wrong',
+        stack_trace: expect.stringContaining('EcsLogFormatter.test.ts'),
+        location: expect.stringMatching(/EcsLogFormatter.test.ts:[0-9]+/),
+        cause: {
+          type: 'TypeError',
+          message: 'Invalid input',
+          stack_trace: expect.any(String),
+          location: expect.any(String),
+          cause: undefined,
+        },
+      });
+    });
+
+    test('it keeps the other attributes of the formatted error', () => {
+      // Prepare
+      const formatter = new EcsLogFormatter();
+      const error = Object.assign(new Error('Something went wrong'), {
+        code: 'ERR_INVALID_INPUT',
+      });
+
+      // Act
+      const value = formatter.formatError(error);
+
+      // Assess
+      expect(value).toEqual(
+        expect.objectContaining({
+          type: 'Error',
+          code: 'ERR_INVALID_INPUT',
+        })
+      );
+    });
+  });
+});
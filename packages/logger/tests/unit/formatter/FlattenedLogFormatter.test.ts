@@ -0,0 +1,68 @@
+/**
+ * Test FlattenedLogFormatter class
+ *
+ * @group unit/logger/all
+ */
+import { FlattenedLogFormatter } from '../../../src/formatter';
+
+describe('Class: FlattenedLogFormatter', () => {
+  describe('Method: formatLogItem', () => {
+    test('it flattens the nested objects and arrays into top-level keys', () => {
+      // Prepare
+      const formatter = new FlattenedLogFormatter();
+
+      // Act
+      const value = formatter.formatLogItem({
+        level: 'INFO',
+        message: 'This is an INFO log',
+        order: {
+          id: 123,
+          items: [{ sku: 'abc' }, 'def'],
+          tags: [],
+          metadata: {},
+          createdAt: new Date(1466424490000),
+          notes: null,
+        },
+      });
+
+      // Assess
+      expect(value).toEqual({
+        level: 'INFO',
+        message: 'This is an INFO log',
+        'order.id': 123,
+        'order.items.0.sku': 'abc',
+        'order.items.1': 'def',
+        'order.tags': [],
+        'order.metadata': {},
+        'order.createdAt': new Date(1466424490000),
+        'order.notes': null,
+      });
+    });
+
+    test('it flattens errors and objects without prototype, and skips repeated references', () => {
+      // Prepare
+      const formatter = new FlattenedLogFormatter();
+      const error = new Error('Something went wrong');
+      const dictionary = Object.create(null);
+      dictionary.key = 'value';
+      const circular: { [key: string]: unknown } = { id: 1 };
+      circular.self = circular;
+
+      // Act
+      const value = formatter.formatLogItem({ error, dictionary, circular });
+
+      // Assess
+      expect(value).toEqual({
+        'error.name': 'Error',
+        'error.location': expect.stringMatching(
+          /FlattenedLogFormatter.test.ts:[0-9]+/
+        ),
+        'error.message': 'Something went wrong',
+        'error.stack': expect.any(String),
+        'error.cause': undefined,
+        'dictionary.key': 'value',
+        'circular.id': 1,
+      });
+    });
+  });
+});
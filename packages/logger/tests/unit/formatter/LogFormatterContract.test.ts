@@ -0,0 +1,110 @@
+/**
+ * Test the contract shared by all the built-in log formatters
+ *
+ * @group unit/logger/all
+ */
+import {
+  DevLogFormatter,
+  EcsLogFormatter,
+  FlattenedLogFormatter,
+  LogFormatter,
+  OpenTelemetryLogFormatter,
+  PowertoolLogFormatter,
+} from '../../../src/formatter';
+import { UnformattedAttributes } from '../../../src/types';
+
+describe.each([
+  ['PowertoolLogFormatter', new PowertoolLogFormatter()],
+  ['DevLogFormatter', new DevLogFormatter()],
+  ['EcsLogFormatter', new EcsLogFormatter()],
+  ['OpenTelemetryLogFormatter', new OpenTelemetryLogFormatter()],
+  ['FlattenedLogFormatter', new FlattenedLogFormatter()],
+])('Contract: %s', (_name, formatter: LogFormatter) => {
+  const requiredAttributes: UnformattedAttributes = {
+    awsRegion: 'eu-west-1',
+    serviceName: 'hello-world',
+    logLevel: 'WARN',
+    timestamp: new Date(1466424490000),
+    message: 'This is a WARN log',
+  };
+  const allAttributes: UnformattedAttributes = {
+    ...requiredAttributes,
+    sampleRateValue: 0.25,
+    environment: 'prod',
+    correlationId: 'my-id',
+    xRayTraceId: '1-5759e988-bd862e3fe1be46a994272793',
+    lambdaContext: {
+      functionName: 'my-lambda-function',
+      memoryLimitInMB: 123,
+      functionVersion: '1.23.3',
+      coldStart: true,
+      invokedFunctionArn:
+        'arn:aws:lambda:eu-west-1:123456789012:function:Example',
+      awsRequestId: 'abcdefg123456789',
+    },
+  };
+
+  test('when only the required attributes are passed, it formats them without throwing', () => {
+    // Act
+    const value = formatter.formatAttributes(requiredAttributes);
+
+    // Assess
+    expect(JSON.stringify(value)).toContain('This is a WARN log');
+    expect(JSON.stringify(value)).toContain('hello-world');
+  });
+
+  test('when all the attributes are passed, it includes their values', () => {
+    // Act
+    const value = JSON.stringify(formatter.formatAttributes(allAttributes));
+
+    // Assess
+    [
+      'This is a WARN log',
+      'hello-world',
+      'WARN',
+      '2016-06-20T12:08:10.000Z|1466424490000',
+      'my-id',
+      '5759e988',
+      'my-lambda-function',
+      'abcdefg123456789',
+      'arn:aws:lambda:eu-west-1:123456789012:function:Example',
+    ].forEach((expected) => expect(value).toMatch(new RegExp(expected, 'i')));
+  });
+
+  test('it formats the attributes as JSON-serializable values', () => {
+    // Act
+    const value = formatter.formatAttributes(allAttributes);
+
+    // Assess
+    expect(JSON.parse(JSON.stringify(value))).toEqual(
+      JSON.parse(JSON.stringify(value, (_key, item) => item))
+    );
+    expect(
+      Object.values(value).every((item) => typeof item !== 'function')
+    ).toBe(true);
+  });
+
+  test('it formats errors as objects including the message and the stack', () => {
+    // Act
+    const value = formatter.formatError(new Error('Something went wrong'));
+
+    // Assess
+    expect(Object.values(value)).toEqual(
+      expect.arrayContaining([
+        'Something went wrong',
+        expect.stringContaining('LogFormatterContract.test.ts'),
+      ])
+    );
+  });
+
+  test('it does not mutate the attributes passed', () => {
+    // Prepare
+    const attributes = { ...allAttributes };
+
+    // Act
+    formatter.formatAttributes(attributes);
+
+    // Assess
+    expect(attributes).toEqual(allAttributes);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Test OpenTelemetryLogFormatter class
+ *
+ * @group unit/logger/all
+ */
+import { OpenTelemetryLogFormatter } from '../../../src/formatter';
+import { UnformattedAttributes } from '../../../src/types';
+
+describe('Class: OpenTelemetryLogFormatter', () => {
+  const ENVIRONMENT_VARIABLES = process.env;
+  const unformattedAttributes: UnformattedAttributes = {
+    awsRegion: 'eu-west-1',
+    serviceName: 'hello-world',
+    xRayTraceId: '1-5759e988-bd862e3fe1be46a994272793',
+    logLevel: 'WARN',
+    timestamp: new Date(1466424490000),
+    message: 'This is a WARN log',
+  };
+
+  beforeEach(() => {
+    process.env = { ...ENVIRONMENT_VARIABLES };
+  });
+
+  afterAll(() => {
+    process.env = ENVIRONMENT_VARIABLES;
+  });
+
+  describe('Method: formatAttributes', () => {
+    test('it returns an object in the OpenTelemetry Logs Data Model format, with the trace context of the X-Ray trace header', () => {
+      // Prepare
+      const formatter = new OpenTelemetryLogFormatter();
+
+      // Act
+      const value = formatter.formatAttributes({
+        ...unformattedAttributes,
+        environment: 'prod',
+        correlationId: 'my-id',
+        sampleRateValue: 0.25,
+        lambdaContext: {
+          functionName: 'my-lambda-function',
+          memoryLimitInMB: 123,
+          functionVersion: '1.23.3',
+          coldStart: true,
+          invokedFunctionArn:
+            'arn:aws:lambda:eu-west-1:123456789012:function:Example',
+          awsRequestId: 'abcdefg123456789',
+        },
+      });
+
+      // Assess
+      expect(value).toEqual({
+        timeUnixNano: '1466424490000000000',
+        severityNumber: 13,
+        severityText: 'WARN',
+        body: 'This is a WARN log',
+        resource: {
+          'service.name': 'hello-world',
+          'deployment.environment': 'prod',
+          'cloud.provider': 'aws',
+          'cloud.platform': 'aws_lambda',
+          'cloud.region': 'eu-west-1',
+          'cloud.resource_id':
+            'arn:aws:lambda:eu-west-1:123456789012:function:Example',
+          'faas.name': 'my-lambda-function',
+          'faas.version': '1.23.3',
+          'faas.max_memory': 123,
+        },
+        attributes: {
+          'faas.coldstart': true,
+          'faas.invocation_id': 'abcdefg123456789',
+          correlation_id: 'my-id',
+          sampling_rate: 0.25,
+        },
+        traceId: '5759e988bd862e3fe1be46a994272793',
+        spanId: '557abcec3ee5a047',
+        traceFlags: 1,
+      });
+    });
+
+    test.each([
+      ['CRITICAL', 21],
+      ['TRACE', 1],
+      ['AUDIT', 0],
+    ])(
+      'when the log level is %s, it returns the severity number %i',
+      (logLevel, severityNumber) => {
+        // Prepare
+        const formatter = new OpenTelemetryLogFormatter();
+
+        // Act
+        const value = formatter.formatAttributes({
+          ...unformattedAttributes,
+          logLevel: logLevel as UnformattedAttributes['logLevel'],
+        });
+
+        // Assess
+        expect(value.severityNumber).toBe(severityNumber);
+        expect(value.severityText).toBe(logLevel);
+      }
+    );
+
+    test('when the trace is not sampled, it returns the trace flags 0', () => {
+      // Prepare
+      process.env._X_AMZN_TRACE_ID =
+        'Root=1-5759e988-bd862e3fe1be46a994272793;Parent=557abcec3ee5a047;Sampled=0';
+      const formatter = new OpenTelemetryLogFormatter();
+
+      // Act
+      const value = formatter.formatAttributes(unformattedAttributes);
+
+      // Assess
+      expect(value.traceFlags).toBe(0);
+    });
+
+    test('when the X-Ray trace header is not set, it returns no span ID and trace flags', () => {
+      // Prepare
+      delete process.env._X_AMZN_TRACE_ID;
+      const formatter = new OpenTelemetryLogFormatter();
+
+      // Act
+      const value = formatter.formatAttributes({
+        ...unformattedAttributes,
+        xRayTraceId: undefined,
+      });
+
+      // Assess
+      expect(value.traceId).toBeUndefined();
+      expect(value.spanId).toBeUndefined();
+      expect(value.traceFlags).toBeUndefined();
+    });
+  });
+
+  describe('Method: formatLogItem', () => {
+    test('it moves the keys added with the Logger into the attributes and removes the empty values', () => {
+      // Prepare
+      const formatter = new OpenTelemetryLogFormatter();
+
+      // Act
+      const value = formatter.formatLogItem({
+        ...formatter.formatAttributes(unformattedAttributes),
+        orderId: 123,
+        error: { name: 'Error', message: 'Something went wrong' },
+      });
+
+      // Assess
+      expect(value).toEqual({
+        timeUnixNano: '1466424490000000000',
+        severityNumber: 13,
+        severityText: 'WARN',
+        body: 'This is a WARN log',
+        resource: {
+          'service.name': 'hello-world',
+          'cloud.provider': 'aws',
+          'cloud.platform': 'aws_lambda',
+          'cloud.region': 'eu-west-1',
+        },
+        attributes: {
+          orderId: 123,
+          error: { name: 'Error', message: 'Something went wrong' },
+        },
+        traceId: '5759e988bd862e3fe1be46a994272793',
+        spanId: '557abcec3ee5a047',
+        traceFlags: 1,
+      });
+    });
+  });
+});
@@ -58,6 +58,7 @@ describe('Class: PowertoolLogFormatter', () => {
         environment: 'prod',
         serviceName: 'hello-world',
         xRayTraceId: '1-5759e988-bd862e3fe1be46a994272793',
+        correlationId: 'c6af9ac6-7b61-11e6-9a41-93e812345678',
         logLevel: 'WARN',
         timestamp: new Date(),
         message: 'This is a WARN log',
@@ -79,6 +80,7 @@ describe('Class: PowertoolLogFormatter', () => {
       // Assess
       expect(value).toEqual({
         cold_start: true,
+        correlation_id: 'c6af9ac6-7b61-11e6-9a41-93e812345678',
         function_arn: 'arn:aws:lambda:eu-west-1:123456789012:function:Example',
         function_memory_size: 123,
         function_name: 'my-lambda-function',
@@ -182,6 +184,11 @@ describe('Class: PowertoolLogFormatter', () => {
           stack: expect.stringMatching(
             /PowertoolLogFormatter.test.ts:[0-9]+:[0-9]+/
           ),
+          actual: 1,
+          code: 'ERR_ASSERTION',
+          expected: 2,
+          generatedMessage: true,
+          operator: 'strictEqual',
         });
       }
 
@@ -374,6 +381,283 @@ describe('Class: PowertoolLogFormatter', () => {
     });
   });
 
+  describe('Feature: structured error serialization', () => {
+    class BatchProcessingError extends Error {
+      public childErrors: Error[];
+
+      public constructor(message: string, childErrors: Error[]) {
+        super(message);
+        this.childErrors = childErrors;
+      }
+    }
+
+    test('it includes the errors wrapped by an AggregateError', () => {
+      // Prepare
+      const formatter = new PowertoolLogFormatter();
+      const { AggregateError } = globalThis as unknown as {
+        AggregateError: new (errors: unknown[], message: string) => Error;
+      };
+
+      // Act
+      const formattedError = formatter.formatError(
+        new AggregateError([new TypeError('foo'), 'bar'], 'Multiple errors')
+      );
+
+      // Assess
+      expect(formattedError).toEqual(
+        expect.objectContaining({
+          name: 'AggregateError',
+          message: 'Multiple errors',
+          errors: [
+            expect.objectContaining({ name: 'TypeError', message: 'foo' }),
+            'bar',
+          ],
+        })
+      );
+    });
+
+    test('it includes the own properties of the error, except the raw response of AWS SDK errors', () => {
+      // Prepare
+      const formatter = new PowertoolLogFormatter();
+      class ServiceException extends Error {
+        public readonly $fault = 'client';
+        public readonly $metadata = {
+          httpStatusCode: 400,
+          requestId: 'c6af9ac6-7b61-11e6-9a41-93e812345678',
+          attempts: 1,
+        };
+        public readonly $response = { body: 'a very large body' };
+        public readonly code = 'ConditionalCheckFailed';
+      }
+
+      // Act
+      const formattedError = formatter.formatError(
+        new ServiceException('The conditional request failed')
+      );
+
+      // Assess
+      expect(formattedError).toEqual({
+        name: 'Error',
+        location: expect.stringMatching(/PowertoolLogFormatter.test.ts:[0-9]+/),
+        message: 'The conditional request failed',
+        stack: expect.stringMatching(
+          /PowertoolLogFormatter.test.ts:[0-9]+:[0-9]+/
+        ),
+        $fault: 'client',
+        $metadata: {
+          httpStatusCode: 400,
+          requestId: 'c6af9ac6-7b61-11e6-9a41-93e812345678',
+          attempts: 1,
+        },
+        code: 'ConditionalCheckFailed',
+      });
+    });
+
+    test('it leaves out the configuration, the request and the response of Axios errors', () => {
+      // Prepare
+      const formatter = new PowertoolLogFormatter();
+      class AxiosError extends Error {
+        public readonly code = 'ERR_BAD_REQUEST';
+        public readonly config = {
+          headers: { Authorization: 'Bearer secret' },
+        };
+        public readonly isAxiosError = true;
+        public readonly request = { path: '/users' };
+        public readonly response = { status: 401, data: 'Unauthorized' };
+      }
+
+      // Act
+      const formattedError = formatter.formatError(
+        new AxiosError('Request failed with status code 401')
+      );
+
+      // Assess
+      expect(formattedError).toEqual(
+        expect.objectContaining({
+          message: 'Request failed with status code 401',
+          code: 'ERR_BAD_REQUEST',
+          isAxiosError: true,
+        })
+      );
+      expect(formattedError).not.toHaveProperty('config');
+      expect(formattedError).not.toHaveProperty('request');
+      expect(formattedError).not.toHaveProperty('response');
+    });
+
+    test('it formats the errors held by the own properties, like the child errors of a BatchProcessingError', () => {
+      // Prepare
+      const formatter = new PowertoolLogFormatter();
+
+      // Act
+      const formattedError = formatter.formatError(
+        new BatchProcessingError('All records failed processing', [
+          new Error('foo'),
+          new RangeError('bar'),
+        ])
+      );
+
+      // Assess
+      expect(formattedError.childErrors).toEqual([
+        expect.objectContaining({ name: 'Error', message: 'foo' }),
+        expect.objectContaining({ name: 'RangeError', message: 'bar' }),
+      ]);
+    });
+
+    test('it formats the cause of an IdempotencyPersistenceLayerError', () => {
+      // Prepare
+      const formatter = new PowertoolLogFormatter();
+      class IdempotencyPersistenceLayerError extends Error {
+        public readonly cause: Error | undefined;
+
+        public constructor(message: string, cause: Error) {
+          super(`${message}. This error was caused by: ${cause.message}.`);
+          this.cause = cause;
+        }
+      }
+
+      // Act
+      const formattedError = formatter.formatError(
+        new IdempotencyPersistenceLayerError(
+          'Failed to put record for already existing idempotency key',
+          new Error('Throttled')
+        )
+      );
+
+      // Assess
+      expect(formattedError).toEqual(
+        expect.objectContaining({
+          cause: expect.objectContaining({
+            name: 'Error',
+            message: 'Throttled',
+            stack: expect.any(String),
+          }),
+        })
+      );
+      expect(formattedError).not.toHaveProperty('errors');
+    });
+
+    test('it uses the serializer registered for the closest class of the error', () => {
+      // Prepare
+      const formatter = new PowertoolLogFormatter();
+      class HttpError extends Error {
+        public constructor(
+          message: string,
+          public readonly statusCode: number
+        ) {
+          super(message);
+        }
+      }
+      class NotFoundError extends HttpError {
+        public constructor(message: string) {
+          super(message, 404);
+        }
+      }
+      formatter.registerErrorSerializer(Error, () => ({ generic: true }));
+      formatter.registerErrorSerializer(HttpError, (error) => ({
+        status: error.statusCode,
+        statusCode: undefined,
+      }));
+
+      // Act
+      const formattedErrors = [
+        new NotFoundError('foo'),
+        new RangeError('bar'),
+      ].map((error) => formatter.formatError(error));
+
+      // Assess
+      expect(formattedErrors).toEqual([
+        expect.objectContaining({ message: 'foo', status: 404 }),
+        expect.objectContaining({ message: 'bar', generic: true }),
+      ]);
+      expect(formattedErrors[0].statusCode).toBeUndefined();
+    });
+
+    test('it formats the nested errors up to the maximum error depth', () => {
+      // Prepare
+      const formatter = new PowertoolLogFormatter({ maxErrorDepth: 1 });
+      const error = new BatchProcessingError('foo', [
+        new BatchProcessingError('bar', [new Error('baz')]),
+      ]);
+
+      // Act
+      const formattedError = formatter.formatError(error);
+
+      // Assess
+      expect(formattedError.childErrors).toEqual([
+        expect.objectContaining({
+          message: 'bar',
+          location: expect.any(String),
+          childErrors: [{ name: 'Error', message: 'baz' }],
+        }),
+      ]);
+    });
+
+    test('it stops formatting errors that cause themselves', () => {
+      // Prepare
+      const formatter = new PowertoolLogFormatter();
+      const error = new Error('foo') as Error & { cause: unknown };
+      error.cause = error;
+
+      // Act
+      const formattedError = formatter.formatError(error);
+
+      // Assess: the error itself, 5 formatted causes and a truncated one
+      expect(
+        JSON.stringify(formattedError).match(/"message":"foo"/g)
+      ).toHaveLength(7);
+    });
+
+    test('it trims the stack to the maximum number of stack frames', () => {
+      // Prepare
+      const formatter = new PowertoolLogFormatter({ maxStackFrames: 2 });
+      const error = new Error('foo');
+      error.stack = [
+        'Error: foo',
+        '    at one (/var/task/index.js:1:1)',
+        '    at two (/var/task/index.js:2:1)',
+        '    at three (/var/task/index.js:3:1)',
+        '    at four (/var/task/index.js:4:1)',
+      ].join('\n');
+
+      // Act
+      const formattedError = formatter.formatError(error);
+
+      // Assess
+      expect(formattedError.stack).toEqual(
+        [
+          'Error: foo',
+          '    at one (/var/task/index.js:1:1)',
+          '    at two (/var/task/index.js:2:1)',
+          '    ... 2 more',
+        ].join('\n')
+      );
+      expect(formattedError.location).toEqual('/var/task/index.js:1');
+    });
+
+    test.each([
+      [
+        'it has fewer frames than the maximum',
+        'Error: foo\n    at one (/var/task/index.js:1:1)',
+      ],
+      ['it has no frames', 'Error: foo'],
+      ['it is empty', undefined],
+    ])(
+      'when %s, it does not trim the stack',
+      (_description: string, stack?: string) => {
+        // Prepare
+        const formatter = new PowertoolLogFormatter({ maxStackFrames: 1 });
+        const error = new Error('foo');
+        error.stack = stack;
+
+        // Act
+        const formattedError = formatter.formatError(error);
+
+        // Assess
+        expect(formattedError.stack).toEqual(stack);
+      }
+    );
+  });
+
   describe('Method: formatTimestamp', () => {
     test('it returns a datetime value ISO 8601 compliant', () => {
       // Prepare
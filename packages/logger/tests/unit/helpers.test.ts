@@ -9,6 +9,7 @@ import {
   EnvironmentVariablesService,
 } from '../../src/config';
 import { LogFormatter, PowertoolLogFormatter } from '../../src/formatter';
+import { ConsoleTransport } from '../../src/transport';
 import { ConstructorOptions, LogLevelThresholds } from '../../src/types';
 import { createLogger, Logger } from './../../src';
 
@@ -90,6 +91,7 @@ describe('Helper: createLogger function', () => {
         logFormatter: expect.any(PowertoolLogFormatter),
         logLevel: 16,
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
         logLevelThresholds: {
           ...logLevelThresholds,
         },
@@ -127,6 +129,7 @@ describe('Helper: createLogger function', () => {
         logFormatter: expect.any(PowertoolLogFormatter),
         logLevel: 12,
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
         logLevelThresholds: {
           ...logLevelThresholds,
         },
@@ -277,6 +280,7 @@ describe('Helper: createLogger function', () => {
         logFormatter: expect.any(PowertoolLogFormatter),
         logLevel: 12,
         console: expect.any(Console),
+        logTransport: expect.any(ConsoleTransport),
         logLevelThresholds: {
           ...logLevelThresholds,
         },
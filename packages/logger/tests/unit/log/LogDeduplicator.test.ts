@@ -0,0 +1,77 @@
+/**
+ * Test Logger LogDeduplicator class
+ *
+ * @group unit/logger/all
+ */
+import { LogDeduplicator } from '../../../src/log';
+
+describe('Class: LogDeduplicator', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(1466424490000);
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Method: shouldSuppress', () => {
+    test('it suppresses the items with the same key beyond the maximum number of entries', () => {
+      // Prepare
+      const deduplicator = new LogDeduplicator({ maxEntries: 2 });
+
+      // Act
+      const decisions = ['a', 'a', 'b', 'a', 'a'].map((key) =>
+        deduplicator.shouldSuppress(key)
+      );
+
+      // Assess
+      expect(decisions).toEqual([false, false, false, true, true]);
+      expect(deduplicator.drain()).toEqual(new Map([['a', 2]]));
+    });
+  });
+
+  describe('Method: drain', () => {
+    test('it resets the counters', () => {
+      // Prepare
+      const deduplicator = new LogDeduplicator({ maxEntries: 1 });
+      deduplicator.shouldSuppress('a');
+      deduplicator.shouldSuppress('a');
+
+      // Act
+      deduplicator.drain();
+
+      // Assess
+      expect(deduplicator.shouldSuppress('a')).toBe(false);
+      expect(deduplicator.drain().size).toBe(0);
+    });
+  });
+
+  describe('Method: isWindowElapsed', () => {
+    test('when no window is set, it never elapses', () => {
+      // Prepare
+      const deduplicator = new LogDeduplicator({ maxEntries: 1 });
+
+      // Act
+      jest.setSystemTime(1466424490000 + 3600000);
+
+      // Assess
+      expect(deduplicator.isWindowElapsed()).toBe(false);
+    });
+
+    test('when a window is set, it elapses after the given number of seconds since the last reset', () => {
+      // Prepare
+      const deduplicator = new LogDeduplicator({
+        maxEntries: 1,
+        windowSeconds: 10,
+      });
+
+      // Act & Assess
+      jest.setSystemTime(1466424490000 + 9999);
+      expect(deduplicator.isWindowElapsed()).toBe(false);
+      jest.setSystemTime(1466424490000 + 10000);
+      expect(deduplicator.isWindowElapsed()).toBe(true);
+      deduplicator.drain();
+      expect(deduplicator.isWindowElapsed()).toBe(false);
+    });
+  });
+});
@@ -16,6 +16,7 @@ import { injectLambdaContext } from '../../../src/middleware/middy';
 import { Logger } from './../../../src';
 import middy from '@middy/core';
 import { PowertoolLogFormatter } from '../../../src/formatter';
+import { LogTransportInterface } from '../../../src/transport';
 import { Console } from 'console';
 import { Context } from 'aws-lambda';
 
@@ -487,4 +488,138 @@ describe('Middy middleware', () => {
       );
     });
   });
+
+  describe('Feature: log buffering', () => {
+    test('when the handler throws, it prints the log items buffered during the invocation', async () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logBufferOptions: { enabled: true },
+      });
+      const debugSpy = jest
+        .spyOn(logger['console'], 'debug')
+        .mockImplementation();
+      const handler = middy((): void => {
+        logger.debug('This is a DEBUG log');
+        throw new Error('Unexpected error occurred!');
+      }).use(injectLambdaContext(logger));
+
+      // Act
+      logger.debug('This is a DEBUG log emitted before the invocation');
+      await expect(handler(event, context)).rejects.toThrow();
+
+      // Assess
+      expect(debugSpy).toBeCalledTimes(1);
+      expect(debugSpy).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('"message":"This is a DEBUG log"')
+      );
+    });
+
+    test('when the handler succeeds, it discards the log items buffered during the invocation', async () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logBufferOptions: { enabled: true },
+      });
+      const debugSpy = jest
+        .spyOn(logger['console'], 'debug')
+        .mockImplementation();
+      const handler = middy((): void => {
+        logger.debug('This is a DEBUG log');
+      }).use(injectLambdaContext(logger));
+
+      // Act
+      await handler(event, context);
+      logger.flushBuffer();
+
+      // Assess
+      expect(debugSpy).toBeCalledTimes(0);
+    });
+  });
+
+  describe('Feature: correlation ID', () => {
+    test('when a search function is passed, it uses it to extract the correlation ID from the event', async () => {
+      // Prepare
+      const logger = new Logger();
+      const consoleSpy = jest
+        .spyOn(logger['console'], 'info')
+        .mockImplementation();
+      const handler = middy((): void => {
+        logger.info('This is an INFO log');
+      }).use(
+        injectLambdaContext(logger, {
+          correlationIdSearchFn: (event) =>
+            (event as { detail: { orderId: string } }).detail.orderId,
+        })
+      );
+
+      // Act
+      await handler({ detail: { orderId: 'order-1' } }, context);
+
+      // Assess
+      expect(consoleSpy).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('"correlation_id":"order-1"')
+      );
+    });
+
+    test('when a correlation ID path is passed, it extracts the correlation ID for all the loggers', async () => {
+      // Prepare
+      const logger = new Logger();
+      const otherLogger = new Logger();
+      const handler = middy((): void => {
+        return;
+      }).use(
+        injectLambdaContext([logger, otherLogger], {
+          correlationIdPath: 'Records[0].messageId',
+        })
+      );
+
+      // Act
+      await handler({ Records: [{ messageId: 'message-1' }] }, context);
+
+      // Assess
+      expect(logger.getCorrelationId()).toBe('message-1');
+      expect(otherLogger.getCorrelationId()).toBe('message-1');
+    });
+  });
+
+  describe('Feature: log transport', () => {
+    test('when the invocation ends, it flushes the transport of each logger, even if the handler throws', async () => {
+      // Prepare
+      const transport: LogTransportInterface = {
+        send: jest.fn(),
+        flush: jest.fn().mockResolvedValue(undefined),
+      };
+      const logger = new Logger({ logTransport: transport });
+      const handler = middy((): void => {
+        throw new Error('Unexpected error occurred!');
+      }).use(injectLambdaContext(logger));
+
+      // Act & Assess
+      await expect(handler(event, context)).rejects.toThrow();
+      expect(transport.flush).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Feature: dynamic log level', () => {
+    test('at the start of the invocation, it refreshes the log level of each logger', async () => {
+      // Prepare
+      const logger = new Logger({
+        logLevel: 'INFO',
+        logTransport: { send: jest.fn() },
+        logLevelSource: { source: async () => 'DEBUG' },
+      });
+      const handler = middy(
+        async (): Promise<string> => logger.getLevelName()
+      ).use(injectLambdaContext(logger));
+
+      // Act
+      const result = await handler(event, context);
+
+      // Assess
+      expect(result).toBe('DEBUG');
+    });
+  });
 });
@@ -0,0 +1,321 @@
+/**
+ * Test LogRedactor class
+ *
+ * @group unit/logger/all
+ */
+import { createHash } from 'node:crypto';
+import { PowertoolLogFormatter } from '../../../src/formatter';
+import { LogRedactor } from '../../../src/redaction';
+import { LogAttributes } from '../../../src/types';
+
+describe('Class: LogRedactor', () => {
+  const formatter = new PowertoolLogFormatter();
+
+  describe('Method: redact', () => {
+    test('when a key rule matches, it masks the value at any depth regardless of the case of the key', () => {
+      // Prepare
+      const redactor = new LogRedactor([{ keys: ['password'] }]);
+
+      // Act
+      const redacted = redactor.redact(
+        {
+          password: 'secret',
+          user: { name: 'John', Password: 'secret' },
+        },
+        formatter
+      );
+
+      // Assess
+      expect(redacted).toEqual({
+        password: '***',
+        user: { name: 'John', Password: '***' },
+      });
+    });
+
+    test('when a key rule matches an object value, it masks the whole object', () => {
+      // Prepare
+      const redactor = new LogRedactor([{ keys: ['card'] }]);
+
+      // Act
+      const redacted = redactor.redact(
+        { card: { number: '4111111111111111', cvv: '123' } },
+        formatter
+      );
+
+      // Assess
+      expect(redacted).toEqual({ card: '***' });
+    });
+
+    test('when a path rule matches, it redacts only the value at that path', () => {
+      // Prepare
+      const redactor = new LogRedactor([
+        { paths: ['$.event.body.token', 'event.Records[*].body'] },
+      ]);
+
+      // Act
+      const redacted = redactor.redact(
+        {
+          token: 'not-redacted',
+          event: {
+            body: { token: 'abc' },
+            Records: [{ body: 'foo', messageId: '1' }, { body: 'bar' }],
+          },
+        },
+        formatter
+      );
+
+      // Assess
+      expect(redacted).toEqual({
+        token: 'not-redacted',
+        event: {
+          body: { token: '***' },
+          Records: [{ body: '***', messageId: '1' }, { body: '***' }],
+        },
+      });
+    });
+
+    test('when a path rule uses an array index, it redacts only the element at that index', () => {
+      // Prepare
+      const redactor = new LogRedactor([{ paths: ['emails[0]'] }]);
+
+      // Act
+      const redacted = redactor.redact(
+        { emails: ['john@example.com', 'jane@example.com'] },
+        formatter
+      );
+
+      // Assess
+      expect(redacted).toEqual({ emails: ['***', 'jane@example.com'] });
+    });
+
+    test('when a pattern rule matches, it redacts only the matching portion of string values', () => {
+      // Prepare
+      const redactor = new LogRedactor([
+        { patterns: [/[\w.]+@[\w.]+/] },
+        { patterns: [/\d{16}/g], strategy: 'keepLast' },
+      ]);
+
+      // Act
+      const redacted = redactor.redact(
+        {
+          message: 'Sending receipt to john@example.com and jane@example.com',
+          card: 'Card 4111111111111111',
+          amount: 42,
+        },
+        formatter
+      );
+
+      // Assess
+      expect(redacted).toEqual({
+        message: 'Sending receipt to *** and ***',
+        card: 'Card ***1111',
+        amount: 42,
+      });
+    });
+
+    test('when the strategy is drop, it removes the matching values', () => {
+      // Prepare
+      const redactor = new LogRedactor([
+        { keys: ['password'], strategy: 'drop' },
+        { patterns: [/^Bearer /], strategy: 'drop' },
+      ]);
+
+      // Act
+      const redacted = redactor.redact(
+        {
+          password: 'secret',
+          headers: { Authorization: 'Bearer abc', Accept: '*/*' },
+          tokens: ['Bearer abc', 'foo'],
+        },
+        formatter
+      );
+
+      // Assess
+      expect(redacted).toEqual({
+        headers: { Accept: '*/*' },
+        tokens: ['foo'],
+      });
+    });
+
+    test('when the strategy is keepLast, it leaves visible only the last characters of primitive values', () => {
+      // Prepare
+      const redactor = new LogRedactor([
+        { keys: ['phone'], strategy: 'keepLast', keepLast: 2 },
+        { keys: ['pin', 'card', 'address'], strategy: 'keepLast' },
+      ]);
+
+      // Act
+      const redacted = redactor.redact(
+        {
+          phone: '+15550100',
+          pin: 1234,
+          card: 4111111111111111n,
+          address: { street: 'Main street' },
+        },
+        formatter
+      );
+
+      // Assess
+      expect(redacted).toEqual({
+        phone: '***00',
+        pin: '***',
+        card: '***1111',
+        address: '***',
+      });
+    });
+
+    test('when the strategy is hash, it replaces primitive values with their SHA-256 hash', () => {
+      // Prepare
+      const redactor = new LogRedactor([
+        { keys: ['email', 'verified', 'profile'], strategy: 'hash' },
+      ]);
+      const hash = (value: string): string =>
+        createHash('sha256').update(value).digest('hex');
+
+      // Act
+      const redacted = redactor.redact(
+        {
+          email: 'john@example.com',
+          verified: true,
+          profile: { name: 'John' },
+        },
+        formatter
+      );
+
+      // Assess
+      expect(redacted).toEqual({
+        email: hash('john@example.com'),
+        verified: hash('true'),
+        profile: '***',
+      });
+    });
+
+    test('when the value contains errors, it redacts the formatted errors including their cause', () => {
+      // Prepare
+      const redactor = new LogRedactor([
+        { patterns: [/token=\w+/] },
+        { paths: ['error.cause.cause'] },
+      ]);
+      class ErrorWithCause extends Error {
+        public cause?: unknown;
+        public constructor(message: string, options?: { cause: unknown }) {
+          super(message);
+          this.cause = options?.cause;
+        }
+      }
+      const error = new ErrorWithCause('Request failed with token=abc', {
+        cause: new ErrorWithCause('Connection refused with token=def', {
+          cause: 'token=ghi',
+        }),
+      });
+
+      // Act
+      const redacted = redactor.redact({ error }, formatter);
+
+      // Assess
+      expect(redacted).toEqual({
+        error: expect.objectContaining({
+          name: 'Error',
+          location: expect.stringMatching(/LogRedactor.test.ts:[0-9]+/),
+          message: 'Request failed with ***',
+          cause: expect.objectContaining({
+            message: 'Connection refused with ***',
+            cause: '***',
+          }),
+        }),
+      });
+    });
+
+    test('it does not mutate the given attributes, and leaves objects serialized by toJSON to values not redacted untouched', () => {
+      // Prepare
+      const redactor = new LogRedactor([{ keys: ['password'] }]);
+      const date = new Date(0);
+      const attributes = { user: { password: 'secret' }, date, empty: null };
+
+      // Act
+      const redacted = redactor.redact(attributes, formatter);
+
+      // Assess
+      expect(attributes).toEqual({
+        user: { password: 'secret' },
+        date,
+        empty: null,
+      });
+      expect(redacted).toEqual({
+        user: { password: '***' },
+        date,
+        empty: null,
+      });
+      expect(redacted.date).toBe(date);
+    });
+
+    test('when an object defines toJSON, it redacts the value returned by it', () => {
+      // Prepare
+      const redactor = new LogRedactor([
+        { keys: ['password'] },
+        { patterns: [/\d{16}/] },
+      ]);
+      class User {
+        public toJSON(): unknown {
+          return { name: 'John', password: 'secret' };
+        }
+      }
+      class Card {
+        public toJSON(): string {
+          return 'card 4111111111111111';
+        }
+      }
+      class Amount {
+        public toJSON(): number {
+          return 42;
+        }
+      }
+      const amount = new Amount();
+
+      // Act
+      const redacted = redactor.redact(
+        { user: new User(), card: new Card(), amount },
+        formatter
+      );
+      const redactedRoot = redactor.redact(
+        new User() as unknown as LogAttributes,
+        formatter
+      );
+
+      // Assess
+      expect(redacted).toEqual({
+        user: { name: 'John', password: '***' },
+        card: 'card ***',
+        amount,
+      });
+      expect(redacted.amount).toBe(amount);
+      expect(redactedRoot).toEqual({ name: 'John', password: '***' });
+    });
+
+    test('when the attributes contain repeated references, it removes them', () => {
+      // Prepare
+      const redactor = new LogRedactor([{ keys: ['password'] }]);
+      const user: Record<string, unknown> = { password: 'secret' };
+      user.self = user;
+
+      // Act
+      const redacted = redactor.redact({ user }, formatter);
+
+      // Assess
+      expect(redacted).toEqual({ user: { password: '***' } });
+    });
+  });
+
+  describe('Method: getRules', () => {
+    test('it returns the rules used by the redactor', () => {
+      // Prepare
+      const rules = [{ keys: ['password'] }];
+
+      // Act
+      const redactor = new LogRedactor(rules);
+
+      // Assess
+      expect(redactor.getRules()).toBe(rules);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Test ColdStartSamplingStrategy class
+ *
+ * @group unit/logger/all
+ */
+import {
+  ColdStartSamplingStrategy,
+  TraceIdSamplingStrategy,
+} from '../../../src/sampling';
+
+describe('Class: ColdStartSamplingStrategy', () => {
+  test('it samples the logs of the first invocations after the cold start', () => {
+    // Prepare
+    const strategy = new ColdStartSamplingStrategy({ invocations: 2 });
+
+    // Act
+    const decisions = [undefined, 'a', 'a', 'b', 'c'].map((invocationId) =>
+      strategy.decide({ serviceName: 'hello-world', invocationId })
+    );
+
+    // Assess
+    expect(decisions).toEqual([
+      { strategy: 'cold_start', sampled: true },
+      { strategy: 'cold_start', sampled: true },
+      { strategy: 'cold_start', sampled: true },
+      { strategy: 'cold_start', sampled: true },
+      { strategy: 'random', sampled: false },
+    ]);
+  });
+
+  test('by default, it samples the logs of the first invocation only', () => {
+    // Prepare
+    const strategy = new ColdStartSamplingStrategy();
+
+    // Act
+    const decisions = ['a', 'b'].map((invocationId) =>
+      strategy.decide({
+        serviceName: 'hello-world',
+        sampleRateValue: 1,
+        invocationId,
+      })
+    );
+
+    // Assess
+    expect(decisions).toEqual([
+      { strategy: 'cold_start', sampled: true },
+      { strategy: 'random', sampled: true },
+    ]);
+  });
+
+  test('after the first invocations, it takes the decision with the given strategy', () => {
+    // Prepare
+    const strategy = new ColdStartSamplingStrategy({
+      strategy: new TraceIdSamplingStrategy(),
+    });
+
+    // Act
+    strategy.decide({ serviceName: 'hello-world', invocationId: 'a' });
+    const decision = strategy.decide({
+      serviceName: 'hello-world',
+      sampleRateValue: 0.92,
+      xRayTraceId: '1-5759e988-bd862e3fe1be46a994272793',
+      invocationId: 'b',
+    });
+
+    // Assess
+    expect(decision).toEqual({ strategy: 'trace_id', sampled: true });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Test RandomSamplingStrategy class
+ *
+ * @group unit/logger/all
+ */
+import { RandomSamplingStrategy } from '../../../src/sampling';
+
+describe('Class: RandomSamplingStrategy', () => {
+  test('when the sample rate is 1, it always samples the logs', () => {
+    // Prepare
+    const strategy = new RandomSamplingStrategy();
+
+    // Act
+    const decision = strategy.decide({
+      serviceName: 'hello-world',
+      sampleRateValue: 1,
+    });
+
+    // Assess
+    expect(decision).toEqual({ strategy: 'random', sampled: true });
+  });
+
+  test('when the sample rate is not set, it never samples the logs', () => {
+    // Prepare
+    const strategy = new RandomSamplingStrategy();
+
+    // Act
+    const decision = strategy.decide({ serviceName: 'hello-world' });
+
+    // Assess
+    expect(decision).toEqual({ strategy: 'random', sampled: false });
+  });
+
+  test('it samples the logs with a probability equal to the sample rate', () => {
+    // Prepare
+    const strategy = new RandomSamplingStrategy();
+
+    // Act
+    let sampledCount = 0;
+    for (let i = 0; i < 200; i++) {
+      if (
+        strategy.decide({ serviceName: 'hello-world', sampleRateValue: 0.5 })
+          .sampled
+      ) {
+        sampledCount++;
+      }
+    }
+
+    // Assess
+    expect(sampledCount > 50).toBe(true);
+    expect(sampledCount < 150).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Test ServiceRateSamplingStrategy class
+ *
+ * @group unit/logger/all
+ */
+import {
+  RandomSamplingStrategy,
+  ServiceRateSamplingStrategy,
+} from '../../../src/sampling';
+
+describe('Class: ServiceRateSamplingStrategy', () => {
+  const xRayTraceId = '1-5759e988-bd862e3fe1be46a994272793';
+
+  test('it decides with the sample rate of the service', () => {
+    // Prepare
+    const strategy = new ServiceRateSamplingStrategy({
+      rates: { payment: 0.92, inventory: 0.91 },
+    });
+
+    // Act
+    const decisions = ['payment', 'inventory'].map((serviceName) =>
+      strategy.decide({ serviceName, sampleRateValue: 1, xRayTraceId })
+    );
+
+    // Assess
+    expect(decisions).toEqual([
+      { strategy: 'service_rate', sampled: true },
+      { strategy: 'service_rate', sampled: false },
+    ]);
+  });
+
+  test('when the service is not listed, it decides with the sample rate of the Logger', () => {
+    // Prepare
+    const strategy = new ServiceRateSamplingStrategy({
+      rates: { payment: 0.01 },
+    });
+
+    // Act
+    const decision = strategy.decide({
+      serviceName: 'hello-world',
+      sampleRateValue: 0.92,
+      xRayTraceId,
+    });
+
+    // Assess
+    expect(decision).toEqual({ strategy: 'trace_id', sampled: true });
+  });
+
+  test('it takes the decision with the given strategy', () => {
+    // Prepare
+    const randomStrategy = new RandomSamplingStrategy();
+    const decideSpy = jest.spyOn(randomStrategy, 'decide');
+    const strategy = new ServiceRateSamplingStrategy({
+      rates: { payment: 1 },
+      strategy: randomStrategy,
+    });
+
+    // Act
+    const decision = strategy.decide({ serviceName: 'payment' });
+
+    // Assess
+    expect(decideSpy).toHaveBeenCalledWith({
+      serviceName: 'payment',
+      sampleRateValue: 1,
+    });
+    expect(decision).toEqual({ strategy: 'service_rate', sampled: true });
+  });
+});
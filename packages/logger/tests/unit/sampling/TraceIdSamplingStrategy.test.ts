@@ -0,0 +1,97 @@
+/**
+ * Test TraceIdSamplingStrategy class
+ *
+ * @group unit/logger/all
+ */
+import { TraceIdSamplingStrategy } from '../../../src/sampling';
+
+describe('Class: TraceIdSamplingStrategy', () => {
+  const xRayTraceId = '1-5759e988-bd862e3fe1be46a994272793';
+
+  test('it takes the same decision for the same correlation ID', () => {
+    // Prepare
+    const strategy = new TraceIdSamplingStrategy();
+
+    // Act
+    const decisions = [0.05, 0.05, 0.04, 0.04].map((sampleRateValue) =>
+      strategy.decide({
+        serviceName: 'hello-world',
+        sampleRateValue,
+        correlationId: 'order-1',
+        xRayTraceId,
+      })
+    );
+
+    // Assess
+    expect(decisions).toEqual([
+      { strategy: 'trace_id', sampled: true },
+      { strategy: 'trace_id', sampled: true },
+      { strategy: 'trace_id', sampled: false },
+      { strategy: 'trace_id', sampled: false },
+    ]);
+  });
+
+  test('it uses numeric correlation IDs', () => {
+    // Prepare
+    const strategy = new TraceIdSamplingStrategy();
+
+    // Act
+    const decision = strategy.decide({
+      serviceName: 'hello-world',
+      sampleRateValue: 0.46,
+      correlationId: 42,
+    });
+
+    // Assess
+    expect(decision).toEqual({ strategy: 'trace_id', sampled: true });
+  });
+
+  test('when the correlation ID is not a string or a number, it uses the X-Ray trace ID', () => {
+    // Prepare
+    const strategy = new TraceIdSamplingStrategy();
+
+    // Act
+    const decisions = [0.92, 0.91].map((sampleRateValue) =>
+      strategy.decide({
+        serviceName: 'hello-world',
+        sampleRateValue,
+        correlationId: { id: 'order-1' },
+        xRayTraceId,
+      })
+    );
+
+    // Assess
+    expect(decisions).toEqual([
+      { strategy: 'trace_id', sampled: true },
+      { strategy: 'trace_id', sampled: false },
+    ]);
+  });
+
+  test('when the sample rate is not set, it never samples the logs', () => {
+    // Prepare
+    const strategy = new TraceIdSamplingStrategy();
+
+    // Act
+    const decision = strategy.decide({
+      serviceName: 'hello-world',
+      xRayTraceId,
+    });
+
+    // Assess
+    expect(decision).toEqual({ strategy: 'trace_id', sampled: false });
+  });
+
+  test('when neither ID is available, the decision is random', () => {
+    // Prepare
+    const strategy = new TraceIdSamplingStrategy();
+
+    // Act
+    const decision = strategy.decide({
+      serviceName: 'hello-world',
+      sampleRateValue: 1,
+    });
+
+    // Assess
+    expect(decision).toEqual({ strategy: 'random', sampled: true });
+  });
+});
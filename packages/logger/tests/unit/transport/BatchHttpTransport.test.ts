@@ -0,0 +1,149 @@
+/**
+ * Test BatchHttpTransport class
+ *
+ * @group unit/logger/all
+ */
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from 'node:http';
+import { AddressInfo } from 'node:net';
+import { BatchHttpTransport } from '../../../src/transport';
+import { LogRecord } from '../../../src/types';
+
+describe('Class: BatchHttpTransport', () => {
+  let server: Server;
+  let url: string;
+  let receivedBatches: unknown[];
+  let respond: (res: ServerResponse) => void;
+
+  const createRecord = (message: string): LogRecord => ({
+    logLevel: 'INFO',
+    attributes: { message },
+    serialize: () => `INFO ${message}`,
+    getReplacer: () => (_key, value) => value,
+  });
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        receivedBatches.push(JSON.parse(body));
+        respond(res);
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/logs`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    receivedBatches = [];
+    respond = (res) => res.writeHead(200).end();
+  });
+
+  test('when the batch reaches the maximum number of items, it sends it', async () => {
+    // Prepare
+    const transport = new BatchHttpTransport({ url, maxBatchSize: 2 });
+
+    // Act
+    transport.send(createRecord('foo'));
+    transport.send(createRecord('bar'));
+    transport.send(createRecord('baz'));
+    await transport.flush();
+
+    // Assess
+    expect(receivedBatches).toEqual([
+      [{ message: 'foo' }, { message: 'bar' }],
+      [{ message: 'baz' }],
+    ]);
+  });
+
+  test('when adding a log item would exceed the maximum size of the batch, it sends the batch first', async () => {
+    // Prepare
+    const transport = new BatchHttpTransport({ url, maxBatchBytes: 40 });
+
+    // Act
+    transport.send(createRecord('foo'));
+    transport.send(createRecord('bar'));
+    transport.send(createRecord('a'.repeat(50)));
+    await transport.flush();
+
+    // Assess
+    expect(receivedBatches).toEqual([
+      [{ message: 'foo' }, { message: 'bar' }],
+      [{ message: 'a'.repeat(50) }],
+    ]);
+  });
+
+  test('when flushed with an empty batch, it does not send anything', async () => {
+    // Prepare
+    const transport = new BatchHttpTransport({ url });
+
+    // Act
+    await transport.flush();
+
+    // Assess
+    expect(receivedBatches).toEqual([]);
+  });
+
+  test('when the endpoint responds with an error, it writes the log items to stdout', async () => {
+    // Prepare
+    respond = (res) => res.writeHead(500).end();
+    const stdoutSpy = jest
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(() => true);
+    const transport = new BatchHttpTransport({ url });
+
+    // Act
+    transport.send(createRecord('foo'));
+    await transport.flush();
+
+    // Assess
+    expect(stdoutSpy).toHaveBeenCalledWith('{"message":"foo"}\n');
+    stdoutSpy.mockRestore();
+  });
+
+  test('when the endpoint does not respond in time, it writes the log items to stdout', async () => {
+    // Prepare
+    respond = (res) => setTimeout(() => res.writeHead(200).end(), 100);
+    const stdoutSpy = jest
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(() => true);
+    const transport = new BatchHttpTransport({ url, timeout: 10 });
+
+    // Act
+    transport.send(createRecord('foo'));
+    await transport.flush();
+
+    // Assess
+    expect(stdoutSpy).toHaveBeenCalledWith('{"message":"foo"}\n');
+    stdoutSpy.mockRestore();
+  });
+
+  test('when the endpoint is not reachable, it writes the log items to stdout', async () => {
+    // Prepare
+    const stdoutSpy = jest
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(() => true);
+    const transport = new BatchHttpTransport({
+      url: 'http://127.0.0.1:1/logs',
+    });
+
+    // Act
+    transport.send(createRecord('foo'));
+    await transport.flush();
+
+    // Assess
+    expect(stdoutSpy).toHaveBeenCalledWith('{"message":"foo"}\n');
+    stdoutSpy.mockRestore();
+  });
+});
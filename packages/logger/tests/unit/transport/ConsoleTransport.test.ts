@@ -0,0 +1,80 @@
+/**
+ * Test ConsoleTransport class
+ *
+ * @group unit/logger/all
+ */
+import { Console } from 'node:console';
+import { ConsoleTransport } from '../../../src/transport';
+import { LogRecord } from '../../../src/types';
+
+describe('Class: ConsoleTransport', () => {
+  const createRecord = (logLevel: LogRecord['logLevel']): LogRecord => ({
+    logLevel,
+    attributes: { message: 'foo' },
+    serialize: () => '{"message":"foo"}',
+    getReplacer: () => (_key, value) => value,
+  });
+
+  describe('Method: send', () => {
+    test.each([
+      ['DEBUG', 'debug'],
+      ['INFO', 'info'],
+      ['WARN', 'warn'],
+      ['ERROR', 'error'],
+      ['CRITICAL', 'error'],
+    ])(
+      'when a %s log item is sent, it prints it with console.%s',
+      (logLevel, consoleMethod) => {
+        // Prepare
+        const console = new Console({
+          stdout: process.stdout,
+          stderr: process.stderr,
+        });
+        const consoleSpy = jest
+          .spyOn(console, consoleMethod as 'info')
+          .mockImplementation();
+        const transport = new ConsoleTransport(console);
+
+        // Act
+        transport.send(createRecord(logLevel as LogRecord['logLevel']));
+
+        // Assess
+        expect(consoleSpy).toHaveBeenNthCalledWith(1, '{"message":"foo"}');
+      }
+    );
+
+    test('when the log item specifies a console method, it prints it with that method', () => {
+      // Prepare
+      const console = new Console({
+        stdout: process.stdout,
+        stderr: process.stderr,
+      });
+      const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+      const transport = new ConsoleTransport(console);
+
+      // Act
+      transport.send({ ...createRecord('AUDIT'), consoleMethod: 'log' });
+
+      // Assess
+      expect(consoleSpy).toHaveBeenNthCalledWith(1, '{"message":"foo"}');
+    });
+
+    test('when no console is passed, it prints to stdout', () => {
+      // Prepare
+      const stdoutSpy = jest
+        .spyOn(process.stdout, 'write')
+        .mockImplementation(() => true);
+      const transport = new ConsoleTransport();
+
+      // Act
+      transport.send(createRecord('INFO'));
+
+      // Assess
+      expect(stdoutSpy).toHaveBeenCalledWith(
+        '{"message":"foo"}\n',
+        expect.any(Function)
+      );
+      stdoutSpy.mockRestore();
+    });
+  });
+});
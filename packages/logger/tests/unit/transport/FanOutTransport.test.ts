@@ -0,0 +1,52 @@
+/**
+ * Test FanOutTransport class
+ *
+ * @group unit/logger/all
+ */
+import {
+  FanOutTransport,
+  InMemoryTransport,
+  LogTransportInterface,
+} from '../../../src/transport';
+import { LogRecord } from '../../../src/types';
+
+describe('Class: FanOutTransport', () => {
+  const record: LogRecord = {
+    logLevel: 'INFO',
+    attributes: { message: 'foo' },
+    serialize: () => '{"message":"foo"}',
+    getReplacer: () => (_key, value) => value,
+  };
+
+  test('it sends each log item to all the transports', () => {
+    // Prepare
+    const firstTransport = new InMemoryTransport();
+    const secondTransport = new InMemoryTransport();
+    const transport = new FanOutTransport([firstTransport, secondTransport]);
+
+    // Act
+    transport.send(record);
+
+    // Assess
+    expect(firstTransport.getLogs()).toEqual([{ message: 'foo' }]);
+    expect(secondTransport.getLogs()).toEqual([{ message: 'foo' }]);
+  });
+
+  test('when flushed, it flushes the transports that support flushing', async () => {
+    // Prepare
+    const flushableTransport: LogTransportInterface = {
+      send: jest.fn(),
+      flush: jest.fn().mockResolvedValue(undefined),
+    };
+    const transport = new FanOutTransport([
+      new InMemoryTransport(),
+      flushableTransport,
+    ]);
+
+    // Act
+    await transport.flush();
+
+    // Assess
+    expect(flushableTransport.flush).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Test FileTransport class
+ *
+ * @group unit/logger/all
+ */
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileTransport } from '../../../src/transport';
+
+describe('Class: FileTransport', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'logger-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('it appends each log item to the file as a JSON line', () => {
+    // Prepare
+    const path = join(directory, 'logs.jsonl');
+    const transport = new FileTransport({ path });
+
+    // Act
+    transport.send({
+      logLevel: 'INFO',
+      attributes: { message: 'foo' },
+      serialize: () => 'INFO foo',
+      getReplacer: () => (_key, value) => value,
+    });
+    transport.send({
+      logLevel: 'WARN',
+      attributes: { message: 'bar' },
+      serialize: () => 'WARN bar',
+      getReplacer: () => (_key, value) => value,
+    });
+
+    // Assess
+    expect(readFileSync(path, 'utf-8')).toBe(
+      '{"message":"foo"}\n{"message":"bar"}\n'
+    );
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Test InMemoryTransport class
+ *
+ * @group unit/logger/all
+ */
+import { Logger } from '../../../src';
+import { DevLogFormatter } from '../../../src/formatter';
+import { InMemoryTransport } from '../../../src/transport';
+
+describe('Class: InMemoryTransport', () => {
+  test('it stores the log items as they would be printed, in the order in which they were emitted', () => {
+    // Prepare
+    const transport = new InMemoryTransport();
+    const logger = new Logger({ logTransport: transport });
+
+    // Act
+    logger.info('This is an INFO log', { count: 1n });
+    logger.error('This is an ERROR log', new Error('Something happened!'));
+
+    // Assess
+    expect(transport.getLogs()).toEqual([
+      expect.objectContaining({
+        level: 'INFO',
+        message: 'This is an INFO log',
+        count: '1',
+      }),
+      expect.objectContaining({
+        level: 'ERROR',
+        message: 'This is an ERROR log',
+        error: expect.objectContaining({
+          name: 'Error',
+          message: 'Something happened!',
+        }),
+      }),
+    ]);
+  });
+
+  test('when the log formatter does not print JSON, it stores the log items as JSON anyway', () => {
+    // Prepare
+    const transport = new InMemoryTransport();
+    const logger = new Logger({
+      logTransport: transport,
+      logFormatter: new DevLogFormatter(),
+    });
+
+    // Act
+    logger.info('This is an INFO log', { count: 1n });
+
+    // Assess
+    expect(transport.getLogs()).toEqual([
+      expect.objectContaining({
+        message: 'This is an INFO log',
+        count: '1',
+      }),
+    ]);
+  });
+
+  test('when cleared, it removes the stored log items', () => {
+    // Prepare
+    const transport = new InMemoryTransport();
+    const logger = new Logger({ logTransport: transport });
+    logger.info('This is an INFO log');
+
+    // Act
+    transport.clear();
+
+    // Assess
+    expect(transport.getLogs()).toEqual([]);
+  });
+});
@@ -110,12 +110,14 @@ import {
 class Metrics extends Utility implements MetricsInterface {
   private customConfigService?: ConfigServiceInterface;
   private defaultDimensions: Dimensions = {};
+  private dimensionSets: Dimensions[] = [];
   private dimensions: Dimensions = {};
   private envVarsService?: EnvironmentVariablesService;
   private functionName?: string;
   private isSingleMetric = false;
   private metadata: Record<string, string> = {};
   private namespace?: string;
+  private shouldAddDimensionSets = false;
   private shouldThrowOnEmptyMetrics = false;
   private storedMetrics: StoredMetrics = {};
 
@@ -130,12 +132,17 @@ class Metrics extends Utility implements MetricsInterface {
    * Add a dimension to the metrics.
    *
    * A dimension is a key-value pair that is used to group metrics.
+   * A RangeError is thrown when a dimension set already has the dimension with a different value.
    *
    * @see https://docs.aws.amazon.com/AmazonCloudWatch/latest/monitoring/cloudwatch_concepts.html#Dimension for more details.
    * @param name
    * @param value
    */
   public addDimension(name: string, value: string): void {
+    Metrics.checkDimensionValues(
+      { [name]: value },
+      Object.assign({}, ...this.dimensionSets)
+    );
     if (MAX_DIMENSION_COUNT <= this.getCurrentDimensionsCount()) {
       throw new RangeError(
         `The number of metric dimensions must be lower than ${MAX_DIMENSION_COUNT}`
@@ -149,9 +156,31 @@ class Metrics extends Utility implements MetricsInterface {
    *
    * A dimension is a key-value pair that is used to group metrics.
    *
+   * When the `multipleDimensionSets` option is enabled, the dimensions are added as a new dimension set instead,
+   * so that the same metrics are also grouped by the default dimensions and the given ones. Identical dimension
+   * sets are published only once. The values of the dimensions are shared by all the dimension sets, so a RangeError
+   * is thrown when a dimension set redefines a dimension already added, to the metrics or to another set, with a different value.
+   *
+   * @example
+   * ```typescript
+   * import { Metrics, MetricUnits } from '@aws-lambda-powertools/metrics';
+   *
+   * const metrics = new Metrics({ namespace: 'serverlessAirline', serviceName: 'orders', multipleDimensionSets: true });
+   *
+   * // The metric is published both by `service`, and by `service` and `operation`
+   * metrics.addDimensions({ operation: 'createBooking' });
+   * metrics.addMetric('successfulBooking', MetricUnits.Count, 1);
+   * ```
+   *
    * @param dimensions A key-value pair of dimensions
    */
   public addDimensions(dimensions: { [key: string]: string }): void {
+    if (this.shouldAddDimensionSets) {
+      this.addDimensionSet(dimensions);
+
+      return;
+    }
+
     const newDimensions = { ...this.dimensions };
     Object.keys(dimensions).forEach((dimensionName) => {
       newDimensions[dimensionName] = dimensions[dimensionName];
@@ -272,6 +301,7 @@ class Metrics extends Utility implements MetricsInterface {
    */
   public clearDimensions(): void {
     this.dimensions = {};
+    this.dimensionSets = [];
   }
 
   /**
@@ -438,24 +468,20 @@ class Metrics extends Utility implements MetricsInterface {
       {}
     );
 
-    const dimensionNames = [
-      ...Object.keys(this.defaultDimensions),
-      ...Object.keys(this.dimensions),
-    ];
-
     return {
       _aws: {
         Timestamp: new Date().getTime(),
         CloudWatchMetrics: [
           {
             Namespace: this.namespace || DEFAULT_NAMESPACE,
-            Dimensions: [dimensionNames],
+            Dimensions: this.getDimensionSets(),
             Metrics: metricDefinitions,
           },
         ],
       },
       ...this.defaultDimensions,
       ...this.dimensions,
+      ...Object.assign({}, ...this.dimensionSets),
       ...metricValues,
       ...this.metadata,
     };
@@ -530,6 +556,49 @@ class Metrics extends Utility implements MetricsInterface {
     this.shouldThrowOnEmptyMetrics = true;
   }
 
+  /**
+   * Adds a new dimension set, made of the default dimensions and the given dimensions.
+   *
+   * @param dimensions A key-value pair of dimensions
+   */
+  private addDimensionSet(dimensions: Dimensions): void {
+    Metrics.checkDimensionValues(dimensions, {
+      ...this.defaultDimensions,
+      ...this.dimensions,
+      ...Object.assign({}, ...this.dimensionSets),
+    });
+    const dimensionSet = { ...this.defaultDimensions, ...dimensions };
+    if (Object.keys(dimensionSet).length > MAX_DIMENSION_COUNT) {
+      throw new RangeError(
+        `Unable to add ${
+          Object.keys(dimensions).length
+        } dimensions: the number of dimensions of a dimension set must be lower than ${MAX_DIMENSION_COUNT}`
+      );
+    }
+    this.dimensionSets.push(dimensions);
+  }
+
+  /**
+   * Throws a RangeError if any of the dimensions was already added with a different value,
+   * since the values of the dimensions are shared by all the dimension sets.
+   *
+   * @param dimensions The dimensions to add
+   * @param addedDimensions The dimensions already added
+   */
+  private static checkDimensionValues(
+    dimensions: Dimensions,
+    addedDimensions: Dimensions
+  ): void {
+    for (const [name, value] of Object.entries(dimensions)) {
+      const addedValue = addedDimensions[name];
+      if (addedValue !== undefined && addedValue !== value) {
+        throw new RangeError(
+          `Unable to add the ${name} dimension with the ${value} value: it was already added with the ${addedValue} value`
+        );
+      }
+    }
+  }
+
   /**
    * Gets the current number of dimensions stored.
    *
@@ -551,6 +620,37 @@ class Metrics extends Utility implements MetricsInterface {
     return this.customConfigService;
   }
 
+  /**
+   * Gets the names of the dimensions of each dimension set, without duplicate sets.
+   *
+   * The first dimension set is made of the default dimensions and the dimensions added to all the metrics.
+   * When other dimension sets were added, it's omitted if empty.
+   *
+   * @returns the names of the dimensions of each dimension set
+   */
+  private getDimensionSets(): string[][] {
+    const defaultDimensionNames = Object.keys(this.defaultDimensions);
+    const dimensionSets = [
+      [...defaultDimensionNames, ...Object.keys(this.dimensions)],
+      ...this.dimensionSets.map((dimensionSet) => [
+        ...new Set([...defaultDimensionNames, ...Object.keys(dimensionSet)]),
+      ]),
+    ];
+    if (this.dimensionSets.length > 0 && dimensionSets[0].length === 0) {
+      dimensionSets.shift();
+    }
+
+    const uniqueDimensionSets = new Map<string, string[]>();
+    for (const dimensionSet of dimensionSets) {
+      const key = JSON.stringify([...dimensionSet].sort());
+      if (!uniqueDimensionSets.has(key)) {
+        uniqueDimensionSets.set(key, dimensionSet);
+      }
+    }
+
+    return [...uniqueDimensionSets.values()];
+  }
+
   /**
    * Gets the environment variables service.
    *
@@ -634,6 +734,7 @@ class Metrics extends Utility implements MetricsInterface {
       serviceName,
       singleMetric,
       defaultDimensions,
+      multipleDimensionSets,
     } = options;
 
     this.setEnvVarsService();
@@ -642,6 +743,7 @@ class Metrics extends Utility implements MetricsInterface {
     this.setService(serviceName);
     this.setDefaultDimensions(defaultDimensions);
     this.isSingleMetric = singleMetric || false;
+    this.shouldAddDimensionSets = multipleDimensionSets || false;
 
     return this;
   }
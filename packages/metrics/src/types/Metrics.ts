@@ -10,12 +10,19 @@ import { MetricResolution } from './MetricResolution';
 
 type Dimensions = Record<string, string>;
 
+/**
+ * Options for the Metrics class to be used during initialization.
+ *
+ * * `multipleDimensionSets` - (_optional_) - When `true`, each call to `addDimensions()` adds a new dimension set,
+ *   made of the default dimensions and the given dimensions, instead of merging them into the dimensions of all the metrics
+ */
 type MetricsOptions = {
   customConfigService?: ConfigServiceInterface;
   namespace?: string;
   serviceName?: string;
   singleMetric?: boolean;
   defaultDimensions?: Dimensions;
+  multipleDimensionSets?: boolean;
 };
 
 type EmfOutput = Readonly<{
@@ -24,7 +31,7 @@ type EmfOutput = Readonly<{
     Timestamp: number;
     CloudWatchMetrics: {
       Namespace: string;
-      Dimensions: [string[]];
+      Dimensions: string[][];
       Metrics: MetricDefinition[];
     }[];
   };
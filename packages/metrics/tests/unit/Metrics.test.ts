@@ -482,6 +482,99 @@ describe('Class: Metrics', () => {
     });
   });
 
+  describe('Method: addDimensions with multiple dimension sets', () => {
+    test('it should add each dimension set without merging it into the dimensions', () => {
+      // Prepare
+      const metrics: Metrics = new Metrics({
+        namespace: TEST_NAMESPACE,
+        multipleDimensionSets: true,
+      });
+
+      // Act
+      metrics.addDimensions({ operation: 'createBooking' });
+      metrics.addDimensions({ operation: 'createBooking', tenant: 't1' });
+
+      // Assess
+      expect(metrics).toEqual(
+        expect.objectContaining({
+          dimensions: {},
+          dimensionSets: [
+            { operation: 'createBooking' },
+            { operation: 'createBooking', tenant: 't1' },
+          ],
+        })
+      );
+    });
+
+    test('it should throw error if the number of dimensions of a dimension set exceeds the maximum allowed', () => {
+      // Prepare
+      const metrics: Metrics = new Metrics({
+        namespace: TEST_NAMESPACE,
+        multipleDimensionSets: true,
+      });
+      const dimensionsToBeAdded: LooseObject = {};
+      for (let i = 0; i < MAX_DIMENSION_COUNT - 1; i++) {
+        dimensionsToBeAdded[`test-dimension-${i}`] = `test-value-${i}`;
+      }
+
+      // Act & Assess
+      expect(() =>
+        metrics.addDimensions(dimensionsToBeAdded)
+      ).not.toThrowError();
+      expect(() =>
+        metrics.addDimensions(dimensionsToBeAdded)
+      ).not.toThrowError();
+      expect(() =>
+        metrics.addDimensions({
+          ...dimensionsToBeAdded,
+          'another-dimension': 'another-dimension-value',
+        })
+      ).toThrowError(
+        `Unable to add ${MAX_DIMENSION_COUNT} dimensions: the number of dimensions of a dimension set must be lower than ${MAX_DIMENSION_COUNT}`
+      );
+    });
+    test('it should throw error if a dimension set redefines a dimension with a different value', () => {
+      // Prepare
+      const metrics: Metrics = new Metrics({
+        namespace: TEST_NAMESPACE,
+        serviceName: 'orders',
+        multipleDimensionSets: true,
+      });
+      metrics.addDimension('environment', 'prod');
+      metrics.addDimensions({ operation: 'createBooking' });
+
+      // Act & Assess
+      expect(() =>
+        metrics.addDimensions({ operation: 'createBooking', tenant: 't1' })
+      ).not.toThrowError();
+      expect(() =>
+        metrics.addDimensions({ operation: 'cancelBooking' })
+      ).toThrowError(
+        new RangeError(
+          'Unable to add the operation dimension with the cancelBooking value: it was already added with the createBooking value'
+        )
+      );
+      expect(() => metrics.addDimensions({ environment: 'dev' })).toThrowError(
+        RangeError
+      );
+      expect(() => metrics.addDimensions({ service: 'payments' })).toThrowError(
+        RangeError
+      );
+      expect(() => metrics.addDimension('tenant', 't2')).toThrowError(
+        RangeError
+      );
+      expect(metrics).toEqual(
+        expect.objectContaining({
+          dimensions: { environment: 'prod' },
+          dimensionSets: [
+            { operation: 'createBooking' },
+            { operation: 'createBooking', tenant: 't1' },
+          ],
+        })
+      );
+    });
+  });
+
   describe('Method: addMetadata', () => {
     test('it should add metadata', () => {
       // Prepare
@@ -1605,6 +1698,90 @@ describe('Class: Metrics', () => {
       });
     });
 
+    test('it should log multiple dimension sets without duplicates', () => {
+      // Prepare
+      const metrics: Metrics = new Metrics({
+        namespace: TEST_NAMESPACE,
+        serviceName: 'orders',
+        multipleDimensionSets: true,
+      });
+
+      // Act
+      metrics.addMetric('successfulBooking', MetricUnits.Count, 1);
+      metrics.addDimension('environment', 'prod');
+      metrics.addDimensions({ operation: 'createBooking' });
+      metrics.addDimensions({ tenant: 't1', operation: 'createBooking' });
+      metrics.addDimensions({ operation: 'createBooking' });
+      metrics.addDimensions({ service: 'orders', operation: 'createBooking' });
+      const loggedData = metrics.serializeMetrics();
+
+      // Assess
+      expect(loggedData).toEqual({
+        _aws: {
+          CloudWatchMetrics: [
+            {
+              Dimensions: [
+                ['service', 'environment'],
+                ['service', 'operation'],
+                ['service', 'tenant', 'operation'],
+              ],
+              Metrics: [{ Name: 'successfulBooking', Unit: MetricUnits.Count }],
+              Namespace: TEST_NAMESPACE,
+            },
+          ],
+          Timestamp: mockDate.getTime(),
+        },
+        service: 'orders',
+        environment: 'prod',
+        operation: 'createBooking',
+        tenant: 't1',
+        successfulBooking: 1,
+      });
+    });
+
+    test('it should omit the empty dimension set when multiple dimension sets are added', () => {
+      // Prepare
+      const metrics: Metrics = new Metrics({
+        namespace: TEST_NAMESPACE,
+        multipleDimensionSets: true,
+      });
+      metrics.clearDefaultDimensions();
+
+      // Act
+      metrics.addMetric('successfulBooking', MetricUnits.Count, 1);
+      metrics.addDimensions({ operation: 'createBooking' });
+      metrics.addDimensions({ operation: 'createBooking', tenant: 't1' });
+      const loggedData = metrics.serializeMetrics();
+
+      // Assess
+      expect(loggedData._aws.CloudWatchMetrics[0].Dimensions).toEqual([
+        ['operation'],
+        ['operation', 'tenant'],
+      ]);
+    });
+
+    test('it should clear the dimension sets after publishing the metrics', () => {
+      // Prepare
+      const metrics: Metrics = new Metrics({
+        namespace: TEST_NAMESPACE,
+        serviceName: 'orders',
+        multipleDimensionSets: true,
+      });
+      metrics.addMetric('successfulBooking', MetricUnits.Count, 1);
+      metrics.addDimensions({ operation: 'createBooking' });
+
+      // Act
+      metrics.publishStoredMetrics();
+      metrics.addMetric('successfulBooking', MetricUnits.Count, 1);
+      const loggedData = metrics.serializeMetrics();
+
+      // Assess
+      expect(loggedData._aws.CloudWatchMetrics[0].Dimensions).toEqual([
+        ['service'],
+      ]);
+      expect(loggedData).not.toHaveProperty('operation');
+    });
+
     test('it should log metadata correctly', () => {
       // Prepare
       const testMetric = 'test-metric';
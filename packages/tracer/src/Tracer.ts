@@ -1,4 +1,5 @@
-import { Handler } from 'aws-lambda';
+import { AsyncResource } from 'node:async_hooks';
+import { Context, Handler } from 'aws-lambda';
 import {
   AsyncHandler,
   SyncHandler,
@@ -12,9 +13,24 @@ import {
   MethodDecorator,
   CaptureLambdaHandlerOptions,
   CaptureMethodOptions,
+  CaptureOptions,
+  AnnotationPaths,
+  TailSamplingOptions,
+  TimeoutWatchdogOptions,
+  TraceContext,
+  TraceContextHeaders,
 } from './types';
 import { ProviderService, ProviderServiceInterface } from './provider';
 import { Segment, Subsegment } from 'aws-xray-sdk-core';
+import { search } from 'jmespath';
+import { MetadataSerializer } from './serialization';
+import { TailSampler } from './sampling';
+import { TimeoutWatchdog } from './watchdog';
+import {
+  extractTraceContextFromCarrier,
+  formatTraceContextHeaders,
+  injectTraceContextHeaders,
+} from './traceContext';
 
 /**
  * ## Intro
@@ -25,9 +41,12 @@ import { Segment, Subsegment } from 'aws-xray-sdk-core';
  * ## Key features
  *   * Auto capture cold start as annotation, and responses or full exceptions as metadata
  *   * Auto-disable when not running in AWS Lambda environment
- *   * Automatically trace HTTP(s) clients and generate segments for each request
- *   * Support tracing functions via decorators, middleware, and manual instrumentation
+ *   * Automatically trace HTTP(s) clients and `fetch`, and generate segments for each request
+ *   * Support tracing functions via decorators, middleware, function wrappers, and manual instrumentation
  *   * Support tracing AWS SDK v2 and v3 via AWS X-Ray SDK for Node.js
+ *   * Support exporting traces with OpenTelemetry instead of AWS X-Ray
+ *   * Propagate the trace context to other services via W3C `traceparent` and AWS X-Ray headers
+ *   * Add annotations extracted from the incoming event via JMESPath expressions
  *
  * ## Usage
  *
@@ -124,12 +143,15 @@ import { Segment, Subsegment } from 'aws-xray-sdk-core';
  * ```
  */
 class Tracer extends Utility implements TracerInterface {
-  public provider: ProviderServiceInterface;
+  // provider is always initialized in the constructor in setOptions()
+  public provider!: ProviderServiceInterface;
 
   private captureError = true;
 
   private captureHTTPsRequests = true;
 
+  private captureOptions: CaptureOptions = {};
+
   private captureResponse = true;
 
   private customConfigService?: ConfigServiceInterface;
@@ -140,15 +162,19 @@ class Tracer extends Utility implements TracerInterface {
   // serviceName is always initialized in the constructor in setOptions()
   private serviceName!: string;
 
+  private tailSampler?: TailSampler;
+
+  private timeoutWatchdog?: TimeoutWatchdog;
+
   private tracingEnabled = true;
 
   public constructor(options: TracerOptions = {}) {
     super();
 
     this.setOptions(options);
-    this.provider = new ProviderService();
     if (this.isTracingEnabled() && this.captureHTTPsRequests) {
       this.provider.captureHTTPsGlobal();
+      this.provider.captureFetchGlobal?.();
     }
     if (!this.isTracingEnabled()) {
       // Tell x-ray-sdk to not throw an error if context is missing but tracing is disabled
@@ -159,12 +185,19 @@ class Tracer extends Utility implements TracerInterface {
   /**
    * Add an error to the current segment or subsegment as metadata.
    *
+   * When a `maxSize` is set in the capture options, the message and the stack of the error are truncated to it.
+   *
    * @see https://docs.aws.amazon.com/xray/latest/devguide/xray-concepts.html#xray-concepts-errors
    *
    * @param error - Error to serialize as metadata
    * @param [remote] - Whether the error was thrown by a remote service. Defaults to `false`
+   * @param [options] - Capture options overriding the ones of the tracer
    */
-  public addErrorAsMetadata(error: Error, remote?: boolean): void {
+  public addErrorAsMetadata(
+    error: Error,
+    remote?: boolean,
+    options?: CaptureOptions
+  ): void {
     if (!this.isTracingEnabled()) {
       return;
     }
@@ -180,18 +213,29 @@ class Tracer extends Utility implements TracerInterface {
       return;
     }
 
-    subsegment.addError(error, remote || false);
+    subsegment.addError(
+      this.getMetadataSerializer(options).serializeError(error),
+      remote || false
+    );
   }
 
   /**
    * Add response data to the current segment or subsegment as metadata.
    *
+   * Before being added, the response is passed to the `serializer`, the values matching the `denylist` are masked,
+   * only the values matching the `allowlist` are kept, and it's truncated to the `maxSize` of the capture options, if set.
+   *
    * @see https://docs.aws.amazon.com/xray/latest/devguide/xray-concepts.html#xray-concepts-annotations
    *
    * @param data - Data to serialize as metadata
    * @param methodName - Name of the method that is being traced
+   * @param [options] - Capture options overriding the ones of the tracer
    */
-  public addResponseAsMetadata(data?: unknown, methodName?: string): void {
+  public addResponseAsMetadata(
+    data?: unknown,
+    methodName?: string,
+    options?: CaptureOptions
+  ): void {
     if (
       data === undefined ||
       !this.captureResponse ||
@@ -200,7 +244,12 @@ class Tracer extends Utility implements TracerInterface {
       return;
     }
 
-    this.putMetadata(`${methodName} response`, data);
+    const value = this.getMetadataSerializer(options).serializeResponse(data);
+    if (value === undefined) {
+      return;
+    }
+
+    this.putMetadata(`${methodName} response`, value);
   }
 
   /**
@@ -389,22 +438,36 @@ class Tracer extends Utility implements TracerInterface {
           async (subsegment) => {
             tracerRef.annotateColdStart();
             tracerRef.addServiceNameAnnotation();
+            if (options?.annotations) {
+              tracerRef.putAnnotationsFromEvent(event, options.annotations);
+            }
             let result: unknown;
+            let failed = false;
             try {
+              if (subsegment) {
+                tracerRef.startTimeoutWatchdog(subsegment, context);
+                tracerRef.startTailSampling(subsegment, context);
+              }
               result = await originalMethod.apply(handlerRef, [
                 event,
                 context,
                 callback,
               ]);
               if (options?.captureResponse ?? true) {
-                tracerRef.addResponseAsMetadata(result, process.env._HANDLER);
+                tracerRef.addResponseAsMetadata(
+                  result,
+                  process.env._HANDLER,
+                  options
+                );
               }
             } catch (error) {
-              tracerRef.addErrorAsMetadata(error as Error);
+              failed = true;
+              tracerRef.addErrorAsMetadata(error as Error, false, options);
               throw error;
             } finally {
-              subsegment?.close();
-              subsegment?.flush();
+              tracerRef.stopTimeoutWatchdog();
+              Tracer.closeSubsegment(subsegment);
+              tracerRef.stopTailSampling(failed);
             }
 
             return result;
@@ -425,7 +488,7 @@ class Tracer extends Utility implements TracerInterface {
    * * add the function error as metadata (if any)
    *
    * Note: Currently TypeScript only supports decorators on classes and methods. If you are using the
-   * function syntax, you should use the middleware instead.
+   * function syntax, you should use {@link wrap} instead.
    *
    * @example
    * ```typescript
@@ -479,15 +542,14 @@ class Tracer extends Utility implements TracerInterface {
             try {
               result = await originalMethod.apply(this, [...args]);
               if (options?.captureResponse ?? true) {
-                tracerRef.addResponseAsMetadata(result, methodName);
+                tracerRef.addResponseAsMetadata(result, methodName, options);
               }
             } catch (error) {
-              tracerRef.addErrorAsMetadata(error as Error);
+              tracerRef.addErrorAsMetadata(error as Error, false, options);
 
               throw error;
             } finally {
-              subsegment?.close();
-              subsegment?.flush();
+              Tracer.closeSubsegment(subsegment);
             }
 
             return result;
@@ -499,6 +561,40 @@ class Tracer extends Utility implements TracerInterface {
     };
   }
 
+  /**
+   * Extract the trace context propagated by the sender of an event, message or HTTP request.
+   *
+   * Utility method that reads the W3C `traceparent` or the AWS X-Ray `X-Amzn-Trace-Id` header from
+   * the headers of an HTTP event, the message attributes of an SQS or SNS record, or the `AWSTraceHeader`
+   * attribute of an SQS record. When both headers are present, the `traceparent` one takes precedence.
+   *
+   * The returned trace context can be used to link the processing of the record to the trace of the sender,
+   * i.e. by adding its trace id as annotation of the subsegment processing the record.
+   *
+   * @example
+   * ```typescript
+   * import { Tracer } from '@aws-lambda-powertools/tracer';
+   * import type { SQSEvent } from 'aws-lambda';
+   *
+   * const tracer = new Tracer({ serviceName: 'serverlessAirline' });
+   *
+   * export const handler = async (event: SQSEvent): Promise<void> => {
+   *   for (const record of event.Records) {
+   *     const traceContext = tracer.extractTraceContext(record);
+   *     if (traceContext) {
+   *       tracer.putAnnotation('linkedTraceId', traceContext.traceId);
+   *     }
+   *   }
+   * }
+   * ```
+   *
+   * @param carrier - A headers object, an HTTP event, or an SQS or SNS record
+   * @returns The trace context, or `undefined` if the carrier doesn't have a valid one
+   */
+  public extractTraceContext(carrier: object): TraceContext | undefined {
+    return extractTraceContextFromCarrier(carrier);
+  }
+
   /**
    * Get the current root AWS X-Ray trace id.
    *
@@ -572,6 +668,77 @@ class Tracer extends Utility implements TracerInterface {
     return segment;
   }
 
+  /**
+   * Get the headers that propagate the current trace context to other services.
+   *
+   * Utility method that returns the W3C `traceparent` and the AWS X-Ray `X-Amzn-Trace-Id` headers,
+   * built from the current root AWS X-Ray trace id and sampled flag, and with the active segment or subsegment as parent.
+   * Add them to outbound HTTP requests, or to messages sent to other services, so that their traces are connected to this one.
+   *
+   * @see https://www.w3.org/TR/trace-context/#traceparent-header
+   * @see https://docs.aws.amazon.com/xray/latest/devguide/xray-concepts.html#xray-concepts-tracingheader
+   *
+   * @example
+   * ```typescript
+   * import { Tracer } from '@aws-lambda-powertools/tracer';
+   *
+   * const tracer = new Tracer({ serviceName: 'serverlessAirline' });
+   *
+   * export const handler = async (): Promise<void> => {
+   *   await fetch('https://api.example.com/bookings', {
+   *     headers: tracer.getTraceContextHeaders(),
+   *   });
+   * }
+   * ```
+   *
+   * @returns The trace context headers, or an empty object if tracing is disabled or there's no trace id.
+   */
+  public getTraceContextHeaders(): TraceContextHeaders {
+    const traceId = this.getRootXrayTraceId();
+    if (!this.isTracingEnabled() || traceId === undefined) {
+      return {};
+    }
+
+    return formatTraceContextHeaders({
+      traceId,
+      parentId: this.getSegment()?.id,
+      sampled: this.isTraceSampled(),
+    });
+  }
+
+  /**
+   * Add the headers that propagate the current trace context to an HTTP headers object, or to an SQS or SNS message.
+   *
+   * When the carrier is the input of an SQS `SendMessageCommand` or of an SNS `PublishCommand`, identified by
+   * its `MessageBody`, `Message` or `MessageAttributes` properties, the headers are added as `String` message attributes,
+   * otherwise they are added to the carrier as HTTP headers, either a plain object or a fetch `Headers` instance.
+   * The carrier is not modified, a copy is returned instead. Since a message can have at most 10 attributes, the headers
+   * are not added, and a warning is logged, when the message has already too many attributes to fit them.
+   *
+   * @example
+   * ```typescript
+   * import { Tracer } from '@aws-lambda-powertools/tracer';
+   * import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+   *
+   * const tracer = new Tracer({ serviceName: 'serverlessAirline' });
+   * const client = tracer.captureAWSv3Client(new SQSClient({}));
+   *
+   * export const handler = async (): Promise<void> => {
+   *   await client.send(
+   *     new SendMessageCommand(
+   *       tracer.injectTraceContext({ QueueUrl: 'https://sqs...', MessageBody: '{"id":1}' })
+   *     )
+   *   );
+   * }
+   * ```
+   *
+   * @param carrier - An HTTP headers object, or the input of an SQS or SNS command
+   * @returns A copy of the carrier with the trace context headers, or the carrier itself if there's no trace context to propagate
+   */
+  public injectTraceContext<T extends object>(carrier: T): T {
+    return injectTraceContextHeaders(carrier, this.getTraceContextHeaders());
+  }
+
   /**
    * Get the current value of the AWS X-Ray Sampled flag.
    *
@@ -624,6 +791,63 @@ class Tracer extends Utility implements TracerInterface {
     this.provider.putAnnotation(key, value);
   }
 
+  /**
+   * Adds annotations extracted from the incoming event to the current segment or subsegment.
+   *
+   * Each value is extracted with the JMESPath expression of its annotation key. Values that are not found are skipped,
+   * while the ones that don't meet the AWS X-Ray annotation constraints are skipped with a warning, like the expressions
+   * that are not valid. You can use the expressions in {@link annotationPresets} for the most common event types.
+   *
+   * The `annotations` option of the handler decorator and middleware calls this method automatically.
+   *
+   * @see https://docs.aws.amazon.com/xray/latest/devguide/xray-api-segmentdocuments.html#api-segmentdocuments-annotations
+   *
+   * @example
+   * ```typescript
+   * import { Tracer, annotationPresets } from '@aws-lambda-powertools/tracer';
+   *
+   * const tracer = new Tracer({ serviceName: 'serverlessAirline' });
+   *
+   * export const handler = async (event: unknown, _context: unknown) => {
+   *   tracer.putAnnotationsFromEvent(event, {
+   *     ...annotationPresets.API_GATEWAY_REST,
+   *     tenant: 'requestContext.authorizer.tenantId',
+   *   });
+   * }
+   * ```
+   *
+   * @param event - The incoming event
+   * @param annotations - Annotation keys and the JMESPath expressions used to extract their values
+   */
+  public putAnnotationsFromEvent(
+    event: unknown,
+    annotations: AnnotationPaths
+  ): void {
+    if (!this.isTracingEnabled()) return;
+
+    for (const [key, expression] of Object.entries(annotations)) {
+      let value: unknown;
+      try {
+        value = search(event, expression);
+      } catch (error) {
+        console.warn(
+          `Skipping annotation ${key}: the expression '${expression}' is not valid`,
+          error
+        );
+        continue;
+      }
+      if (value === null || value === undefined) {
+        continue;
+      }
+      const invalidReason = Tracer.getInvalidAnnotationReason(key, value);
+      if (invalidReason !== undefined) {
+        console.warn(`Skipping annotation ${key}: ${invalidReason}`);
+        continue;
+      }
+      this.putAnnotation(key, value as string | number | boolean);
+    }
+  }
+
   /**
    * Adds metadata to existing segment or subsegment.
    *
@@ -683,6 +907,358 @@ class Tracer extends Utility implements TracerInterface {
     return this.provider.setSegment(segment);
   }
 
+  /**
+   * Start recording the subsegments of an unsampled invocation, so that they can be flushed if the handler fails or times out.
+   *
+   * This is a no-op unless tail sampling is enabled in the tracer options and the current trace is not sampled.
+   * The subsegments are flushed when the remaining time of the invocation gets below the timeout margin,
+   * or when {@link stopTailSampling} is called after the handler failed.
+   *
+   * Usually you won't need to call this method unless you are using manual mode,
+   * as the `captureLambdaHandler` decorator and middleware already call it for the handler subsegment.
+   *
+   * @example
+   * ```typescript
+   * import { Tracer } from '@aws-lambda-powertools/tracer';
+   *
+   * const tracer = new Tracer({ serviceName: 'serverlessAirline', tailSampling: true });
+   *
+   * export const handler = async (_event: any, context: any) => {
+   *   const segment = tracer.getSegment(); // This is the facade segment (the one that is created by AWS Lambda)
+   *   const handlerSegment = segment.addNewSubsegment(`## ${process.env._HANDLER}`);
+   *   tracer.setSegment(handlerSegment);
+   *   tracer.startTailSampling(handlerSegment, context);
+   *   let failed = false;
+   *   try {
+   *     ...
+   *   } catch (err) {
+   *     failed = true;
+   *     throw err;
+   *   } finally {
+   *     handlerSegment.close();
+   *     tracer.setSegment(segment);
+   *     tracer.stopTailSampling(failed);
+   *   }
+   * }
+   * ```
+   *
+   * @param subsegment - The handler subsegment, under which the subsegments of the invocation are recorded
+   * @param context - (_optional_) The Lambda context, used to flush the subsegments before the function times out
+   */
+  public startTailSampling(
+    subsegment: Segment | Subsegment,
+    context?: Context
+  ): void {
+    if (this.tailSampler === undefined || this.isTraceSampled()) return;
+
+    // With the timeout watchdog, the tree is flushed by the watchdog after it closes the open subsegments
+    this.tailSampler.start(
+      subsegment,
+      this.getRootXrayTraceId(),
+      this.timeoutWatchdog === undefined ? context : undefined
+    );
+  }
+
+  /**
+   * Start watching an invocation, so that its open subsegments are closed before the function times out.
+   *
+   * This is a no-op unless the timeout watchdog is enabled in the tracer options. When the remaining time
+   * of the invocation gets below the timeout margin, the handler subsegment and the subsegments still in progress
+   * under it are annotated with `Timeout=true`, get the names of the in-flight subsegments as metadata, and are closed.
+   * When tail sampling is also enabled, the recorded subsegments are flushed right after, once they are closed.
+   *
+   * Usually you won't need to call this method unless you are using manual mode,
+   * as the `captureLambdaHandler` decorator and middleware already call it for the handler subsegment.
+   *
+   * @example
+   * ```typescript
+   * import { Tracer } from '@aws-lambda-powertools/tracer';
+   *
+   * const tracer = new Tracer({ serviceName: 'serverlessAirline', timeoutWatchdog: true });
+   *
+   * export const handler = async (_event: any, context: any) => {
+   *   const segment = tracer.getSegment(); // This is the facade segment (the one that is created by AWS Lambda)
+   *   const handlerSegment = segment.addNewSubsegment(`## ${process.env._HANDLER}`);
+   *   tracer.setSegment(handlerSegment);
+   *   tracer.startTimeoutWatchdog(handlerSegment, context);
+   *   try {
+   *     ...
+   *   } finally {
+   *     tracer.stopTimeoutWatchdog();
+   *     handlerSegment.close();
+   *     tracer.setSegment(segment);
+   *   }
+   * }
+   * ```
+   *
+   * @param subsegment - The handler subsegment
+   * @param context - The Lambda context, used to get the remaining time of the invocation
+   */
+  public startTimeoutWatchdog(
+    subsegment: Segment | Subsegment,
+    context?: Context
+  ): void {
+    this.timeoutWatchdog?.start(subsegment, context, () =>
+      this.tailSampler?.flushBeforeTimeout()
+    );
+  }
+
+  /**
+   * Stop recording the subsegments of the current invocation, if any, flushing them if the handler failed.
+   *
+   * @param failed - (_optional_) Whether the handler failed. Defaults to `false`
+   */
+  public stopTailSampling(failed = false): void {
+    this.tailSampler?.stop(failed);
+  }
+
+  /**
+   * Stop watching the current invocation, if any.
+   */
+  public stopTimeoutWatchdog(): void {
+    this.timeoutWatchdog?.stop();
+  }
+
+  /**
+   * Wrap a function, so that each call is traced in a subsegment like the methods decorated with {@link captureMethod}.
+   *
+   * Using this method on your function will automatically:
+   * * handle the subsegment lifecycle
+   * * add the function response as metadata
+   * * add the function error as metadata (if any)
+   *
+   * The wrapped function has the same signature and `this` of the original one. Synchronous functions stay synchronous,
+   * and the subsegment is closed when they return. When the function returns a promise, the subsegment is closed when
+   * the promise settles. When the function is a generator, or an async generator, the subsegment is closed when the
+   * generator completes, throws, or is returned early, i.e. with a `break` in a `for...of` loop, and its return value is
+   * added as metadata. The same applies to the other iterables and async iterables returned by the function, like Node.js
+   * `Readable` streams, while strings, arrays, typed arrays, maps and sets are returned as they are.
+   *
+   * The subsegment is named after the function, unless a `subSegmentName` is passed.
+   *
+   * @example
+   * ```typescript
+   * import { Tracer } from '@aws-lambda-powertools/tracer';
+   *
+   * const tracer = new Tracer({ serviceName: 'serverlessAirline' });
+   *
+   * const getChargeId = tracer.wrap(async (bookingId: string): Promise<string> => {
+   *   ...
+   * }, { subSegmentName: '### getChargeId' });
+   *
+   * export const handler = async (event: { bookingId: string }, _context: unknown) => {
+   *   const chargeId = await getChargeId(event.bookingId);
+   * }
+   * ```
+   *
+   * @param fn - Function to trace
+   * @param options - (_optional_) Options for the wrapper, the same of {@link captureMethod}
+   * @returns The wrapped function
+   */
+  public wrap<T extends (...args: never[]) => unknown>(
+    fn: T,
+    options?: CaptureMethodOptions
+  ): T {
+    // eslint-disable-next-line @typescript-eslint/no-this-alias
+    const tracerRef = this;
+    const functionName = fn.name !== '' ? fn.name : 'anonymous';
+    const subsegmentName = options?.subSegmentName
+      ? options.subSegmentName
+      : `### ${functionName}`;
+
+    // Use a function() {} instead of an () => {} arrow function so that `this` is passed to the wrapped function.
+    const wrapped = function (
+      this: ThisParameterType<T>,
+      ...args: Parameters<T>
+    ): unknown {
+      if (!tracerRef.isTracingEnabled()) {
+        return Reflect.apply(fn, this, args);
+      }
+
+      return tracerRef.provider.captureAsyncFunc(
+        subsegmentName,
+        (subsegment) => {
+          let finished = false;
+          const finish = (
+            outcome: { response: unknown } | { error: unknown }
+          ): void => {
+            if (finished) return;
+            finished = true;
+            if ('error' in outcome) {
+              tracerRef.addErrorAsMetadata(
+                outcome.error as Error,
+                false,
+                options
+              );
+            } else if (options?.captureResponse ?? true) {
+              tracerRef.addResponseAsMetadata(
+                outcome.response,
+                functionName,
+                options
+              );
+            }
+            Tracer.closeSubsegment(subsegment);
+          };
+
+          let result: unknown;
+          try {
+            result = Reflect.apply(fn, this, args);
+          } catch (error) {
+            finish({ error });
+            throw error;
+          }
+
+          if (Tracer.isGenerator(result)) {
+            return Tracer.captureGenerator(
+              result,
+              Object.prototype.toString.call(result) ===
+                '[object AsyncGenerator]',
+              finish
+            );
+          }
+          if (Tracer.isIterable(result)) {
+            return Tracer.captureIterable(result, finish);
+          }
+          if (result instanceof Promise) {
+            return result.then(
+              (response) => {
+                finish({ response });
+
+                return response;
+              },
+              (error) => {
+                finish({ error });
+                throw error;
+              }
+            );
+          }
+          finish({ response: result });
+
+          return result;
+        }
+      );
+    };
+    Object.defineProperty(wrapped, 'name', { value: fn.name });
+
+    return wrapped as T;
+  }
+
+  /**
+   * Wrap a generator or an iterator, so that its body runs with the subsegment created for the function that returned it
+   * as active segment, and the subsegment is closed when it completes, throws, or is returned early.
+   *
+   * @param generator - Generator, async generator or iterator returned by the wrapped function
+   * @param isAsync - Whether the generator or iterator is async, i.e. its methods return promises
+   * @param finish - Function that adds the return value or the error as metadata, and closes the subsegment
+   */
+  private static captureGenerator(
+    generator: Iterator<unknown> | AsyncIterator<unknown>,
+    isAsync: boolean,
+    finish: (outcome: { response: unknown } | { error: unknown }) => void
+  ): Iterator<unknown> | AsyncIterator<unknown> {
+    // The resource keeps the async context in which the generator was created, i.e. the one of its subsegment
+    const resource = new AsyncResource('POWERTOOLS_TRACER_GENERATOR');
+    const onResult = (
+      result: IteratorResult<unknown>
+    ): IteratorResult<unknown> => {
+      if (result.done) {
+        finish({ response: result.value });
+      }
+
+      return result;
+    };
+    const onError = (error: unknown): never => {
+      finish({ error });
+      throw error;
+    };
+    const step = (
+      method: 'next' | 'return' | 'throw',
+      value?: unknown
+    ): unknown =>
+      resource.runInAsyncScope(() => {
+        const fn = generator[method] as
+          | ((value?: unknown) => unknown)
+          | undefined;
+        let result: unknown;
+        try {
+          if (fn !== undefined) {
+            result = fn.call(generator, value);
+          } else if (method === 'return') {
+            // Iterators without `return()` are simply left, like `for...of` loops do
+            result = isAsync
+              ? Promise.resolve({ value, done: true })
+              : { value, done: true };
+          } else {
+            throw value;
+          }
+        } catch (error) {
+          return isAsync
+            ? Promise.reject(error).catch(onError)
+            : onError(error);
+        }
+
+        return isAsync
+          ? (result as Promise<IteratorResult<unknown>>).then(onResult, onError)
+          : onResult(result as IteratorResult<unknown>);
+      });
+
+    // Keep the prototype, so that the wrapped generator is still iterable and recognized as a generator
+    return Object.assign(Object.create(Object.getPrototypeOf(generator)), {
+      next: (value?: unknown) => step('next', value),
+      return: (value?: unknown) => step('return', value),
+      throw: (error?: unknown) => step('throw', error),
+    });
+  }
+
+  /**
+   * Wrap an iterable or async iterable that is not a generator, i.e. a Node.js `Readable` stream, so that the iterators
+   * it returns are wrapped with {@link captureGenerator}, and the subsegment is closed when the iteration completes,
+   * throws, or is returned early.
+   *
+   * The iterable is wrapped in a proxy, so that all its other properties and methods stay available.
+   *
+   * @param iterable - Iterable or async iterable returned by the wrapped function
+   * @param finish - Function that adds the return value or the error as metadata, and closes the subsegment
+   */
+  private static captureIterable(
+    iterable: Iterable<unknown> | AsyncIterable<unknown>,
+    finish: (outcome: { response: unknown } | { error: unknown }) => void
+  ): Iterable<unknown> | AsyncIterable<unknown> {
+    // The resource keeps the async context in which the iterable was returned, i.e. the one of its subsegment
+    const resource = new AsyncResource('POWERTOOLS_TRACER_ITERABLE');
+
+    return new Proxy(iterable, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+        if (property !== Symbol.asyncIterator && property !== Symbol.iterator) {
+          return value;
+        }
+
+        return (...args: unknown[]) =>
+          resource.runInAsyncScope(() =>
+            Tracer.captureGenerator(
+              Reflect.apply(value, target, args),
+              property === Symbol.asyncIterator,
+              finish
+            )
+          );
+      },
+    });
+  }
+
+  /**
+   * Close and flush the subsegment, unless it was already closed, i.e. by the timeout watchdog.
+   *
+   * @param subsegment - (_optional_) The subsegment to close
+   */
+  private static closeSubsegment(subsegment?: Subsegment): void {
+    if (subsegment === undefined || subsegment.isClosed()) {
+      return;
+    }
+    subsegment.close();
+    subsegment.flush();
+  }
+
   /**
    * Getter for `customConfigService`.
    * Used internally during initialization.
@@ -699,6 +1275,52 @@ class Tracer extends Utility implements TracerInterface {
     return this.envVarsService;
   }
 
+  /**
+   * Get the reason why an annotation doesn't meet the AWS X-Ray constraints, if any.
+   *
+   * Keys can only contain alphanumeric characters and underscores, and values must be
+   * booleans, finite numbers, or strings of up to 1000 characters.
+   *
+   * @param key - Annotation key
+   * @param value - Annotation value
+   */
+  private static getInvalidAnnotationReason(
+    key: string,
+    value: unknown
+  ): string | undefined {
+    if (!/^[A-Za-z0-9_]+$/.test(key)) {
+      return 'keys can only contain alphanumeric characters and underscores';
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      return 'numeric values must be finite';
+    }
+    if (typeof value === 'string' && value.length > 1000) {
+      return 'string values can be up to 1000 characters long';
+    }
+    if (!['string', 'number', 'boolean'].includes(typeof value)) {
+      return `values must be strings, numbers or booleans, found ${
+        Array.isArray(value) ? 'array' : typeof value
+      }`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the serializer of the responses and errors, using the capture options of the tracer
+   * overridden by the ones of a single decorator or middleware, if any.
+   *
+   * @param options - Capture options overriding the ones of the tracer
+   */
+  private getMetadataSerializer(options?: CaptureOptions): MetadataSerializer {
+    return new MetadataSerializer({
+      maxSize: options?.maxSize ?? this.captureOptions.maxSize,
+      denylist: options?.denylist ?? this.captureOptions.denylist,
+      allowlist: options?.allowlist ?? this.captureOptions.allowlist,
+      serializer: options?.serializer ?? this.captureOptions.serializer,
+    });
+  }
+
   /**
    * Determine if we are running inside an Amplify CLI process.
    * Used internally during initialization.
@@ -710,6 +1332,41 @@ class Tracer extends Utility implements TracerInterface {
     );
   }
 
+  /**
+   * Determine if a value is a generator or an async generator, i.e. the value returned by a generator function.
+   *
+   * @param value - Value returned by a wrapped function
+   */
+  private static isGenerator(
+    value: unknown
+  ): value is Generator | AsyncGenerator {
+    const tag = Object.prototype.toString.call(value);
+
+    return tag === '[object Generator]' || tag === '[object AsyncGenerator]';
+  }
+
+  /**
+   * Determine if a value is an iterable or an async iterable to trace until its iteration completes,
+   * i.e. a Node.js `Readable` stream or an object implementing `Symbol.asyncIterator` or `Symbol.iterator`.
+   *
+   * Strings, arrays, typed arrays, maps and sets are returned as they are, since they are not always iterated.
+   *
+   * @param value - Value returned by a wrapped function
+   */
+  private static isIterable(
+    value: unknown
+  ): value is Iterable<unknown> | AsyncIterable<unknown> {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      !ArrayBuffer.isView(value) &&
+      !(value instanceof Map) &&
+      !(value instanceof Set) &&
+      (Symbol.asyncIterator in value || Symbol.iterator in value)
+    );
+  }
+
   /**
    * Determine if we are running in a Lambda execution environment.
    * Used internally during initialization.
@@ -755,6 +1412,7 @@ class Tracer extends Utility implements TracerInterface {
    *
    * Calls using third-party HTTP request libraries, such as Axios, are supported as long as they use the native http
    * module under the hood. Support for third-party HTTP request libraries is provided on a best effort basis.
+   * Calls made with the global `fetch` function, available from Node.js 18, are traced as well.
    *
    * @see https://docs.aws.amazon.com/xray/latest/devguide/xray-sdk-nodejs-httpclients.html
    *
@@ -786,6 +1444,17 @@ class Tracer extends Utility implements TracerInterface {
       return;
     }
   }
+  /**
+   * Setter for `captureOptions` based on configuration passed.
+   * Used internally during initialization.
+   *
+   * @param captureOptions - Options to limit or redact the responses and errors added as metadata
+   */
+  private setCaptureOptions(captureOptions?: CaptureOptions): void {
+    if (captureOptions !== undefined) {
+      this.captureOptions = captureOptions;
+    }
+  }
 
   /**
    * Setter for `captureResponse` based on configuration passed and environment variables.
@@ -840,20 +1509,62 @@ class Tracer extends Utility implements TracerInterface {
    * @param options - Configuration passed to the tracer
    */
   private setOptions(options: TracerOptions): Tracer {
-    const { enabled, serviceName, captureHTTPsRequests, customConfigService } =
-      options;
+    const {
+      enabled,
+      serviceName,
+      captureHTTPsRequests,
+      customConfigService,
+      provider,
+      captureOptions,
+      tailSampling,
+      timeoutWatchdog,
+    } = options;
 
     this.setEnvVarsService();
     this.setCustomConfigService(customConfigService);
+    this.setProvider(provider);
     this.setTracingEnabled(enabled);
     this.setCaptureResponse();
     this.setCaptureError();
+    this.setCaptureOptions(captureOptions);
     this.setServiceName(serviceName);
+    this.setTailSampling(tailSampling);
+    this.setTimeoutWatchdog(timeoutWatchdog);
     this.setCaptureHTTPsRequests(captureHTTPsRequests);
 
     return this;
   }
 
+  /**
+   * Setter for `provider` based on configuration passed and environment variables.
+   * Used internally during initialization.
+   *
+   * When no provider is passed, the `POWERTOOLS_TRACER_PROVIDER` environment variable can be set to
+   * `opentelemetry` to use the `OtelProviderService`, otherwise the AWS X-Ray `ProviderService` is used.
+   *
+   * @param provider - Provider to use
+   */
+  private setProvider(provider?: ProviderServiceInterface): void {
+    if (provider !== undefined) {
+      this.provider = provider;
+
+      return;
+    }
+
+    const envVarsValue = this.getEnvVarsService().getTracerProvider();
+    if (envVarsValue.toLowerCase() !== 'opentelemetry') {
+      this.provider = new ProviderService();
+
+      return;
+    }
+
+    // The OpenTelemetry API is an optional peer dependency, so it's loaded only when this provider is used
+    const { OtelProviderService } =
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      require('./otel') as typeof import('./otel');
+    this.provider = new OtelProviderService();
+  }
+
   /**
    * Setter for `customConfigService` based on configurations passed and environment variables.
    * Used internally during initialization.
@@ -886,6 +1597,54 @@ class Tracer extends Utility implements TracerInterface {
     this.serviceName = this.getDefaultServiceName();
   }
 
+  /**
+   * Setter for `tailSampler` based on the configuration passed.
+   * Used internally during initialization.
+   *
+   * Tail sampling is disabled unless explicitly enabled, and when tracing is disabled.
+   *
+   * @param tailSampling - Whether to enable tail sampling, or its options
+   */
+  private setTailSampling(tailSampling?: boolean | TailSamplingOptions): void {
+    if (
+      tailSampling === undefined ||
+      tailSampling === false ||
+      !this.isTracingEnabled()
+    ) {
+      return;
+    }
+
+    this.tailSampler = new TailSampler(
+      this.serviceName,
+      tailSampling === true ? {} : tailSampling
+    );
+  }
+
+  /**
+   * Setter for `timeoutWatchdog` based on the configuration passed.
+   * Used internally during initialization.
+   *
+   * The timeout watchdog is disabled unless explicitly enabled, and when tracing is disabled.
+   *
+   * @param timeoutWatchdog - Whether to enable the timeout watchdog, or its options
+   */
+  private setTimeoutWatchdog(
+    timeoutWatchdog?: boolean | TimeoutWatchdogOptions
+  ): void {
+    if (
+      timeoutWatchdog === undefined ||
+      timeoutWatchdog === false ||
+      !this.isTracingEnabled()
+    ) {
+      return;
+    }
+
+    this.timeoutWatchdog = new TimeoutWatchdog(
+      this.serviceName,
+      timeoutWatchdog === true ? {} : timeoutWatchdog
+    );
+  }
+
   /**
    * Setter for `tracingEnabled` based on configurations passed and environment variables.
    * Used internally during initialization.
@@ -917,6 +1676,12 @@ class Tracer extends Utility implements TracerInterface {
       return;
     }
 
+    // Only the AWS X-Ray SDK needs the segment created by AWS Lambda, the other providers can be used also
+    // outside of it, i.e. the recording one in tests or the OpenTelemetry one with a local collector
+    if (!(this.provider instanceof ProviderService)) {
+      return;
+    }
+
     if (
       this.isAmplifyCli() ||
       this.isLambdaSamCli() ||
@@ -1,14 +1,27 @@
 import {
+  AnnotationPaths,
   CaptureLambdaHandlerOptions,
   CaptureMethodOptions,
+  CaptureOptions,
   HandlerMethodDecorator,
   MethodDecorator,
+  TraceContext,
+  TraceContextHeaders,
 } from './types';
 import { Segment, Subsegment } from 'aws-xray-sdk-core';
+import { Context } from 'aws-lambda';
 
 interface TracerInterface {
-  addErrorAsMetadata(error: Error, remote?: boolean): void;
-  addResponseAsMetadata(data?: unknown, methodName?: string): void;
+  addErrorAsMetadata(
+    error: Error,
+    remote?: boolean,
+    options?: CaptureOptions
+  ): void;
+  addResponseAsMetadata(
+    data?: unknown,
+    methodName?: string,
+    options?: CaptureOptions
+  ): void;
   addServiceNameAnnotation(): void;
   annotateColdStart(): void;
   captureAWS<T>(aws: T): void | T;
@@ -18,17 +31,32 @@ interface TracerInterface {
     options?: CaptureLambdaHandlerOptions
   ): HandlerMethodDecorator;
   captureMethod(options?: CaptureMethodOptions): MethodDecorator;
+  extractTraceContext(carrier: object): TraceContext | undefined;
   getSegment(): Segment | Subsegment | undefined;
   getRootXrayTraceId(): string | undefined;
+  getTraceContextHeaders(): TraceContextHeaders;
+  injectTraceContext<T extends object>(carrier: T): T;
   isTraceSampled(): boolean;
   isTracingEnabled(): boolean;
   putAnnotation: (key: string, value: string | number | boolean) => void;
+  putAnnotationsFromEvent(event: unknown, annotations: AnnotationPaths): void;
   putMetadata: (
     key: string,
     value: unknown,
     namespace?: string | undefined
   ) => void;
   setSegment(segment: Segment | Subsegment): void;
+  startTailSampling(subsegment: Segment | Subsegment, context?: Context): void;
+  startTimeoutWatchdog(
+    subsegment: Segment | Subsegment,
+    context?: Context
+  ): void;
+  stopTailSampling(failed?: boolean): void;
+  stopTimeoutWatchdog(): void;
+  wrap<T extends (...args: never[]) => unknown>(
+    fn: T,
+    options?: CaptureMethodOptions
+  ): T;
 }
 
 export { TracerInterface };
@@ -0,0 +1,45 @@
+/**
+ * Annotations, and the JMESPath expressions to extract them, for the events
+ * of the most common AWS services that invoke Lambda functions.
+ *
+ * @example
+ * ```typescript
+ * import { Tracer, captureLambdaHandler, annotationPresets } from '@aws-lambda-powertools/tracer';
+ * import middy from '@middy/core';
+ *
+ * const tracer = new Tracer();
+ *
+ * export const handler = middy(async () => {
+ *   // ...
+ * }).use(
+ *   captureLambdaHandler(tracer, {
+ *     annotations: {
+ *       ...annotationPresets.API_GATEWAY_HTTP,
+ *       tenant: 'requestContext.authorizer.lambda.tenantId',
+ *     },
+ *   })
+ * );
+ * ```
+ */
+const annotationPresets = {
+  API_GATEWAY_REST: {
+    httpMethod: 'httpMethod',
+    route: 'resource',
+    stage: 'requestContext.stage',
+  },
+  API_GATEWAY_HTTP: {
+    httpMethod: 'requestContext.http.method',
+    route: 'routeKey',
+    stage: 'requestContext.stage',
+  },
+  APPLICATION_LOAD_BALANCER: {
+    httpMethod: 'httpMethod',
+    path: 'path',
+  },
+  EVENT_BRIDGE: {
+    source: 'source',
+    detailType: '"detail-type"',
+  },
+} as const;
+
+export { annotationPresets };
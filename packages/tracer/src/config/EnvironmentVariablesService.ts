@@ -12,6 +12,7 @@ class EnvironmentVariablesService
   private tracerCaptureHTTPsRequestsVariable =
     'POWERTOOLS_TRACER_CAPTURE_HTTPS_REQUESTS';
   private tracerCaptureResponseVariable = 'POWERTOOLS_TRACER_CAPTURE_RESPONSE';
+  private tracerProviderVariable = 'POWERTOOLS_TRACER_PROVIDER';
   private tracingEnabledVariable = 'POWERTOOLS_TRACE_ENABLED';
 
   public getAwsExecutionEnv(): string {
@@ -26,6 +27,10 @@ class EnvironmentVariablesService
     return this.get(this.samLocalVariable);
   }
 
+  public getTracerProvider(): string {
+    return this.get(this.tracerProviderVariable);
+  }
+
   public getTracingCaptureError(): string {
     return this.get(this.tracerCaptureErrorVariable);
   }
@@ -0,0 +1,33 @@
+import type { Context } from 'aws-lambda';
+
+/**
+ * Milliseconds before the function times out at which the timeout watchdog and the tail sampler act by default.
+ */
+const DEFAULT_TIMEOUT_MARGIN = 500;
+
+/**
+ * It starts a timer calling the callback when the remaining time of the invocation gets below the timeout margin.
+ *
+ * The timer doesn't keep the event loop alive, and it's not started without a Lambda context.
+ *
+ * @param {number} timeoutMargin - Milliseconds before the function times out at which the callback is called
+ * @param {() => void} callback
+ * @param {Context} [context] - The Lambda context of the invocation
+ * @returns {NodeJS.Timeout|undefined} The timer, or `undefined` if it was not started
+ */
+const startDeadlineTimer = (
+  timeoutMargin: number,
+  callback: () => void,
+  context?: Context
+): NodeJS.Timeout | undefined => {
+  if (typeof context?.getRemainingTimeInMillis !== 'function') {
+    return;
+  }
+
+  return setTimeout(
+    callback,
+    Math.max(context.getRemainingTimeInMillis() - timeoutMargin, 0)
+  ).unref();
+};
+
+export { DEFAULT_TIMEOUT_MARGIN, startDeadlineTimer };
@@ -1,7 +1,33 @@
 import { Tracer } from '.';
-import { TracerOptions } from './types';
+import { CaptureMethodOptions, TracerOptions } from './types';
 
 const createTracer = (options: TracerOptions = {}): Tracer =>
   new Tracer(options);
 
-export { createTracer };
+/**
+ * Higher-order function that returns a wrapper tracing the functions passed to it with the given Tracer instance,
+ * like {@link Tracer.wrap}. It's useful to trace the functions of functional codebases at the point of their definition.
+ *
+ * @example
+ * ```typescript
+ * import { Tracer, traced } from '@aws-lambda-powertools/tracer';
+ *
+ * const tracer = new Tracer({ serviceName: 'serverlessAirline' });
+ *
+ * export const getBooking = traced(tracer, { subSegmentName: '### getBooking' })(
+ *   async (bookingId: string) => {
+ *     ...
+ *   }
+ * );
+ * ```
+ *
+ * @param tracer - The Tracer instance to use for tracing
+ * @param options - (_optional_) Options for the wrapper
+ * @returns A function that returns the traced version of the function passed to it
+ */
+const traced =
+  (tracer: Tracer, options?: CaptureMethodOptions) =>
+  <T extends (...args: never[]) => unknown>(fn: T): T =>
+    tracer.wrap(fn, options);
+
+export { createTracer, traced };
@@ -2,3 +2,5 @@ export * from './helpers';
 export * from './Tracer';
 export * from './TracerInterface';
 export * from './middleware/middy';
+export * from './provider';
+export * from './annotationPresets';
@@ -49,11 +49,11 @@ const captureLambdaHandler = (
   const setCleanupFunction = (request: MiddyLikeRequest): void => {
     request.internal = {
       ...request.internal,
-      [TRACER_KEY]: close,
+      [TRACER_KEY]: (): void => close(),
     };
   };
 
-  const open = (): void => {
+  const open = (request: MiddyLikeRequest): void => {
     const segment = target.getSegment();
     if (segment === undefined) {
       return;
@@ -64,24 +64,39 @@ const captureLambdaHandler = (
       `## ${process.env._HANDLER}`
     );
     target.setSegment(handlerSegment);
+    target.startTimeoutWatchdog(handlerSegment, request.context);
+    target.startTailSampling(handlerSegment, request.context);
   };
 
-  const close = (): void => {
+  /**
+   * Close the handler subsegment, stop watching it, and stop recording its subsegments when tail sampling is enabled.
+   *
+   * @param failed - Whether the handler failed, in which case the recorded subsegments are flushed
+   */
+  const close = (failed = false): void => {
     if (handlerSegment === undefined || lambdaSegment === null) {
       return;
     }
-    handlerSegment.close();
+    target.stopTimeoutWatchdog();
+    // The subsegment was already closed if the timeout watchdog fired
+    if (!handlerSegment.isClosed()) {
+      handlerSegment.close();
+    }
     target.setSegment(lambdaSegment);
+    target.stopTailSampling(failed);
   };
 
   const captureLambdaHandlerBefore = async (
     request: MiddyLikeRequest
   ): Promise<void> => {
     if (target.isTracingEnabled()) {
-      open();
+      open(request);
       setCleanupFunction(request);
       target.annotateColdStart();
       target.addServiceNameAnnotation();
+      if (options?.annotations) {
+        target.putAnnotationsFromEvent(request.event, options.annotations);
+      }
     }
   };
 
@@ -90,7 +105,11 @@ const captureLambdaHandler = (
   ): Promise<void> => {
     if (target.isTracingEnabled()) {
       if (options?.captureResponse ?? true) {
-        target.addResponseAsMetadata(request.response, process.env._HANDLER);
+        target.addResponseAsMetadata(
+          request.response,
+          process.env._HANDLER,
+          options
+        );
       }
       close();
     }
@@ -100,8 +119,8 @@ const captureLambdaHandler = (
     request: MiddyLikeRequest
   ): Promise<void> => {
     if (target.isTracingEnabled()) {
-      target.addErrorAsMetadata(request.error as Error);
-      close();
+      target.addErrorAsMetadata(request.error as Error, false, options);
+      close(true);
     }
   };
 
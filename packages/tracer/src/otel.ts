@@ -0,0 +1,3 @@
+export * from './provider/OtelProviderService';
+export * from './provider/OtelSegment';
+export * from './provider/OtelSubsegment';
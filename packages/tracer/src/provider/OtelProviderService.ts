@@ -0,0 +1,335 @@
+import {
+  context,
+  Context,
+  SpanKind,
+  trace,
+  Tracer as OtelTracer,
+} from '@opentelemetry/api';
+import { Namespace } from 'cls-hooked';
+import { getNamespace, Segment, Subsegment } from 'aws-xray-sdk-core';
+import { addUserAgentMiddleware } from '@aws-lambda-powertools/commons';
+import { PT_VERSION } from '@aws-lambda-powertools/commons/lib/version';
+import { ProviderServiceInterface } from '.';
+import { OtelSegment } from './OtelSegment';
+import { OtelSubsegment } from './OtelSubsegment';
+
+const middlewareOptions = {
+  step: 'initialize',
+  name: 'powertoolsClientSpan',
+  tags: ['POWERTOOLS', 'TRACER'],
+};
+
+type AWSv3ClientMiddlewareContext = {
+  clientName?: string;
+  commandName?: string;
+};
+
+type AWSv3ClientMetadata = {
+  $metadata?: {
+    httpStatusCode?: number;
+    requestId?: string;
+  };
+};
+
+type AWSv3ClientMiddleware = (
+  next: (args: unknown) => Promise<{ output?: AWSv3ClientMetadata }>,
+  context: AWSv3ClientMiddlewareContext
+) => (args: unknown) => Promise<{ output?: AWSv3ClientMetadata }>;
+
+type AWSv3Client = {
+  middlewareStack: {
+    add(middleware: AWSv3ClientMiddleware, options: object): void;
+    identify(): string[];
+  };
+};
+
+/**
+ * Provider that maps the Tracer on top of the [OpenTelemetry API](https://opentelemetry.io/docs/instrumentation/js/),
+ * so that traces can be exported to any OTLP compatible collector instead of AWS X-Ray.
+ *
+ * Subsegments are backed by OpenTelemetry spans, started with the tracer of the globally registered
+ * tracer provider, or with the one passed to the constructor. Annotations and metadata are set as span attributes,
+ * and errors are recorded as span exceptions.
+ *
+ * The OpenTelemetry SDK, including a context manager, span processors and exporters, must be registered by the function,
+ * i.e. with the `@opentelemetry/sdk-trace-node` package or the AWS Distro for OpenTelemetry Lambda layer.
+ * The `@opentelemetry/api` package is an optional peer dependency of the Tracer, so it must be installed too.
+ *
+ * @example
+ * ```typescript
+ * import { Tracer } from '@aws-lambda-powertools/tracer';
+ * import { OtelProviderService } from '@aws-lambda-powertools/tracer/lib/otel';
+ *
+ * const tracer = new Tracer({
+ *   serviceName: 'serverlessAirline',
+ *   provider: new OtelProviderService(),
+ * });
+ * ```
+ *
+ * @class
+ * @implements {ProviderServiceInterface}
+ */
+class OtelProviderService implements ProviderServiceInterface {
+  private activeSegment?: {
+    segment: Segment | Subsegment;
+    scope?: OtelSubsegment;
+  };
+  private readonly tracer: OtelTracer;
+
+  /**
+   * @param {OtelTracer} [tracer] - OpenTelemetry tracer used to start the spans, by default the one of the global tracer provider
+   */
+  public constructor(tracer?: OtelTracer) {
+    this.tracer =
+      tracer ?? trace.getTracer('@aws-lambda-powertools/tracer', PT_VERSION);
+  }
+
+  /**
+   * Tracing AWS SDK v2 clients is not supported, use the OpenTelemetry AWS SDK instrumentation instead.
+   */
+  public captureAWS<T>(awssdk: T): T {
+    console.warn(
+      'The OpenTelemetry provider does not support tracing AWS SDK v2 clients, the SDK will not be traced'
+    );
+
+    return awssdk;
+  }
+
+  /**
+   * Tracing AWS SDK v2 clients is not supported, use the OpenTelemetry AWS SDK instrumentation instead.
+   */
+  public captureAWSClient<T>(service: T): T {
+    console.warn(
+      'The OpenTelemetry provider does not support tracing AWS SDK v2 clients, the client will not be traced'
+    );
+
+    return service;
+  }
+
+  /**
+   * It adds a middleware to the AWS SDK v3 client that wraps each command in a span of kind `CLIENT`,
+   * named `<service>.<operation>` and with the `rpc.*`, `http.status_code` and `aws.request_id` attributes.
+   */
+  public captureAWSv3Client<T>(service: T): T {
+    addUserAgentMiddleware(service, 'tracer');
+
+    const { middlewareStack } = service as unknown as AWSv3Client;
+    if (
+      middlewareStack
+        .identify()
+        .some((name) => name.startsWith(middlewareOptions.name))
+    ) {
+      return service;
+    }
+    middlewareStack.add(this.clientSpanMiddleware(), middlewareOptions);
+
+    return service;
+  }
+
+  public captureAsyncFunc(
+    name: string,
+    fcn: (subsegment?: Subsegment) => unknown,
+    _parent?: Segment | Subsegment
+  ): unknown {
+    const subsegment = OtelSubsegment.start(
+      this.tracer,
+      name,
+      this.getActiveContext()
+    );
+
+    return context.with(subsegment.context, () => fcn(subsegment));
+  }
+
+  /**
+   * Requests made with `fetch` are traced by the OpenTelemetry undici instrumentation registered with the SDK, if any.
+   */
+  public captureFetchGlobal(): void {
+    return;
+  }
+
+  public captureFunc(
+    name: string,
+    fcn: (subsegment?: Subsegment) => unknown,
+    _parent?: Segment | Subsegment
+  ): unknown {
+    const subsegment = OtelSubsegment.start(
+      this.tracer,
+      name,
+      this.getActiveContext()
+    );
+
+    return context.with(subsegment.context, () => {
+      try {
+        const result = fcn(subsegment);
+        subsegment.close();
+
+        return result;
+      } catch (error) {
+        subsegment.close(error as Error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * HTTP(s) requests are traced by the OpenTelemetry HTTP instrumentation registered with the SDK, if any.
+   */
+  public captureHTTPsGlobal(): void {
+    return;
+  }
+
+  public getNamespace(): Namespace {
+    return getNamespace();
+  }
+
+  /**
+   * It returns the subsegment of the innermost span started by this provider in the active context,
+   * unless a segment was set afterwards in the same context with `setSegment()`.
+   * When none of them is available, it returns a segment representing the active context.
+   */
+  public getSegment(): Segment | Subsegment | undefined {
+    const contextSubsegment = OtelSubsegment.fromContext(context.active());
+    if (
+      this.activeSegment !== undefined &&
+      this.activeSegment.scope === contextSubsegment
+    ) {
+      return this.activeSegment.segment;
+    }
+
+    return contextSubsegment ?? new OtelSegment(context.active(), this.tracer);
+  }
+
+  public putAnnotation(key: string, value: string | number | boolean): void {
+    const segment = this.getSegment() as Segment | Subsegment;
+    if (segment instanceof Segment) {
+      console.warn(
+        'You cannot annotate the main segment in a Lambda execution environment'
+      );
+
+      return;
+    }
+    segment.addAnnotation(key, value);
+  }
+
+  public putMetadata(key: string, value: unknown, namespace?: string): void {
+    const segment = this.getSegment() as Segment | Subsegment;
+    if (segment instanceof Segment) {
+      console.warn(
+        'You cannot add metadata to the main segment in a Lambda execution environment'
+      );
+
+      return;
+    }
+    segment.addMetadata(key, value, namespace);
+  }
+
+  /**
+   * The context missing strategy is specific to AWS X-Ray, so it's ignored.
+   */
+  public setContextMissingStrategy(_strategy: unknown): void {
+    return;
+  }
+
+  /**
+   * The daemon address is specific to AWS X-Ray, so it's ignored.
+   */
+  public setDaemonAddress(_address: string): void {
+    return;
+  }
+
+  /**
+   * The logger is specific to the AWS X-Ray SDK, so it's ignored.
+   */
+  public setLogger(_logObj: unknown): void {
+    return;
+  }
+
+  /**
+   * It sets the segment returned by `getSegment()` and used as parent of the new subsegments,
+   * until another span is started by this provider or another segment is set.
+   */
+  public setSegment(segment: Segment | Subsegment): void {
+    this.activeSegment = {
+      segment,
+      scope: OtelSubsegment.fromContext(context.active()),
+    };
+  }
+
+  /**
+   * It returns the middleware that wraps each command of an AWS SDK v3 client in a span.
+   *
+   * @returns {AWSv3ClientMiddleware}
+   */
+  private clientSpanMiddleware(): AWSv3ClientMiddleware {
+    return (next, middlewareContext) => async (args) => {
+      const service = (middlewareContext.clientName || 'AWS').replace(
+        /Client$/,
+        ''
+      );
+      const operation = (middlewareContext.commandName || '').replace(
+        /Command$/,
+        ''
+      );
+      const subsegment = OtelSubsegment.start(
+        this.tracer,
+        `${service}.${operation}`,
+        this.getActiveContext(),
+        SpanKind.CLIENT
+      );
+      subsegment.span.setAttributes({
+        'rpc.system': 'aws-api',
+        'rpc.service': service,
+        'rpc.method': operation,
+      });
+
+      try {
+        const response = await context.with(subsegment.context, () =>
+          next(args)
+        );
+        this.setResponseAttributes(subsegment, response.output);
+
+        return response;
+      } catch (error) {
+        this.setResponseAttributes(subsegment, error as AWSv3ClientMetadata);
+        subsegment.addError(error as Error);
+        throw error;
+      } finally {
+        subsegment.close();
+      }
+    };
+  }
+
+  /**
+   * It returns the context of the active segment, used as parent of the new spans.
+   *
+   * @returns {Context}
+   */
+  private getActiveContext(): Context {
+    const segment = this.getSegment();
+
+    return segment instanceof OtelSubsegment || segment instanceof OtelSegment
+      ? segment.context
+      : context.active();
+  }
+
+  /**
+   * It sets the status code and the request id of an AWS SDK v3 response or error as span attributes.
+   *
+   * @param {OtelSubsegment} subsegment
+   * @param {AWSv3ClientMetadata} [response]
+   */
+  private setResponseAttributes(
+    subsegment: OtelSubsegment,
+    response?: AWSv3ClientMetadata
+  ): void {
+    const { httpStatusCode, requestId } = response?.$metadata ?? {};
+    if (httpStatusCode !== undefined) {
+      subsegment.span.setAttribute('http.status_code', httpStatusCode);
+    }
+    if (requestId !== undefined) {
+      subsegment.span.setAttribute('aws.request_id', requestId);
+    }
+  }
+}
+
+export { OtelProviderService };
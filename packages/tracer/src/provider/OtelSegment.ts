@@ -0,0 +1,53 @@
+import { Context, trace, Tracer as OtelTracer } from '@opentelemetry/api';
+import { Segment } from 'aws-xray-sdk-core';
+import { OtelSubsegment } from './OtelSubsegment';
+
+/**
+ * Segment representing the OpenTelemetry context in which the function runs, used by the `OtelProviderService`.
+ *
+ * It plays the same role as the facade segment created by AWS Lambda when using AWS X-Ray:
+ * the context can hold a span started by another instrumentation, i.e. the one of the invocation,
+ * which the Tracer doesn't own, so the segment can't be annotated, closed or flushed.
+ *
+ * @class
+ * @extends {Segment}
+ */
+class OtelSegment extends Segment {
+  public readonly context: Context;
+  private readonly tracer: OtelTracer;
+
+  /**
+   * @param {Context} context - Context in which the function runs
+   * @param {OtelTracer} tracer - OpenTelemetry tracer used to start the spans of the subsegments
+   */
+  public constructor(context: Context, tracer: OtelTracer) {
+    super(process.env.AWS_LAMBDA_FUNCTION_NAME || 'facade');
+    this.context = context;
+    this.tracer = tracer;
+    const span = trace.getSpan(context);
+    if (span !== undefined) {
+      this.id = span.spanContext().spanId;
+    }
+  }
+
+  public addNewSubsegment(name: string): OtelSubsegment {
+    return OtelSubsegment.start(this.tracer, name, this.context);
+  }
+
+  /**
+   * The span in the context, if any, is ended by the instrumentation that started it.
+   */
+  public close(): void {
+    return;
+  }
+
+  /**
+   * Spans are exported by the span processors configured in the OpenTelemetry SDK,
+   * so there's nothing to flush.
+   */
+  public flush(): void {
+    return;
+  }
+}
+
+export { OtelSegment };
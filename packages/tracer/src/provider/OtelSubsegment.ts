@@ -0,0 +1,155 @@
+import {
+  AttributeValue,
+  Context,
+  createContextKey,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  Tracer as OtelTracer,
+} from '@opentelemetry/api';
+import { Subsegment } from 'aws-xray-sdk-core';
+
+const SUBSEGMENT_KEY = createContextKey('Powertools Tracer subsegment');
+
+/**
+ * Subsegment backed by an OpenTelemetry span, used by the `OtelProviderService`.
+ *
+ * It extends the AWS X-Ray SDK `Subsegment` so that it can be used everywhere the Tracer
+ * expects one, while annotations, metadata and errors are recorded on the span:
+ * * annotations are set as span attributes with the same key
+ * * metadata are set as span attributes with the `metadata.<namespace>.<key>` key, objects are serialized as JSON
+ * * errors are recorded as span exceptions and set the span status to `ERROR`
+ *
+ * Closing the subsegment ends the span, which is then exported by the span processors of the OpenTelemetry SDK.
+ *
+ * @class
+ * @extends {Subsegment}
+ */
+class OtelSubsegment extends Subsegment {
+  public readonly context: Context;
+  public readonly span: Span;
+  private readonly tracer: OtelTracer;
+
+  /**
+   * @param {string} name - Name of the subsegment, used as span name
+   * @param {Span} span - Span backing the subsegment
+   * @param {Context} parentContext - Context in which the span was started
+   * @param {OtelTracer} tracer - OpenTelemetry tracer used to start the spans of the nested subsegments
+   */
+  public constructor(
+    name: string,
+    span: Span,
+    parentContext: Context,
+    tracer: OtelTracer
+  ) {
+    super(name);
+    this.span = span;
+    this.tracer = tracer;
+    this.id = span.spanContext().spanId;
+    this.context = trace
+      .setSpan(parentContext, span)
+      .setValue(SUBSEGMENT_KEY, this);
+  }
+
+  public addAnnotation(key: string, value: string | number | boolean): void {
+    this.span.setAttribute(key, value);
+  }
+
+  public addError(err: Error | string, _remote?: boolean): void {
+    this.span.recordException(err);
+    this.span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: typeof err === 'string' ? err : err.message,
+    });
+  }
+
+  public addErrorFlag(): void {
+    this.span.setStatus({ code: SpanStatusCode.ERROR });
+  }
+
+  public addFaultFlag(): void {
+    this.addErrorFlag();
+  }
+
+  public addMetadata(key: string, value: unknown, namespace = 'default'): void {
+    const attributeValue = this.toAttributeValue(value);
+    if (attributeValue === undefined) {
+      return;
+    }
+    this.span.setAttribute(`metadata.${namespace}.${key}`, attributeValue);
+  }
+
+  public addNewSubsegment(name: string): OtelSubsegment {
+    return OtelSubsegment.start(this.tracer, name, this.context);
+  }
+
+  public close(err?: Error | string | null, remote?: boolean): void {
+    if (err) {
+      this.addError(err, remote);
+    }
+    delete this.in_progress;
+    this.span.end();
+  }
+
+  /**
+   * Spans are exported by the span processors configured in the OpenTelemetry SDK,
+   * so there's nothing to flush.
+   */
+  public flush(): void {
+    return;
+  }
+
+  /**
+   * It returns the subsegment stored in the given context, if any.
+   *
+   * @param {Context} context
+   * @returns {OtelSubsegment|undefined}
+   */
+  public static fromContext(context: Context): OtelSubsegment | undefined {
+    return context.getValue(SUBSEGMENT_KEY) as OtelSubsegment | undefined;
+  }
+
+  /**
+   * It starts a new span in the given context and returns the subsegment backed by it.
+   *
+   * @param {OtelTracer} tracer
+   * @param {string} name
+   * @param {Context} parentContext
+   * @param {SpanKind} [kind] - Kind of the span, `INTERNAL` by default
+   * @returns {OtelSubsegment}
+   */
+  public static start(
+    tracer: OtelTracer,
+    name: string,
+    parentContext: Context,
+    kind: SpanKind = SpanKind.INTERNAL
+  ): OtelSubsegment {
+    const span = tracer.startSpan(name, { kind }, parentContext);
+
+    return new OtelSubsegment(name, span, parentContext, tracer);
+  }
+
+  /**
+   * It converts a metadata value into a value that can be set as span attribute.
+   *
+   * @param {unknown} value
+   * @returns {AttributeValue|undefined}
+   */
+  private toAttributeValue(value: unknown): AttributeValue | undefined {
+    if (
+      typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'boolean'
+    ) {
+      return value;
+    }
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+}
+
+export { OtelSubsegment };
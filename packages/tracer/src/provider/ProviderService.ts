@@ -20,6 +20,11 @@ import {
 } from 'aws-xray-sdk-core';
 import { addUserAgentMiddleware } from '@aws-lambda-powertools/commons';
 
+/**
+ * Marker of the `fetch` function patched by {@link ProviderService.captureFetchGlobal}.
+ */
+const FETCH_CAPTURED = Symbol.for('aws-lambda-powertools.tracer.fetch');
+
 class ProviderService implements ProviderServiceInterface {
   public captureAWS<T>(awssdk: T): T {
     return captureAWS(awssdk);
@@ -45,6 +50,81 @@ class ProviderService implements ProviderServiceInterface {
     return captureAsyncFunc(name, fcn);
   }
 
+  /**
+   * Patch the global `fetch` function, available from Node.js 18, so that each request creates a subsegment
+   * named after the host, with the URL, method, status and content length of the request and of its response.
+   *
+   * Like with the `http` and `https` modules, the `X-Amzn-Trace-Id` header is added to each request, unless already present,
+   * so that the downstream services traced with AWS X-Ray are connected to the trace. The function is patched only once,
+   * also when creating multiple Tracer instances.
+   */
+  public captureFetchGlobal(): void {
+    if (
+      typeof globalThis.fetch !== 'function' ||
+      FETCH_CAPTURED in globalThis.fetch
+    ) {
+      return;
+    }
+
+    const originalFetch = globalThis.fetch;
+    const capturedFetch = async (
+      input: RequestInfo | URL,
+      init?: RequestInit
+    ): Promise<Response> => {
+      const parent = this.getSegment();
+      const request = ProviderService.getFetchRequestData(input, init);
+      if (parent === undefined || request === undefined) {
+        return originalFetch(input, init);
+      }
+
+      const subsegment = parent.addNewSubsegment(new URL(request.url).hostname);
+      subsegment.namespace = 'remote';
+      const root = parent instanceof Segment ? parent : parent.segment;
+      const headers = new Headers(
+        init?.headers ?? (input instanceof Request ? input.headers : undefined)
+      );
+      if (!headers.has('X-Amzn-Trace-Id')) {
+        headers.set(
+          'X-Amzn-Trace-Id',
+          `Root=${root.trace_id};Parent=${subsegment.id};Sampled=${
+            subsegment.notTraced ? '0' : '1'
+          }`
+        );
+      }
+
+      try {
+        const response = await originalFetch(input, { ...init, headers });
+        const contentLength = response.headers.get('content-length');
+        if (response.status === 429) {
+          subsegment.addThrottleFlag();
+        }
+        if (response.status >= 500) {
+          subsegment.addFaultFlag();
+        } else if (response.status >= 400) {
+          subsegment.addErrorFlag();
+        }
+        subsegment.addAttribute('http', {
+          request,
+          response: {
+            status: response.status,
+            ...(contentLength !== null && {
+              content_length: Number(contentLength),
+            }),
+          },
+        });
+        subsegment.close();
+
+        return response;
+      } catch (error) {
+        subsegment.addAttribute('http', { request });
+        subsegment.close(error as Error);
+        throw error;
+      }
+    };
+
+    globalThis.fetch = Object.assign(capturedFetch, { [FETCH_CAPTURED]: true });
+  }
+
   public captureFunc(
     name: string,
     fcn: (subsegment?: Subsegment) => unknown,
@@ -121,6 +201,34 @@ class ProviderService implements ProviderServiceInterface {
   public setSegment(segment: Segment | Subsegment): void {
     setSegment(segment);
   }
+
+  /**
+   * Get the URL, without its query string, and the method of a `fetch` request.
+   *
+   * @param input - The resource passed to `fetch`
+   * @param init - The options passed to `fetch`
+   * @returns The request data, or `undefined` if the URL is not valid
+   */
+  private static getFetchRequestData(
+    input: RequestInfo | URL,
+    init?: RequestInit
+  ): { url: string; method: string } | undefined {
+    let url: URL;
+    try {
+      url = new URL(
+        typeof input === 'string' || input instanceof URL ? input : input.url
+      );
+    } catch {
+      return undefined;
+    }
+
+    return {
+      url: `${url.origin}${url.pathname}`,
+      method: (
+        init?.method ?? (input instanceof Request ? input.method : 'GET')
+      ).toUpperCase(),
+    };
+  }
 }
 
 export { ProviderService };
@@ -32,6 +32,8 @@ interface ProviderServiceInterface {
     parent?: Segment | Subsegment
   ): unknown;
 
+  captureFetchGlobal?(): void;
+
   captureHTTPsGlobal(): void;
 
   putAnnotation(key: string, value: string | number | boolean): void;
@@ -0,0 +1,57 @@
+import { Segment, Subsegment } from 'aws-xray-sdk-core';
+import { RecordedSubsegment } from './RecordedSubsegment';
+
+/**
+ * Root segment of the tree recorded by the `RecordingProviderService`.
+ *
+ * Like the facade segment created by AWS Lambda, it's never sent to the daemon:
+ * only its subsegments are, when they are closed.
+ *
+ * @class
+ * @extends {Segment}
+ */
+class RecordedSegment extends Segment {
+  // Not enumerable, so that it's not serialized with the segment
+  private readonly onSubsegmentClosed!: (subsegment: Subsegment) => void;
+
+  /**
+   * @param {string} name - Name of the segment
+   * @param {Function} onSubsegmentClosed - Function called with each subsegment of the tree when it's closed
+   * @param {string} [rootId] - AWS X-Ray trace id of the segment, generated if not passed
+   */
+  public constructor(
+    name: string,
+    onSubsegmentClosed: (subsegment: Subsegment) => void,
+    rootId?: string
+  ) {
+    super(name, rootId);
+    Object.defineProperty(this, 'onSubsegmentClosed', {
+      value: onSubsegmentClosed,
+    });
+  }
+
+  public addNewSubsegment(name: string): RecordedSubsegment {
+    const subsegment = new RecordedSubsegment(name);
+    this.addSubsegment(subsegment);
+
+    return subsegment;
+  }
+
+  /**
+   * The segment is never sent to the daemon.
+   */
+  public flush(): void {
+    return;
+  }
+
+  /**
+   * It notifies that a subsegment of the tree has been closed.
+   *
+   * @param {Subsegment} subsegment
+   */
+  public notifySubsegmentClosed(subsegment: Subsegment): void {
+    this.onSubsegmentClosed(subsegment);
+  }
+}
+
+export { RecordedSegment };
@@ -0,0 +1,44 @@
+import { Subsegment } from 'aws-xray-sdk-core';
+import { RecordedSegment } from './RecordedSegment';
+
+/**
+ * Subsegment of the tree recorded by the `RecordingProviderService`.
+ *
+ * It records names, annotations, metadata, errors and timings like any AWS X-Ray subsegment,
+ * but it's never removed from the tree to be streamed, and it's sent to the daemon, if any,
+ * as soon as it's closed rather than when flushed.
+ *
+ * @class
+ * @extends {Subsegment}
+ */
+class RecordedSubsegment extends Subsegment {
+  public addNewSubsegment(name: string): RecordedSubsegment {
+    const subsegment = new RecordedSubsegment(name);
+    this.addSubsegment(subsegment);
+
+    return subsegment;
+  }
+
+  public close(err?: Error | string | null, remote?: boolean): void {
+    super.close(err, remote);
+    if (this.segment instanceof RecordedSegment) {
+      this.segment.notifySubsegmentClosed(this);
+    }
+  }
+
+  /**
+   * The subsegment is sent to the daemon when closed, so there's nothing to flush.
+   */
+  public flush(): void {
+    return;
+  }
+
+  /**
+   * The recorded subsegments are kept in the tree, so they're never streamed.
+   */
+  public streamSubsegments(): undefined {
+    return;
+  }
+}
+
+export { RecordedSubsegment };
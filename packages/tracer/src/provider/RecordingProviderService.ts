@@ -0,0 +1,313 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createSocket, Socket } from 'node:dgram';
+import { AssertionError } from 'node:assert';
+import { Namespace } from 'cls-hooked';
+import { getNamespace, Segment, Subsegment } from 'aws-xray-sdk-core';
+import { ProviderServiceInterface } from '.';
+import { RecordedSegment } from './RecordedSegment';
+import { SubsegmentAssertion } from './SubsegmentAssertion';
+
+const PROTOCOL_HEADER = '{"format":"json","version":1}';
+
+type RecordingProviderServiceOptions = {
+  /**
+   * Address of a daemon, i.e. `127.0.0.1:2000`, to which each subsegment is sent
+   * using the AWS X-Ray daemon UDP wire format when it's closed (default: not sent)
+   */
+  daemonAddress?: string;
+};
+
+/**
+ * Provider that records the segments and subsegments in memory instead of sending them to AWS X-Ray,
+ * to test the tracing of a function without mocking the provider or running the AWS X-Ray daemon.
+ *
+ * The recorded tree starts from a root segment, which plays the role of the facade segment created by AWS Lambda,
+ * and contains the names, annotations, metadata, errors, timings and parent of each subsegment.
+ * It can be inspected with `getRecordedSegment()` and `getSubsegments()`, or with the assertions returned by `expectSubsegment()`.
+ *
+ * Optionally, each subsegment is also sent to a local daemon when it's closed, i.e. to a fake daemon used in integration tests.
+ *
+ * When using this provider, the Tracer is enabled also when not running in AWS Lambda,
+ * unless tracing is explicitly disabled.
+ *
+ * @example
+ * ```typescript
+ * import { Tracer, RecordingProviderService } from '@aws-lambda-powertools/tracer';
+ *
+ * const provider = new RecordingProviderService();
+ * const tracer = new Tracer({ serviceName: 'serverlessAirline', provider });
+ *
+ * // ... invoke a handler instrumented with the tracer
+ *
+ * provider
+ *   .expectSubsegment('## index.handler')
+ *   .toHaveAnnotation('ColdStart', true)
+ *   .toBeClosed();
+ * ```
+ *
+ * @class
+ * @implements {ProviderServiceInterface}
+ */
+class RecordingProviderService implements ProviderServiceInterface {
+  private activeSegment?: {
+    segment: Segment | Subsegment;
+    scope?: Subsegment;
+  };
+  private daemonAddress?: string;
+  private readonly scopes = new AsyncLocalStorage<Subsegment>();
+  private segment?: RecordedSegment;
+  private socket?: Socket;
+
+  public constructor(options: RecordingProviderServiceOptions = {}) {
+    this.daemonAddress = options.daemonAddress;
+  }
+
+  /**
+   * AWS SDK clients are returned as they are, and their requests are not recorded.
+   */
+  public captureAWS<T>(awssdk: T): T {
+    return awssdk;
+  }
+
+  /**
+   * AWS SDK clients are returned as they are, and their requests are not recorded.
+   */
+  public captureAWSClient<T>(service: T): T {
+    return service;
+  }
+
+  /**
+   * AWS SDK clients are returned as they are, and their requests are not recorded.
+   */
+  public captureAWSv3Client<T>(service: T): T {
+    return service;
+  }
+
+  public captureAsyncFunc(
+    name: string,
+    fcn: (subsegment?: Subsegment) => unknown,
+    _parent?: Segment | Subsegment
+  ): unknown {
+    const subsegment = this.getActiveSegment().addNewSubsegment(name);
+
+    return this.scopes.run(subsegment, () => fcn(subsegment));
+  }
+
+  /**
+   * Requests made with `fetch` are not recorded.
+   */
+  public captureFetchGlobal(): void {
+    return;
+  }
+
+  public captureFunc(
+    name: string,
+    fcn: (subsegment?: Subsegment) => unknown,
+    _parent?: Segment | Subsegment
+  ): unknown {
+    const subsegment = this.getActiveSegment().addNewSubsegment(name);
+
+    return this.scopes.run(subsegment, () => {
+      try {
+        const result = fcn(subsegment);
+        subsegment.close();
+
+        return result;
+      } catch (error) {
+        subsegment.close(error as Error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * HTTP(s) requests are not recorded.
+   */
+  public captureHTTPsGlobal(): void {
+    return;
+  }
+
+  /**
+   * It returns the assertions on the first recorded subsegment with the given name.
+   *
+   * @param {string} name
+   * @returns {SubsegmentAssertion}
+   */
+  public expectSubsegment(name: string): SubsegmentAssertion {
+    const [subsegment] = this.getSubsegments(name);
+    if (subsegment === undefined) {
+      throw new AssertionError({
+        message: `Expected a subsegment named '${name}' to be recorded`,
+        actual: this.getSubsegments().map(({ name }) => name),
+        expected: name,
+      });
+    }
+
+    return new SubsegmentAssertion(subsegment);
+  }
+
+  public getNamespace(): Namespace {
+    return getNamespace();
+  }
+
+  /**
+   * It returns the root segment of the recorded tree.
+   *
+   * @returns {Segment}
+   */
+  public getRecordedSegment(): Segment {
+    if (this.segment === undefined) {
+      const rootId = /Root=([^;]+)/.exec(process.env._X_AMZN_TRACE_ID || '');
+      this.segment = new RecordedSegment(
+        process.env.AWS_LAMBDA_FUNCTION_NAME || 'facade',
+        (subsegment) => this.sendToDaemon(subsegment),
+        rootId?.[1]
+      );
+    }
+
+    return this.segment;
+  }
+
+  /**
+   * It returns the subsegment of the innermost function captured in the current scope,
+   * unless a segment was set afterwards in the same scope with `setSegment()`.
+   * When none of them is available, it returns the root segment of the recorded tree.
+   */
+  public getSegment(): Segment | Subsegment | undefined {
+    const scope = this.scopes.getStore();
+    if (
+      this.activeSegment !== undefined &&
+      this.activeSegment.scope === scope
+    ) {
+      return this.activeSegment.segment;
+    }
+
+    return scope ?? this.getRecordedSegment();
+  }
+
+  /**
+   * It returns the recorded subsegments, depth-first in the order they were created,
+   * optionally filtered by name.
+   *
+   * @param {string} [name]
+   * @returns {Subsegment[]}
+   */
+  public getSubsegments(name?: string): Subsegment[] {
+    const subsegments: Subsegment[] = [];
+    const visit = (parent: Segment | Subsegment): void => {
+      for (const subsegment of parent.subsegments ?? []) {
+        subsegments.push(subsegment);
+        visit(subsegment);
+      }
+    };
+    visit(this.getRecordedSegment());
+
+    return name === undefined
+      ? subsegments
+      : subsegments.filter((subsegment) => subsegment.name === name);
+  }
+
+  public putAnnotation(key: string, value: string | number | boolean): void {
+    const segment = this.getSegment() as Segment | Subsegment;
+    if (segment instanceof Segment) {
+      console.warn(
+        'You cannot annotate the main segment in a Lambda execution environment'
+      );
+
+      return;
+    }
+    segment.addAnnotation(key, value);
+  }
+
+  public putMetadata(key: string, value: unknown, namespace?: string): void {
+    const segment = this.getSegment() as Segment | Subsegment;
+    if (segment instanceof Segment) {
+      console.warn(
+        'You cannot add metadata to the main segment in a Lambda execution environment'
+      );
+
+      return;
+    }
+    segment.addMetadata(key, value, namespace);
+  }
+
+  /**
+   * It discards the recorded tree, so that the next subsegments are recorded under a new root segment.
+   */
+  public reset(): void {
+    this.segment = undefined;
+    this.activeSegment = undefined;
+  }
+
+  /**
+   * The context missing strategy is specific to the AWS X-Ray SDK, so it's ignored.
+   */
+  public setContextMissingStrategy(_strategy: unknown): void {
+    return;
+  }
+
+  /**
+   * It sets the address of the daemon to which the subsegments are sent when closed, i.e. `127.0.0.1:2000`.
+   */
+  public setDaemonAddress(address: string): void {
+    this.daemonAddress = address;
+  }
+
+  /**
+   * The logger is specific to the AWS X-Ray SDK, so it's ignored.
+   */
+  public setLogger(_logObj: unknown): void {
+    return;
+  }
+
+  /**
+   * It sets the segment returned by `getSegment()` and used as parent of the new subsegments,
+   * until another function is captured or another segment is set.
+   */
+  public setSegment(segment: Segment | Subsegment): void {
+    this.activeSegment = {
+      segment,
+      scope: this.scopes.getStore(),
+    };
+  }
+
+  /**
+   * It returns the active segment, used as parent of the new subsegments.
+   *
+   * @returns {Segment|Subsegment}
+   */
+  private getActiveSegment(): Segment | Subsegment {
+    return this.getSegment() as Segment | Subsegment;
+  }
+
+  /**
+   * It sends the subsegment to the daemon, if any, using the AWS X-Ray daemon UDP wire format.
+   * The subsegment is sent without its subsegments, which are sent on their own when closed.
+   *
+   * @param {Subsegment} subsegment
+   */
+  private sendToDaemon(subsegment: Subsegment): void {
+    if (this.daemonAddress === undefined) {
+      return;
+    }
+
+    const [address, port] = this.daemonAddress.split(':');
+    const document = JSON.parse(subsegment.format());
+    delete document.subsegments;
+    if (this.socket === undefined) {
+      this.socket = createSocket('udp4').unref();
+    }
+    this.socket.send(
+      `${PROTOCOL_HEADER}\n${JSON.stringify(document)}`,
+      Number(port),
+      address,
+      (error) => {
+        if (error) {
+          console.warn('Failed to send the subsegment to the daemon', error);
+        }
+      }
+    );
+  }
+}
+
+export { RecordingProviderService, RecordingProviderServiceOptions };
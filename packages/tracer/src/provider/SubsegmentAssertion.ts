@@ -0,0 +1,227 @@
+import { AssertionError } from 'node:assert';
+import { isDeepStrictEqual } from 'node:util';
+import { Segment, Subsegment } from 'aws-xray-sdk-core';
+
+/**
+ * Data recorded on an AWS X-Ray segment or subsegment that is not part of the SDK typings.
+ */
+type RecordedData = {
+  annotations?: Record<string, string | number | boolean>;
+  metadata?: Record<string, Record<string, unknown>>;
+  cause?: {
+    id?: string;
+    exceptions?: { message: string; type?: string }[];
+  };
+  error?: boolean;
+  fault?: boolean;
+};
+
+/**
+ * Assertions on a subsegment recorded by the `RecordingProviderService`.
+ *
+ * Each assertion throws an `AssertionError` when it fails, so they can be used
+ * with any test runner, and returns the instance so that they can be chained.
+ *
+ * @example
+ * ```typescript
+ * provider
+ *   .expectSubsegment('### myMethod')
+ *   .toHaveAnnotation('successfulBooking', true)
+ *   .toHaveParent('## index.handler')
+ *   .toBeClosed();
+ * ```
+ *
+ * @class
+ */
+class SubsegmentAssertion {
+  private readonly subsegment: Subsegment & RecordedData;
+
+  public constructor(subsegment: Subsegment) {
+    this.subsegment = subsegment;
+  }
+
+  /**
+   * It asserts that the subsegment has been closed.
+   *
+   * @returns {SubsegmentAssertion}
+   */
+  public toBeClosed(): this {
+    if (!this.subsegment.isClosed()) {
+      this.fail('to be closed');
+    }
+
+    return this;
+  }
+
+  /**
+   * It asserts that the subsegment has an annotation with the given key and, if passed, value.
+   *
+   * @param {string} key
+   * @param {string|number|boolean} [value]
+   * @returns {SubsegmentAssertion}
+   */
+  public toHaveAnnotation(
+    key: string,
+    value?: string | number | boolean
+  ): this {
+    const annotations = this.subsegment.annotations ?? {};
+    if (
+      !(key in annotations) ||
+      (value !== undefined && annotations[key] !== value)
+    ) {
+      this.fail(
+        value === undefined
+          ? `to have the annotation '${key}'`
+          : `to have the annotation '${key}' with value ${JSON.stringify(
+              value
+            )}`,
+        annotations[key],
+        value
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * It asserts that an error has been added to the subsegment and, if passed, that its message is the given one.
+   *
+   * When the same error was added to a nested subsegment first, the message is the one recorded on the nested subsegment.
+   *
+   * @param {string} [message]
+   * @returns {SubsegmentAssertion}
+   */
+  public toHaveError(message?: string): this {
+    const { fault, error } = this.subsegment;
+    const messages = this.getExceptionMessages();
+    if (
+      (!fault && !error) ||
+      (message !== undefined && !messages.includes(message))
+    ) {
+      this.fail(
+        message === undefined
+          ? 'to have an error'
+          : `to have an error with message '${message}'`,
+        messages,
+        message
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * It asserts that the subsegment has metadata with the given key and, if passed, value.
+   * When no namespace is passed, the metadata is searched in all the namespaces.
+   *
+   * @param {string} key
+   * @param {unknown} [value]
+   * @param {string} [namespace]
+   * @returns {SubsegmentAssertion}
+   */
+  public toHaveMetadata(
+    key: string,
+    value?: unknown,
+    namespace?: string
+  ): this {
+    const metadata = this.subsegment.metadata ?? {};
+    const namespaces =
+      namespace === undefined ? Object.keys(metadata) : [namespace];
+    const found = namespaces.some(
+      (name) =>
+        metadata[name] !== undefined &&
+        key in metadata[name] &&
+        (value === undefined || isDeepStrictEqual(metadata[name][key], value))
+    );
+    if (!found) {
+      this.fail(
+        value === undefined
+          ? `to have the metadata '${key}'`
+          : `to have the metadata '${key}' with value ${JSON.stringify(value)}`,
+        metadata,
+        value
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * It asserts that the parent of the subsegment has the given name.
+   *
+   * @param {string} name
+   * @returns {SubsegmentAssertion}
+   */
+  public toHaveParent(name: string): this {
+    const parentName = (this.subsegment.parent as Segment | undefined)?.name;
+    if (parentName !== name) {
+      this.fail(`to have the parent '${name}'`, parentName, name);
+    }
+
+    return this;
+  }
+
+  /**
+   * It asserts that the subsegment has a direct subsegment with the given name.
+   *
+   * @param {string} name
+   * @returns {SubsegmentAssertion}
+   */
+  public toHaveSubsegment(name: string): this {
+    const names = (this.subsegment.subsegments ?? []).map(
+      (subsegment) => subsegment.name
+    );
+    if (!names.includes(name)) {
+      this.fail(`to have the subsegment '${name}'`, names, name);
+    }
+
+    return this;
+  }
+
+  /**
+   * It throws an `AssertionError` with a message describing the failed expectation.
+   *
+   * @param {string} expectation - Description of the expectation, i.e. `to be closed`
+   * @param {unknown} [actual]
+   * @param {unknown} [expected]
+   */
+  private fail(
+    expectation: string,
+    actual?: unknown,
+    expected?: unknown
+  ): never {
+    throw new AssertionError({
+      message: `Expected the subsegment '${this.subsegment.name}' ${expectation}`,
+      actual,
+      expected,
+    });
+  }
+
+  /**
+   * It returns the messages of the exceptions recorded on the subsegment, following
+   * the reference to the nested subsegment on which the error was recorded first, if any.
+   *
+   * @returns {string[]}
+   */
+  private getExceptionMessages(): string[] {
+    const { cause } = this.subsegment;
+    if (cause?.id === undefined) {
+      return (cause?.exceptions ?? []).map((exception) => exception.message);
+    }
+
+    const queue: Subsegment[] = [
+      ...(this.subsegment.segment?.subsegments ?? []),
+    ];
+    while (queue.length > 0) {
+      const subsegment = queue.shift() as Subsegment & RecordedData;
+      if (subsegment.id === cause.id) {
+        return new SubsegmentAssertion(subsegment).getExceptionMessages();
+      }
+      queue.push(...(subsegment.subsegments ?? []));
+    }
+
+    return [];
+  }
+}
+
+export { SubsegmentAssertion };
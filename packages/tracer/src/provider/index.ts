@@ -1,2 +1,6 @@
 export * from './ProviderService';
 export * from './ProviderServiceInterface';
+export * from './RecordingProviderService';
+export * from './RecordedSegment';
+export * from './RecordedSubsegment';
+export * from './SubsegmentAssertion';
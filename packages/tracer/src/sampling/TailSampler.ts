@@ -0,0 +1,294 @@
+import { randomBytes } from 'node:crypto';
+import { createSocket, Socket } from 'node:dgram';
+import type { Context } from 'aws-lambda';
+import { SegmentUtils } from 'aws-xray-sdk-core';
+import type { Segment, Subsegment } from 'aws-xray-sdk-core';
+import { DEFAULT_TIMEOUT_MARGIN, startDeadlineTimer } from '../deadline';
+import type { TailSamplingOptions } from '../types';
+
+const DEFAULT_DAEMON_ADDRESS = '127.0.0.1:2000';
+
+const PROTOCOL_HEADER = '{"format":"json","version":1}';
+
+type TailSamplingReason = 'error' | 'timeout';
+
+/**
+ * Fields of a subsegment kept in the recorded tree: metadata are dropped,
+ * and errors are reduced to their message and type.
+ */
+type CompactSubsegment = {
+  id: string;
+  name: string;
+  start_time: number;
+  end_time?: number;
+  in_progress?: boolean;
+  namespace?: string;
+  http?: unknown;
+  annotations?: Record<string, unknown>;
+  error?: boolean;
+  fault?: boolean;
+  throttle?: boolean;
+  cause?: {
+    id?: string;
+    exceptions: { message?: string; type?: string }[];
+  };
+  subsegments?: CompactSubsegment[];
+};
+
+type Invocation = {
+  subsegment: Segment | Subsegment;
+  traceId?: string;
+  streamingThreshold: number;
+  timer?: NodeJS.Timeout;
+  flushed: boolean;
+};
+
+/**
+ * This class records the subsegments of the unsampled invocations and flushes them
+ * when the handler fails or is about to time out, so that failures are always observable.
+ *
+ * The subsegments of unsampled invocations are created anyway, but they're never sent to AWS X-Ray,
+ * and the closed ones are removed from the tree as soon as they're streamed. While an invocation is recorded,
+ * the streaming is disabled so that the whole tree is kept in memory under the handler subsegment.
+ *
+ * When flushed, a compact copy of the tree is either sent to AWS X-Ray under a new sampled trace,
+ * annotated with the id of the original trace, or printed as a structured log with the id of the original trace.
+ * The new trace is sent to the AWS X-Ray daemon at `AWS_XRAY_DAEMON_ADDRESS` using its UDP wire format.
+ *
+ * @class
+ */
+class TailSampler {
+  private invocation?: Invocation;
+  private readonly output: 'xray' | 'log';
+  private readonly serviceName: string;
+  private socket?: Socket;
+  private readonly timeoutMargin: number;
+
+  public constructor(serviceName: string, options: TailSamplingOptions = {}) {
+    this.serviceName = serviceName;
+    this.output = options.output ?? 'xray';
+    this.timeoutMargin = options.timeoutMargin ?? DEFAULT_TIMEOUT_MARGIN;
+  }
+
+  /**
+   * It flushes the tree of the current invocation, if any, because the function is about to time out.
+   *
+   * It's used when the timeout is detected elsewhere, i.e. by the timeout watchdog after closing the open subsegments.
+   */
+  public flushBeforeTimeout(): void {
+    if (this.invocation === undefined) {
+      return;
+    }
+
+    this.flush(this.invocation, 'timeout');
+  }
+
+  /**
+   * It starts recording the subsegments of an invocation under the given handler subsegment.
+   *
+   * When the Lambda context is passed, the tree is flushed when the remaining time gets below the timeout margin.
+   *
+   * @param {Segment|Subsegment} subsegment - The handler subsegment
+   * @param {string} [traceId] - The id of the original trace
+   * @param {Context} [context] - The Lambda context of the invocation
+   */
+  public start(
+    subsegment: Segment | Subsegment,
+    traceId?: string,
+    context?: Context
+  ): void {
+    this.stop();
+    const invocation: Invocation = {
+      subsegment,
+      traceId,
+      streamingThreshold: SegmentUtils.getStreamingThreshold(),
+      flushed: false,
+    };
+    SegmentUtils.setStreamingThreshold(Number.MAX_SAFE_INTEGER);
+    // Keep the invocation before anything else can throw, so that stop() always restores the streaming threshold
+    this.invocation = invocation;
+    invocation.timer = startDeadlineTimer(
+      this.timeoutMargin,
+      () => this.flush(invocation, 'timeout'),
+      context
+    );
+  }
+
+  /**
+   * It stops recording the current invocation, if any, and flushes its tree when the handler failed.
+   *
+   * @param {boolean} [failed] - Whether the handler failed. Defaults to `false`
+   */
+  public stop(failed = false): void {
+    const invocation = this.invocation;
+    if (invocation === undefined) {
+      return;
+    }
+    this.invocation = undefined;
+    try {
+      clearTimeout(invocation.timer);
+      if (failed) {
+        this.flush(invocation, 'error');
+      }
+    } finally {
+      SegmentUtils.setStreamingThreshold(invocation.streamingThreshold);
+    }
+  }
+
+  /**
+   * It returns a compact copy of the subsegment and of its subsegments.
+   *
+   * @param {Segment|Subsegment} subsegment
+   * @returns {CompactSubsegment}
+   */
+  private static compact(subsegment: Segment | Subsegment): CompactSubsegment {
+    const {
+      id,
+      name,
+      start_time,
+      end_time,
+      namespace,
+      http,
+      annotations,
+      error,
+      fault,
+      throttle,
+      cause,
+      subsegments,
+    } = subsegment as unknown as Omit<CompactSubsegment, 'subsegments'> & {
+      subsegments?: Subsegment[];
+    };
+
+    return {
+      id,
+      name,
+      start_time,
+      ...(end_time !== undefined ? { end_time } : { in_progress: true }),
+      ...(namespace !== undefined && { namespace }),
+      ...(http !== undefined && { http }),
+      ...(annotations !== undefined && { annotations }),
+      ...(error && { error }),
+      ...(fault && { fault }),
+      ...(throttle && { throttle }),
+      ...(cause !== undefined && {
+        cause: {
+          ...(cause.id !== undefined && { id: cause.id }),
+          exceptions: cause.exceptions.map(({ message, type }) => ({
+            message,
+            type,
+          })),
+        },
+      }),
+      ...(subsegments !== undefined &&
+        subsegments.length > 0 && {
+          subsegments: subsegments.map(TailSampler.compact),
+        }),
+    };
+  }
+
+  /**
+   * It flushes the tree of the invocation once, either to AWS X-Ray or as a structured log.
+   *
+   * @param {Invocation} invocation
+   * @param {TailSamplingReason} reason
+   */
+  private flush(invocation: Invocation, reason: TailSamplingReason): void {
+    if (invocation.flushed) {
+      return;
+    }
+    invocation.flushed = true;
+    const tree = TailSampler.compact(invocation.subsegment);
+
+    if (this.output === 'log') {
+      console.log(
+        JSON.stringify({
+          message: `Flushing the subsegments of an unsampled invocation after ${
+            reason === 'error' ? 'an error' : 'a timeout'
+          }`,
+          service: this.serviceName,
+          tail_sampling_reason: reason,
+          xray_trace_id: invocation.traceId,
+          subsegments: [tree],
+        })
+      );
+
+      return;
+    }
+
+    const now = Date.now() / 1000;
+    const document = {
+      name: this.serviceName,
+      id: randomBytes(8).toString('hex'),
+      trace_id: `1-${Math.floor(now).toString(16)}-${randomBytes(12).toString(
+        'hex'
+      )}`,
+      start_time: tree.start_time,
+      end_time: tree.end_time ?? now,
+      origin: 'AWS::Lambda::Function',
+      fault: true,
+      annotations: {
+        TailSamplingReason: reason,
+        ...(invocation.traceId !== undefined && {
+          OriginalTraceId: invocation.traceId,
+        }),
+      },
+      subsegments: [tree],
+    };
+    this.sendToDaemon(document);
+  }
+
+  /**
+   * It returns the UDP address of the AWS X-Ray daemon, parsing `AWS_XRAY_DAEMON_ADDRESS` like the AWS X-Ray SDK,
+   * i.e. either `127.0.0.1:2000` or `tcp:127.0.0.1:2000 udp:127.0.0.2:2001`.
+   *
+   * @returns {{address: string, port: number}|undefined} The address, or `undefined` if the variable is not valid
+   */
+  private static getDaemonAddress():
+    | { address: string; port: number }
+    | undefined {
+    const value = process.env.AWS_XRAY_DAEMON_ADDRESS || DEFAULT_DAEMON_ADDRESS;
+    const parts = value.trim().split(/\s+/);
+    const udpAddress =
+      parts.length === 1
+        ? parts[0]
+        : parts.find((part) => part.startsWith('udp:'))?.slice('udp:'.length);
+    const [address, port, ...rest] = (udpAddress ?? '').split(':');
+    if (address === '' || rest.length > 0 || !/^\d+$/.test(port ?? '')) {
+      return undefined;
+    }
+
+    return { address, port: Number(port) };
+  }
+
+  /**
+   * It sends the document to the AWS X-Ray daemon using its UDP wire format.
+   *
+   * @param {Record<string, unknown>} document
+   */
+  private sendToDaemon(document: Record<string, unknown>): void {
+    const daemonAddress = TailSampler.getDaemonAddress();
+    if (daemonAddress === undefined) {
+      console.warn(
+        `Failed to send the subsegments to the daemon: invalid AWS_XRAY_DAEMON_ADDRESS '${process.env.AWS_XRAY_DAEMON_ADDRESS}'`
+      );
+
+      return;
+    }
+    const { address, port } = daemonAddress;
+    if (this.socket === undefined) {
+      this.socket = createSocket('udp4').unref();
+    }
+    this.socket.send(
+      `${PROTOCOL_HEADER}\n${JSON.stringify(document)}`,
+      port,
+      address,
+      (error) => {
+        if (error) {
+          console.warn('Failed to send the subsegments to the daemon', error);
+        }
+      }
+    );
+  }
+}
+
+export { TailSampler };
@@ -0,0 +1,213 @@
+import { parsePath } from '@aws-lambda-powertools/commons';
+import type { CaptureOptions } from '../types';
+
+/**
+ * Marker returned when a value has to be removed from the response.
+ */
+const DROPPED = Symbol('dropped');
+
+const MASK = '***';
+
+/**
+ * Value added in place of the responses that cannot be serialized as JSON,
+ * since they would prevent the whole segment document from being sent.
+ */
+const UNSERIALIZABLE = '[UNSERIALIZABLE]';
+
+/**
+ * This class prepares the responses and errors added as metadata to the segments or subsegments,
+ * according to the capture options of the tracer or of a single decorator or middleware.
+ *
+ * Responses are first passed to the `serializer`, if any. Then the values matching the paths of the
+ * `denylist` are masked and, when an `allowlist` is set, only the values matching its paths are kept.
+ * Paths have the same syntax as the redaction paths of the Logger, i.e. `$.body.items[*].token`.
+ * Finally, when the serialized response is larger than `maxSize`, it's replaced with a truncated string
+ * ending with a truncation marker, so that it doesn't exceed the maximum size of a segment document.
+ * Responses that cannot be serialized as JSON, like `BigInt` values, are replaced with an `[UNSERIALIZABLE]` marker.
+ *
+ * The message and the stack of errors are truncated in the same way. The responses and errors
+ * are never mutated: a copy is returned instead.
+ *
+ * @class
+ */
+class MetadataSerializer {
+  private readonly allowlist: string[][];
+  private readonly denylist: string[][];
+  private readonly maxSize?: number;
+  private readonly serializer?: (response: unknown) => unknown;
+
+  public constructor(options: CaptureOptions = {}) {
+    this.allowlist = (options.allowlist ?? []).map(parsePath);
+    this.denylist = (options.denylist ?? []).map(parsePath);
+    this.maxSize = options.maxSize;
+    this.serializer = options.serializer;
+  }
+
+  /**
+   * It returns the error to add to the segment or subsegment, with its message and stack truncated if needed.
+   *
+   * The error is returned as it is when it doesn't need to be truncated, so that the AWS X-Ray SDK can
+   * still recognize an error already added to a nested subsegment.
+   *
+   * @param {Error} error
+   * @returns {Error}
+   */
+  public serializeError(error: Error): Error {
+    const message = this.truncate(error.message);
+    const stack =
+      error.stack !== undefined ? this.truncate(error.stack) : undefined;
+    if (message === error.message && stack === error.stack) {
+      return error;
+    }
+
+    const truncatedError = new Error(message);
+    truncatedError.name = error.name;
+    truncatedError.stack = stack;
+
+    return truncatedError;
+  }
+
+  /**
+   * It returns the value to add as metadata in place of the response.
+   *
+   * @param {unknown} response
+   * @returns {unknown} The value to add, or `undefined` if none of its values is allowed
+   */
+  public serializeResponse(response: unknown): unknown {
+    const value = this.serializer ? this.serializer(response) : response;
+    const filtered =
+      this.allowlist.length > 0 || this.denylist.length > 0
+        ? this.filterValue(
+            value,
+            [],
+            this.allowlist.length === 0,
+            new WeakSet()
+          )
+        : value;
+    if (filtered === DROPPED || filtered === undefined) {
+      return undefined;
+    }
+
+    let serialized: string | undefined;
+    try {
+      serialized =
+        typeof filtered === 'string' ? filtered : JSON.stringify(filtered);
+    } catch {
+      return UNSERIALIZABLE;
+    }
+
+    if (serialized === undefined) {
+      return UNSERIALIZABLE;
+    }
+    const truncated = this.truncate(serialized);
+
+    return truncated === serialized ? filtered : truncated;
+  }
+
+  /**
+   * It masks the values matching the denylist and removes the ones not matching the allowlist,
+   * recursing into arrays and objects.
+   *
+   * Objects that define a `toJSON()` method, like dates, are left untouched. As with `JSON.stringify()`,
+   * repeated references would make the value circular, so they are removed.
+   *
+   * @param {unknown} value
+   * @param {string[]} path
+   * @param {boolean} allowed - Whether the value, or one of its parents, matches the allowlist
+   * @param {WeakSet<object>} references
+   * @returns {unknown}
+   */
+  private filterValue(
+    value: unknown,
+    path: string[],
+    allowed: boolean,
+    references: WeakSet<object>
+  ): unknown {
+    if (
+      typeof value !== 'object' ||
+      value === null ||
+      typeof (value as { toJSON?: unknown }).toJSON === 'function'
+    ) {
+      return allowed ? value : DROPPED;
+    }
+    if (references.has(value)) {
+      return DROPPED;
+    }
+    references.add(value);
+
+    const entries = Object.entries(value)
+      .map(([key, entry]): [string, unknown] => {
+        const entryPath = [...path, key];
+        if (MetadataSerializer.matches(this.denylist, entryPath)) {
+          return [key, MASK];
+        }
+        const entryAllowed =
+          allowed || MetadataSerializer.matches(this.allowlist, entryPath);
+        if (
+          !entryAllowed &&
+          !MetadataSerializer.matches(this.allowlist, entryPath, true)
+        ) {
+          return [key, DROPPED];
+        }
+
+        return [
+          key,
+          this.filterValue(entry, entryPath, entryAllowed, references),
+        ];
+      })
+      .filter(([, entry]) => entry !== DROPPED);
+
+    return Array.isArray(value)
+      ? entries.map(([, entry]) => entry)
+      : Object.fromEntries(entries);
+  }
+
+  /**
+   * It returns true if the path matches one of the given paths or, when `partially` is true,
+   * if it's the path of one of their parents.
+   *
+   * @param {string[][]} paths
+   * @param {string[]} path
+   * @param {boolean} [partially]
+   * @returns {boolean}
+   */
+  private static matches(
+    paths: string[][],
+    path: string[],
+    partially = false
+  ): boolean {
+    return paths.some(
+      (segments) =>
+        (partially
+          ? segments.length > path.length
+          : segments.length === path.length) &&
+        path.every(
+          (segment, index) =>
+            segments[index] === '*' || segments[index] === segment
+        )
+    );
+  }
+
+  /**
+   * It truncates a string to the maximum size in bytes, if any, adding the truncation marker.
+   *
+   * @param {string} value
+   * @returns {string}
+   */
+  private truncate(value: string): string {
+    const size = Buffer.byteLength(value);
+    if (this.maxSize === undefined || size <= this.maxSize) {
+      return value;
+    }
+
+    // Remove the last character if it was cut in the middle of its bytes
+    const truncated = Buffer.from(value)
+      .subarray(0, this.maxSize)
+      .toString()
+      .replace(/\uFFFD$/, '');
+
+    return `${truncated}... [TRUNCATED: ${size} bytes]`;
+  }
+}
+
+export { MetadataSerializer };
@@ -0,0 +1,236 @@
+import { TraceContext, TraceContextHeaders } from './types';
+
+const TRACEPARENT_HEADER = 'traceparent';
+const XRAY_TRACE_HEADER = 'X-Amzn-Trace-Id';
+
+const XRAY_TRACE_ID_REGEX = /^1-([0-9a-f]{8})-([0-9a-f]{24})$/;
+const TRACEPARENT_REGEX =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const PARENT_ID_REGEX = /^[0-9a-f]{16}$/;
+
+const MAX_MESSAGE_ATTRIBUTES = 10;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * It formats the trace context as W3C `traceparent` and AWS X-Ray `X-Amzn-Trace-Id` headers.
+ *
+ * The `traceparent` header requires a parent id, so it's omitted when the trace context doesn't have one.
+ *
+ * @param {TraceContext} traceContext
+ * @returns {TraceContextHeaders}
+ */
+const formatTraceContextHeaders = ({
+  traceId,
+  parentId,
+  sampled,
+}: TraceContext): TraceContextHeaders => {
+  const match = XRAY_TRACE_ID_REGEX.exec(traceId);
+  if (match === null) {
+    return {};
+  }
+
+  const headers: TraceContextHeaders = {};
+  const validParentId =
+    parentId !== undefined && PARENT_ID_REGEX.test(parentId)
+      ? parentId
+      : undefined;
+  if (validParentId !== undefined) {
+    headers[TRACEPARENT_HEADER] = `00-${match[1]}${match[2]}-${validParentId}-${
+      sampled ? '01' : '00'
+    }`;
+  }
+  headers[XRAY_TRACE_HEADER] = [
+    `Root=${traceId}`,
+    ...(validParentId !== undefined ? [`Parent=${validParentId}`] : []),
+    `Sampled=${sampled ? '1' : '0'}`,
+  ].join(';');
+
+  return headers;
+};
+
+/**
+ * It parses a W3C `traceparent` header, i.e. `00-5759e988bd862e3fe1be46a994272793-53995c3f42cd8ad8-01`.
+ *
+ * @param {string} header
+ * @returns {TraceContext|undefined} The trace context, or `undefined` if the header is not valid
+ */
+const parseTraceparent = (header: string): TraceContext | undefined => {
+  const match = TRACEPARENT_REGEX.exec(header.trim().toLowerCase());
+  if (
+    match === null ||
+    match[1] === 'ff' ||
+    /^0+$/.test(match[2]) ||
+    /^0+$/.test(match[3])
+  ) {
+    return undefined;
+  }
+
+  return {
+    traceId: `1-${match[2].slice(0, 8)}-${match[2].slice(8)}`,
+    parentId: match[3],
+    sampled: (parseInt(match[4], 16) & 1) === 1,
+  };
+};
+
+/**
+ * It parses an AWS X-Ray `X-Amzn-Trace-Id` header, i.e. `Root=1-5759e988-bd862e3fe1be46a994272793;Parent=53995c3f42cd8ad8;Sampled=1`.
+ *
+ * @param {string} header
+ * @returns {TraceContext|undefined} The trace context, or `undefined` if the header doesn't have a valid root trace id
+ */
+const parseXrayTraceHeader = (header: string): TraceContext | undefined => {
+  const fields: Record<string, string> = {};
+  for (const field of header.split(';')) {
+    const [key, value] = field.split('=');
+    if (value !== undefined) {
+      fields[key.trim()] = value.trim();
+    }
+  }
+  if (fields.Root === undefined || !XRAY_TRACE_ID_REGEX.test(fields.Root)) {
+    return undefined;
+  }
+
+  return {
+    traceId: fields.Root,
+    parentId: PARENT_ID_REGEX.test(fields.Parent ?? '')
+      ? fields.Parent
+      : undefined,
+    sampled: fields.Sampled === '1',
+  };
+};
+
+/**
+ * It returns the string values that can carry the trace context headers, keyed by lowercase name.
+ *
+ * The values are read, in order of precedence, from the message attributes of SQS records and of SNS records,
+ * from the message attributes of SQS and SNS messages sent with the AWS SDK, from the `AWSTraceHeader` system attribute
+ * of SQS records, from the `headers` of HTTP events, or from the carrier itself when it's a headers object.
+ *
+ * @param {Record<string, unknown>} carrier
+ * @returns {Record<string, string>}
+ */
+const getCarrierValues = (
+  carrier: Record<string, unknown>
+): Record<string, string> => {
+  const values: Record<string, string> = {};
+  const addValues = (
+    source: unknown,
+    getValue: (value: unknown) => unknown = (value) => value
+  ): void => {
+    if (!isRecord(source)) return;
+    for (const [key, value] of Object.entries(source)) {
+      const stringValue = getValue(value);
+      const name = key.toLowerCase();
+      if (typeof stringValue === 'string' && values[name] === undefined) {
+        values[name] = stringValue;
+      }
+    }
+  };
+
+  addValues(carrier.messageAttributes, (value) =>
+    isRecord(value) ? value.stringValue : undefined
+  );
+  addValues(
+    isRecord(carrier.Sns) ? carrier.Sns.MessageAttributes : undefined,
+    (value) => (isRecord(value) ? value.Value : undefined)
+  );
+  addValues(carrier.MessageAttributes, (value) =>
+    isRecord(value) ? value.StringValue : undefined
+  );
+  if (isRecord(carrier.attributes)) {
+    addValues({ [XRAY_TRACE_HEADER]: carrier.attributes.AWSTraceHeader });
+  }
+  addValues(isRecord(carrier.headers) ? carrier.headers : carrier);
+
+  return values;
+};
+
+/**
+ * It extracts the trace context from the headers or message attributes of the carrier.
+ * When both are present, the W3C `traceparent` header takes precedence over the AWS X-Ray one.
+ *
+ * @param {object} carrier - A headers object, an HTTP event, an SQS or SNS record, or an SQS or SNS message
+ * @returns {TraceContext|undefined}
+ */
+const extractTraceContextFromCarrier = (
+  carrier: object
+): TraceContext | undefined => {
+  const values = getCarrierValues(carrier as Record<string, unknown>);
+  const traceparent = values[TRACEPARENT_HEADER];
+  const xrayTraceHeader = values[XRAY_TRACE_HEADER.toLowerCase()];
+
+  return (
+    (traceparent !== undefined ? parseTraceparent(traceparent) : undefined) ??
+    (xrayTraceHeader !== undefined
+      ? parseXrayTraceHeader(xrayTraceHeader)
+      : undefined)
+  );
+};
+
+/**
+ * It returns a copy of the carrier with the trace context headers added.
+ *
+ * When the carrier is an SQS or SNS message, i.e. the input of `SendMessageCommand` or `PublishCommand`,
+ * the headers are added as `String` message attributes. Since a message can have at most 10 attributes,
+ * the carrier is returned as it is, with a warning, when the headers would exceed this limit.
+ *
+ * When the carrier has a `set` method, like a fetch `Headers` instance, the headers are set on a copy created
+ * with the constructor of the carrier, otherwise the carrier is treated as a headers object.
+ *
+ * @param {object} carrier
+ * @param {TraceContextHeaders} headers
+ * @returns {object}
+ */
+const injectTraceContextHeaders = <T extends object>(
+  carrier: T,
+  headers: TraceContextHeaders
+): T => {
+  const entries = Object.entries(headers) as [string, string][];
+  if (entries.length === 0) {
+    return carrier;
+  }
+
+  if (
+    'MessageBody' in carrier ||
+    'Message' in carrier ||
+    'MessageAttributes' in carrier
+  ) {
+    const { MessageAttributes } = carrier as {
+      MessageAttributes?: Record<string, unknown>;
+    };
+    const attributes: Record<string, unknown> = { ...MessageAttributes };
+    for (const [name, value] of entries) {
+      attributes[name] = { DataType: 'String', StringValue: value };
+    }
+    if (Object.keys(attributes).length > MAX_MESSAGE_ATTRIBUTES) {
+      console.warn(
+        `Skipping the trace context headers: a message can have at most ${MAX_MESSAGE_ATTRIBUTES} attributes`
+      );
+
+      return carrier;
+    }
+
+    return { ...carrier, MessageAttributes: attributes };
+  }
+
+  if (typeof (carrier as { set?: unknown }).set === 'function') {
+    const copy = new (carrier.constructor as new (init: T) => T & {
+      set(name: string, value: string): void;
+    })(carrier);
+    for (const [name, value] of entries) {
+      copy.set(name, value);
+    }
+
+    return copy;
+  }
+
+  return { ...carrier, ...headers };
+};
+
+export {
+  extractTraceContextFromCarrier,
+  formatTraceContextHeaders,
+  injectTraceContextHeaders,
+};
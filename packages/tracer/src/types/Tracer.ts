@@ -1,4 +1,5 @@
 import { ConfigServiceInterface } from '../config';
+import { ProviderServiceInterface } from '../provider';
 import { Handler } from 'aws-lambda';
 import {
   AsyncHandler,
@@ -6,6 +7,75 @@ import {
   SyncHandler,
 } from '@aws-lambda-powertools/commons';
 
+/**
+ * Options to control how responses and errors are added to the segments or subsegments as metadata.
+ *
+ * Options supported:
+ * * `maxSize` - (_optional_) - Maximum size in bytes of the serialized response, and of the message and stack of errors.
+ *   Larger values are truncated and end with a truncation marker
+ * * `denylist` - (_optional_) - Paths of the response values to mask, i.e. `$.body.password` or `$.items[*].token`
+ * * `allowlist` - (_optional_) - Paths of the only response values to keep, the other ones are removed
+ * * `serializer` - (_optional_) - Function that returns the value to add as metadata in place of the response,
+ *   before the paths and the maximum size are applied
+ *
+ * Usage:
+ * @example
+ * ```typescript
+ * const captureOptions: CaptureOptions = {
+ *   maxSize: 16384,
+ *   denylist: ['$.headers.Authorization', '$.body.password'],
+ *   serializer: (response) => ({ ...response, body: JSON.parse(response.body) }),
+ * };
+ * ```
+ */
+type CaptureOptions = {
+  maxSize?: number;
+  denylist?: string[];
+  allowlist?: string[];
+  serializer?: (response: unknown) => unknown;
+};
+
+/**
+ * Options to record the unsampled invocations and flush them when the handler fails or times out.
+ *
+ * Options supported:
+ * * `output` - (_optional_) - Where the recorded subsegments are flushed: `xray` to send them to AWS X-Ray as a new sampled trace,
+ *   or `log` to print them as a structured log correlated by trace id. Defaults to `xray`
+ * * `timeoutMargin` - (_optional_) - Milliseconds before the function times out at which the recorded subsegments are flushed. Defaults to `500`.
+ *   When the timeout watchdog is enabled, it's ignored and the subsegments are flushed after the watchdog closes them
+ *
+ * Usage:
+ * @example
+ * ```typescript
+ * const tailSamplingOptions: TailSamplingOptions = {
+ *   output: 'log',
+ *   timeoutMargin: 1000,
+ * };
+ * ```
+ */
+type TailSamplingOptions = {
+  output?: 'xray' | 'log';
+  timeoutMargin?: number;
+};
+
+/**
+ * Options to close the open subsegments of an invocation before the function times out.
+ *
+ * Options supported:
+ * * `timeoutMargin` - (_optional_) - Milliseconds before the function times out at which the open subsegments are closed. Defaults to `500`
+ *
+ * Usage:
+ * @example
+ * ```typescript
+ * const timeoutWatchdogOptions: TimeoutWatchdogOptions = {
+ *   timeoutMargin: 1000,
+ * };
+ * ```
+ */
+type TimeoutWatchdogOptions = {
+  timeoutMargin?: number;
+};
+
 /**
  * Options for the tracer class to be used during initialization.
  *
@@ -18,6 +88,10 @@ import {
  *   serviceName?: 'serverlessAirline',
  *   captureHTTPsRequests?: true,
  *   customConfigService?: customConfigService, // Only needed for advanced uses
+ *   provider?: new OtelProviderService(), // Only needed to export traces with OpenTelemetry
+ *   captureOptions?: { maxSize: 16384 }, // Only needed to limit or redact the captured responses and errors
+ *   tailSampling?: true, // Only needed to flush the unsampled invocations that fail
+ *   timeoutWatchdog?: true, // Only needed to close the open subsegments before the function times out
  * };
  *
  * const tracer = new Tracer(tracerOptions);
@@ -28,13 +102,27 @@ type TracerOptions = {
   serviceName?: string;
   captureHTTPsRequests?: boolean;
   customConfigService?: ConfigServiceInterface;
+  provider?: ProviderServiceInterface;
+  captureOptions?: CaptureOptions;
+  tailSampling?: boolean | TailSamplingOptions;
+  timeoutWatchdog?: boolean | TimeoutWatchdogOptions;
 };
 
+/**
+ * Annotations to extract from the incoming event, as annotation keys and the JMESPath expressions
+ * used to extract their values, i.e. `{ tenant: 'requestContext.authorizer.tenantId' }`.
+ *
+ * The `annotationPresets` object contains the expressions for the most common event types.
+ */
+type AnnotationPaths = Record<string, string>;
+
 /**
  * Options for handler decorators and middleware.
  *
  * Options supported:
  * * `captureResponse` - (_optional_) - Disable response serialization as subsegment metadata
+ * * `maxSize`, `denylist`, `allowlist`, `serializer` - (_optional_) - Override the `CaptureOptions` of the tracer
+ * * `annotations` - (_optional_) - Annotations to add to the handler subsegment, as annotation keys and JMESPath expressions evaluated against the event
  *
  * Middleware usage:
  * @example
@@ -63,8 +151,9 @@ type TracerOptions = {
  * export const handler = handlerClass.handler.bind(handlerClass);
  * ```
  */
-type CaptureLambdaHandlerOptions = {
+type CaptureLambdaHandlerOptions = CaptureOptions & {
   captureResponse?: boolean;
+  annotations?: AnnotationPaths;
 };
 
 /**
@@ -73,6 +162,7 @@ type CaptureLambdaHandlerOptions = {
  * Options supported:
  * * `subSegmentName` - (_optional_) - Set a custom name for the subsegment
  * * `captureResponse` - (_optional_) - Disable response serialization as subsegment metadata
+ * * `maxSize`, `denylist`, `allowlist`, `serializer` - (_optional_) - Override the `CaptureOptions` of the tracer
  *
  * Usage:
  * @example
@@ -95,7 +185,7 @@ type CaptureLambdaHandlerOptions = {
  * export const handler = handlerClass.handler.bind(handlerClass);
  * ```
  */
-type CaptureMethodOptions = {
+type CaptureMethodOptions = CaptureOptions & {
   subSegmentName?: string;
   captureResponse?: boolean;
 };
@@ -118,10 +208,46 @@ type MethodDecorator = (
   // eslint-disable-next-line  @typescript-eslint/no-explicit-any
 ) => any;
 
+/**
+ * Trace context propagated to, or received from, other services.
+ *
+ * * `traceId` - AWS X-Ray trace id, i.e. `1-5759e988-bd862e3fe1be46a994272793`
+ * * `parentId` - (_optional_) - Id of the segment or subsegment that made the call or sent the message, i.e. `53995c3f42cd8ad8`
+ * * `sampled` - Whether the trace is sampled
+ */
+type TraceContext = {
+  traceId: string;
+  parentId?: string;
+  sampled: boolean;
+};
+
+/**
+ * Headers carrying the trace context, in the W3C Trace Context and AWS X-Ray formats.
+ *
+ * Usage:
+ * @example
+ * ```typescript
+ * const headers: TraceContextHeaders = {
+ *   traceparent: '00-5759e988bd862e3fe1be46a994272793-53995c3f42cd8ad8-01',
+ *   'X-Amzn-Trace-Id': 'Root=1-5759e988-bd862e3fe1be46a994272793;Parent=53995c3f42cd8ad8;Sampled=1',
+ * };
+ * ```
+ */
+type TraceContextHeaders = {
+  traceparent?: string;
+  'X-Amzn-Trace-Id'?: string;
+};
+
 export {
   TracerOptions,
+  AnnotationPaths,
+  CaptureOptions,
+  TailSamplingOptions,
+  TimeoutWatchdogOptions,
   CaptureLambdaHandlerOptions,
   CaptureMethodOptions,
   HandlerMethodDecorator,
   MethodDecorator,
+  TraceContext,
+  TraceContextHeaders,
 };
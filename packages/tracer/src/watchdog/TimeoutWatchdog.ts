@@ -0,0 +1,108 @@
+import type { Context } from 'aws-lambda';
+import type { Segment, Subsegment } from 'aws-xray-sdk-core';
+import { DEFAULT_TIMEOUT_MARGIN, startDeadlineTimer } from '../deadline';
+import type { TimeoutWatchdogOptions } from '../types';
+
+/**
+ * This class closes the open subsegments of an invocation just before the function times out,
+ * so that they don't show as incomplete when the execution environment is stopped.
+ *
+ * The open subsegments are the ones still in progress under the handler subsegment, i.e. the methods
+ * and the requests in flight. Each of them is annotated with `Timeout=true`, gets the names of all the
+ * in-flight subsegments as metadata, and is closed starting from the innermost ones. Only then the `onTimeout`
+ * callback of the invocation, if any, is called, i.e. to flush the subsegments recorded by the tail sampler.
+ *
+ * @class
+ */
+class TimeoutWatchdog {
+  private readonly serviceName: string;
+  private readonly timeoutMargin: number;
+  private timer?: NodeJS.Timeout;
+
+  public constructor(
+    serviceName: string,
+    options: TimeoutWatchdogOptions = {}
+  ) {
+    this.serviceName = serviceName;
+    this.timeoutMargin = options.timeoutMargin ?? DEFAULT_TIMEOUT_MARGIN;
+  }
+
+  /**
+   * It starts watching an invocation, closing the open subsegments under the given handler subsegment
+   * when the remaining time gets below the timeout margin.
+   *
+   * @param {Segment|Subsegment} subsegment - The handler subsegment
+   * @param {Context} [context] - The Lambda context of the invocation, the invocation is not watched without it
+   * @param {() => void} [onTimeout] - Function called after the open subsegments are closed
+   */
+  public start(
+    subsegment: Segment | Subsegment,
+    context?: Context,
+    onTimeout?: () => void
+  ): void {
+    this.stop();
+    this.timer = startDeadlineTimer(
+      this.timeoutMargin,
+      () => {
+        this.timer = undefined;
+        this.closeOpenSubsegments(subsegment);
+        onTimeout?.();
+      },
+      context
+    );
+  }
+
+  /**
+   * It stops watching the current invocation, if any.
+   */
+  public stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * It annotates and closes the handler subsegment and its open subsegments, then flushes the handler subsegment.
+   *
+   * @param {Segment|Subsegment} subsegment - The handler subsegment
+   */
+  private closeOpenSubsegments(subsegment: Segment | Subsegment): void {
+    const openSubsegments = TimeoutWatchdog.getOpenSubsegments(subsegment);
+    const inFlight = openSubsegments
+      .filter((openSubsegment) => openSubsegment !== subsegment)
+      .map(({ name }) => name);
+
+    for (const openSubsegment of [...openSubsegments].reverse()) {
+      openSubsegment.addAnnotation('Timeout', true);
+      openSubsegment.addMetadata(
+        'in-flight subsegments',
+        inFlight,
+        this.serviceName
+      );
+      openSubsegment.close();
+    }
+    subsegment.flush();
+  }
+
+  /**
+   * It returns the subsegments still in progress, depth-first starting from the given one.
+   *
+   * @param {Segment|Subsegment} subsegment
+   * @returns {(Segment|Subsegment)[]}
+   */
+  private static getOpenSubsegments(
+    subsegment: Segment | Subsegment
+  ): (Segment | Subsegment)[] {
+    if (subsegment.in_progress !== true) {
+      return [];
+    }
+
+    return [
+      subsegment,
+      ...(subsegment.subsegments ?? []).flatMap(
+        TimeoutWatchdog.getOpenSubsegments
+      ),
+    ];
+  }
+}
+
+export { TimeoutWatchdog };
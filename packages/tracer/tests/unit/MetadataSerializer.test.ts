@@ -0,0 +1,217 @@
+/**
+ * Test MetadataSerializer class
+ *
+ * @group unit/tracer/all
+ */
+
+import { MetadataSerializer } from '../../src/serialization';
+
+describe('Class: MetadataSerializer', () => {
+  describe('Method: serializeResponse', () => {
+    test('when no options are passed, it returns the response as it is', () => {
+      // Prepare
+      const response = { foo: 'bar' };
+      const serializer = new MetadataSerializer();
+
+      // Act
+      const value = serializer.serializeResponse(response);
+
+      // Assess
+      expect(value).toBe(response);
+    });
+
+    test('when a serializer is passed, it returns the value returned by the serializer', () => {
+      // Prepare
+      const serializer = new MetadataSerializer({
+        serializer: (response) => ({
+          statusCode: (response as { statusCode: number }).statusCode,
+        }),
+      });
+
+      // Act
+      const value = serializer.serializeResponse({
+        statusCode: 200,
+        body: 'foo',
+      });
+
+      // Assess
+      expect(value).toEqual({ statusCode: 200 });
+    });
+
+    test('when a denylist is passed, it masks the values matching its paths without mutating the response', () => {
+      // Prepare
+      const response = {
+        headers: { Authorization: 'Bearer abc', 'Content-Type': 'json' },
+        items: [
+          { id: 1, token: 'abc' },
+          { id: 2, token: 'def' },
+        ],
+        createdAt: new Date(0),
+        nothing: null,
+      };
+      const serializer = new MetadataSerializer({
+        denylist: ['$.headers.Authorization', 'items[*].token'],
+      });
+
+      // Act
+      const value = serializer.serializeResponse(response);
+
+      // Assess
+      expect(value).toEqual({
+        headers: { Authorization: '***', 'Content-Type': 'json' },
+        items: [
+          { id: 1, token: '***' },
+          { id: 2, token: '***' },
+        ],
+        createdAt: new Date(0),
+        nothing: null,
+      });
+      expect(response.headers.Authorization).toBe('Bearer abc');
+    });
+
+    test('when an allowlist is passed, it keeps only the values matching its paths, and masks the ones of the denylist', () => {
+      // Prepare
+      const serializer = new MetadataSerializer({
+        allowlist: ['$.statusCode', '$.body.items[*].id', '$.headers'],
+        denylist: ['$.headers.Authorization'],
+      });
+
+      // Act
+      const value = serializer.serializeResponse({
+        statusCode: 200,
+        body: {
+          count: 2,
+          items: [
+            { id: 1, name: 'foo' },
+            { id: 2, name: 'bar' },
+          ],
+        },
+        headers: { Authorization: 'Bearer abc', 'Content-Type': 'json' },
+        other: 'baz',
+      });
+
+      // Assess
+      expect(value).toEqual({
+        statusCode: 200,
+        body: { items: [{ id: 1 }, { id: 2 }] },
+        headers: { Authorization: '***', 'Content-Type': 'json' },
+      });
+    });
+
+    test('when an allowlist is passed and the response is not an object, it returns undefined', () => {
+      // Prepare
+      const serializer = new MetadataSerializer({ allowlist: ['$.foo'] });
+
+      // Act
+      const value = serializer.serializeResponse('foo');
+
+      // Assess
+      expect(value).toBeUndefined();
+    });
+
+    test('when the response has repeated references, it removes them', () => {
+      // Prepare
+      const response: Record<string, unknown> = { foo: 'bar' };
+      response.self = response;
+      const serializer = new MetadataSerializer({ denylist: ['$.password'] });
+
+      // Act
+      const value = serializer.serializeResponse(response);
+
+      // Assess
+      expect(value).toEqual({ foo: 'bar' });
+    });
+
+    test('when the serialized response is larger than the maximum size, it returns it truncated with a truncation marker', () => {
+      // Prepare
+      const serializer = new MetadataSerializer({ maxSize: 10 });
+
+      // Act
+      const value = serializer.serializeResponse({ foo: 'bar', baz: 'qux' });
+
+      // Assess
+      expect(value).toBe('{"foo":"ba... [TRUNCATED: 25 bytes]');
+    });
+
+    test('when the response is a string larger than the maximum size, it truncates it without cutting multi-byte characters', () => {
+      // Prepare
+      const serializer = new MetadataSerializer({ maxSize: 5 });
+
+      // Act
+      const value = serializer.serializeResponse('abcd€€');
+
+      // Assess
+      expect(value).toBe('abcd... [TRUNCATED: 10 bytes]');
+    });
+
+    test('when the serialized response is smaller than the maximum size, it returns the response as it is', () => {
+      // Prepare
+      const response = { foo: 'bar' };
+      const serializer = new MetadataSerializer({ maxSize: 1024 });
+
+      // Act
+      const value = serializer.serializeResponse(response);
+
+      // Assess
+      expect(value).toBe(response);
+    });
+
+    test('when the response cannot be serialized, it returns a marker in its place', () => {
+      // Prepare
+      const response = { foo: BigInt(1) };
+      const serializer = new MetadataSerializer();
+
+      // Act & Assess
+      expect(serializer.serializeResponse(response)).toBe('[UNSERIALIZABLE]');
+      expect(serializer.serializeResponse(Symbol.for('foo'))).toBe(
+        '[UNSERIALIZABLE]'
+      );
+    });
+
+    test('when the serializer returns undefined, it returns undefined', () => {
+      // Prepare
+      const serializer = new MetadataSerializer({
+        serializer: () => undefined,
+      });
+
+      // Act & Assess
+      expect(serializer.serializeResponse({ foo: 'bar' })).toBeUndefined();
+    });
+  });
+
+  describe('Method: serializeError', () => {
+    test('when the error is smaller than the maximum size, it returns the error as it is', () => {
+      // Prepare
+      const error = new Error('foo');
+      const errorWithoutStack = new Error('foo');
+      delete errorWithoutStack.stack;
+      const serializer = new MetadataSerializer({ maxSize: 4096 });
+
+      // Act & Assess
+      expect(serializer.serializeError(error)).toBe(error);
+      expect(serializer.serializeError(errorWithoutStack)).toBe(
+        errorWithoutStack
+      );
+    });
+
+    test('when the message or the stack of the error are larger than the maximum size, it returns a copy with them truncated', () => {
+      // Prepare
+      const error = new TypeError('Something went wrong');
+      const serializer = new MetadataSerializer({ maxSize: 9 });
+
+      // Act
+      const serializedError = serializer.serializeError(error);
+
+      // Assess
+      expect(serializedError).not.toBe(error);
+      expect(serializedError.name).toBe('TypeError');
+      expect(serializedError.message).toBe(
+        'Something... [TRUNCATED: 20 bytes]'
+      );
+      expect(serializedError.stack).toMatch(
+        /^TypeError\.\.\. \[TRUNCATED: \d+ bytes\]$/
+      );
+      expect(error.message).toBe('Something went wrong');
+    });
+  });
+});
@@ -0,0 +1,542 @@
+/**
+ * Test OtelProviderService class
+ *
+ * @group unit/tracer/providerservice
+ */
+
+import {
+  context,
+  ROOT_CONTEXT,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { getNamespace, Segment, Subsegment } from 'aws-xray-sdk-core';
+import { DynamoDBClient, GetItemCommand } from '@aws-sdk/client-dynamodb';
+import {
+  OtelProviderService,
+  OtelSegment,
+  OtelSubsegment,
+} from '../../src/otel';
+
+jest.spyOn(console, 'warn').mockImplementation(() => null);
+
+describe('Class: OtelProviderService', () => {
+  const ENVIRONMENT_VARIABLES = process.env;
+  const exporter = new InMemorySpanExporter();
+  const tracerProvider = new BasicTracerProvider();
+  tracerProvider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+  const otelTracer = tracerProvider.getTracer('test');
+
+  beforeAll(() => {
+    context.setGlobalContextManager(
+      new AsyncLocalStorageContextManager().enable()
+    );
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    exporter.reset();
+    process.env = { ...ENVIRONMENT_VARIABLES };
+  });
+
+  afterAll(() => {
+    context.disable();
+    process.env = ENVIRONMENT_VARIABLES;
+  });
+
+  const clientConfig = {
+    credentials: { accessKeyId: 'foo', secretAccessKey: 'bar' },
+  };
+
+  const createDynamoDBClient = (): DynamoDBClient => {
+    const client = new DynamoDBClient(clientConfig);
+    // Return the response without sending the request
+    client.middlewareStack.add(
+      () => async () => ({
+        output: {
+          $metadata: { httpStatusCode: 200, requestId: 'request-id' },
+        },
+        response: {},
+      }),
+      { step: 'build', name: 'mockResponse' }
+    );
+
+    return client;
+  };
+
+  describe('Method: constructor', () => {
+    test('when called without a tracer, it uses the one of the global tracer provider', () => {
+      // Prepare
+      trace.setGlobalTracerProvider(tracerProvider);
+      const provider = new OtelProviderService();
+
+      // Act
+      provider.captureFunc('my-func', () => true);
+
+      // Assess
+      const [span] = exporter.getFinishedSpans();
+      expect(span.name).toBe('my-func');
+      expect(span.instrumentationLibrary.name).toBe(
+        '@aws-lambda-powertools/tracer'
+      );
+      trace.disable();
+    });
+  });
+
+  describe('Method: captureAWS', () => {
+    test('when called, it returns the SDK without tracing it and logs a warning', () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+      const sdk = {};
+
+      // Act
+      const result = provider.captureAWS(sdk);
+
+      // Assess
+      expect(result).toBe(sdk);
+      expect(console.warn).toHaveBeenCalledWith(
+        'The OpenTelemetry provider does not support tracing AWS SDK v2 clients, the SDK will not be traced'
+      );
+    });
+  });
+
+  describe('Method: captureAWSClient', () => {
+    test('when called, it returns the client without tracing it and logs a warning', () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+      const client = {};
+
+      // Act
+      const result = provider.captureAWSClient(client);
+
+      // Assess
+      expect(result).toBe(client);
+      expect(console.warn).toHaveBeenCalledWith(
+        'The OpenTelemetry provider does not support tracing AWS SDK v2 clients, the client will not be traced'
+      );
+    });
+  });
+
+  describe('Method: captureAWSv3Client', () => {
+    test('when a command is sent, it wraps it in a client span with the request attributes', async () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+      const client = provider.captureAWSv3Client(createDynamoDBClient());
+
+      // Act
+      await provider.captureAsyncFunc(
+        '## index.handler',
+        async (subsegment) => {
+          await client.send(
+            new GetItemCommand({ TableName: 'my-table', Key: {} })
+          );
+          subsegment?.close();
+        }
+      );
+
+      // Assess
+      const [clientSpan, handlerSpan] = exporter.getFinishedSpans();
+      expect(clientSpan.name).toBe('DynamoDB.GetItem');
+      expect(clientSpan.kind).toBe(SpanKind.CLIENT);
+      expect(clientSpan.parentSpanId).toBe(handlerSpan.spanContext().spanId);
+      expect(clientSpan.attributes).toEqual({
+        'rpc.system': 'aws-api',
+        'rpc.service': 'DynamoDB',
+        'rpc.method': 'GetItem',
+        'http.status_code': 200,
+        'aws.request_id': 'request-id',
+      });
+      expect(clientSpan.status.code).toBe(SpanStatusCode.UNSET);
+    });
+
+    test('when a command fails, it records the error on the client span and rethrows it', async () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+      const client = new DynamoDBClient(clientConfig);
+      client.middlewareStack.add(
+        () => async () => {
+          throw Object.assign(new Error('Requested resource not found'), {
+            $metadata: { httpStatusCode: 400, requestId: 'request-id' },
+          });
+        },
+        { step: 'build', name: 'mockError' }
+      );
+      provider.captureAWSv3Client(client);
+
+      // Act & Assess
+      await expect(
+        client.send(new GetItemCommand({ TableName: 'my-table', Key: {} }))
+      ).rejects.toThrow('Requested resource not found');
+      const [clientSpan] = exporter.getFinishedSpans();
+      expect(clientSpan.attributes).toEqual(
+        expect.objectContaining({
+          'http.status_code': 400,
+          'aws.request_id': 'request-id',
+        })
+      );
+      expect(clientSpan.status).toEqual({
+        code: SpanStatusCode.ERROR,
+        message: 'Requested resource not found',
+      });
+      expect(clientSpan.events[0].name).toBe('exception');
+    });
+
+    test('when called twice on the same client, it adds the middleware only once', async () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+      const client = createDynamoDBClient();
+
+      // Act
+      provider.captureAWSv3Client(client);
+      provider.captureAWSv3Client(client);
+      await client.send(new GetItemCommand({ TableName: 'my-table', Key: {} }));
+
+      // Assess
+      expect(exporter.getFinishedSpans()).toHaveLength(1);
+    });
+
+    test('when the middleware context or the response lack some details, it uses defaults', async () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+      const add = jest.fn();
+      provider.captureAWSv3Client({
+        middlewareStack: { add, identify: () => [] },
+      });
+      const middleware = add.mock.calls[0][0];
+
+      // Act
+      await middleware(async () => ({}), {})({});
+
+      // Assess
+      const [clientSpan] = exporter.getFinishedSpans();
+      expect(clientSpan.name).toBe('AWS.');
+      expect(clientSpan.attributes).toEqual({
+        'rpc.system': 'aws-api',
+        'rpc.service': 'AWS',
+        'rpc.method': '',
+      });
+    });
+  });
+
+  describe('Method: captureAsyncFunc', () => {
+    test('when called, it runs the function in the context of a new span, ended when the subsegment is closed', async () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+
+      // Act
+      const result = await provider.captureAsyncFunc(
+        '## index.handler',
+        async (subsegment) => {
+          provider.putAnnotation('ColdStart', true);
+          await provider.captureAsyncFunc(
+            '### myMethod',
+            async (nestedSubsegment) => {
+              provider.putMetadata('myMethod response', { foo: 'bar' }, 'svc');
+              nestedSubsegment?.close();
+            }
+          );
+          subsegment?.close();
+          subsegment?.flush();
+
+          return 'foo';
+        }
+      );
+
+      // Assess
+      expect(result).toBe('foo');
+      const [methodSpan, handlerSpan] = exporter.getFinishedSpans();
+      expect(handlerSpan.name).toBe('## index.handler');
+      expect(handlerSpan.kind).toBe(SpanKind.INTERNAL);
+      expect(handlerSpan.attributes).toEqual({ ColdStart: true });
+      expect(methodSpan.name).toBe('### myMethod');
+      expect(methodSpan.parentSpanId).toBe(handlerSpan.spanContext().spanId);
+      expect(methodSpan.attributes).toEqual({
+        'metadata.svc.myMethod response': '{"foo":"bar"}',
+      });
+    });
+  });
+
+  describe('Method: captureFunc', () => {
+    test('when called, it runs the function in the context of a new span and ends it', () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+
+      // Act
+      const result = provider.captureFunc('my-func', (subsegment) => {
+        expect(provider.getSegment()).toBe(subsegment);
+
+        return 'foo';
+      });
+
+      // Assess
+      expect(result).toBe('foo');
+      const [span] = exporter.getFinishedSpans();
+      expect(span.name).toBe('my-func');
+      expect(span.status.code).toBe(SpanStatusCode.UNSET);
+    });
+
+    test('when the function throws, it records the error, ends the span and rethrows it', () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+
+      // Act & Assess
+      expect(() =>
+        provider.captureFunc('my-func', () => {
+          throw new Error('Something went wrong');
+        })
+      ).toThrow('Something went wrong');
+      const [span] = exporter.getFinishedSpans();
+      expect(span.status).toEqual({
+        code: SpanStatusCode.ERROR,
+        message: 'Something went wrong',
+      });
+      expect(span.events[0].attributes).toEqual(
+        expect.objectContaining({
+          'exception.message': 'Something went wrong',
+        })
+      );
+    });
+  });
+
+  describe('Method: getSegment', () => {
+    test('when called outside of a span, it returns a segment representing the active context', () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+
+      // Act
+      const segment = provider.getSegment();
+
+      // Assess
+      expect(segment).toBeInstanceOf(OtelSegment);
+      expect(segment?.name).toBe('my-lambda-function');
+      expect((segment as OtelSegment).context).toBe(ROOT_CONTEXT);
+    });
+
+    test('when the function name is not available, it returns a segment with a default name', () => {
+      // Prepare
+      delete process.env.AWS_LAMBDA_FUNCTION_NAME;
+      const provider = new OtelProviderService(otelTracer);
+
+      // Act
+      const segment = provider.getSegment();
+
+      // Assess
+      expect(segment?.name).toBe('facade');
+    });
+
+    test('when called in the context of a span started by another instrumentation, it returns a segment that can only be used as parent', () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+      const invocationSpan = otelTracer.startSpan('my-lambda-function');
+
+      // Act
+      const segment = context.with(
+        trace.setSpan(ROOT_CONTEXT, invocationSpan),
+        () => provider.getSegment()
+      ) as Segment;
+      const subsegment = segment.addNewSubsegment('## index.handler');
+      subsegment.close();
+      segment.close();
+      segment.flush();
+
+      // Assess
+      expect(segment.id).toBe(invocationSpan.spanContext().spanId);
+      const spans = exporter.getFinishedSpans();
+      expect(spans).toHaveLength(1);
+      expect(spans[0].name).toBe('## index.handler');
+      expect(spans[0].parentSpanId).toBe(invocationSpan.spanContext().spanId);
+    });
+  });
+
+  describe('Method: setSegment', () => {
+    test('when a subsegment is set, it becomes the parent of the new spans and the target of annotations', async () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+      const facade = provider.getSegment() as Segment;
+      const handlerSubsegment = facade.addNewSubsegment('## index.handler');
+
+      // Act
+      provider.setSegment(handlerSubsegment);
+      provider.putAnnotation('Service', 'hello-world');
+      await provider.captureAsyncFunc('### myMethod', async (subsegment) => {
+        provider.putAnnotation('foo', 'bar');
+        subsegment?.close();
+      });
+      handlerSubsegment.close();
+      provider.setSegment(facade);
+      provider.putAnnotation('baz', 'qux');
+
+      // Assess
+      const [methodSpan, handlerSpan] = exporter.getFinishedSpans();
+      expect(handlerSpan.attributes).toEqual({ Service: 'hello-world' });
+      expect(methodSpan.attributes).toEqual({ foo: 'bar' });
+      expect(methodSpan.parentSpanId).toBe(handlerSpan.spanContext().spanId);
+      expect(provider.getSegment()).toBe(facade);
+      expect(console.warn).toHaveBeenCalledWith(
+        'You cannot annotate the main segment in a Lambda execution environment'
+      );
+    });
+
+    test('when a subsegment is set in the context of a span, it takes the place of the span in that context only', async () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+
+      // Act
+      await provider.captureAsyncFunc(
+        '## index.handler',
+        async (subsegment) => {
+          const customSubsegment = (subsegment as Subsegment).addNewSubsegment(
+            '### custom'
+          );
+          provider.setSegment(customSubsegment);
+          provider.captureFunc('### nested', () => {
+            expect(provider.getSegment()).not.toBe(customSubsegment);
+          });
+          expect(provider.getSegment()).toBe(customSubsegment);
+          customSubsegment.close();
+          provider.setSegment(subsegment as Subsegment);
+          subsegment?.close();
+        }
+      );
+
+      // Assess
+      const [nestedSpan, customSpan, handlerSpan] = exporter.getFinishedSpans();
+      expect(nestedSpan.parentSpanId).toBe(customSpan.spanContext().spanId);
+      expect(customSpan.parentSpanId).toBe(handlerSpan.spanContext().spanId);
+    });
+
+    test('when a segment not backed by a span is set, new spans use the active context as parent', () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+
+      // Act
+      provider.setSegment(new Subsegment('### foo.bar'));
+      provider.captureFunc('my-func', () => true);
+
+      // Assess
+      const [span] = exporter.getFinishedSpans();
+      expect(span.parentSpanId).toBeUndefined();
+    });
+  });
+
+  describe('Method: putAnnotation', () => {
+    test('when called outside of a subsegment, it logs a warning and does nothing', () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+
+      // Act
+      provider.putAnnotation('foo', 'bar');
+
+      // Assess
+      expect(console.warn).toHaveBeenCalledWith(
+        'You cannot annotate the main segment in a Lambda execution environment'
+      );
+    });
+  });
+
+  describe('Method: putMetadata', () => {
+    test('when called outside of a subsegment, it logs a warning and does nothing', () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+
+      // Act
+      provider.putMetadata('foo', 'bar');
+
+      // Assess
+      expect(console.warn).toHaveBeenCalledWith(
+        'You cannot add metadata to the main segment in a Lambda execution environment'
+      );
+    });
+
+    test('when called with values of different types, it sets them as span attributes', () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+
+      // Act
+      provider.captureFunc('my-func', (subsegment) => {
+        provider.putMetadata('string', 'bar');
+        provider.putMetadata('number', 42, 'svc');
+        provider.putMetadata('boolean', false, 'svc');
+        provider.putMetadata('undefined', undefined, 'svc');
+        provider.putMetadata('circular', circular, 'svc');
+        subsegment?.addMetadata('array', [1, 2]);
+      });
+
+      // Assess
+      const [span] = exporter.getFinishedSpans();
+      expect(span.attributes).toEqual({
+        'metadata.default.string': 'bar',
+        'metadata.default.array': '[1,2]',
+        'metadata.svc.number': 42,
+        'metadata.svc.boolean': false,
+        'metadata.svc.circular': '[object Object]',
+      });
+    });
+  });
+
+  describe('Class: OtelSubsegment', () => {
+    test('when errors or flags are added, it sets the status of the span', () => {
+      // Prepare
+      const first = OtelSubsegment.start(otelTracer, 'first', ROOT_CONTEXT);
+      const second = OtelSubsegment.start(otelTracer, 'second', ROOT_CONTEXT);
+      const third = OtelSubsegment.start(otelTracer, 'third', ROOT_CONTEXT);
+
+      // Act
+      first.close('Something went wrong');
+      second.addFaultFlag();
+      second.close();
+      third.addErrorFlag();
+      third.close();
+
+      // Assess
+      const [firstSpan, secondSpan, thirdSpan] = exporter.getFinishedSpans();
+      expect(first.isClosed()).toBe(true);
+      expect(firstSpan.status).toEqual({
+        code: SpanStatusCode.ERROR,
+        message: 'Something went wrong',
+      });
+      expect(secondSpan.status).toEqual({ code: SpanStatusCode.ERROR });
+      expect(thirdSpan.status).toEqual({ code: SpanStatusCode.ERROR });
+    });
+  });
+
+  describe('Method: getNamespace', () => {
+    test('when called, it returns the namespace of the AWS X-Ray SDK', () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+
+      // Act
+      const namespace = provider.getNamespace();
+
+      // Assess
+      expect(namespace).toBe(getNamespace());
+    });
+  });
+
+  describe('Methods: captureFetchGlobal, captureHTTPsGlobal, setContextMissingStrategy, setDaemonAddress, setLogger', () => {
+    test('when called, they do nothing as they are specific to AWS X-Ray', () => {
+      // Prepare
+      const provider = new OtelProviderService(otelTracer);
+
+      // Act
+      provider.captureFetchGlobal();
+      provider.captureHTTPsGlobal();
+      provider.setContextMissingStrategy('LOG_ERROR');
+      provider.setDaemonAddress('http://localhost:8000');
+      provider.setLogger({});
+
+      // Assess
+      expect(exporter.getFinishedSpans()).toHaveLength(0);
+      expect(console.warn).toHaveBeenCalledTimes(0);
+    });
+  });
+});
@@ -137,6 +137,204 @@ describe('Class: ProviderService', () => {
     });
   });
 
+  describe('Method: captureFetchGlobal', () => {
+    const originalFetch = globalThis.fetch;
+    const segment = new Segment(
+      'facade',
+      '1-abcdef12-3456abcdef123456abcdef12'
+    );
+    let fetchMock: jest.Mock;
+
+    beforeEach(() => {
+      fetchMock = jest.fn(
+        async () =>
+          new Response('hello', {
+            status: 200,
+            headers: { 'content-length': '5' },
+          })
+      );
+      globalThis.fetch = fetchMock;
+      segment.subsegments = [];
+      segment.notTraced = false;
+      jest.mocked(getSegment).mockReturnValue(segment);
+    });
+
+    afterAll(() => {
+      globalThis.fetch = originalFetch;
+      jest.mocked(getSegment).mockReset();
+    });
+
+    test('when called multiple times, it patches the global fetch function only once', () => {
+      // Prepare
+      const provider: ProviderService = new ProviderService();
+
+      // Act
+      provider.captureFetchGlobal();
+      const capturedFetch = globalThis.fetch;
+      provider.captureFetchGlobal();
+
+      // Assess
+      expect(capturedFetch).not.toBe(fetchMock);
+      expect(globalThis.fetch).toBe(capturedFetch);
+    });
+
+    test('when the global fetch function is not available, it does nothing', () => {
+      // Prepare
+      const provider: ProviderService = new ProviderService();
+      globalThis.fetch = undefined as unknown as typeof fetch;
+
+      // Act
+      provider.captureFetchGlobal();
+
+      // Assess
+      expect(globalThis.fetch).toBeUndefined();
+    });
+
+    test('when a request is made, it creates a subsegment with the request and response data, and propagates the trace header', async () => {
+      // Prepare
+      const provider: ProviderService = new ProviderService();
+      provider.captureFetchGlobal();
+
+      // Act
+      const response = await fetch('https://api.example.com/bookings?id=1', {
+        method: 'post',
+      });
+
+      // Assess
+      expect(await response.text()).toBe('hello');
+      const [subsegment] = segment.subsegments ?? [];
+      expect(subsegment).toEqual(
+        expect.objectContaining({
+          name: 'api.example.com',
+          namespace: 'remote',
+          http: {
+            request: {
+              url: 'https://api.example.com/bookings',
+              method: 'POST',
+            },
+            response: { status: 200, content_length: 5 },
+          },
+        })
+      );
+      expect(subsegment.isClosed()).toBe(true);
+      const [input, init] = fetchMock.mock.calls[0];
+      expect(input).toBe('https://api.example.com/bookings?id=1');
+      expect(init.method).toBe('post');
+      expect(init.headers.get('X-Amzn-Trace-Id')).toBe(
+        `Root=1-abcdef12-3456abcdef123456abcdef12;Parent=${subsegment.id};Sampled=1`
+      );
+    });
+
+    test('when the response has an error status, it adds the corresponding flags to the subsegment, and propagates the sampling decision', async () => {
+      // Prepare
+      const provider: ProviderService = new ProviderService();
+      provider.captureFetchGlobal();
+      fetchMock
+        .mockResolvedValueOnce(new Response(null, { status: 429 }))
+        .mockResolvedValueOnce(new Response(null, { status: 503 }));
+      segment.notTraced = true;
+
+      // Act
+      await fetch(new URL('https://api.example.com/bookings'));
+      await fetch(new Request('https://api.example.com/bookings'));
+
+      // Assess
+      const [throttled, failed] = segment.subsegments ?? [];
+      expect(throttled).toEqual(
+        expect.objectContaining({
+          throttle: true,
+          error: true,
+          http: {
+            request: { url: 'https://api.example.com/bookings', method: 'GET' },
+            response: { status: 429 },
+          },
+        })
+      );
+      expect(failed).toEqual(expect.objectContaining({ fault: true }));
+      expect(failed).not.toHaveProperty('error');
+      expect(fetchMock.mock.calls[0][1].headers.get('X-Amzn-Trace-Id')).toBe(
+        `Root=1-abcdef12-3456abcdef123456abcdef12;Parent=${throttled.id};Sampled=0`
+      );
+    });
+
+    test('when the request is in a subsegment and already has a trace header, it keeps it', async () => {
+      // Prepare
+      const provider: ProviderService = new ProviderService();
+      provider.captureFetchGlobal();
+      const parent = segment.addNewSubsegment('## index.handler');
+      jest.mocked(getSegment).mockReturnValue(parent);
+
+      // Act
+      await fetch(
+        new Request('https://api.example.com/bookings', {
+          method: 'DELETE',
+          headers: {
+            'X-Amzn-Trace-Id': 'Root=1-5759e988-bd862e3fe1be46a994272793',
+          },
+        })
+      );
+
+      // Assess
+      const [subsegment] = parent.subsegments ?? [];
+      expect(subsegment).toEqual(
+        expect.objectContaining({
+          name: 'api.example.com',
+          http: expect.objectContaining({
+            request: {
+              url: 'https://api.example.com/bookings',
+              method: 'DELETE',
+            },
+          }),
+        })
+      );
+      expect(fetchMock.mock.calls[0][1].headers.get('X-Amzn-Trace-Id')).toBe(
+        'Root=1-5759e988-bd862e3fe1be46a994272793'
+      );
+    });
+
+    test('when the request fails, it closes the subsegment with the error and throws it', async () => {
+      // Prepare
+      const provider: ProviderService = new ProviderService();
+      provider.captureFetchGlobal();
+      fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      // Act & Assess
+      await expect(fetch('https://api.example.com/bookings')).rejects.toThrow(
+        'fetch failed'
+      );
+      const [subsegment] = segment.subsegments ?? [];
+      expect(subsegment).toEqual(
+        expect.objectContaining({
+          fault: true,
+          http: {
+            request: { url: 'https://api.example.com/bookings', method: 'GET' },
+          },
+        })
+      );
+      expect(subsegment.isClosed()).toBe(true);
+    });
+
+    test('when there is no active segment, or the URL is not valid, it makes the request without tracing it', async () => {
+      // Prepare
+      const provider: ProviderService = new ProviderService();
+      provider.captureFetchGlobal();
+      jest.mocked(getSegment).mockReturnValueOnce(undefined);
+
+      // Act
+      await fetch('https://api.example.com/bookings');
+      await fetch('/bookings');
+
+      // Assess
+      expect(segment.subsegments).toEqual([]);
+      expect(fetchMock).toHaveBeenNthCalledWith(
+        1,
+        'https://api.example.com/bookings',
+        undefined
+      );
+      expect(fetchMock).toHaveBeenNthCalledWith(2, '/bookings', undefined);
+    });
+  });
+
   describe('Method: captureFunc', () => {
     test('when called, it forwards the correct parameter, and call the correct function', () => {
       // Prepare
@@ -0,0 +1,517 @@
+/**
+ * Test RecordingProviderService class
+ *
+ * @group unit/tracer/providerservice
+ */
+
+import { AssertionError } from 'node:assert';
+import { createSocket } from 'node:dgram';
+import { AddressInfo } from 'node:net';
+import { getNamespace, Segment, Subsegment } from 'aws-xray-sdk-core';
+import {
+  RecordedSegment,
+  RecordedSubsegment,
+  RecordingProviderService,
+  SubsegmentAssertion,
+} from '../../src/provider';
+import { captureLambdaHandler } from '../../src/middleware/middy';
+import { Tracer } from '../../src';
+import middy from '@middy/core';
+
+jest.spyOn(console, 'warn').mockImplementation(() => null);
+
+describe('Class: RecordingProviderService', () => {
+  const ENVIRONMENT_VARIABLES = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...ENVIRONMENT_VARIABLES };
+  });
+
+  afterAll(() => {
+    process.env = ENVIRONMENT_VARIABLES;
+  });
+
+  describe('Method: captureAsyncFunc', () => {
+    test('when called, it records the subsegment tree with annotations, metadata and timings', async () => {
+      // Prepare
+      process.env._X_AMZN_TRACE_ID =
+        'Root=1-abcdef12-3456abcdef123456abcdef12;Parent=1234abcd1234abcd;Sampled=1';
+      const provider = new RecordingProviderService();
+
+      // Act
+      const result = await provider.captureAsyncFunc(
+        '## index.handler',
+        async (subsegment) => {
+          provider.putAnnotation('ColdStart', true);
+          await provider.captureAsyncFunc(
+            '### myMethod',
+            async (nestedSubsegment) => {
+              provider.putMetadata('myMethod response', { foo: 'bar' }, 'svc');
+              nestedSubsegment?.close();
+              nestedSubsegment?.flush();
+            }
+          );
+          subsegment?.close();
+
+          return 'foo';
+        }
+      );
+
+      // Assess
+      expect(result).toBe('foo');
+      const segment = provider.getRecordedSegment();
+      expect(segment).toBeInstanceOf(RecordedSegment);
+      expect(segment.name).toBe('my-lambda-function');
+      expect(segment.trace_id).toBe('1-abcdef12-3456abcdef123456abcdef12');
+      const [handler, method] = provider.getSubsegments();
+      expect(handler).toBeInstanceOf(RecordedSubsegment);
+      expect(handler).toEqual(
+        expect.objectContaining({
+          name: '## index.handler',
+          parent: segment,
+          annotations: { ColdStart: true },
+          start_time: expect.any(Number),
+          end_time: expect.any(Number),
+        })
+      );
+      expect(method).toEqual(
+        expect.objectContaining({
+          name: '### myMethod',
+          parent: handler,
+          metadata: { svc: { 'myMethod response': { foo: 'bar' } } },
+        })
+      );
+    });
+  });
+
+  describe('Method: captureFunc', () => {
+    test('when called, it records a closed subsegment and returns the result', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+
+      // Act
+      const result = provider.captureFunc('my-func', (subsegment) => {
+        expect(provider.getSegment()).toBe(subsegment);
+
+        return 'foo';
+      });
+
+      // Assess
+      expect(result).toBe('foo');
+      provider.expectSubsegment('my-func').toBeClosed();
+    });
+
+    test('when the function throws, it records the error, closes the subsegment and rethrows it', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+
+      // Act & Assess
+      expect(() =>
+        provider.captureFunc('my-func', () => {
+          throw new Error('Something went wrong');
+        })
+      ).toThrow('Something went wrong');
+      provider
+        .expectSubsegment('my-func')
+        .toBeClosed()
+        .toHaveError('Something went wrong');
+    });
+  });
+
+  describe('Method: getSegment', () => {
+    test('when called outside of a captured function, it returns the root segment', () => {
+      // Prepare
+      delete process.env.AWS_LAMBDA_FUNCTION_NAME;
+      delete process.env._X_AMZN_TRACE_ID;
+      const provider = new RecordingProviderService();
+
+      // Act
+      const segment = provider.getSegment();
+
+      // Assess
+      expect(segment).toBe(provider.getRecordedSegment());
+      expect(segment?.name).toBe('facade');
+    });
+  });
+
+  describe('Method: setSegment', () => {
+    test('when a subsegment is set, it becomes the parent of the new subsegments and the target of annotations', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const facade = provider.getSegment() as Segment;
+      const handlerSubsegment = facade.addNewSubsegment('## index.handler');
+
+      // Act
+      provider.setSegment(handlerSubsegment);
+      provider.putAnnotation('Service', 'hello-world');
+      await provider.captureAsyncFunc('### myMethod', async (subsegment) => {
+        subsegment?.close();
+      });
+      handlerSubsegment.close();
+      provider.setSegment(facade);
+      provider.putAnnotation('foo', 'bar');
+      provider.putMetadata('foo', 'bar');
+
+      // Assess
+      provider
+        .expectSubsegment('## index.handler')
+        .toHaveAnnotation('Service', 'hello-world')
+        .toHaveSubsegment('### myMethod');
+      expect(provider.getSegment()).toBe(facade);
+      expect(console.warn).toHaveBeenCalledWith(
+        'You cannot annotate the main segment in a Lambda execution environment'
+      );
+      expect(console.warn).toHaveBeenCalledWith(
+        'You cannot add metadata to the main segment in a Lambda execution environment'
+      );
+    });
+
+    test('when a subsegment is set in a captured function, it takes the place of its subsegment in that scope only', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+
+      // Act
+      await provider.captureAsyncFunc(
+        '## index.handler',
+        async (subsegment) => {
+          const customSubsegment = (subsegment as Subsegment).addNewSubsegment(
+            '### custom'
+          );
+          provider.setSegment(customSubsegment);
+          provider.captureFunc('### nested', () => {
+            expect(provider.getSegment()).not.toBe(customSubsegment);
+          });
+          customSubsegment.close();
+          subsegment?.close();
+        }
+      );
+
+      // Assess
+      provider.expectSubsegment('### nested').toHaveParent('### custom');
+      provider.expectSubsegment('### custom').toHaveParent('## index.handler');
+    });
+  });
+
+  describe('Method: reset', () => {
+    test('when called, it discards the recorded tree', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      provider.captureFunc('my-func', () => true);
+      const segment = provider.getRecordedSegment();
+
+      // Act
+      provider.reset();
+
+      // Assess
+      expect(provider.getRecordedSegment()).not.toBe(segment);
+      expect(provider.getSubsegments()).toEqual([]);
+    });
+  });
+
+  describe('Method: expectSubsegment', () => {
+    test('when no subsegment with the given name was recorded, it throws an AssertionError', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      provider.captureFunc('my-func', () => true);
+
+      // Act & Assess
+      expect(() => provider.expectSubsegment('other-func')).toThrow(
+        new AssertionError({
+          message: `Expected a subsegment named 'other-func' to be recorded`,
+          actual: ['my-func'],
+          expected: 'other-func',
+        })
+      );
+    });
+
+    test('when the assertions fail, they throw an AssertionError describing the expectation', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const subsegment = (provider.getSegment() as Segment).addNewSubsegment(
+        'my-func'
+      );
+      const assertion = provider.expectSubsegment('my-func');
+
+      // Act & Assess
+      expect(() => assertion.toBeClosed()).toThrow(
+        `Expected the subsegment 'my-func' to be closed`
+      );
+      expect(() => assertion.toHaveAnnotation('foo')).toThrow(
+        `Expected the subsegment 'my-func' to have the annotation 'foo'`
+      );
+      subsegment.addAnnotation('foo', 'baz');
+      expect(() => assertion.toHaveAnnotation('foo', 'bar')).toThrow(
+        `Expected the subsegment 'my-func' to have the annotation 'foo' with value "bar"`
+      );
+      expect(() => assertion.toHaveMetadata('foo')).toThrow(
+        `Expected the subsegment 'my-func' to have the metadata 'foo'`
+      );
+      subsegment.addMetadata('foo', { bar: 'baz' }, 'svc');
+      expect(() => assertion.toHaveMetadata('foo', { bar: 'qux' })).toThrow(
+        `Expected the subsegment 'my-func' to have the metadata 'foo' with value {"bar":"qux"}`
+      );
+      expect(() => assertion.toHaveMetadata('foo', undefined, 'other')).toThrow(
+        `Expected the subsegment 'my-func' to have the metadata 'foo'`
+      );
+      expect(() => assertion.toHaveError()).toThrow(
+        `Expected the subsegment 'my-func' to have an error`
+      );
+      subsegment.addError(new Error('Something went wrong'));
+      expect(() => assertion.toHaveError('Something else')).toThrow(
+        `Expected the subsegment 'my-func' to have an error with message 'Something else'`
+      );
+      expect(() => assertion.toHaveParent('## index.handler')).toThrow(
+        `Expected the subsegment 'my-func' to have the parent '## index.handler'`
+      );
+      expect(() => assertion.toHaveSubsegment('### myMethod')).toThrow(
+        `Expected the subsegment 'my-func' to have the subsegment '### myMethod'`
+      );
+    });
+
+    test('when the assertions pass, they can be chained', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const subsegment = (provider.getSegment() as Segment).addNewSubsegment(
+        'my-func'
+      );
+      subsegment.addAnnotation('foo', 'bar');
+      subsegment.addMetadata('foo', { bar: 'baz' }, 'svc');
+      subsegment.addNewSubsegment('### myMethod').close();
+      subsegment.addErrorFlag();
+      subsegment.close();
+
+      // Act & Assess
+      provider
+        .expectSubsegment('my-func')
+        .toBeClosed()
+        .toHaveAnnotation('foo')
+        .toHaveAnnotation('foo', 'bar')
+        .toHaveMetadata('foo')
+        .toHaveMetadata('foo', { bar: 'baz' })
+        .toHaveMetadata('foo', { bar: 'baz' }, 'svc')
+        .toHaveError()
+        .toHaveParent('my-lambda-function')
+        .toHaveSubsegment('### myMethod');
+    });
+
+    test('when an error was added to a nested subsegment first, it finds its message from the parent', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const error = new Error('Something went wrong');
+
+      // Act
+      expect(() =>
+        provider.captureFunc('## index.handler', () => {
+          provider.captureFunc('### myMethod', () => {
+            throw error;
+          });
+        })
+      ).toThrow(error);
+
+      // Assess
+      provider
+        .expectSubsegment('## index.handler')
+        .toHaveError('Something went wrong');
+      (
+        provider.getSubsegments('## index.handler')[0] as Subsegment & {
+          cause: { id: string };
+        }
+      ).cause.id = 'unknown';
+      expect(() =>
+        provider
+          .expectSubsegment('## index.handler')
+          .toHaveError('Something went wrong')
+      ).toThrow(AssertionError);
+      const orphan = new RecordedSubsegment('orphan');
+      orphan.addErrorFlag();
+      Object.assign(orphan, { cause: { id: 'unknown' } });
+      expect(() =>
+        new SubsegmentAssertion(orphan).toHaveError('Something went wrong')
+      ).toThrow(AssertionError);
+    });
+  });
+
+  describe('Option: daemonAddress', () => {
+    test('when set, it sends each subsegment to the daemon when closed, using the UDP wire format', async () => {
+      // Prepare
+      const daemon = createSocket('udp4');
+      await new Promise<void>((resolve) =>
+        daemon.bind(0, '127.0.0.1', resolve)
+      );
+      const { port } = daemon.address() as AddressInfo;
+      const messages: string[] = [];
+      const received = new Promise<void>((resolve) =>
+        daemon.on('message', (message) => {
+          messages.push(message.toString());
+          if (messages.length === 2) resolve();
+        })
+      );
+      process.env._X_AMZN_TRACE_ID =
+        'Root=1-abcdef12-3456abcdef123456abcdef12;Parent=1234abcd1234abcd;Sampled=1';
+      const provider = new RecordingProviderService({
+        daemonAddress: `127.0.0.1:${port}`,
+      });
+
+      // Act
+      provider.captureFunc('## index.handler', () => {
+        provider.captureFunc('### myMethod', () => true);
+      });
+      await received;
+      daemon.close();
+
+      // Assess
+      const [header, body] = messages[1].split('\n');
+      expect(header).toBe('{"format":"json","version":1}');
+      const document = JSON.parse(body);
+      expect(document).toEqual(
+        expect.objectContaining({
+          name: '## index.handler',
+          type: 'subsegment',
+          trace_id: '1-abcdef12-3456abcdef123456abcdef12',
+          parent_id: provider.getRecordedSegment().id,
+        })
+      );
+      expect(document.subsegments).toBeUndefined();
+      expect(JSON.parse(messages[0].split('\n')[1]).parent_id).toBe(
+        document.id
+      );
+    });
+
+    test('when the subsegment cannot be sent, it logs a warning', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      provider.setDaemonAddress('127.0.0.1:99999');
+      let sendCallback: ((error: Error | null) => void) | undefined;
+      const socket = createSocket('udp4');
+      jest.spyOn(socket, 'send').mockImplementation(((...args: unknown[]) => {
+        sendCallback = args[3] as (error: Error | null) => void;
+      }) as typeof socket.send);
+      jest.spyOn(socket, 'unref').mockReturnValue(socket);
+      (provider as unknown as { socket: typeof socket }).socket = socket;
+
+      // Act
+      provider.captureFunc('my-func', () => true);
+      sendCallback?.(null);
+      sendCallback?.(new Error('Network unreachable'));
+
+      // Assess
+      expect(console.warn).toHaveBeenCalledTimes(1);
+      expect(console.warn).toHaveBeenCalledWith(
+        'Failed to send the subsegment to the daemon',
+        new Error('Network unreachable')
+      );
+      socket.close();
+    });
+  });
+
+  describe('Class: RecordedSegment', () => {
+    test('when closed, it does not send the segment', () => {
+      // Prepare
+      const onSubsegmentClosed = jest.fn();
+      const segment = new RecordedSegment('facade', onSubsegmentClosed);
+      const subsegment = new RecordedSubsegment('orphan');
+
+      // Act
+      subsegment.close();
+      segment.close();
+      segment.flush();
+
+      // Assess
+      expect(onSubsegmentClosed).toHaveBeenCalledTimes(0);
+      expect(segment.isClosed()).toBe(true);
+      expect(subsegment.streamSubsegments()).toBeUndefined();
+      expect(JSON.parse(segment.format())).not.toHaveProperty(
+        'onSubsegmentClosed'
+      );
+    });
+  });
+
+  describe('Methods: captureAWS, captureAWSClient, captureAWSv3Client', () => {
+    test('when called, they return the clients as they are', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const client = {};
+
+      // Act & Assess
+      expect(provider.captureAWS(client)).toBe(client);
+      expect(provider.captureAWSClient(client)).toBe(client);
+      expect(provider.captureAWSv3Client(client)).toBe(client);
+    });
+  });
+
+  describe('Method: getNamespace', () => {
+    test('when called, it returns the namespace of the AWS X-Ray SDK', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+
+      // Act & Assess
+      expect(provider.getNamespace()).toBe(getNamespace());
+    });
+  });
+
+  describe('Methods: captureFetchGlobal, captureHTTPsGlobal, setContextMissingStrategy, setLogger', () => {
+    test('when called, they do nothing as they are specific to AWS X-Ray', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+
+      // Act
+      provider.captureFetchGlobal();
+      provider.captureHTTPsGlobal();
+      provider.setContextMissingStrategy('LOG_ERROR');
+      provider.setLogger({});
+
+      // Assess
+      expect(provider.getSubsegments()).toEqual([]);
+    });
+  });
+
+  describe('Usage with Tracer', () => {
+    test('when used with the middleware outside of AWS Lambda, it records the handler subsegment', async () => {
+      // Prepare
+      delete process.env.AWS_EXECUTION_ENV;
+      const provider = new RecordingProviderService();
+      const tracer = new Tracer({ provider });
+      class Lambda {
+        @tracer.captureMethod()
+        public async getChargeId(): Promise<string> {
+          throw new Error('Payment declined');
+        }
+      }
+      const lambda = new Lambda();
+      const handler = middy(async () => lambda.getChargeId()).use(
+        captureLambdaHandler(tracer)
+      );
+
+      // Act
+      await expect(handler({}, {} as never)).rejects.toThrow(
+        'Payment declined'
+      );
+
+      // Assess
+      expect(tracer.isTracingEnabled()).toBe(true);
+      provider
+        .expectSubsegment('## index.handler')
+        .toHaveAnnotation('ColdStart', true)
+        .toHaveAnnotation('Service', 'hello-world')
+        .toHaveError('Payment declined')
+        .toBeClosed();
+      provider
+        .expectSubsegment('### getChargeId')
+        .toHaveParent('## index.handler')
+        .toHaveError('Payment declined')
+        .toBeClosed();
+    });
+
+    test('when tracing is explicitly disabled, it records nothing', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+
+      // Act
+      const tracer = new Tracer({ provider, enabled: false });
+
+      // Assess
+      expect(tracer.isTracingEnabled()).toBe(false);
+    });
+  });
+});
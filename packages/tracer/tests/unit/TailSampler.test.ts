@@ -0,0 +1,396 @@
+/**
+ * Test TailSampler class
+ *
+ * @group unit/tracer/all
+ */
+
+import { ContextExamples as dummyContext } from '@aws-lambda-powertools/commons';
+import { Segment, SegmentUtils, Subsegment } from 'aws-xray-sdk-core';
+import { createSocket, Socket } from 'node:dgram';
+import { TailSampler } from '../../src/sampling';
+
+jest.mock('node:dgram', () => ({
+  ...jest.requireActual('node:dgram'),
+  createSocket: jest.fn(),
+}));
+
+jest.spyOn(console, 'log').mockImplementation(() => null);
+jest.spyOn(console, 'warn').mockImplementation(() => null);
+
+describe('Class: TailSampler', () => {
+  const context = dummyContext.helloworldContext;
+  const traceId = '1-abcdef12-3456abcdef123456abcdef12';
+  const socket = {
+    send: jest.fn(),
+    unref: jest.fn(),
+  };
+  socket.unref.mockReturnValue(socket);
+  const sendSpy = socket.send;
+  jest.mocked(createSocket).mockReturnValue(socket as unknown as Socket);
+
+  const createHandlerSubsegment = (): Subsegment => {
+    const segment = new Segment('facade', traceId);
+    segment.notTraced = true;
+
+    return segment.addNewSubsegment('## index.handler');
+  };
+
+  const getSentDocument = (): Record<string, unknown> =>
+    JSON.parse(sendSpy.mock.calls[0][0].split('\n')[1]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+    SegmentUtils.setStreamingThreshold(0);
+    delete process.env.AWS_XRAY_DAEMON_ADDRESS;
+  });
+
+  describe('Method: start', () => {
+    test('when an invocation is recorded, it keeps its closed subsegments in the tree until it is stopped', () => {
+      // Prepare
+      const tailSampler = new TailSampler('serverlessAirline');
+      const handlerSubsegment = createHandlerSubsegment();
+
+      // Act
+      tailSampler.start(handlerSubsegment, traceId);
+      handlerSubsegment.addNewSubsegment('### getBooking').close();
+      const streamingThreshold = SegmentUtils.getStreamingThreshold();
+      tailSampler.stop();
+
+      // Assess
+      expect(handlerSubsegment.subsegments).toHaveLength(1);
+      expect(streamingThreshold).toBe(Number.MAX_SAFE_INTEGER);
+      expect(SegmentUtils.getStreamingThreshold()).toBe(0);
+      expect(sendSpy).toHaveBeenCalledTimes(0);
+    });
+
+    test('when the remaining time gets below the timeout margin, it flushes the tree with the open subsegments in progress', () => {
+      // Prepare
+      jest.useFakeTimers();
+      const tailSampler = new TailSampler('serverlessAirline', {
+        timeoutMargin: 234,
+      });
+      const handlerSubsegment = createHandlerSubsegment();
+
+      // Act
+      tailSampler.start(handlerSubsegment, traceId, context);
+      handlerSubsegment.addNewSubsegment('### getBooking');
+      jest.advanceTimersByTime(999);
+      const sentBeforeTimeout = sendSpy.mock.calls.length;
+      jest.advanceTimersByTime(1);
+      tailSampler.stop(true);
+
+      // Assess
+      expect(sentBeforeTimeout).toBe(0);
+      expect(sendSpy).toHaveBeenCalledTimes(1);
+      expect(getSentDocument()).toEqual(
+        expect.objectContaining({
+          name: 'serverlessAirline',
+          trace_id: expect.stringMatching(/^1-[0-9a-f]{8}-[0-9a-f]{24}$/),
+          end_time: expect.any(Number),
+          fault: true,
+          annotations: {
+            TailSamplingReason: 'timeout',
+            OriginalTraceId: traceId,
+          },
+          subsegments: [
+            expect.objectContaining({
+              name: '## index.handler',
+              in_progress: true,
+              subsegments: [
+                expect.objectContaining({
+                  name: '### getBooking',
+                  in_progress: true,
+                }),
+              ],
+            }),
+          ],
+        })
+      );
+      expect(getSentDocument().trace_id).not.toBe(traceId);
+    });
+
+    test('when starting the timer throws, stopping the invocation restores the streaming threshold', () => {
+      // Prepare
+      const tailSampler = new TailSampler('serverlessAirline');
+      const brokenContext = {
+        ...context,
+        getRemainingTimeInMillis: () => {
+          throw new Error('Context is not available');
+        },
+      };
+
+      // Act
+      expect(() =>
+        tailSampler.start(createHandlerSubsegment(), traceId, brokenContext)
+      ).toThrow('Context is not available');
+      tailSampler.stop();
+
+      // Assess
+      expect(SegmentUtils.getStreamingThreshold()).toBe(0);
+    });
+
+    test('when another invocation is started, it stops recording the previous one without flushing it', () => {
+      // Prepare
+      const tailSampler = new TailSampler('serverlessAirline');
+      const firstSubsegment = createHandlerSubsegment();
+      const secondSubsegment = createHandlerSubsegment();
+
+      // Act
+      tailSampler.start(firstSubsegment, traceId, context);
+      tailSampler.start(secondSubsegment);
+      secondSubsegment.close(new Error('Something went wrong'));
+      tailSampler.stop(true);
+
+      // Assess
+      expect(SegmentUtils.getStreamingThreshold()).toBe(0);
+      expect(sendSpy).toHaveBeenCalledTimes(1);
+      expect(getSentDocument()).toEqual(
+        expect.objectContaining({
+          start_time: secondSubsegment.start_time,
+          annotations: { TailSamplingReason: 'error' },
+          subsegments: [expect.objectContaining({ id: secondSubsegment.id })],
+        })
+      );
+    });
+  });
+
+  describe('Method: flushBeforeTimeout', () => {
+    test('when an invocation is recorded, it flushes its tree once as timed out', () => {
+      // Prepare
+      const tailSampler = new TailSampler('serverlessAirline', {
+        output: 'log',
+      });
+
+      // Act
+      tailSampler.flushBeforeTimeout();
+      tailSampler.start(createHandlerSubsegment(), traceId);
+      tailSampler.flushBeforeTimeout();
+      tailSampler.stop(true);
+
+      // Assess
+      expect(console.log).toHaveBeenCalledTimes(1);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('"tail_sampling_reason":"timeout"')
+      );
+    });
+  });
+
+  describe('Method: stop', () => {
+    test('when the handler failed, it flushes a compact copy of the tree without metadata', () => {
+      // Prepare
+      const tailSampler = new TailSampler('serverlessAirline');
+      const handlerSubsegment = createHandlerSubsegment();
+      const error = new Error('Something went wrong');
+
+      // Act
+      tailSampler.start(handlerSubsegment, traceId);
+      handlerSubsegment.addAnnotation('ColdStart', true);
+      handlerSubsegment.addMetadata('index.handler response', { foo: 'bar' });
+      const remoteSubsegment = handlerSubsegment.addNewSubsegment('s3');
+      remoteSubsegment.namespace = 'remote';
+      remoteSubsegment.addAttribute('http', { response: { status: 429 } });
+      remoteSubsegment.addThrottleFlag();
+      remoteSubsegment.addErrorFlag();
+      remoteSubsegment.close(error);
+      handlerSubsegment.close(error);
+      tailSampler.stop(true);
+
+      // Assess
+      expect(getSentDocument().subsegments).toEqual([
+        {
+          id: handlerSubsegment.id,
+          name: '## index.handler',
+          start_time: handlerSubsegment.start_time,
+          end_time: expect.any(Number),
+          annotations: { ColdStart: true },
+          fault: true,
+          cause: { id: remoteSubsegment.id, exceptions: [] },
+          subsegments: [
+            {
+              id: remoteSubsegment.id,
+              name: 's3',
+              start_time: remoteSubsegment.start_time,
+              end_time: expect.any(Number),
+              namespace: 'remote',
+              http: { response: { status: 429 } },
+              error: true,
+              fault: true,
+              throttle: true,
+              cause: {
+                exceptions: [
+                  { message: 'Something went wrong', type: 'Error' },
+                ],
+              },
+            },
+          ],
+        },
+      ]);
+    });
+
+    test('when the output is set to xray, it sends the tree to the daemon using the UDP wire format', () => {
+      // Prepare
+      process.env.AWS_XRAY_DAEMON_ADDRESS = '169.254.79.129:2000';
+      const tailSampler = new TailSampler('serverlessAirline');
+
+      // Act
+      tailSampler.start(createHandlerSubsegment(), traceId);
+      tailSampler.stop(true);
+      tailSampler.start(createHandlerSubsegment(), traceId);
+      delete process.env.AWS_XRAY_DAEMON_ADDRESS;
+      tailSampler.stop(true);
+
+      // Assess
+      expect(createSocket).toHaveBeenCalledTimes(1);
+      expect(createSocket).toHaveBeenCalledWith('udp4');
+      expect(socket.unref).toHaveBeenCalledTimes(1);
+      expect(sendSpy).toHaveBeenNthCalledWith(
+        1,
+        expect.stringMatching(/^\{"format":"json","version":1\}\n\{/),
+        2000,
+        '169.254.79.129',
+        expect.any(Function)
+      );
+      expect(sendSpy).toHaveBeenNthCalledWith(
+        2,
+        expect.any(String),
+        2000,
+        '127.0.0.1',
+        expect.any(Function)
+      );
+    });
+
+    test('when the daemon address has a TCP and a UDP part, it sends the tree to the UDP one in either order', () => {
+      // Prepare
+      const tailSampler = new TailSampler('serverlessAirline');
+
+      // Act
+      process.env.AWS_XRAY_DAEMON_ADDRESS =
+        'tcp:127.0.0.1:3001 udp:127.0.0.2:3000';
+      tailSampler.start(createHandlerSubsegment(), traceId);
+      tailSampler.stop(true);
+      process.env.AWS_XRAY_DAEMON_ADDRESS =
+        'udp:127.0.0.3:4000 tcp:127.0.0.1:4001';
+      tailSampler.start(createHandlerSubsegment(), traceId);
+      tailSampler.stop(true);
+
+      // Assess
+      expect(sendSpy).toHaveBeenNthCalledWith(
+        1,
+        expect.any(String),
+        3000,
+        '127.0.0.2',
+        expect.any(Function)
+      );
+      expect(sendSpy).toHaveBeenNthCalledWith(
+        2,
+        expect.any(String),
+        4000,
+        '127.0.0.3',
+        expect.any(Function)
+      );
+    });
+
+    test.each([
+      ['without a port', '127.0.0.1'],
+      ['with an invalid port', '127.0.0.1:xray'],
+      ['without a UDP part', 'tcp:127.0.0.1:2000 tcp:127.0.0.1:2001'],
+    ])(
+      'when the daemon address is %s, it logs a warning instead of sending the tree',
+      (_description, daemonAddress) => {
+        // Prepare
+        process.env.AWS_XRAY_DAEMON_ADDRESS = daemonAddress;
+        const tailSampler = new TailSampler('serverlessAirline');
+
+        // Act
+        tailSampler.start(createHandlerSubsegment(), traceId);
+        tailSampler.stop(true);
+
+        // Assess
+        expect(sendSpy).toHaveBeenCalledTimes(0);
+        expect(console.warn).toHaveBeenCalledWith(
+          `Failed to send the subsegments to the daemon: invalid AWS_XRAY_DAEMON_ADDRESS '${daemonAddress}'`
+        );
+      }
+    );
+
+    test('when flushing the tree throws, it still restores the streaming threshold', () => {
+      // Prepare
+      const tailSampler = new TailSampler('serverlessAirline');
+      sendSpy.mockImplementationOnce(() => {
+        throw new Error('Socket is closed');
+      });
+
+      // Act
+      tailSampler.start(createHandlerSubsegment(), traceId);
+
+      // Assess
+      expect(() => tailSampler.stop(true)).toThrow('Socket is closed');
+      expect(SegmentUtils.getStreamingThreshold()).toBe(0);
+    });
+
+    test('when the tree cannot be sent to the daemon, it logs a warning', () => {
+      // Prepare
+      const tailSampler = new TailSampler('serverlessAirline');
+
+      // Act
+      tailSampler.start(createHandlerSubsegment(), traceId);
+      tailSampler.stop(true);
+      const sendCallback = sendSpy.mock.calls[0][3];
+      sendCallback(null);
+      sendCallback(new Error('Network unreachable'));
+
+      // Assess
+      expect(console.warn).toHaveBeenCalledTimes(1);
+      expect(console.warn).toHaveBeenCalledWith(
+        'Failed to send the subsegments to the daemon',
+        new Error('Network unreachable')
+      );
+    });
+
+    test('when the output is set to log, it prints the tree as a structured log correlated by trace id', () => {
+      // Prepare
+      const tailSampler = new TailSampler('serverlessAirline', {
+        output: 'log',
+      });
+      const handlerSubsegment = createHandlerSubsegment();
+
+      // Act
+      tailSampler.start(handlerSubsegment, traceId);
+      handlerSubsegment.close();
+      tailSampler.stop(true);
+
+      // Assess
+      expect(sendSpy).toHaveBeenCalledTimes(0);
+      expect(console.log).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(jest.mocked(console.log).mock.calls[0][0])).toEqual({
+        message:
+          'Flushing the subsegments of an unsampled invocation after an error',
+        service: 'serverlessAirline',
+        tail_sampling_reason: 'error',
+        xray_trace_id: traceId,
+        subsegments: [expect.objectContaining({ id: handlerSubsegment.id })],
+      });
+    });
+
+    test('when the tree was already flushed after a timeout, it does not flush it again', () => {
+      // Prepare
+      jest.useFakeTimers();
+      const tailSampler = new TailSampler('serverlessAirline', {
+        output: 'log',
+      });
+
+      // Act
+      tailSampler.start(createHandlerSubsegment(), traceId, context);
+      jest.runAllTimers();
+      tailSampler.stop(true);
+      tailSampler.stop(true);
+
+      // Assess
+      expect(console.log).toHaveBeenCalledTimes(1);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('after a timeout')
+      );
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Test TimeoutWatchdog class
+ *
+ * @group unit/tracer/all
+ */
+
+import { ContextExamples as dummyContext } from '@aws-lambda-powertools/commons';
+import { Segment, Subsegment } from 'aws-xray-sdk-core';
+import { TimeoutWatchdog } from '../../src/watchdog';
+
+describe('Class: TimeoutWatchdog', () => {
+  const context = dummyContext.helloworldContext;
+
+  const createHandlerSubsegment = (): Subsegment => {
+    const segment = new Segment(
+      'facade',
+      '1-abcdef12-3456abcdef123456abcdef12'
+    );
+    segment.notTraced = true;
+
+    return segment.addNewSubsegment('## index.handler');
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Method: start', () => {
+    test('when the remaining time gets below the timeout margin, it annotates and closes the open subsegments, innermost first', () => {
+      // Prepare
+      const watchdog = new TimeoutWatchdog('serverlessAirline', {
+        timeoutMargin: 234,
+      });
+      const handlerSubsegment = createHandlerSubsegment();
+      const flushSpy = jest.spyOn(handlerSubsegment, 'flush');
+      const methodSubsegment =
+        handlerSubsegment.addNewSubsegment('### getBooking');
+      const requestSubsegment = methodSubsegment.addNewSubsegment('DynamoDB');
+      const closedSubsegment =
+        handlerSubsegment.addNewSubsegment('### getFlight');
+      closedSubsegment.close();
+      const closeSpies = [
+        handlerSubsegment,
+        methodSubsegment,
+        requestSubsegment,
+      ].map((subsegment) => jest.spyOn(subsegment, 'close'));
+
+      // Act
+      watchdog.start(handlerSubsegment, context);
+      jest.advanceTimersByTime(999);
+      const closedBeforeTimeout = closeSpies.some(
+        (closeSpy) => closeSpy.mock.calls.length > 0
+      );
+      jest.advanceTimersByTime(1);
+
+      // Assess
+      expect(closedBeforeTimeout).toBe(false);
+      for (const subsegment of [
+        handlerSubsegment,
+        methodSubsegment,
+        requestSubsegment,
+      ]) {
+        expect(subsegment.isClosed()).toBe(true);
+        expect(subsegment).toEqual(
+          expect.objectContaining({
+            annotations: { Timeout: true },
+            metadata: {
+              serverlessAirline: {
+                'in-flight subsegments': ['### getBooking', 'DynamoDB'],
+              },
+            },
+          })
+        );
+      }
+      expect(closedSubsegment).not.toHaveProperty('annotations');
+      const [handlerCloseSpy, methodCloseSpy, requestCloseSpy] = closeSpies;
+      expect(requestCloseSpy.mock.invocationCallOrder[0]).toBeLessThan(
+        methodCloseSpy.mock.invocationCallOrder[0]
+      );
+      expect(methodCloseSpy.mock.invocationCallOrder[0]).toBeLessThan(
+        handlerCloseSpy.mock.invocationCallOrder[0]
+      );
+      expect(flushSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('when a callback is passed, it calls it after closing the open subsegments', () => {
+      // Prepare
+      const watchdog = new TimeoutWatchdog('serverlessAirline');
+      const handlerSubsegment = createHandlerSubsegment();
+      const onTimeout = jest.fn(() => handlerSubsegment.isClosed());
+
+      // Act
+      watchdog.start(handlerSubsegment, context, onTimeout);
+      jest.runAllTimers();
+
+      // Assess
+      expect(onTimeout).toHaveBeenCalledTimes(1);
+      expect(onTimeout).toHaveReturnedWith(true);
+    });
+
+    test('when no Lambda context is passed, it does not watch the invocation', () => {
+      // Prepare
+      const watchdog = new TimeoutWatchdog('serverlessAirline');
+      const handlerSubsegment = createHandlerSubsegment();
+
+      // Act
+      watchdog.start(handlerSubsegment);
+      jest.runAllTimers();
+
+      // Assess
+      expect(handlerSubsegment.isClosed()).toBe(false);
+    });
+
+    test('when another invocation is started, it stops watching the previous one', () => {
+      // Prepare
+      const watchdog = new TimeoutWatchdog('serverlessAirline');
+      const firstSubsegment = createHandlerSubsegment();
+      const secondSubsegment = createHandlerSubsegment();
+
+      // Act
+      watchdog.start(firstSubsegment, context);
+      watchdog.start(secondSubsegment, context);
+      jest.runAllTimers();
+
+      // Assess
+      expect(firstSubsegment.isClosed()).toBe(false);
+      expect(secondSubsegment.isClosed()).toBe(true);
+    });
+  });
+
+  describe('Method: stop', () => {
+    test('when the invocation completes before the timeout margin, it does not close its subsegments', () => {
+      // Prepare
+      const watchdog = new TimeoutWatchdog('serverlessAirline');
+      const handlerSubsegment = createHandlerSubsegment();
+
+      // Act
+      watchdog.start(handlerSubsegment, context);
+      watchdog.stop();
+      jest.runAllTimers();
+
+      // Assess
+      expect(handlerSubsegment.isClosed()).toBe(false);
+    });
+  });
+});
@@ -9,14 +9,18 @@ import {
   Events as dummyEvent,
   LambdaInterface,
 } from '@aws-lambda-powertools/commons';
-import { Tracer } from '../../src';
+import { Tracer, annotationPresets } from '../../src';
 import { Callback, Context } from 'aws-lambda/handler';
+import { Readable } from 'node:stream';
 import {
   Segment,
   setContextMissingStrategy,
   Subsegment,
 } from 'aws-xray-sdk-core';
-import { ProviderServiceInterface } from '../../src/provider';
+import {
+  ProviderServiceInterface,
+  RecordingProviderService,
+} from '../../src/provider';
 
 type CaptureAsyncFuncMock = jest.SpyInstance<
   unknown,
@@ -201,6 +205,67 @@ describe('Class: Tracer', () => {
     });
   });
 
+  describe('Method: addResponseAsMetadata with capture options', () => {
+    test('when the tracer has capture options, it adds the response masked and truncated accordingly', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer({
+        captureOptions: { denylist: ['$.token'], maxSize: 1024 },
+      });
+      const putMetadataSpy = jest
+        .spyOn(tracer, 'putMetadata')
+        .mockImplementation(() => null);
+
+      // Act
+      tracer.addResponseAsMetadata(
+        { foo: 'bar', token: 'abc' },
+        context.functionName
+      );
+
+      // Assess
+      expect(putMetadataSpy).toBeCalledWith(
+        `${context.functionName} response`,
+        { foo: 'bar', token: '***' }
+      );
+    });
+
+    test('when called with capture options, they override the ones of the tracer', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer({
+        captureOptions: { denylist: ['$.token'], maxSize: 1024 },
+      });
+      const putMetadataSpy = jest
+        .spyOn(tracer, 'putMetadata')
+        .mockImplementation(() => null);
+
+      // Act
+      tracer.addResponseAsMetadata(
+        { foo: 'bar', token: 'abc' },
+        context.functionName,
+        { maxSize: 10 }
+      );
+
+      // Assess
+      expect(putMetadataSpy).toBeCalledWith(
+        `${context.functionName} response`,
+        '{"foo":"ba... [TRUNCATED: 27 bytes]'
+      );
+    });
+
+    test('when none of the values of the response is allowed, it does not add it', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer({
+        captureOptions: { allowlist: ['$.statusCode'] },
+      });
+      const putMetadataSpy = jest.spyOn(tracer, 'putMetadata');
+
+      // Act
+      tracer.addResponseAsMetadata('foo', context.functionName);
+
+      // Assess
+      expect(putMetadataSpy).toBeCalledTimes(0);
+    });
+  });
+
   describe('Method: addErrorAsMetadata', () => {
     test('when called while tracing is disabled, it does nothing', () => {
       // Prepare
@@ -249,6 +314,25 @@ describe('Class: Tracer', () => {
       expect(addErrorSpy).toBeCalledWith(new Error('foo'), false);
     });
 
+    test('when called with a maximum size, it adds the error with its message and stack truncated', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer({ captureOptions: { maxSize: 1024 } });
+      const subsegment = new Subsegment(`## ${context.functionName}`);
+      jest.spyOn(tracer, 'getSegment').mockImplementation(() => subsegment);
+      const addErrorSpy = jest.spyOn(subsegment, 'addError');
+
+      // Act
+      tracer.addErrorAsMetadata(new Error('Something went wrong'), true, {
+        maxSize: 9,
+      });
+
+      // Assess
+      expect(addErrorSpy).toBeCalledWith(
+        new Error('Something... [TRUNCATED: 20 bytes]'),
+        true
+      );
+    });
+
     test('when called and the segment is not found, it returns instead of throwing', () => {
       // Prepare
       const tracer: Tracer = new Tracer();
@@ -259,6 +343,170 @@ describe('Class: Tracer', () => {
     });
   });
 
+  describe('Method: extractTraceContext', () => {
+    const traceparent =
+      '00-5759e988bd862e3fe1be46a994272793-53995c3f42cd8ad8-01';
+    const xrayTraceHeader =
+      'Root=1-5759e988-bd862e3fe1be46a994272793;Parent=53995c3f42cd8ad8;Sampled=1';
+    const expectedTraceContext = {
+      traceId: '1-5759e988-bd862e3fe1be46a994272793',
+      parentId: '53995c3f42cd8ad8',
+      sampled: true,
+    };
+
+    test('when called with an SQS record, it returns the trace context of its message attributes', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+      const record = {
+        messageId: '059f36b4-87a3-44ab-83d2-661975830a7d',
+        body: '{"id":1}',
+        attributes: {
+          AWSTraceHeader:
+            'Root=1-abcdef12-3456abcdef123456abcdef12;Parent=1234567890abcdef;Sampled=0',
+        },
+        messageAttributes: {
+          traceparent: { stringValue: traceparent, dataType: 'String' },
+          other: 'not an attribute',
+        },
+      };
+
+      // Act
+      const traceContext = tracer.extractTraceContext(record);
+
+      // Assess
+      expect(traceContext).toEqual(expectedTraceContext);
+    });
+
+    test('when called with an SQS record without message attributes, it returns the trace context of its AWSTraceHeader attribute', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+      const record = {
+        body: '{"id":1}',
+        attributes: { AWSTraceHeader: xrayTraceHeader },
+        messageAttributes: {},
+      };
+
+      // Act
+      const traceContext = tracer.extractTraceContext(record);
+
+      // Assess
+      expect(traceContext).toEqual(expectedTraceContext);
+    });
+
+    test('when called with an SNS record, it returns the trace context of its message attributes', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+      const record = {
+        EventSource: 'aws:sns',
+        Sns: {
+          Message: '{"id":1}',
+          MessageAttributes: {
+            'X-Amzn-Trace-Id': { Type: 'String', Value: xrayTraceHeader },
+            other: 'not an attribute',
+          },
+        },
+      };
+
+      // Act
+      const traceContext = tracer.extractTraceContext(record);
+
+      // Assess
+      expect(traceContext).toEqual(expectedTraceContext);
+    });
+
+    test('when called with an SQS message sent with the AWS SDK, it returns the trace context of its message attributes', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+      const message = {
+        MessageBody: '{"id":1}',
+        MessageAttributes: {
+          traceparent: { DataType: 'String', StringValue: traceparent },
+          other: 'not an attribute',
+        },
+      };
+
+      // Act
+      const traceContext = tracer.extractTraceContext(message);
+
+      // Assess
+      expect(traceContext).toEqual(expectedTraceContext);
+    });
+
+    test('when called with an HTTP event, it returns the trace context of its headers regardless of their case', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+      const event = {
+        headers: {
+          'x-amzn-trace-id':
+            'Root=1-abcdef12-3456abcdef123456abcdef12;Parent=1234567890abcdef;Sampled=0',
+          Traceparent: traceparent.toUpperCase(),
+          'Content-Length': 12,
+        },
+      };
+
+      // Act
+      const traceContext = tracer.extractTraceContext(event);
+
+      // Assess
+      expect(traceContext).toEqual(expectedTraceContext);
+    });
+
+    test('when called with a headers object with an invalid traceparent header, it returns the trace context of the AWS X-Ray header', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+      const headers = {
+        traceparent: 'ff-5759e988bd862e3fe1be46a994272793-53995c3f42cd8ad8-01',
+        'X-Amzn-Trace-Id': 'Root=1-5759e988-bd862e3fe1be46a994272793;Sampled',
+      };
+
+      // Act
+      const traceContext = tracer.extractTraceContext(headers);
+
+      // Assess
+      expect(traceContext).toEqual({
+        traceId: '1-5759e988-bd862e3fe1be46a994272793',
+        parentId: undefined,
+        sampled: false,
+      });
+    });
+
+    test.each([
+      ['no headers', {}],
+      [
+        'a traceparent header with an all-zero trace id',
+        {
+          traceparent:
+            '00-00000000000000000000000000000000-53995c3f42cd8ad8-01',
+        },
+      ],
+      [
+        'a traceparent header with an all-zero parent id',
+        {
+          traceparent:
+            '00-5759e988bd862e3fe1be46a994272793-0000000000000000-01',
+        },
+      ],
+      ['a malformed traceparent header', { traceparent: 'foo' }],
+      [
+        'an AWS X-Ray header without root trace id',
+        { 'X-Amzn-Trace-Id': 'Parent=53995c3f42cd8ad8;Sampled=1' },
+      ],
+      [
+        'an AWS X-Ray header with an invalid root trace id',
+        { 'X-Amzn-Trace-Id': 'Root=foo;Parent=53995c3f42cd8ad8;Sampled=1' },
+      ],
+    ])('when called with %s, it returns undefined', (_description, headers) => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+
+      // Act
+      const traceContext = tracer.extractTraceContext(headers);
+
+      // Assess
+      expect(traceContext).toBeUndefined();
+    });
+  });
+
   describe('Method: getRootXrayTraceId', () => {
     test('when called, it returns the X-Ray trace ID', () => {
       // Prepare
@@ -326,6 +574,255 @@ describe('Class: Tracer', () => {
     });
   });
 
+  describe('Method: getTraceContextHeaders', () => {
+    test('when called within a subsegment, it returns the trace context headers with the subsegment as parent', () => {
+      // Prepare
+      process.env._X_AMZN_TRACE_ID =
+        'Root=1-abcdef12-3456abcdef123456abcdef12;Parent=1234567890abcdef;Sampled=1';
+      const tracer: Tracer = new Tracer();
+      const subsegment = new Subsegment('### myMethod');
+      subsegment.id = 'fedcba0987654321';
+      jest
+        .spyOn(tracer.provider, 'getSegment')
+        .mockImplementation(() => subsegment);
+
+      // Act
+      const headers = tracer.getTraceContextHeaders();
+
+      // Assess
+      expect(headers).toEqual({
+        traceparent: '00-abcdef123456abcdef123456abcdef12-fedcba0987654321-01',
+        'X-Amzn-Trace-Id':
+          'Root=1-abcdef12-3456abcdef123456abcdef12;Parent=fedcba0987654321;Sampled=1',
+      });
+    });
+
+    test('when called without an active segment, it returns the AWS X-Ray header only', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+      jest
+        .spyOn(tracer.provider, 'getSegment')
+        .mockImplementation(() => undefined);
+
+      // Act
+      const headers = tracer.getTraceContextHeaders();
+
+      // Assess
+      expect(headers).toEqual({
+        'X-Amzn-Trace-Id': 'Root=1-abcdef12-3456abcdef123456abcdef12;Sampled=0',
+      });
+    });
+
+    test('when called and the active segment has an invalid id, it returns the AWS X-Ray header without parent', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+      const subsegment = new Subsegment('### myMethod');
+      subsegment.id = 'foo';
+      jest
+        .spyOn(tracer.provider, 'getSegment')
+        .mockImplementation(() => subsegment);
+
+      // Act
+      const headers = tracer.getTraceContextHeaders();
+
+      // Assess
+      expect(headers).toEqual({
+        'X-Amzn-Trace-Id': 'Root=1-abcdef12-3456abcdef123456abcdef12;Sampled=0',
+      });
+    });
+
+    test('when called and tracing is disabled, it returns no headers', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer({ enabled: false });
+
+      // Act
+      const headers = tracer.getTraceContextHeaders();
+
+      // Assess
+      expect(headers).toEqual({});
+    });
+
+    test('when called and there is no valid trace id, it returns no headers', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+
+      // Act
+      process.env._X_AMZN_TRACE_ID = 'foo';
+      const headersWithInvalidTraceId = tracer.getTraceContextHeaders();
+      delete process.env._X_AMZN_TRACE_ID;
+      const headersWithoutTraceId = tracer.getTraceContextHeaders();
+
+      // Assess
+      expect(headersWithInvalidTraceId).toEqual({});
+      expect(headersWithoutTraceId).toEqual({});
+    });
+  });
+
+  describe('Method: injectTraceContext', () => {
+    const traceHeaders = {
+      traceparent: '00-abcdef123456abcdef123456abcdef12-fedcba0987654321-00',
+      'X-Amzn-Trace-Id':
+        'Root=1-abcdef12-3456abcdef123456abcdef12;Parent=fedcba0987654321;Sampled=0',
+    };
+    const prepareTracer = (): Tracer => {
+      const tracer: Tracer = new Tracer();
+      const subsegment = new Subsegment('### myMethod');
+      subsegment.id = 'fedcba0987654321';
+      jest
+        .spyOn(tracer.provider, 'getSegment')
+        .mockImplementation(() => subsegment);
+
+      return tracer;
+    };
+
+    test('when called with a headers object, it returns a copy with the trace context headers', () => {
+      // Prepare
+      const tracer = prepareTracer();
+      const headers = { 'Content-Type': 'application/json' };
+
+      // Act
+      const injectedHeaders = tracer.injectTraceContext(headers);
+
+      // Assess
+      expect(injectedHeaders).toEqual({
+        'Content-Type': 'application/json',
+        ...traceHeaders,
+      });
+      expect(headers).toEqual({ 'Content-Type': 'application/json' });
+    });
+
+    test('when called with a fetch Headers instance, it returns a copy with the existing and the trace context headers', () => {
+      // Prepare
+      const tracer = prepareTracer();
+      const headers = new Headers({ 'Content-Type': 'application/json' });
+
+      // Act
+      const injectedHeaders = tracer.injectTraceContext(headers);
+
+      // Assess
+      expect(injectedHeaders).toBeInstanceOf(Headers);
+      expect(injectedHeaders).not.toBe(headers);
+      expect(Object.fromEntries(injectedHeaders.entries())).toEqual({
+        'content-type': 'application/json',
+        traceparent: traceHeaders.traceparent,
+        'x-amzn-trace-id': traceHeaders['X-Amzn-Trace-Id'],
+      });
+      expect([...headers.keys()]).toEqual(['content-type']);
+    });
+
+    test('when called with an SQS message, it returns a copy with the trace context headers as message attributes', () => {
+      // Prepare
+      const tracer = prepareTracer();
+      const message = {
+        QueueUrl: 'https://sqs.eu-west-1.amazonaws.com/123456789012/queue',
+        MessageBody: '{"id":1}',
+        MessageAttributes: {
+          type: { DataType: 'String', StringValue: 'booking' },
+        },
+      };
+
+      // Act
+      const injectedMessage = tracer.injectTraceContext(message);
+
+      // Assess
+      expect(injectedMessage).toEqual({
+        ...message,
+        MessageAttributes: {
+          type: { DataType: 'String', StringValue: 'booking' },
+          traceparent: {
+            DataType: 'String',
+            StringValue: traceHeaders.traceparent,
+          },
+          'X-Amzn-Trace-Id': {
+            DataType: 'String',
+            StringValue: traceHeaders['X-Amzn-Trace-Id'],
+          },
+        },
+      });
+      expect(Object.keys(message.MessageAttributes)).toEqual(['type']);
+      expect(tracer.extractTraceContext(injectedMessage)).toEqual({
+        traceId: '1-abcdef12-3456abcdef123456abcdef12',
+        parentId: 'fedcba0987654321',
+        sampled: false,
+      });
+    });
+
+    test('when called with an SNS message without message attributes, it returns a copy with the trace context headers as message attributes', () => {
+      // Prepare
+      const tracer = prepareTracer();
+      const message = {
+        TopicArn: 'arn:aws:sns:eu-west-1:123456789012:topic',
+        Message: '{"id":1}',
+      };
+
+      // Act
+      const injectedMessage = tracer.injectTraceContext(message);
+
+      // Assess
+      expect(injectedMessage).toEqual({
+        ...message,
+        MessageAttributes: {
+          traceparent: {
+            DataType: 'String',
+            StringValue: traceHeaders.traceparent,
+          },
+          'X-Amzn-Trace-Id': {
+            DataType: 'String',
+            StringValue: traceHeaders['X-Amzn-Trace-Id'],
+          },
+        },
+      });
+    });
+
+    test('when the trace context headers would exceed the limit of message attributes, it returns the carrier as it is and logs a warning', () => {
+      // Prepare
+      const tracer = prepareTracer();
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const createMessage = (count: number): { MessageAttributes: object } => ({
+        MessageAttributes: Object.fromEntries(
+          Array.from({ length: count }, (_, index) => [
+            `attribute${index}`,
+            { DataType: 'String', StringValue: 'value' },
+          ])
+        ),
+      });
+      const fullMessage = createMessage(9);
+      const messageWithTraceContext = tracer.injectTraceContext(
+        createMessage(8)
+      );
+
+      // Act
+      const injectedFullMessage = tracer.injectTraceContext(fullMessage);
+      const reinjectedMessage = tracer.injectTraceContext(
+        messageWithTraceContext
+      );
+
+      // Assess
+      expect(injectedFullMessage).toBe(fullMessage);
+      expect(
+        Object.keys(messageWithTraceContext.MessageAttributes)
+      ).toHaveLength(10);
+      expect(reinjectedMessage).not.toBe(messageWithTraceContext);
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+      expect(warnSpy).toHaveBeenCalledWith(
+        'Skipping the trace context headers: a message can have at most 10 attributes'
+      );
+      warnSpy.mockRestore();
+    });
+
+    test('when called and there is no trace context to propagate, it returns the carrier as it is', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer({ enabled: false });
+      const headers = { 'Content-Type': 'application/json' };
+
+      // Act
+      const injectedHeaders = tracer.injectTraceContext(headers);
+
+      // Assess
+      expect(injectedHeaders).toBe(headers);
+    });
+  });
+
   describe('Method: isTraceSampled', () => {
     test('when called, it returns true if the Sampled flag is set', () => {
       // Prepare
@@ -434,6 +931,149 @@ describe('Class: Tracer', () => {
     });
   });
 
+  describe('Method: putAnnotationsFromEvent', () => {
+    test('when called while tracing is disabled, it does nothing', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer({ enabled: false });
+      const putAnnotationSpy = jest.spyOn(tracer.provider, 'putAnnotation');
+
+      // Act
+      tracer.putAnnotationsFromEvent({ foo: 'bar' }, { foo: 'foo' });
+
+      // Assess
+      expect(putAnnotationSpy).toBeCalledTimes(0);
+    });
+
+    test('it adds the values extracted from the event with the JMESPath expressions, and skips the ones not found', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+      const putAnnotationSpy = jest
+        .spyOn(tracer.provider, 'putAnnotation')
+        .mockImplementation();
+
+      // Act
+      tracer.putAnnotationsFromEvent(
+        {
+          routeKey: 'GET /bookings',
+          requestContext: {
+            authorizer: { tenantId: 'tenant-1', premium: true },
+            timeEpoch: 1583348638390,
+          },
+        },
+        {
+          route: 'routeKey',
+          tenant: 'requestContext.authorizer.tenantId',
+          premium: 'requestContext.authorizer.premium',
+          timeEpoch: 'requestContext.timeEpoch',
+          customerId: 'requestContext.authorizer.customerId',
+        }
+      );
+
+      // Assess
+      expect(putAnnotationSpy).toBeCalledTimes(4);
+      expect(putAnnotationSpy).toHaveBeenNthCalledWith(
+        1,
+        'route',
+        'GET /bookings'
+      );
+      expect(putAnnotationSpy).toHaveBeenNthCalledWith(2, 'tenant', 'tenant-1');
+      expect(putAnnotationSpy).toHaveBeenNthCalledWith(3, 'premium', true);
+      expect(putAnnotationSpy).toHaveBeenNthCalledWith(
+        4,
+        'timeEpoch',
+        1583348638390
+      );
+    });
+
+    test('when the keys, the values or the expressions are not valid, it warns about them instead of throwing', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+      const putAnnotationSpy = jest
+        .spyOn(tracer.provider, 'putAnnotation')
+        .mockImplementation();
+      const warnSpy = jest.spyOn(console, 'warn');
+
+      // Act
+      tracer.putAnnotationsFromEvent(
+        {
+          id: 'abc',
+          items: [1, 2],
+          detail: { foo: 'bar' },
+          description: 'a'.repeat(1001),
+          ratio: Infinity,
+        },
+        {
+          'tenant-id': 'id',
+          items: 'items',
+          detail: 'detail',
+          description: 'description',
+          ratio: 'ratio',
+          invalid: 'id[',
+          id: 'id',
+        }
+      );
+
+      // Assess
+      expect(putAnnotationSpy).toBeCalledTimes(1);
+      expect(putAnnotationSpy).toBeCalledWith('id', 'abc');
+      expect(warnSpy).toHaveBeenNthCalledWith(
+        1,
+        'Skipping annotation tenant-id: keys can only contain alphanumeric characters and underscores'
+      );
+      expect(warnSpy).toHaveBeenNthCalledWith(
+        2,
+        'Skipping annotation items: values must be strings, numbers or booleans, found array'
+      );
+      expect(warnSpy).toHaveBeenNthCalledWith(
+        3,
+        'Skipping annotation detail: values must be strings, numbers or booleans, found object'
+      );
+      expect(warnSpy).toHaveBeenNthCalledWith(
+        4,
+        'Skipping annotation description: string values can be up to 1000 characters long'
+      );
+      expect(warnSpy).toHaveBeenNthCalledWith(
+        5,
+        'Skipping annotation ratio: numeric values must be finite'
+      );
+      expect(warnSpy).toHaveBeenNthCalledWith(
+        6,
+        `Skipping annotation invalid: the expression 'id[' is not valid`,
+        expect.any(Error)
+      );
+    });
+
+    test('when using the presets, it adds the annotations of the event type', () => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+      const putAnnotationSpy = jest
+        .spyOn(tracer.provider, 'putAnnotation')
+        .mockImplementation();
+
+      // Act
+      tracer.putAnnotationsFromEvent(
+        {
+          routeKey: 'POST /bookings',
+          requestContext: { http: { method: 'POST' }, stage: '$default' },
+        },
+        annotationPresets.API_GATEWAY_HTTP
+      );
+      tracer.putAnnotationsFromEvent(
+        { source: 'aws.events', 'detail-type': 'Scheduled Event' },
+        annotationPresets.EVENT_BRIDGE
+      );
+
+      // Assess
+      expect(putAnnotationSpy.mock.calls).toEqual([
+        ['httpMethod', 'POST'],
+        ['route', 'POST /bookings'],
+        ['stage', '$default'],
+        ['source', 'aws.events'],
+        ['detailType', 'Scheduled Event'],
+      ]);
+    });
+  });
+
   describe('Method: putMetadata', () => {
     test('when tracing is disabled, it does nothing', () => {
       // Prepare
@@ -643,7 +1283,8 @@ describe('Class: Tracer', () => {
       expect(addResponseAsMetadataSpy).toHaveBeenCalledTimes(1);
       expect(addResponseAsMetadataSpy).toHaveBeenCalledWith(
         { foo: 'bar' },
-        'index.handler'
+        'index.handler',
+        { captureResponse: true }
       );
     });
 
@@ -690,7 +1331,8 @@ describe('Class: Tracer', () => {
       expect(addResponseAsMetadataSpy).toHaveBeenCalledTimes(1);
       expect(addResponseAsMetadataSpy).toHaveBeenCalledWith(
         { foo: 'bar' },
-        'index.handler'
+        'index.handler',
+        undefined
       );
     });
 
@@ -754,174 +1396,601 @@ describe('Class: Tracer', () => {
           throw new Error('Exception thrown!2');
         }
       }
-
-      // Act & Assess
+
+      // Act & Assess
+      const lambda = new Lambda();
+      expect(
+        lambda.handler({}, context, () => console.log('Lambda invoked!'))
+      ).rejects.toThrowError(Error);
+      expect(captureAsyncFuncSpy).toHaveBeenCalledTimes(1);
+      expect(addErrorAsMetadataSpy).toHaveBeenCalledTimes(1);
+      expect(addErrorAsMetadataSpy).toHaveBeenCalledWith(
+        expect.any(Error),
+        false,
+        undefined
+      );
+      expect(addErrorFlagSpy).toHaveBeenCalledTimes(0);
+      expect(addErrorSpy).toHaveBeenCalledTimes(1);
+      expect.assertions(6);
+    });
+
+    test('when used as decorator and with standard config, it annotates ColdStart', async () => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+      const captureAsyncFuncSpy = createCaptureAsyncFuncMock(tracer.provider);
+      const annotateColdStartSpy = jest.spyOn(tracer, 'annotateColdStart');
+
+      class Lambda implements LambdaInterface {
+        @tracer.captureLambdaHandler()
+        public handler(
+          _event: unknown,
+          _context: Context,
+          callback: Callback<{ foo: string }>
+        ): void {
+          callback(null, { foo: 'bar' });
+        }
+      }
+
+      // Act
+      new Lambda().handler(event, context, () =>
+        console.log('Lambda invoked!')
+      );
+
+      // Assess
+      expect(captureAsyncFuncSpy).toHaveBeenCalledTimes(1);
+      expect(captureAsyncFuncSpy).toHaveBeenCalledWith(
+        '## index.handler',
+        expect.anything()
+      );
+      expect(annotateColdStartSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('when used as decorator and with standard config, it adds the Service annotation', async () => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+      const captureAsyncFuncSpy = createCaptureAsyncFuncMock(tracer.provider);
+      const addServiceNameAnnotationSpy = jest.spyOn(
+        tracer,
+        'addServiceNameAnnotation'
+      );
+
+      class Lambda implements LambdaInterface {
+        @tracer.captureLambdaHandler()
+        public handler(
+          _event: unknown,
+          _context: Context,
+          callback: Callback<{ foo: string }>
+        ): void {
+          callback(null, {
+            foo: 'bar',
+          });
+        }
+      }
+
+      // Act
+      new Lambda().handler(event, context, () =>
+        console.log('Lambda invoked!')
+      );
+
+      // Assess
+      expect(captureAsyncFuncSpy).toHaveBeenCalledTimes(1);
+      expect(captureAsyncFuncSpy).toHaveBeenCalledWith(
+        '## index.handler',
+        expect.anything()
+      );
+      // The first call is for the Cold Start annotation
+      expect(addServiceNameAnnotationSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('when used as decorator and when calling the handler, it has access to member variables', async () => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+      const newSubsegment: Segment | Subsegment | undefined = new Subsegment(
+        '### dummyMethod'
+      );
+      jest
+        .spyOn(tracer.provider, 'getSegment')
+        .mockImplementation(() => newSubsegment);
+      setContextMissingStrategy(() => null);
+
+      class Lambda implements LambdaInterface {
+        private readonly memberVariable: string;
+
+        public constructor(memberVariable: string) {
+          this.memberVariable = memberVariable;
+        }
+
+        @tracer.captureLambdaHandler()
+        public async handler(
+          _event: unknown,
+          _context: Context
+        ): Promise<string> {
+          return `memberVariable:${this.memberVariable}`;
+        }
+      }
+
+      // Act / Assess
+      const lambda = new Lambda('someValue');
+      const handler = lambda.handler.bind(lambda);
+      expect(await handler({}, context)).toEqual('memberVariable:someValue');
+    });
+
+    test('when used as decorator on an async method, the method is awaited correctly', async () => {
+      // Prepare
+      const tracer: Tracer = new Tracer();
+      const newSubsegment: Segment | Subsegment | undefined = new Subsegment(
+        '### dummyMethod'
+      );
+
+      jest
+        .spyOn(tracer.provider, 'getSegment')
+        .mockImplementation(() => newSubsegment);
+      setContextMissingStrategy(() => null);
+      const subsegmentCloseSpy = jest
+        .spyOn(newSubsegment, 'close')
+        .mockImplementation();
+      createCaptureAsyncFuncMock(tracer.provider, newSubsegment);
+
+      class Lambda implements LambdaInterface {
+        public async dummyMethod(): Promise<void> {
+          return;
+        }
+
+        @tracer.captureLambdaHandler()
+        public async handler(
+          _event: unknown,
+          _context: Context
+        ): Promise<void> {
+          await this.dummyMethod();
+          this.otherDummyMethod();
+
+          return;
+        }
+
+        public otherDummyMethod(): void {
+          return;
+        }
+      }
+
+      // Act
+      const lambda = new Lambda();
+      const otherDummyMethodSpy = jest
+        .spyOn(lambda, 'otherDummyMethod')
+        .mockImplementation();
+      const handler = lambda.handler.bind(lambda);
+      await handler({}, context);
+
+      // Assess
+      // Here we assert that the otherDummyMethodSpy method is called before the cleanup logic (inside the finally of decorator)
+      // that should always be called after the handler has returned. If otherDummyMethodSpy is called after it means the
+      // decorator is NOT awaiting the handler which would cause the test to fail.
+      const dummyCallOrder = subsegmentCloseSpy.mock.invocationCallOrder[0];
+      const otherDummyCallOrder =
+        otherDummyMethodSpy.mock.invocationCallOrder[0];
+      expect(otherDummyCallOrder).toBeLessThan(dummyCallOrder);
+    });
+  });
+
+  describe('Annotations of the handler decorator', () => {
+    test('when the decorator is called with annotations, it adds them to the handler subsegment', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ provider });
+      class Lambda implements LambdaInterface {
+        @tracer.captureLambdaHandler({
+          annotations: {
+            ...annotationPresets.API_GATEWAY_REST,
+            tenant: 'requestContext.authorizer.tenantId',
+          },
+        })
+        public async handler(
+          _event: unknown,
+          _context: Context
+        ): Promise<void> {
+          return;
+        }
+      }
+      const lambda = new Lambda();
+
+      // Act
+      await lambda.handler(
+        {
+          httpMethod: 'GET',
+          resource: '/bookings/{id}',
+          requestContext: { stage: 'prod', authorizer: { tenantId: 't1' } },
+        },
+        context
+      );
+
+      // Assess
+      provider
+        .expectSubsegment('## index.handler')
+        .toHaveAnnotation('httpMethod', 'GET')
+        .toHaveAnnotation('route', '/bookings/{id}')
+        .toHaveAnnotation('stage', 'prod')
+        .toHaveAnnotation('tenant', 't1');
+    });
+  });
+
+  describe('Tail sampling of the handler decorator', () => {
+    const createLambda = (tracer: Tracer): LambdaInterface => {
+      class Lambda implements LambdaInterface {
+        @tracer.captureMethod()
+        public async getBooking(): Promise<{ id: number }> {
+          tracer.putMetadata('booking', { id: 1 });
+
+          return { id: 1 };
+        }
+
+        @tracer.captureLambdaHandler()
+        public async handler(
+          event: { fail: boolean },
+          _context: Context
+        ): Promise<void> {
+          await this.getBooking();
+          if (event.fail) {
+            throw new Error('Something went wrong');
+          }
+        }
+      }
+
+      return new Lambda();
+    };
+
+    test('when tail sampling is enabled and the handler of an unsampled invocation fails, it flushes the recorded subsegments', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({
+        provider,
+        tailSampling: { output: 'log' },
+      });
+      const lambda = createLambda(tracer);
+
+      // Act & Assess
+      await expect(
+        lambda.handler({ fail: true }, context, () => null)
+      ).rejects.toThrow('Something went wrong');
+      expect(console.log).toHaveBeenCalledTimes(1);
+      const log = JSON.parse(jest.mocked(console.log).mock.calls[0][0]);
+      expect(log).toEqual(
+        expect.objectContaining({
+          service: 'hello-world',
+          tail_sampling_reason: 'error',
+          xray_trace_id: '1-abcdef12-3456abcdef123456abcdef12',
+        })
+      );
+      expect(log.subsegments).toEqual([
+        expect.objectContaining({
+          name: '## index.handler',
+          annotations: expect.objectContaining({ Service: 'hello-world' }),
+          fault: true,
+          cause: expect.objectContaining({
+            exceptions: [{ message: 'Something went wrong', type: 'Error' }],
+          }),
+          subsegments: [expect.objectContaining({ name: '### getBooking' })],
+        }),
+      ]);
+      expect(log.subsegments[0].subsegments[0]).not.toHaveProperty('metadata');
+    });
+
+    test('when tail sampling is enabled and the handler of an unsampled invocation succeeds, it does not flush the recorded subsegments', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({
+        provider,
+        tailSampling: { output: 'log' },
+      });
+      const lambda = createLambda(tracer);
+
+      // Act
+      await lambda.handler({ fail: false }, context, () => null);
+
+      // Assess
+      expect(console.log).toHaveBeenCalledTimes(0);
+    });
+
+    test('when the invocation is sampled, it does not record its subsegments', async () => {
+      // Prepare
+      process.env._X_AMZN_TRACE_ID =
+        'Root=1-abcdef12-3456abcdef123456abcdef12;Sampled=1';
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ provider, tailSampling: true });
+      const startTailSamplingSpy = jest.spyOn(tracer, 'startTailSampling');
+      const lambda = createLambda(tracer);
+
+      // Act & Assess
+      await expect(
+        lambda.handler({ fail: true }, context, () => null)
+      ).rejects.toThrow('Something went wrong');
+      expect(startTailSamplingSpy).toHaveBeenCalledTimes(1);
+      expect(console.log).toHaveBeenCalledTimes(0);
+    });
+
+    test.each([
+      ['not enabled', { tailSampling: false }],
+      [
+        'enabled but tracing is disabled',
+        { tailSampling: true, enabled: false },
+      ],
+    ])(
+      'when tail sampling is %s, it does not record the subsegments',
+      async (_description, options) => {
+        // Prepare
+        const provider = new RecordingProviderService();
+        const tracer: Tracer = new Tracer({
+          provider,
+          ...options,
+        });
+        const lambda = createLambda(tracer);
+
+        // Act & Assess
+        await expect(
+          lambda.handler({ fail: true }, context, () => null)
+        ).rejects.toThrow('Something went wrong');
+        tracer.startTailSampling(new Subsegment('## index.handler'), context);
+        tracer.stopTailSampling(true);
+        tracer.stopTailSampling();
+        expect(console.log).toHaveBeenCalledTimes(0);
+      }
+    );
+  });
+
+  describe('Timeout watchdog of the handler decorator', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('when the function is about to time out, it closes the handler subsegment and the in-flight subsegments', async () => {
+      // Prepare
+      jest.useFakeTimers();
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({
+        provider,
+        timeoutWatchdog: { timeoutMargin: 234 },
+      });
+      let resolveBooking: () => void = () => null;
+      class Lambda implements LambdaInterface {
+        @tracer.captureMethod()
+        public async getBooking(): Promise<void> {
+          await new Promise<void>((resolve) => {
+            resolveBooking = resolve;
+          });
+        }
+
+        @tracer.captureLambdaHandler()
+        public async handler(
+          _event: unknown,
+          _context: Context
+        ): Promise<void> {
+          await this.getBooking();
+        }
+      }
       const lambda = new Lambda();
-      expect(
-        lambda.handler({}, context, () => console.log('Lambda invoked!'))
-      ).rejects.toThrowError(Error);
-      expect(captureAsyncFuncSpy).toHaveBeenCalledTimes(1);
-      expect(addErrorAsMetadataSpy).toHaveBeenCalledTimes(1);
-      expect(addErrorAsMetadataSpy).toHaveBeenCalledWith(expect.any(Error));
-      expect(addErrorFlagSpy).toHaveBeenCalledTimes(0);
-      expect(addErrorSpy).toHaveBeenCalledTimes(1);
-      expect.assertions(6);
+
+      // Act
+      const invocation = lambda.handler(event, context);
+      jest.advanceTimersByTime(999);
+      const closedBeforeTimeout = provider
+        .getSubsegments()
+        .filter((subsegment) => subsegment.isClosed());
+      jest.advanceTimersByTime(1);
+
+      // Assess
+      expect(closedBeforeTimeout).toHaveLength(0);
+      for (const name of ['## index.handler', '### getBooking']) {
+        provider
+          .expectSubsegment(name)
+          .toHaveAnnotation('Timeout', true)
+          .toHaveMetadata(
+            'in-flight subsegments',
+            ['### getBooking'],
+            'hello-world'
+          )
+          .toBeClosed();
+      }
+      resolveBooking();
+      await invocation;
     });
 
-    test('when used as decorator and with standard config, it annotates ColdStart', async () => {
+    test('when the handler resolves after the function was about to time out, it does not close or flush the subsegments again', async () => {
       // Prepare
-      const tracer: Tracer = new Tracer();
-      const captureAsyncFuncSpy = createCaptureAsyncFuncMock(tracer.provider);
-      const annotateColdStartSpy = jest.spyOn(tracer, 'annotateColdStart');
-
+      jest.useFakeTimers();
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({
+        provider,
+        timeoutWatchdog: { timeoutMargin: 234 },
+      });
+      let resolveBooking: () => void = () => null;
       class Lambda implements LambdaInterface {
+        @tracer.captureMethod()
+        public async getBooking(): Promise<void> {
+          await new Promise<void>((resolve) => {
+            resolveBooking = resolve;
+          });
+        }
+
         @tracer.captureLambdaHandler()
-        public handler(
+        public async handler(
           _event: unknown,
-          _context: Context,
-          callback: Callback<{ foo: string }>
-        ): void {
-          callback(null, { foo: 'bar' });
+          _context: Context
+        ): Promise<void> {
+          await this.getBooking();
+          await tracer.wrap(async () => true, {
+            subSegmentName: '### getFlight',
+          })();
         }
       }
+      const lambda = new Lambda();
 
       // Act
-      new Lambda().handler(event, context, () =>
-        console.log('Lambda invoked!')
-      );
+      const invocation = lambda.handler(event, context);
+      jest.advanceTimersByTime(1000);
+      const spies = provider
+        .getSubsegments()
+        .flatMap((subsegment) => [
+          jest.spyOn(subsegment, 'close'),
+          jest.spyOn(subsegment, 'flush'),
+        ]);
+      resolveBooking();
+      await invocation;
 
       // Assess
-      expect(captureAsyncFuncSpy).toHaveBeenCalledTimes(1);
-      expect(captureAsyncFuncSpy).toHaveBeenCalledWith(
-        '## index.handler',
-        expect.anything()
-      );
-      expect(annotateColdStartSpy).toHaveBeenCalledTimes(1);
+      expect(spies).toHaveLength(4);
+      for (const spy of spies) {
+        expect(spy).not.toHaveBeenCalled();
+      }
+      provider.expectSubsegment('### getFlight').toBeClosed();
     });
 
-    test('when used as decorator and with standard config, it adds the Service annotation', async () => {
+    test('when tail sampling is also enabled, it flushes the recorded subsegments after closing them', async () => {
       // Prepare
-      const tracer: Tracer = new Tracer();
-      const captureAsyncFuncSpy = createCaptureAsyncFuncMock(tracer.provider);
-      const addServiceNameAnnotationSpy = jest.spyOn(
-        tracer,
-        'addServiceNameAnnotation'
-      );
-
+      jest.useFakeTimers();
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({
+        provider,
+        timeoutWatchdog: { timeoutMargin: 234 },
+        tailSampling: { output: 'log', timeoutMargin: 2000 },
+      });
+      let resolveHandler: () => void = () => null;
       class Lambda implements LambdaInterface {
         @tracer.captureLambdaHandler()
-        public handler(
+        public async handler(
           _event: unknown,
-          _context: Context,
-          callback: Callback<{ foo: string }>
-        ): void {
-          callback(null, {
-            foo: 'bar',
+          _context: Context
+        ): Promise<void> {
+          await new Promise<void>((resolve) => {
+            resolveHandler = resolve;
           });
         }
       }
+      const lambda = new Lambda();
 
       // Act
-      new Lambda().handler(event, context, () =>
-        console.log('Lambda invoked!')
-      );
+      const invocation = lambda.handler(event, context);
+      jest.advanceTimersByTime(999);
+      const loggedBeforeTimeout = jest.mocked(console.log).mock.calls.length;
+      jest.advanceTimersByTime(1);
+      resolveHandler();
+      await invocation;
 
       // Assess
-      expect(captureAsyncFuncSpy).toHaveBeenCalledTimes(1);
-      expect(captureAsyncFuncSpy).toHaveBeenCalledWith(
-        '## index.handler',
-        expect.anything()
-      );
-      // The first call is for the Cold Start annotation
-      expect(addServiceNameAnnotationSpy).toHaveBeenCalledTimes(1);
+      expect(loggedBeforeTimeout).toBe(0);
+      expect(console.log).toHaveBeenCalledTimes(1);
+      const log = JSON.parse(jest.mocked(console.log).mock.calls[0][0]);
+      expect(log.tail_sampling_reason).toBe('timeout');
+      expect(log.subsegments).toEqual([
+        expect.objectContaining({
+          name: '## index.handler',
+          end_time: expect.any(Number),
+          annotations: expect.objectContaining({ Timeout: true }),
+        }),
+      ]);
     });
 
-    test('when used as decorator and when calling the handler, it has access to member variables', async () => {
+    test('when the handler completes before the function is about to time out, it does not close the subsegments', async () => {
       // Prepare
-      const tracer: Tracer = new Tracer();
-      const newSubsegment: Segment | Subsegment | undefined = new Subsegment(
-        '### dummyMethod'
-      );
-      jest
-        .spyOn(tracer.provider, 'getSegment')
-        .mockImplementation(() => newSubsegment);
-      setContextMissingStrategy(() => null);
-
+      jest.useFakeTimers();
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ provider, timeoutWatchdog: true });
       class Lambda implements LambdaInterface {
-        private readonly memberVariable: string;
-
-        public constructor(memberVariable: string) {
-          this.memberVariable = memberVariable;
-        }
-
         @tracer.captureLambdaHandler()
         public async handler(
           _event: unknown,
           _context: Context
-        ): Promise<string> {
-          return `memberVariable:${this.memberVariable}`;
+        ): Promise<void> {
+          return;
         }
       }
+      const lambda = new Lambda();
 
-      // Act / Assess
-      const lambda = new Lambda('someValue');
-      const handler = lambda.handler.bind(lambda);
-      expect(await handler({}, context)).toEqual('memberVariable:someValue');
-    });
+      // Act
+      await lambda.handler(event, context);
+      jest.runAllTimers();
 
-    test('when used as decorator on an async method, the method is awaited correctly', async () => {
-      // Prepare
-      const tracer: Tracer = new Tracer();
-      const newSubsegment: Segment | Subsegment | undefined = new Subsegment(
-        '### dummyMethod'
-      );
+      // Assess
+      expect(() =>
+        provider
+          .expectSubsegment('## index.handler')
+          .toHaveAnnotation('Timeout')
+      ).toThrow();
+    });
 
-      jest
-        .spyOn(tracer.provider, 'getSegment')
-        .mockImplementation(() => newSubsegment);
-      setContextMissingStrategy(() => null);
-      const subsegmentCloseSpy = jest
-        .spyOn(newSubsegment, 'close')
-        .mockImplementation();
-      createCaptureAsyncFuncMock(tracer.provider, newSubsegment);
+    test.each([
+      ['not enabled', { timeoutWatchdog: false }],
+      [
+        'enabled but tracing is disabled',
+        { timeoutWatchdog: true, enabled: false },
+      ],
+    ])(
+      'when the timeout watchdog is %s, it does not close the subsegments',
+      (_description, options) => {
+        // Prepare
+        jest.useFakeTimers();
+        const tracer: Tracer = new Tracer({
+          provider: new RecordingProviderService(),
+          ...options,
+        });
+        const subsegment = new Subsegment('## index.handler');
+
+        // Act
+        tracer.startTimeoutWatchdog(subsegment, context);
+        jest.runAllTimers();
+        tracer.stopTimeoutWatchdog();
+
+        // Assess
+        expect(subsegment.isClosed()).toBe(false);
+      }
+    );
+  });
 
+  describe('Capture options of decorators', () => {
+    test('when the decorators are called with capture options, they apply them to the responses and errors', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({
+        provider,
+        captureOptions: { maxSize: 9 },
+      });
       class Lambda implements LambdaInterface {
-        public async dummyMethod(): Promise<void> {
-          return;
+        @tracer.captureMethod()
+        public async cancelBooking(): Promise<void> {
+          throw new Error('Something went wrong');
         }
 
-        @tracer.captureLambdaHandler()
+        @tracer.captureMethod({
+          serializer: (response) => ({ id: (response as { id: number }).id }),
+          maxSize: 1024,
+        })
+        public async getBooking(): Promise<{ id: number; secret: string }> {
+          return { id: 1, secret: 'abc' };
+        }
+
+        @tracer.captureLambdaHandler({ denylist: ['$.secret'], maxSize: 1024 })
         public async handler(
           _event: unknown,
           _context: Context
-        ): Promise<void> {
-          await this.dummyMethod();
-          this.otherDummyMethod();
-
-          return;
-        }
-
-        public otherDummyMethod(): void {
-          return;
+        ): Promise<unknown> {
+          return this.getBooking();
         }
       }
+      const lambda = new Lambda();
 
       // Act
-      const lambda = new Lambda();
-      const otherDummyMethodSpy = jest
-        .spyOn(lambda, 'otherDummyMethod')
-        .mockImplementation();
-      const handler = lambda.handler.bind(lambda);
-      await handler({}, context);
+      await lambda.handler(event, context);
+      await expect(lambda.cancelBooking()).rejects.toThrow(
+        'Something went wrong'
+      );
 
       // Assess
-      // Here we assert that the otherDummyMethodSpy method is called before the cleanup logic (inside the finally of decorator)
-      // that should always be called after the handler has returned. If otherDummyMethodSpy is called after it means the
-      // decorator is NOT awaiting the handler which would cause the test to fail.
-      const dummyCallOrder = subsegmentCloseSpy.mock.invocationCallOrder[0];
-      const otherDummyCallOrder =
-        otherDummyMethodSpy.mock.invocationCallOrder[0];
-      expect(otherDummyCallOrder).toBeLessThan(dummyCallOrder);
+      provider
+        .expectSubsegment('### getBooking')
+        .toHaveMetadata('getBooking response', { id: 1 });
+      provider
+        .expectSubsegment('## index.handler')
+        .toHaveMetadata('index.handler response', { id: 1, secret: '***' });
+      provider
+        .expectSubsegment('### cancelBooking')
+        .toHaveError('Something... [TRUNCATED: 20 bytes]');
     });
   });
 
@@ -992,7 +2061,8 @@ describe('Class: Tracer', () => {
       expect(addResponseAsMetadataSpy).toHaveBeenCalledTimes(1);
       expect(addResponseAsMetadataSpy).toHaveBeenCalledWith(
         'foo bar',
-        'dummyMethod'
+        'dummyMethod',
+        undefined
       );
     });
 
@@ -1470,4 +2540,351 @@ describe('Class: Tracer', () => {
       expect.assertions(4);
     });
   });
+
+  describe('Method: wrap', () => {
+    test('when called while tracing is disabled, it returns a function that calls the original one without tracing it', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ enabled: false, provider });
+      const add = tracer.wrap((a: number, b: number): number => a + b);
+
+      // Act
+      const result = add(1, 2);
+
+      // Assess
+      expect(result).toBe(3);
+      expect(provider.getSubsegments()).toHaveLength(0);
+    });
+
+    test('when the function has no name, it names the subsegment and the metadata after an anonymous function', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ provider });
+      const add = tracer.wrap((a: number, b: number): number => a + b);
+
+      // Act
+      add(1, 2);
+
+      // Assess
+      provider
+        .expectSubsegment('### anonymous')
+        .toHaveMetadata('anonymous response', 3);
+    });
+
+    test('when the function is synchronous, it returns its result synchronously, keeping its name and this', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ provider });
+      const counter = {
+        base: 1,
+        add: tracer.wrap(function add(
+          this: { base: number },
+          value: number
+        ): number {
+          return this.base + value;
+        }),
+      };
+
+      // Act
+      const result = counter.add(2);
+
+      // Assess
+      expect(result).toBe(3);
+      expect(counter.add.name).toBe('add');
+      provider
+        .expectSubsegment('### add')
+        .toHaveMetadata('add response', 3)
+        .toBeClosed();
+    });
+
+    test('when the synchronous function throws, it adds the error to the subsegment and throws it', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ provider });
+      const fail = (): void => {
+        throw new Error('Something went wrong');
+      };
+      const tracedFail = tracer.wrap(fail);
+
+      // Act & Assess
+      expect(() => tracedFail()).toThrow('Something went wrong');
+      provider
+        .expectSubsegment('### fail')
+        .toHaveError('Something went wrong')
+        .toBeClosed();
+    });
+
+    test('when the function is asynchronous, it closes the subsegment when the promise settles, with the nested subsegments as children', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ provider });
+      const getChargeId = async (): Promise<string> => {
+        return 'charge-1';
+      };
+      const tracedGetChargeId = tracer.wrap(getChargeId, {
+        captureResponse: false,
+      });
+      const getBooking = async (
+        id: string
+      ): Promise<{ id: string; chargeId: string }> => {
+        return { id, chargeId: await tracedGetChargeId() };
+      };
+      const tracedGetBooking = tracer.wrap(getBooking, {
+        subSegmentName: '### getBookingById',
+      });
+
+      // Act
+      const result = await tracedGetBooking('booking-1');
+
+      // Assess
+      expect(result).toEqual({ id: 'booking-1', chargeId: 'charge-1' });
+      provider
+        .expectSubsegment('### getBookingById')
+        .toHaveMetadata('getBooking response', result)
+        .toHaveSubsegment('### getChargeId')
+        .toBeClosed();
+      provider.expectSubsegment('### getChargeId').toBeClosed();
+      expect(() =>
+        provider
+          .expectSubsegment('### getChargeId')
+          .toHaveMetadata('getChargeId response')
+      ).toThrow();
+    });
+
+    test('when the asynchronous function rejects, it adds the error to the subsegment and rejects with it', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ provider });
+      const cancelBooking = async (): Promise<void> => {
+        throw new Error('Something went wrong');
+      };
+      const tracedCancelBooking = tracer.wrap(cancelBooking);
+
+      // Act & Assess
+      await expect(tracedCancelBooking()).rejects.toThrow(
+        'Something went wrong'
+      );
+      provider
+        .expectSubsegment('### cancelBooking')
+        .toHaveError('Something went wrong')
+        .toBeClosed();
+    });
+
+    test('when the function is a generator, it closes the subsegment when the generator completes, with the subsegments of its body as children', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ provider });
+      const getPage = (page: number): number => {
+        return page;
+      };
+      const tracedGetPage = tracer.wrap(getPage);
+      const getPages = tracer.wrap(function* getPages(
+        count: number
+      ): Generator<number, string> {
+        for (let page = 1; page <= count; page++) {
+          yield tracedGetPage(page);
+        }
+
+        return 'done';
+      });
+
+      // Act
+      const generator = getPages(2);
+      const first = generator.next();
+      const [subsegment] = provider.getSubsegments('### getPages');
+      const closedAfterFirstPage = subsegment.isClosed();
+      const rest = [...generator];
+
+      // Assess
+      expect(first).toEqual({ value: 1, done: false });
+      expect(rest).toEqual([2]);
+      expect(closedAfterFirstPage).toBe(false);
+      expect(Object.prototype.toString.call(generator)).toBe(
+        '[object Generator]'
+      );
+      expect(provider.getSubsegments('### getPage')).toHaveLength(2);
+      provider
+        .expectSubsegment('### getPages')
+        .toHaveMetadata('getPages response', 'done')
+        .toHaveSubsegment('### getPage')
+        .toBeClosed();
+      expect(generator.next()).toEqual({ value: undefined, done: true });
+    });
+
+    test('when the generator is returned early or throws, it closes the subsegment', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ provider });
+      const listItems = tracer.wrap(function* listItems(): Generator<number> {
+        yield 1;
+        yield 2;
+      });
+      const failing = tracer.wrap(function* failing(): Generator<number> {
+        yield 1;
+        throw new Error('Something went wrong');
+      });
+
+      // Act
+      for (const item of listItems()) {
+        if (item === 1) break;
+      }
+      const generator = failing();
+      generator.next();
+
+      // Assess
+      expect(() => generator.next()).toThrow('Something went wrong');
+      provider.expectSubsegment('### listItems').toBeClosed();
+      provider
+        .expectSubsegment('### failing')
+        .toHaveError('Something went wrong')
+        .toBeClosed();
+    });
+
+    test('when the function is an async generator, it closes the subsegment when the generator completes or rejects', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ provider });
+      const getPage = async (page: number): Promise<number> => {
+        return page;
+      };
+      const tracedGetPage = tracer.wrap(getPage);
+      const getPages = tracer.wrap(
+        async function* getPages(): AsyncGenerator<number> {
+          yield await tracedGetPage(1);
+          yield await tracedGetPage(2);
+        }
+      );
+      const failing = tracer.wrap(
+        async function* failing(): AsyncGenerator<number> {
+          yield 1;
+        }
+      );
+
+      // Act
+      const pages: number[] = [];
+      for await (const page of getPages()) {
+        pages.push(page);
+      }
+      const generator = failing();
+
+      // Assess
+      await expect(generator.throw(new Error('Stop'))).rejects.toThrow('Stop');
+      expect(pages).toEqual([1, 2]);
+      provider
+        .expectSubsegment('### getPages')
+        .toHaveSubsegment('### getPage')
+        .toBeClosed();
+      expect(provider.getSubsegments('### getPage')).toHaveLength(2);
+      provider.expectSubsegment('### failing').toHaveError('Stop').toBeClosed();
+    });
+
+    test('when the function returns an async iterable that is not a generator, it closes the subsegment when the iteration completes', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ provider });
+      const streamItems = tracer.wrap(
+        (): Readable => Readable.from(['a', 'b'], { objectMode: true }),
+        { subSegmentName: '### streamItems' }
+      );
+
+      // Act
+      const stream = streamItems();
+      const [subsegment] = provider.getSubsegments('### streamItems');
+      const closedBeforeReading = subsegment.isClosed();
+      const items: string[] = [];
+      for await (const item of stream) {
+        items.push(item);
+      }
+
+      // Assess
+      expect(stream).toBeInstanceOf(Readable);
+      expect(stream.readableObjectMode).toBe(true);
+      expect(closedBeforeReading).toBe(false);
+      expect(items).toEqual(['a', 'b']);
+      provider.expectSubsegment('### streamItems').toBeClosed();
+    });
+
+    test('when the iterator of the iterable has no return or throw method, it closes the subsegment when it is left or thrown into', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ provider });
+      const createIterator = (): Iterator<number> => {
+        let item = 0;
+
+        return { next: () => ({ value: ++item, done: false }) };
+      };
+      const listItems = tracer.wrap(
+        (): Iterable<number> => ({ [Symbol.iterator]: createIterator }),
+        { subSegmentName: '### listItems' }
+      );
+      const failing = tracer.wrap(
+        (): Iterable<number> => ({ [Symbol.iterator]: createIterator }),
+        { subSegmentName: '### failing' }
+      );
+      const streamItems = tracer.wrap(
+        (): AsyncIterable<number> => ({
+          [Symbol.asyncIterator]: () => {
+            const iterator = createIterator();
+
+            return { next: async () => iterator.next() };
+          },
+        }),
+        { subSegmentName: '### streamItems' }
+      );
+      const failingStream = tracer.wrap(
+        (): AsyncIterable<number> => ({
+          [Symbol.asyncIterator]: () => ({
+            next: async () => ({ value: 1, done: false }),
+          }),
+        }),
+        { subSegmentName: '### failingStream' }
+      );
+
+      // Act
+      for (const item of listItems()) {
+        if (item === 2) break;
+      }
+      const iterator = failing()[Symbol.iterator]();
+      for await (const item of streamItems()) {
+        if (item === 2) break;
+      }
+      const asyncIterator = failingStream()[Symbol.asyncIterator]();
+
+      // Assess
+      expect(() => iterator.throw?.(new Error('Stop'))).toThrow('Stop');
+      await expect(asyncIterator.throw?.(new Error('Stop'))).rejects.toThrow(
+        'Stop'
+      );
+      provider.expectSubsegment('### listItems').toBeClosed();
+      provider.expectSubsegment('### streamItems').toBeClosed();
+      provider.expectSubsegment('### failing').toHaveError('Stop').toBeClosed();
+      provider
+        .expectSubsegment('### failingStream')
+        .toHaveError('Stop')
+        .toBeClosed();
+    });
+
+    test('when the function returns a collection, it closes the subsegment when it returns', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ provider });
+      const readItems = tracer.wrap((): Buffer => Buffer.from('items'), {
+        subSegmentName: '### readItems',
+      });
+      const listItems = tracer.wrap(
+        (): Map<string, number> => new Map([['a', 1]]),
+        { subSegmentName: '### listItems' }
+      );
+
+      // Act
+      const buffer = readItems();
+      const map = listItems();
+
+      // Assess
+      expect(Buffer.isBuffer(buffer)).toBe(true);
+      expect(map).toBeInstanceOf(Map);
+      provider.expectSubsegment('### readItems').toBeClosed();
+      provider.expectSubsegment('### listItems').toBeClosed();
+    });
+  });
 });
@@ -46,6 +46,20 @@ describe('Class: EnvironmentVariablesService', () => {
     });
   });
 
+  describe('Method: getTracerProvider', () => {
+    test('It returns the value of the environment variable POWERTOOLS_TRACER_PROVIDER', () => {
+      // Prepare
+      process.env.POWERTOOLS_TRACER_PROVIDER = 'opentelemetry';
+      const service = new EnvironmentVariablesService();
+
+      // Act
+      const value = service.getTracerProvider();
+
+      // Assess
+      expect(value).toEqual('opentelemetry');
+    });
+  });
+
   describe('Method: getTracingCaptureError', () => {
     test('It returns the value of the environment variable POWERTOOLS_TRACER_CAPTURE_ERROR', () => {
       // Prepare
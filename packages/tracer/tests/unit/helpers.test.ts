@@ -6,7 +6,14 @@
 
 import { ConfigServiceInterface } from '../../src/config';
 import { TracerOptions } from '../../src/types';
-import { createTracer, Tracer } from './../../src';
+import {
+  createTracer,
+  ProviderService,
+  RecordingProviderService,
+  traced,
+  Tracer,
+} from './../../src';
+import { OtelProviderService } from '../../src/otel';
 
 describe('Helper: createTracer function', () => {
   const ENVIRONMENT_VARIABLES = process.env;
@@ -182,6 +189,38 @@ describe('Helper: createTracer function', () => {
       );
     });
 
+    test('when tracing is enabled, it patches the http and https modules and fetch, unless patching of http requests is opted-out', () => {
+      // Prepare
+      const provider = new ProviderService();
+      const captureHTTPsGlobalSpy = jest
+        .spyOn(provider, 'captureHTTPsGlobal')
+        .mockImplementation();
+      const captureFetchGlobalSpy = jest
+        .spyOn(provider, 'captureFetchGlobal')
+        .mockImplementation();
+
+      // Act
+      createTracer({ enabled: true, provider });
+      createTracer({ enabled: true, provider, captureHTTPsRequests: false });
+
+      // Assess
+      expect(captureHTTPsGlobalSpy).toHaveBeenCalledTimes(1);
+      expect(captureFetchGlobalSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('when the provider does not implement captureFetchGlobal, it patches only the http and https modules', () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      Object.defineProperty(provider, 'captureFetchGlobal', {
+        value: undefined,
+      });
+      const captureHTTPsGlobalSpy = jest.spyOn(provider, 'captureHTTPsGlobal');
+
+      // Act & Assess
+      expect(() => createTracer({ provider })).not.toThrow();
+      expect(captureHTTPsGlobalSpy).toHaveBeenCalledTimes(1);
+    });
+
     test('when tracing is enabled captureHTTPsGlobal is true', () => {
       // Prepare
       const tracerOptions = {
@@ -200,6 +239,17 @@ describe('Helper: createTracer function', () => {
         })
       );
     });
+
+    test('when a custom provider is passed, returns a Tracer instance using it', () => {
+      // Prepare
+      const provider = new OtelProviderService();
+
+      // Act
+      const tracer = createTracer({ provider });
+
+      // Assess
+      expect(tracer.provider).toBe(provider);
+    });
   });
 
   describe('Environment Variables configs', () => {
@@ -382,5 +432,94 @@ describe('Helper: createTracer function', () => {
         })
       );
     });
+
+    test('when POWERTOOLS_TRACER_PROVIDER environment variable is set to opentelemetry, a tracer using the OpenTelemetry provider is returned', () => {
+      // Prepare
+      process.env.POWERTOOLS_TRACER_PROVIDER = 'opentelemetry';
+
+      // Act
+      const tracer = createTracer();
+
+      // Assess
+      // The provider is loaded lazily, after the modules are reset
+      expect(tracer.provider).toBeInstanceOf(
+        jest.requireActual('../../src/otel').OtelProviderService
+      );
+    });
+
+    test('when POWERTOOLS_TRACER_PROVIDER environment variable is NOT set, a tracer using the AWS X-Ray provider is returned', () => {
+      // Prepare
+      delete process.env.POWERTOOLS_TRACER_PROVIDER;
+
+      // Act
+      const tracer = createTracer();
+
+      // Assess
+      expect(tracer.provider).toBeInstanceOf(ProviderService);
+    });
+
+    test('when POWERTOOLS_TRACER_PROVIDER environment variable is NOT set, the OpenTelemetry API is not loaded', () => {
+      // Prepare
+      delete process.env.POWERTOOLS_TRACER_PROVIDER;
+      const otelApiFactory = jest.fn(() => ({}));
+
+      // Act
+      jest.isolateModules(() => {
+        jest.doMock('@opentelemetry/api', otelApiFactory);
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const { createTracer } = require('./../../src');
+        createTracer();
+        jest.dontMock('@opentelemetry/api');
+      });
+
+      // Assess
+      expect(otelApiFactory).not.toHaveBeenCalled();
+    });
+
+    test('when the OpenTelemetry provider is used outside of AWS Lambda, tracing is enabled', () => {
+      // Prepare
+      delete process.env.AWS_EXECUTION_ENV;
+      process.env.POWERTOOLS_TRACER_PROVIDER = 'opentelemetry';
+
+      // Act
+      const tracer = createTracer();
+      const tracerWithProvider = createTracer({
+        provider: new OtelProviderService(),
+      });
+      const xrayTracer = createTracer({ provider: new ProviderService() });
+
+      // Assess
+      expect(tracer.isTracingEnabled()).toBe(true);
+      expect(tracerWithProvider.isTracingEnabled()).toBe(true);
+      expect(xrayTracer.isTracingEnabled()).toBe(false);
+    });
+  });
+});
+
+describe('Helper: traced function', () => {
+  test('when called, it returns a wrapper that traces the functions passed to it with the given options', async () => {
+    // Prepare
+    const provider = new RecordingProviderService();
+    const tracer = new Tracer({ provider });
+    const wrapSpy = jest.spyOn(tracer, 'wrap');
+    const getBooking = async (id: string): Promise<{ id: string }> => {
+      return { id };
+    };
+    const tracedGetBooking = traced(tracer, {
+      subSegmentName: '### getBookingById',
+    })(getBooking);
+
+    // Act
+    const booking = await tracedGetBooking('booking-1');
+
+    // Assess
+    expect(booking).toEqual({ id: 'booking-1' });
+    expect(wrapSpy).toHaveBeenCalledWith(expect.any(Function), {
+      subSegmentName: '### getBookingById',
+    });
+    provider
+      .expectSubsegment('### getBookingById')
+      .toHaveMetadata('getBooking response', booking)
+      .toBeClosed();
   });
 });
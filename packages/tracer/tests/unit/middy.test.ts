@@ -5,7 +5,7 @@
  */
 import { captureLambdaHandler } from '../../src/middleware/middy';
 import middy from '@middy/core';
-import { Tracer } from './../../src';
+import { Tracer, annotationPresets } from './../../src';
 import type { Context, Handler } from 'aws-lambda/handler';
 import {
   Segment,
@@ -13,6 +13,18 @@ import {
   Subsegment,
 } from 'aws-xray-sdk-core';
 import { cleanupMiddlewares } from '@aws-lambda-powertools/commons/lib/middleware';
+import { context as otelContext } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import {
+  RecordingProviderService,
+  SubsegmentAssertion,
+} from '../../src/provider';
+import { OtelProviderService } from '../../src/otel';
 
 jest.spyOn(console, 'debug').mockImplementation(() => null);
 jest.spyOn(console, 'warn').mockImplementation(() => null);
@@ -46,6 +58,147 @@ describe('Middy middleware', () => {
     process.env = ENVIRONMENT_VARIABLES;
   });
   describe('Middleware: captureLambdaHandler', () => {
+    test('when used with capture options, it applies them to the response and the error', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ provider });
+      const handler = middy(async (event: { fail?: boolean }) => {
+        if (event.fail) {
+          throw new Error('Something went wrong');
+        }
+
+        return { id: 1, secret: 'abc' };
+      }).use(
+        captureLambdaHandler(tracer, { denylist: ['$.secret'], maxSize: 9 })
+      );
+
+      // Act
+      await handler({}, context);
+      await expect(handler({ fail: true }, context)).rejects.toThrow(
+        'Something went wrong'
+      );
+
+      // Assess
+      const [responseSubsegment, errorSubsegment] = provider.getSubsegments();
+      new SubsegmentAssertion(responseSubsegment).toHaveMetadata(
+        'index.handler response',
+        '{"id":1,"... [TRUNCATED: 23 bytes]'
+      );
+      new SubsegmentAssertion(errorSubsegment).toHaveError(
+        'Something... [TRUNCATED: 20 bytes]'
+      );
+    });
+
+    test('when used with annotations, it adds them to the handler subsegment', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({ provider });
+      const handler = middy(async (): Promise<void> => {
+        return;
+      }).use(
+        captureLambdaHandler(tracer, {
+          annotations: {
+            ...annotationPresets.APPLICATION_LOAD_BALANCER,
+            customerId: 'headers."x-customer-id"',
+          },
+        })
+      );
+
+      // Act
+      await handler(
+        {
+          httpMethod: 'POST',
+          path: '/bookings',
+          headers: { 'x-customer-id': 'c1' },
+        },
+        context
+      );
+
+      // Assess
+      provider
+        .expectSubsegment('## index.handler')
+        .toHaveAnnotation('httpMethod', 'POST')
+        .toHaveAnnotation('path', '/bookings')
+        .toHaveAnnotation('customerId', 'c1');
+    });
+
+    test('when used with tail sampling and the handler of an unsampled invocation fails, it flushes the recorded subsegments', async () => {
+      // Prepare
+      const logSpy = jest.spyOn(console, 'log').mockImplementation(() => null);
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({
+        provider,
+        tailSampling: { output: 'log' },
+      });
+      const handler = middy(async (): Promise<void> => {
+        throw new Error('Something went wrong');
+      }).use(captureLambdaHandler(tracer));
+
+      // Act & Assess
+      await expect(handler({}, context)).rejects.toThrow(
+        'Something went wrong'
+      );
+      expect(logSpy).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(logSpy.mock.calls[0][0])).toEqual(
+        expect.objectContaining({
+          tail_sampling_reason: 'error',
+          subsegments: [
+            expect.objectContaining({
+              name: '## index.handler',
+              end_time: expect.any(Number),
+            }),
+          ],
+        })
+      );
+      logSpy.mockRestore();
+    });
+
+    test('when used with the timeout watchdog and the function is about to time out, it closes the handler subsegment', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({
+        provider,
+        timeoutWatchdog: { timeoutMargin: context.getRemainingTimeInMillis() },
+      });
+      const handler = middy(async (): Promise<void> => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }).use(captureLambdaHandler(tracer));
+
+      // Act
+      await handler({}, context);
+
+      // Assess
+      provider
+        .expectSubsegment('## index.handler')
+        .toHaveAnnotation('Timeout', true)
+        .toHaveMetadata('in-flight subsegments', [])
+        .toBeClosed();
+    });
+
+    test('when used with the timeout watchdog and the handler resolves after the function was about to time out, it does not close the handler subsegment again', async () => {
+      // Prepare
+      const provider = new RecordingProviderService();
+      const tracer: Tracer = new Tracer({
+        provider,
+        timeoutWatchdog: { timeoutMargin: context.getRemainingTimeInMillis() },
+      });
+      let closeSpy: jest.SpyInstance | undefined;
+      const handler = middy(async (): Promise<void> => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        closeSpy = jest.spyOn(
+          provider.getSubsegments('## index.handler')[0],
+          'close'
+        );
+      }).use(captureLambdaHandler(tracer));
+
+      // Act
+      await handler({}, context);
+
+      // Assess
+      expect(closeSpy).toHaveBeenCalledTimes(0);
+      provider.expectSubsegment('## index.handler').toBeClosed();
+    });
+
     test('when used while tracing is disabled, it does nothing', async () => {
       // Prepare
       const tracer: Tracer = new Tracer({ enabled: false });
@@ -368,4 +521,46 @@ describe('Middy middleware', () => {
     expect(setSegmentSpy).toHaveBeenNthCalledWith(2, facadeSegment1);
     expect(setSegmentSpy).toHaveBeenNthCalledWith(4, facadeSegment2);
   });
+
+  test('when used with the OpenTelemetry provider, it creates a span for the handler with annotations and response as attributes', async () => {
+    // Prepare
+    otelContext.setGlobalContextManager(
+      new AsyncLocalStorageContextManager().enable()
+    );
+    const exporter = new InMemorySpanExporter();
+    const tracerProvider = new BasicTracerProvider();
+    tracerProvider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+    const tracer = new Tracer({
+      provider: new OtelProviderService(tracerProvider.getTracer('test')),
+    });
+    class Lambda {
+      @tracer.captureMethod()
+      public async getChargeId(): Promise<string> {
+        return 'charge-id';
+      }
+    }
+    const lambda = new Lambda();
+    const handler = middy(async () => ({
+      chargeId: await lambda.getChargeId(),
+    })).use(captureLambdaHandler(tracer));
+
+    // Act
+    await handler({}, context);
+
+    // Assess
+    const [methodSpan, handlerSpan] = exporter.getFinishedSpans();
+    expect(handlerSpan.name).toBe('## index.handler');
+    expect(handlerSpan.parentSpanId).toBeUndefined();
+    expect(handlerSpan.attributes).toEqual({
+      ColdStart: true,
+      Service: 'hello-world',
+      'metadata.hello-world.index.handler response': '{"chargeId":"charge-id"}',
+    });
+    expect(methodSpan.name).toBe('### getChargeId');
+    expect(methodSpan.parentSpanId).toBe(handlerSpan.spanContext().spanId);
+    expect(methodSpan.attributes).toEqual({
+      'metadata.hello-world.getChargeId response': 'charge-id',
+    });
+    otelContext.disable();
+  });
 });